@@ -14,17 +14,106 @@
  *   7. Mach at target
  *   8. Unit conversions
  *   9. Edge cases
+ *  13. Single-pass trajectory table
+ *  14. Inclined shots (uphill/downhill)
+ *  15. Gyroscopic stability & spin drift
+ *  16. Earth rotation (Coriolis / Eotvos)
+ *  17. Additional drag functions & custom drag curves
+ *  18. Integrators (RK4 vs Euler) & exact target interpolation
+ *  19. Powder temperature sensitivity
+ *  20. Truing (V0 / BC scale from observed drops)
+ *  21. Maximum point-blank range (optimal GEE)
+ *  22. Moving target lead
+ *  23. Monte Carlo hit probability
+ *  24. Ethical maximum range per game species
+ *  25. Minimum expansion velocity
+ *  26. Wind zones along the bullet path
+ *  27. Full-circle wind direction & clock face
+ *  28. Scope turret clicks
+ *  29. Reticle holdover (FFP / SFP)
+ *  30. Zero conditions (zero solved once, not per environment)
+ *  31. Range estimation from target size (mil / MOA)
+ *  32. Unit systems (metric / imperial / mixed)
+ *  33. Translations (de / en / fr / it)
+ *  34. Custom ammunition (input ranges, velocity bands, unverified flag)
+ *  35. Ammunition database sources (European calibres, data sources)
+ *  36. Barrel length (V0 adjustment from the test barrel)
  */
 
 import {
   calculateTrajectory,
+  calculateTrajectoryTable,
   createStandardEnvironment,
   calculatePressureFromAltitude,
+  calculateHorizontalDistance,
+  calculateStabilityFactor,
+  calculateMuzzleVelocity,
+  calculateBarrelLengthAdjustment,
+  calculatePointBlankRange,
+  calculateLead,
+  calculateLeadTable,
+  calculateHitProbability,
+  calculateEthicalRanges,
+  calculateTurretClicks,
+  calculateReticleHold,
+  getReticleScale,
+  estimateRange,
+  getZeroEnvironment,
+  getBulletDiameterMm,
+  getMinExpansionVelocity,
+  calculateExpansionRange,
+  getEffectiveDragModel,
+  getNominalBC,
+  getNominalMuzzleVelocity,
+  resolveDragModel,
+  trueProfile,
   cmToMOA,
   cmToMIL,
 } from '../src/lib/ballistics';
-import { RifleProfile, BallisticEnvironment } from '../src/types';
-import { STANDARD_ATMOSPHERE } from '../src/lib/constants';
+import {
+  RifleProfile,
+  BallisticEnvironment,
+  OpticConfig,
+  CustomAmmunition,
+  CustomAmmunitionDraft,
+} from '../src/types';
+import {
+  STANDARD_ATMOSPHERE,
+  DEFAULT_SHOT_UNCERTAINTY,
+  DEFAULT_VELOCITY_PER_INCH,
+  DEFAULT_MIN_EXPANSION_VELOCITY,
+  GAME_SPECIES,
+  AMMUNITION_MANUFACTURERS,
+} from '../src/lib/constants';
+import { CALIBER_DATABASE } from '../src/lib/ammunition-data';
+import { RETICLES, createCustomReticle, getReticle, CUSTOM_RETICLE_KEY } from '../src/lib/reticle-data';
+import {
+  convertSliderRange,
+  formatCorrection,
+  formatUnit,
+  fromDisplayUnit,
+  getLeadTableDistances,
+  getRangeCardDistances,
+  toDisplayUnit,
+} from '../src/lib/units';
+import {
+  clockToWindAngle,
+  getWindDirectionText,
+  normalizeWindAngle,
+  windAngleToClock,
+} from '../src/lib/wind';
+import { getAmmoCountText, getDataSources } from '../src/lib/ammunition-data';
+import {
+  getCustomAmmunitionForCaliber,
+  normalizeCustomAmmunition,
+  toAmmunitionData,
+  validateCustomAmmunition,
+} from '../src/lib/custom-ammunition';
+import { formatNumber, localize, setLanguage, translate } from '../src/i18n';
+import de from '../src/i18n/de';
+import en from '../src/i18n/en';
+import fr from '../src/i18n/fr';
+import italian from '../src/i18n/it'; // 'it' is taken by jest
 
 // =============================================================================
 // Test Profiles
@@ -241,16 +330,16 @@ describe('2. Wind drift', () => {
     expect(Math.abs(result.drift)).toBeLessThan(1);
   });
 
-  it('300m, 5 m/s crosswind (90 deg): drift should be approximately 5-12 cm', () => {
+  it('300m, 5 m/s crosswind from the right (90 deg): drift should be approximately 10-45 cm to the left', () => {
     const crossWind = createStandardEnvironment(5, 90);
     const result = calculateTrajectory(eldxG7Profile, 300, crossWind);
 
-    // Drift should be positive (right crosswind pushes bullet)
+    // Drift should be negative (wind from the right pushes the bullet left)
     // Physics-based wind model produces ~28cm drift at 300m with 5 m/s crosswind
     // for a G7 bullet. This is higher than simple lag-time estimates because the
     // wind acts on relative velocity throughout the entire flight.
-    expect(result.drift).toBeGreaterThan(10);
-    expect(result.drift).toBeLessThan(45);
+    expect(result.drift).toBeLessThan(-10);
+    expect(result.drift).toBeGreaterThan(-45);
   });
 
   it('drift should increase with distance', () => {
@@ -713,3 +802,1413 @@ describe('12. GEE zero with .300 Win Mag', () => {
     expect(result.drop).toBeLessThan(0); // negative = above sight line
   });
 });
+
+// =============================================================================
+// 13. Single-pass trajectory table
+// =============================================================================
+
+describe('13. calculateTrajectoryTable', () => {
+  const env = createStandardEnvironment(5, 90);
+
+  it('matches calculateTrajectory at every distance', () => {
+    const distances = [0, 25, 100, 175, 300, 500];
+    const table = calculateTrajectoryTable(eldxG7Profile, distances, env);
+
+    expect(table).toHaveLength(distances.length);
+    distances.forEach((distance, i) => {
+      expect(table[i]).toEqual(calculateTrajectory(eldxG7Profile, distance, env));
+    });
+  });
+
+  it('returns results in input order for unsorted distances', () => {
+    const table = calculateTrajectoryTable(basicG1Profile, [300, 100, 200, 100], env);
+
+    expect(table[0]).toEqual(calculateTrajectory(basicG1Profile, 300, env));
+    expect(table[1]).toEqual(calculateTrajectory(basicG1Profile, 100, env));
+    expect(table[2]).toEqual(calculateTrajectory(basicG1Profile, 200, env));
+    expect(table[3]).toEqual(table[1]);
+  });
+
+  it('empty distance list: empty result', () => {
+    expect(calculateTrajectoryTable(basicG1Profile, [], env)).toEqual([]);
+  });
+
+  it('fine 10m steps up to 1000m: one result per distance, drop increasing past zero', () => {
+    const distances = Array.from({ length: 101 }, (_, i) => i * 10);
+    const table = calculateTrajectoryTable(basicG1Profile, distances, env);
+
+    expect(table).toHaveLength(101);
+    for (let i = 21; i < table.length; i++) {
+      expect(table[i].drop).toBeGreaterThan(table[i - 1].drop);
+    }
+  });
+});
+
+// =============================================================================
+// 14. Inclined Shots (uphill/downhill)
+// =============================================================================
+
+describe('14. Inclined shots', () => {
+  const level = createStandardEnvironment();
+
+  it('shotAngle 0 is identical to a level environment', () => {
+    const flat = createStandardEnvironment(5, 90, { shotAngle: 0 });
+    expect(calculateTrajectory(eldxG7Profile, 300, flat))
+      .toEqual(calculateTrajectory(eldxG7Profile, 300, createStandardEnvironment(5, 90)));
+  });
+
+  it('uphill and downhill shots both hit higher than level at 300m', () => {
+    const levelResult = calculateTrajectory(eldxG7Profile, 300, level);
+    const uphill = calculateTrajectory(eldxG7Profile, 300, createStandardEnvironment(0, 90, { shotAngle: 30 }));
+    const downhill = calculateTrajectory(eldxG7Profile, 300, createStandardEnvironment(0, 90, { shotAngle: -30 }));
+
+    expect(uphill.drop).toBeLessThan(levelResult.drop);
+    expect(downhill.drop).toBeLessThan(levelResult.drop);
+  });
+
+  it('steeper angle needs less hold', () => {
+    const at20 = calculateTrajectory(basicG1Profile, 400, createStandardEnvironment(0, 90, { shotAngle: 20 }));
+    const at40 = calculateTrajectory(basicG1Profile, 400, createStandardEnvironment(0, 90, { shotAngle: 40 }));
+    expect(at40.drop).toBeLessThan(at20.drop);
+  });
+
+  it('uphill bullet arrives slower than downhill bullet', () => {
+    const uphill = calculateTrajectory(basicG1Profile, 400, createStandardEnvironment(0, 90, { shotAngle: 30 }));
+    const downhill = calculateTrajectory(basicG1Profile, 400, createStandardEnvironment(0, 90, { shotAngle: -30 }));
+    expect(uphill.velocity).toBeLessThan(downhill.velocity);
+  });
+
+  it('calculateHorizontalDistance: cosine rule', () => {
+    expect(calculateHorizontalDistance(300, 0)).toBeCloseTo(300, 5);
+    expect(calculateHorizontalDistance(300, 60)).toBeCloseTo(150, 5);
+    expect(calculateHorizontalDistance(300, -60)).toBeCloseTo(150, 5);
+  });
+});
+
+// =============================================================================
+// 15. Gyroscopic Stability & Spin Drift
+// =============================================================================
+
+describe('15. Gyroscopic stability & spin drift', () => {
+  const env = createStandardEnvironment();
+
+  /**
+   * .308 Win 168gr Sierra MatchKing, length 1.215", 1:12" twist.
+   * Miller Sg ~1.7-1.9 at standard conditions.
+   */
+  const smkProfile: RifleProfile = {
+    ...basicG1Profile,
+    id: 'test-308-smk',
+    ammunition: {
+      name: '168gr SMK',
+      bulletWeight: 168,
+      ballisticCoefficient: 0.462,
+      muzzleVelocity: 808,
+      bulletLength: 1.215,
+      bulletDiameter: 0.308,
+    },
+    twistRate: 12,
+  };
+
+  it('no twist or bullet dimensions: no stability factor, no spin drift', () => {
+    expect(calculateStabilityFactor(basicG1Profile, env)).toBeNull();
+    const result = calculateTrajectory(basicG1Profile, 300, env);
+    expect(result.stabilityFactor).toBeUndefined();
+    expect(result.spinDrift).toBeUndefined();
+  });
+
+  it('168gr SMK in 1:12": Sg between 1.5 and 2.1', () => {
+    const sg = calculateStabilityFactor(smkProfile, env)!;
+    expect(sg).toBeGreaterThan(1.5);
+    expect(sg).toBeLessThan(2.1);
+  });
+
+  it('faster twist increases Sg', () => {
+    const slow = calculateStabilityFactor(smkProfile, env)!;
+    const fast = calculateStabilityFactor({ ...smkProfile, twistRate: 10 }, env)!;
+    expect(fast).toBeGreaterThan(slow);
+  });
+
+  it('denser (cold) air lowers Sg, thin alpine air raises it', () => {
+    const standard = calculateStabilityFactor(smkProfile, env)!;
+    const cold = calculateStabilityFactor(smkProfile, createStandardEnvironment(0, 90, { temperature: -20 }))!;
+    const alpine = calculateStabilityFactor(smkProfile, createStandardEnvironment(0, 90, { pressure: 820 }))!;
+    expect(cold).toBeLessThan(standard);
+    expect(alpine).toBeGreaterThan(standard);
+  });
+
+  it('right twist: spin drift to the right, growing with distance', () => {
+    const r300 = calculateTrajectory(smkProfile, 300, env);
+    const r500 = calculateTrajectory(smkProfile, 500, env);
+    expect(r300.spinDrift).toBeGreaterThan(0);
+    expect(r500.spinDrift!).toBeGreaterThan(r300.spinDrift!);
+    // ~5-15 cm at 500m for a .308 match bullet
+    expect(r500.spinDrift!).toBeGreaterThan(4);
+    expect(r500.spinDrift!).toBeLessThan(20);
+  });
+
+  it('spin drift is folded into total drift', () => {
+    const result = calculateTrajectory(smkProfile, 400, env);
+    expect(result.drift).toBeCloseTo(result.spinDrift!, 0);
+  });
+
+  it('left twist: spin drift to the left', () => {
+    const result = calculateTrajectory({ ...smkProfile, twistDirection: 'left' }, 400, env);
+    expect(result.spinDrift).toBeLessThan(0);
+    expect(result.drift).toBeLessThan(0);
+  });
+});
+
+// =============================================================================
+// 16. Earth Rotation (Coriolis / Eotvos)
+// =============================================================================
+
+describe('16. Earth rotation', () => {
+  it('no latitude: no Coriolis or Eotvos components', () => {
+    const result = calculateTrajectory(eldxG7Profile, 500, createStandardEnvironment());
+    expect(result.coriolisDrift).toBeUndefined();
+    expect(result.eotvos).toBeUndefined();
+  });
+
+  it('northern hemisphere: Coriolis deflects right, a few cm at 500m', () => {
+    const env = createStandardEnvironment(0, 90, { latitude: 60, azimuth: 0 });
+    const result = calculateTrajectory(eldxG7Profile, 500, env);
+    expect(result.coriolisDrift).toBeGreaterThan(1);
+    expect(result.coriolisDrift).toBeLessThan(5);
+    expect(result.drift).toBeCloseTo(result.coriolisDrift!, 0);
+  });
+
+  it('southern hemisphere: Coriolis deflects left', () => {
+    const env = createStandardEnvironment(0, 90, { latitude: -35, azimuth: 0 });
+    expect(calculateTrajectory(eldxG7Profile, 500, env).coriolisDrift).toBeLessThan(0);
+  });
+
+  it('Eotvos: firing east hits higher than firing west', () => {
+    const east = calculateTrajectory(eldxG7Profile, 500, createStandardEnvironment(0, 90, { latitude: 47, azimuth: 90 }));
+    const west = calculateTrajectory(eldxG7Profile, 500, createStandardEnvironment(0, 90, { latitude: 47, azimuth: 270 }));
+    expect(east.eotvos).toBeGreaterThan(0);
+    expect(west.eotvos).toBeLessThan(0);
+    expect(east.drop).toBeLessThan(west.drop);
+  });
+
+  it('firing north: no Eotvos effect', () => {
+    const result = calculateTrajectory(eldxG7Profile, 500, createStandardEnvironment(0, 90, { latitude: 47, azimuth: 0 }));
+    expect(Math.abs(result.eotvos!)).toBeLessThan(0.05);
+  });
+
+  it('Coriolis is small compared with a 4 m/s crosswind', () => {
+    const env = createStandardEnvironment(4, 90, { latitude: 60, azimuth: 0 });
+    const result = calculateTrajectory(eldxG7Profile, 500, env);
+    expect(Math.abs(result.coriolisDrift!)).toBeLessThan(Math.abs(result.drift) / 5);
+  });
+});
+
+// =============================================================================
+// 17. Additional drag functions & custom drag curves
+// =============================================================================
+
+describe('17. Additional drag functions & custom drag curves', () => {
+  const env = createStandardEnvironment();
+
+  // Same BC for every model, to compare the drag tables themselves
+  const everyModelBC: RifleProfile = {
+    ...basicG1Profile,
+    ammunition: {
+      ...basicG1Profile.ammunition,
+      bcG7: 0.45,
+      bcByModel: { g2: 0.45, g5: 0.45, g6: 0.45, g8: 0.45, gi: 0.45 },
+    },
+  };
+
+  it('every standard G model produces a plausible 300m trajectory', () => {
+    for (const model of ['g1', 'g2', 'g5', 'g6', 'g7', 'g8', 'gi'] as const) {
+      const result = calculateTrajectory({ ...everyModelBC, dragModel: model }, 300, env);
+      expect(result.drop).toBeGreaterThan(10);
+      expect(result.drop).toBeLessThan(80);
+      expect(result.velocity).toBeLessThan(basicG1Profile.ammunition.muzzleVelocity);
+    }
+  });
+
+  it('GI (Ingalls) stays close to G1 for the same BC', () => {
+    const g1 = calculateTrajectory(basicG1Profile, 300, env);
+    const gi = calculateTrajectory({ ...everyModelBC, dragModel: 'gi' }, 300, env);
+    expect(Math.abs(gi.drop - g1.drop) / g1.drop).toBeLessThan(0.1);
+  });
+
+  it('uses bcByModel for the selected model', () => {
+    const withBC: RifleProfile = {
+      ...basicG1Profile,
+      dragModel: 'g5',
+      ammunition: { ...basicG1Profile.ammunition, bcByModel: { g5: 0.6 } },
+    };
+    expect(getEffectiveDragModel(withBC)).toBe('g5');
+    expect(getNominalBC(withBC.ammunition, 'g5')).toBe(0.6);
+  });
+
+  it('a model without its own BC falls back to G1 with the G1 BC', () => {
+    const g1 = calculateTrajectory(basicG1Profile, 500, env);
+    for (const model of ['g2', 'g5', 'g6', 'g7', 'g8', 'gi'] as const) {
+      const withoutBC: RifleProfile = { ...basicG1Profile, dragModel: model };
+      expect(getEffectiveDragModel(withoutBC)).toBe('g1');
+      expect(resolveDragModel(withoutBC.ammunition, model)).toBe('g1');
+      expect(getNominalBC(withoutBC.ammunition, model)).toBe(0.45);
+      expect(calculateTrajectory(withoutBC, 500, env).drop).toBeCloseTo(g1.drop, 5);
+    }
+  });
+
+  const customProfile: RifleProfile = {
+    ...eldxG7Profile,
+    dragModel: 'custom',
+    ammunition: {
+      ...eldxG7Profile.ammunition,
+      bulletDiameter: 0.308,
+      customDragCurve: [
+        [0.5, 0.120], [0.9, 0.125], [1.0, 0.180], [1.2, 0.170], [2.0, 0.140], [3.0, 0.120],
+      ],
+    },
+  };
+
+  it('custom curve: BC is the sectional density', () => {
+    // 178 gr / 7000 / 0.308^2 = 0.268 lb/in^2
+    expect(getNominalBC(customProfile.ammunition, 'custom')).toBeCloseTo(0.268, 3);
+  });
+
+  it('custom curve: higher Cd gives more drop', () => {
+    const draggy: RifleProfile = {
+      ...customProfile,
+      ammunition: {
+        ...customProfile.ammunition,
+        customDragCurve: customProfile.ammunition.customDragCurve!.map(
+          ([mach, cd]) => [mach, cd * 1.5] as [number, number]
+        ),
+      },
+    };
+    const base = calculateTrajectory(customProfile, 500, env);
+    expect(calculateTrajectory(draggy, 500, env).drop).toBeGreaterThan(base.drop);
+    expect(base.drop).toBeGreaterThan(30);
+    expect(base.drop).toBeLessThan(150);
+  });
+
+  it('custom curve without bullet diameter falls back to G1', () => {
+    const noDiameter: RifleProfile = {
+      ...customProfile,
+      ammunition: { ...customProfile.ammunition, bulletDiameter: undefined },
+    };
+    const g1 = calculateTrajectory(eldxG1Profile, 500, env);
+    expect(getEffectiveDragModel(noDiameter)).toBe('g1');
+    expect(getNominalBC(noDiameter.ammunition, 'custom')).toBe(0.552);
+    expect(calculateTrajectory(noDiameter, 500, env).drop).toBeCloseTo(g1.drop, 5);
+  });
+});
+
+// =============================================================================
+// 18. Integrators (RK4 vs Euler) & exact target interpolation
+// =============================================================================
+
+describe('18. Integrators & target interpolation', () => {
+  const env = createStandardEnvironment(4, 90);
+  // Fine-step RK4 as reference solution
+  const reference = (distance: number) =>
+    calculateTrajectory(eldxG7Profile, distance, env, { integrator: 'rk4', timeStep: 0.0002 });
+
+  it('RK4 (default) matches the fine-step reference within 0.2 cm at 1000m', () => {
+    const ref = reference(1000);
+    const rk4 = calculateTrajectory(eldxG7Profile, 1000, env);
+    expect(Math.abs(rk4.drop - ref.drop)).toBeLessThan(0.2);
+    expect(Math.abs(rk4.drift - ref.drift)).toBeLessThan(0.2);
+  });
+
+  it('RK4 is more accurate than Euler at their default steps', () => {
+    const ref = reference(1000);
+    const rk4 = calculateTrajectory(eldxG7Profile, 1000, env, { integrator: 'rk4' });
+    const euler = calculateTrajectory(eldxG7Profile, 1000, env, { integrator: 'euler' });
+    expect(Math.abs(rk4.drop - ref.drop)).toBeLessThan(Math.abs(euler.drop - ref.drop));
+    // Euler still within a few cm
+    expect(Math.abs(euler.drop - ref.drop)).toBeLessThan(5);
+  });
+
+  it('RK4 needs fewer steps and is not slower than Euler', () => {
+    const distances = Array.from({ length: 21 }, (_, i) => i * 50);
+    const time = (integrator: 'rk4' | 'euler') => {
+      const start = Date.now();
+      for (let i = 0; i < 10; i++) {
+        calculateTrajectoryTable(eldxG7Profile, distances, env, { integrator });
+      }
+      return Date.now() - start;
+    };
+    time('rk4'); // warm-up
+    expect(time('rk4')).toBeLessThanOrEqual(time('euler') * 1.5);
+  });
+
+  it('results are interpolated exactly at the target, not at the next step', () => {
+    // 0.3 m apart — less than one integration step
+    const a = calculateTrajectory(eldxG7Profile, 300, env);
+    const b = calculateTrajectory(eldxG7Profile, 300.3, env);
+    expect(b.time).toBeGreaterThan(a.time);
+    expect(b.drop).toBeGreaterThanOrEqual(a.drop);
+  });
+
+  it('standard zero: drop at zero distance is 0 with both integrators', () => {
+    for (const integrator of ['rk4', 'euler'] as const) {
+      const result = calculateTrajectory(eldxStandardZeroProfile, 100, createStandardEnvironment(), { integrator });
+      expect(Math.abs(result.drop)).toBeLessThan(0.05);
+    }
+  });
+});
+
+// =============================================================================
+// 19. Powder temperature sensitivity
+// =============================================================================
+
+describe('19. Powder temperature sensitivity', () => {
+  const sensitiveProfile: RifleProfile = {
+    ...eldxG7Profile,
+    ammunition: { ...eldxG7Profile.ammunition, powderTempReference: 21, powderTempSensitivity: 0.8 },
+  };
+
+  it('no sensitivity: nominal V0 at any temperature', () => {
+    const env = createStandardEnvironment(0, 90, { temperature: -15 });
+    expect(calculateMuzzleVelocity(eldxG7Profile, env)).toBe(792);
+  });
+
+  it('linear in powder temperature around the reference', () => {
+    expect(calculateMuzzleVelocity(sensitiveProfile, createStandardEnvironment(0, 90, { temperature: 21 }))).toBe(792);
+    // -15 deg C: 36 deg below reference -> 28.8 m/s slower
+    expect(calculateMuzzleVelocity(sensitiveProfile, createStandardEnvironment(0, 90, { temperature: -15 })))
+      .toBeCloseTo(763.2, 5);
+    expect(calculateMuzzleVelocity(sensitiveProfile, createStandardEnvironment(0, 90, { temperature: 25 })))
+      .toBeCloseTo(795.2, 5);
+  });
+
+  it('separate powder temperature overrides air temperature', () => {
+    const env = createStandardEnvironment(0, 90, { temperature: -15, powderTemperature: 21 });
+    expect(calculateMuzzleVelocity(sensitiveProfile, env)).toBe(792);
+  });
+
+  it('profile values override the ammunition', () => {
+    const trued: RifleProfile = { ...sensitiveProfile, powderTempSensitivity: 0.2, powderTempReference: 11 };
+    expect(calculateMuzzleVelocity(trued, createStandardEnvironment(0, 90, { temperature: 1 }))).toBeCloseTo(790, 5);
+  });
+
+  it('cold powder: slower bullet hits lower', () => {
+    const env = { temperature: 5 };
+    const cold = calculateTrajectory(sensitiveProfile, 300, createStandardEnvironment(0, 90, { ...env, powderTemperature: -15 }));
+    const warm = calculateTrajectory(sensitiveProfile, 300, createStandardEnvironment(0, 90, { ...env, powderTemperature: 25 }));
+    expect(cold.velocity).toBeLessThan(warm.velocity);
+    expect(cold.drop).toBeGreaterThan(warm.drop);
+  });
+});
+
+// =============================================================================
+// 20. Truing (V0 / BC scale from observed drops)
+// =============================================================================
+
+describe('20. Truing', () => {
+  const env = createStandardEnvironment();
+  // Drops "observed" with a rifle that is really 30 m/s slower than published
+  const slowRifle: RifleProfile = { ...eldxG7Profile, muzzleVelocity: 762 };
+  const observed = [300, 500].map(distance => ({
+    distance,
+    drop: calculateTrajectory(slowRifle, distance, env).drop,
+  }));
+
+  it('profile V0 overrides the ammunition V0', () => {
+    expect(getNominalMuzzleVelocity(eldxG7Profile)).toBe(792);
+    expect(getNominalMuzzleVelocity(slowRifle)).toBe(762);
+    expect(calculateTrajectory(slowRifle, 500, env).drop)
+      .toBeGreaterThan(calculateTrajectory(eldxG7Profile, 500, env).drop);
+  });
+
+  it('recovers the real V0 from observed drops', () => {
+    const result = trueProfile(eldxG7Profile, observed, env, 'muzzleVelocity');
+    expect(result.parameter).toBe('muzzleVelocity');
+    expect(result.value).toBeCloseTo(762, 0);
+    expect(result.rmsError).toBeLessThan(0.2);
+  });
+
+  it('single observation: BC scale fit matches the drop exactly', () => {
+    const result = trueProfile(eldxG7Profile, [observed[1]], env, 'bcScale');
+    expect(result.value).toBeLessThan(1); // more drop than predicted -> lower BC
+    expect(result.rmsError).toBeLessThan(0.1);
+    const trued = calculateTrajectory({ ...eldxG7Profile, bcScale: result.value }, 500, env);
+    expect(trued.drop).toBeCloseTo(observed[1].drop, 0);
+  });
+
+  it('no observations: keeps the current value', () => {
+    const result = trueProfile(slowRifle, [], env, 'muzzleVelocity');
+    expect(result.value).toBe(762);
+    expect(result.rmsError).toBe(0);
+  });
+});
+
+// =============================================================================
+// 21. Maximum point-blank range (optimal GEE)
+// =============================================================================
+
+describe('21. Maximum point-blank range', () => {
+  const env = createStandardEnvironment();
+  const pbr = calculatePointBlankRange(eldxG7Profile, 4, env);
+
+  it('orders near zero < apex < far zero < MPBR', () => {
+    expect(pbr.nearZero).toBeGreaterThan(0);
+    expect(pbr.nearZero).toBeLessThan(pbr.maxOrdinateDistance);
+    expect(pbr.maxOrdinateDistance).toBeLessThan(pbr.farZero);
+    expect(pbr.farZero).toBeLessThan(pbr.pointBlankRange);
+  });
+
+  it('.308 178gr ELD-X, +-4 cm: far zero ~160-170 m, MPBR ~190 m', () => {
+    expect(pbr.farZero).toBeGreaterThan(155);
+    expect(pbr.farZero).toBeLessThan(175);
+    expect(pbr.pointBlankRange).toBeGreaterThan(180);
+    expect(pbr.pointBlankRange).toBeLessThan(200);
+    // Apex near 100 m: the classic GEE of +4 cm at 100 m is already optimal here
+    expect(pbr.sightInDistance).toBe(100);
+    expect(pbr.sightInOffset).toBeCloseTo(4, 0);
+  });
+
+  it('sighting in with the computed offset reproduces the trajectory', () => {
+    const profile: RifleProfile = { ...eldxG7Profile, zeroType: 'gee', zeroOffset: pbr.sightInOffset };
+    const [apex, farZero, limit] = calculateTrajectoryTable(
+      profile,
+      [pbr.maxOrdinateDistance, pbr.farZero, pbr.pointBlankRange],
+      env
+    );
+    expect(apex.drop).toBeCloseTo(-4, 0);
+    expect(Math.abs(farZero.drop)).toBeLessThan(0.5);
+    expect(limit.drop).toBeCloseTo(4, 0);
+  });
+
+  it('a larger allowed deviation extends the point-blank range', () => {
+    const wide = calculatePointBlankRange(eldxG7Profile, 6, env);
+    expect(wide.pointBlankRange).toBeGreaterThan(pbr.pointBlankRange);
+    expect(wide.sightInOffset).toBeGreaterThan(pbr.sightInOffset);
+  });
+
+  it('GEE without stored offset keeps the classic +4 cm', () => {
+    const legacy = calculateTrajectory(eldxG7Profile, 100, env);
+    const explicit = calculateTrajectory({ ...eldxG7Profile, zeroOffset: 4 }, 100, env);
+    expect(legacy.drop).toBe(explicit.drop);
+    expect(legacy.drop).toBeCloseTo(-4, 1);
+  });
+});
+
+// =============================================================================
+// 22. Moving target lead
+// =============================================================================
+
+describe('22. Moving target lead', () => {
+  const env = createStandardEnvironment();
+  const running = 30 / 3.6; // 30 km/h in m/s
+
+  it('lead = crossing speed x time of flight', () => {
+    const lead = calculateLead(eldxG7Profile, 50, running, 90, 1.4, env);
+    const trajectory = calculateTrajectory(eldxG7Profile, 50, env);
+    expect(lead.time).toBe(trajectory.time);
+    expect(lead.lead).toBeCloseTo(running * trajectory.time * 100, 0);
+  });
+
+  it('.308 at 50 m, running boar: ~55-60 cm, ~0.4 body lengths', () => {
+    const lead = calculateLead(eldxG7Profile, 50, running, 90, 1.4, env);
+    expect(lead.lead).toBeGreaterThan(50);
+    expect(lead.lead).toBeLessThan(65);
+    expect(lead.bodyLengths).toBeCloseTo(lead.lead / 140, 1);
+    expect(lead.mil).toBeCloseTo(cmToMIL(lead.lead, 50), 0);
+  });
+
+  it('scales with the sine of the crossing angle', () => {
+    const crossing = calculateLead(eldxG7Profile, 80, running, 90, 1.4, env);
+    const oblique = calculateLead(eldxG7Profile, 80, running, 30, 1.4, env);
+    const headOn = calculateLead(eldxG7Profile, 80, running, 0, 1.4, env);
+    expect(oblique.lead).toBeCloseTo(crossing.lead / 2, -1);
+    expect(headOn.lead).toBe(0);
+  });
+
+  it('table matches single calls and grows with distance', () => {
+    const distances = [30, 60, 100];
+    const table = calculateLeadTable(eldxG7Profile, distances, running, 90, 1.4, env);
+    expect(table.map(l => l.distance)).toEqual(distances);
+    expect(table[1]).toEqual(calculateLead(eldxG7Profile, 60, running, 90, 1.4, env));
+    expect(table[0].lead).toBeLessThan(table[1].lead);
+    expect(table[1].lead).toBeLessThan(table[2].lead);
+  });
+});
+
+// =============================================================================
+// 23. Monte Carlo hit probability
+// =============================================================================
+
+describe('23. Monte Carlo hit probability', () => {
+  const env = createStandardEnvironment(0, 90);
+  const none = { muzzleVelocitySD: 0, bcUncertainty: 0, dispersion: 0, rangeErrorSD: 0, windSpeedSD: 0 };
+
+  it('no uncertainty: every shot hits the point of aim', () => {
+    const result = calculateHitProbability(eldxG7Profile, 200, 20, none, env, { samples: 50 });
+    expect(result.hitProbability).toBe(1);
+    expect(result.impacts).toHaveLength(50);
+    expect(Math.abs(result.meanY)).toBeLessThan(0.2);
+    expect(result.sdY).toBeLessThan(0.2);
+  });
+
+  it('dispersion only: matches the circular normal distribution', () => {
+    // 1 MOA per axis at 200 m = 5.8 cm; P(r < 10 cm) = 1 - exp(-r^2 / 2 sigma^2) = 0.77
+    const result = calculateHitProbability(
+      eldxG7Profile, 200, 20, { ...none, dispersion: 1 }, env, { samples: 1000 }
+    );
+    expect(result.hitProbability).toBeGreaterThan(0.72);
+    expect(result.hitProbability).toBeLessThan(0.82);
+    expect(result.sdX).toBeCloseTo(5.8, 0);
+  });
+
+  it('hit probability falls with distance', () => {
+    const near = calculateHitProbability(eldxG7Profile, 100, 20, DEFAULT_SHOT_UNCERTAINTY, env, { samples: 300 });
+    const far = calculateHitProbability(eldxG7Profile, 300, 20, DEFAULT_SHOT_UNCERTAINTY, env, { samples: 300 });
+    expect(near.hitProbability).toBeGreaterThan(0.95);
+    expect(far.hitProbability).toBeLessThan(near.hitProbability);
+  });
+
+  it('range error spreads the impacts vertically, wind error horizontally', () => {
+    const range = calculateHitProbability(eldxG7Profile, 300, 20, { ...none, rangeErrorSD: 20 }, env, { samples: 200 });
+    const wind = calculateHitProbability(eldxG7Profile, 300, 20, { ...none, windSpeedSD: 2 }, env, { samples: 200 });
+    expect(range.sdY).toBeGreaterThan(range.sdX);
+    expect(wind.sdX).toBeGreaterThan(wind.sdY);
+  });
+
+  it('same seed gives the same scatter', () => {
+    const a = calculateHitProbability(eldxG7Profile, 250, 20, DEFAULT_SHOT_UNCERTAINTY, env, { samples: 50, seed: 7 });
+    const b = calculateHitProbability(eldxG7Profile, 250, 20, DEFAULT_SHOT_UNCERTAINTY, env, { samples: 50, seed: 7 });
+    expect(a).toEqual(b);
+  });
+});
+
+// =============================================================================
+// 24. Ethical maximum range per game species
+// =============================================================================
+
+describe('24. Ethical maximum range', () => {
+  const env = createStandardEnvironment();
+  const byKey = (profile: RifleProfile) =>
+    Object.fromEntries(calculateEthicalRanges(profile, env).map(r => [r.species, r]));
+
+  it('.308 178gr ELD-X: 2000 J to ~315 m, 1000 J to ~635 m', () => {
+    const ranges = byKey(eldxG7Profile);
+    expect(ranges.wildBoar.maxRange).toBeGreaterThan(300);
+    expect(ranges.wildBoar.maxRange).toBeLessThan(330);
+    expect(ranges.roeDeer.maxRange).toBeGreaterThan(ranges.fallowDeer.maxRange);
+    expect(ranges.fallowDeer.maxRange).toBeGreaterThan(ranges.wildBoar.maxRange);
+    expect(Object.values(ranges).every(r => r.legal)).toBe(true);
+  });
+
+  it('energy at the maximum range still reaches the minimum, 5 m further it does not', () => {
+    const { wildBoar } = byKey(eldxG7Profile);
+    const [atLimit, beyond] = calculateTrajectoryTable(
+      eldxG7Profile, [wildBoar.maxRange, wildBoar.maxRange + 5], env
+    );
+    expect(atLimit.energy).toBeGreaterThanOrEqual(2000);
+    expect(beyond.energy).toBeLessThan(2000);
+  });
+
+  it('.243 Win: legal for roe deer only (calibre below 6.5 mm)', () => {
+    const ranges = byKey({ ...basicG1Profile, caliber: '.243 Winchester' });
+    expect(ranges.roeDeer.legal).toBe(true);
+    expect(ranges.redDeer.legal).toBe(false);
+    expect(ranges.redDeer.legalIssue).toBe('caliber');
+  });
+
+  it('weak load misses E200 >= 2000 J and is not legal for red deer', () => {
+    const weak: RifleProfile = {
+      ...basicG1Profile,
+      ammunition: { ...basicG1Profile.ammunition, bulletWeight: 100, muzzleVelocity: 700 },
+    };
+    const ranges = byKey(weak);
+    expect(ranges.redDeer.legal).toBe(false);
+    expect(ranges.redDeer.legalIssue).toBe('energy');
+    expect(ranges.redDeer.maxRange).toBe(0);
+  });
+
+  it('bullet diameter from ammunition data or calibre name', () => {
+    expect(getBulletDiameterMm(basicG1Profile)).toBeCloseTo(7.82, 2);
+    expect(getBulletDiameterMm({ ...basicG1Profile, caliber: '6.5x55 Swedish' })).toBe(6.5);
+    expect(getBulletDiameterMm({ ...basicG1Profile, caliber: '9.3x62mm' })).toBe(9.3);
+    expect(getBulletDiameterMm({ ...basicG1Profile, caliber: '6.5 Creedmoor' })).toBe(6.5);
+    expect(getBulletDiameterMm({
+      ...basicG1Profile,
+      ammunition: { ...basicG1Profile.ammunition, bulletDiameter: 0.264 },
+    })).toBeCloseTo(6.71, 2);
+    expect(getBulletDiameterMm({ ...basicG1Profile, caliber: 'Wildcat' })).toBeNull();
+  });
+});
+
+// =============================================================================
+// 25. Minimum expansion velocity
+// =============================================================================
+
+describe('25. Minimum expansion velocity', () => {
+  const env = createStandardEnvironment();
+
+  it('every database load has a construction and expansion threshold', () => {
+    const loads = CALIBER_DATABASE.flatMap(group => group.ammunition);
+    for (const ammo of loads) {
+      expect(ammo.construction).toBeDefined();
+      expect(ammo.minExpansionVelocity).toBeGreaterThan(400);
+      expect(ammo.minExpansionVelocity).toBeLessThan(ammo.muzzleVelocity);
+    }
+  });
+
+  it('load value first, then construction default, else unknown', () => {
+    const ammo = eldxG7Profile.ammunition;
+    expect(getMinExpansionVelocity(ammo)).toBeNull();
+    expect(getMinExpansionVelocity({ ...ammo, construction: 'monolithic' })).toBe(610);
+    expect(getMinExpansionVelocity({ ...ammo, construction: 'monolithic', minExpansionVelocity: 580 })).toBe(580);
+  });
+
+  it('.308 178gr ELD-X: expansion range ends where impact velocity drops below 549 m/s', () => {
+    const profile: RifleProfile = {
+      ...eldxG7Profile,
+      ammunition: { ...eldxG7Profile.ammunition, minExpansionVelocity: 549 },
+    };
+    // 2600 fps at the muzzle, 1800 fps reached at roughly 400 m
+    const range = calculateExpansionRange(profile, env)!;
+    expect(range).toBeGreaterThan(350);
+    expect(range).toBeLessThan(420);
+    const [atRange, beyond] = calculateTrajectoryTable(profile, [range, range + 5], env);
+    expect(atRange.velocity).toBeGreaterThanOrEqual(549);
+    expect(beyond.velocity).toBeLessThan(549);
+  });
+
+  it('no threshold: no expansion range', () => {
+    expect(calculateExpansionRange(eldxG7Profile, env)).toBeNull();
+  });
+});
+
+// =============================================================================
+// 26. Wind zones along the bullet path
+// =============================================================================
+
+describe('26. Wind zones', () => {
+  const uniform = createStandardEnvironment(5, 90);
+  const calm = createStandardEnvironment(0, 90);
+  const zoned = (windZones: BallisticEnvironment['windZones']): BallisticEnvironment => ({ ...calm, windZones });
+
+  it('a single zone matches the uniform wind', () => {
+    const single = calculateTrajectory(eldxG7Profile, 300, zoned([{ to: 300, speed: 5, angle: 90 }]));
+    const reference = calculateTrajectory(eldxG7Profile, 300, uniform);
+    expect(single.drift).toBe(reference.drift);
+    expect(single.drop).toBe(reference.drop);
+  });
+
+  it('wind near the muzzle drifts more than the same wind near the target', () => {
+    const near = calculateTrajectory(eldxG7Profile, 300, zoned([
+      { to: 150, speed: 5, angle: 90 },
+      { to: 300, speed: 0, angle: 90 },
+    ]));
+    const far = calculateTrajectory(eldxG7Profile, 300, zoned([
+      { to: 150, speed: 0, angle: 90 },
+      { to: 300, speed: 5, angle: 90 },
+    ]));
+    const full = calculateTrajectory(eldxG7Profile, 300, uniform);
+    expect(Math.abs(near.drift)).toBeGreaterThan(Math.abs(far.drift));
+    expect(near.drift + far.drift).toBeCloseTo(full.drift, 0);
+  });
+
+  it('opposing winds in two zones partly cancel', () => {
+    const opposing = calculateTrajectory(eldxG7Profile, 300, zoned([
+      { to: 150, speed: 5, angle: 90 },
+      { to: 300, speed: -5, angle: 90 },
+    ]));
+    const full = calculateTrajectory(eldxG7Profile, 300, uniform);
+    expect(Math.abs(opposing.drift)).toBeLessThan(Math.abs(full.drift) / 2);
+  });
+
+  it('updraft lifts the bullet, downdraft pushes it down', () => {
+    const still = calculateTrajectory(eldxG7Profile, 300, calm);
+    const up = calculateTrajectory(eldxG7Profile, 300, zoned([{ to: 300, speed: 0, angle: 90, vertical: 3 }]));
+    const down = calculateTrajectory(eldxG7Profile, 300, zoned([{ to: 300, speed: 0, angle: 90, vertical: -3 }]));
+    expect(up.drop).toBeLessThan(still.drop);
+    expect(down.drop).toBeGreaterThan(still.drop);
+  });
+
+  it('zones are applied by distance regardless of input order', () => {
+    const ordered = calculateTrajectory(eldxG7Profile, 300, zoned([
+      { to: 100, speed: 2, angle: 90 },
+      { to: 300, speed: 6, angle: 60 },
+    ]));
+    const shuffled = calculateTrajectory(eldxG7Profile, 300, zoned([
+      { to: 300, speed: 6, angle: 60 },
+      { to: 100, speed: 2, angle: 90 },
+    ]));
+    expect(shuffled).toEqual(ordered);
+  });
+});
+
+// =============================================================================
+// 27. Full-circle wind direction & clock face
+// =============================================================================
+
+describe('27. Full-circle wind direction', () => {
+  const drift = (angle: number) =>
+    calculateTrajectory(eldxG7Profile, 300, createStandardEnvironment(5, angle)).drift;
+
+  it('wind from the left (270 deg) mirrors wind from the right', () => {
+    expect(drift(270)).toBeGreaterThan(10);
+    expect(drift(270)).toBeCloseTo(-drift(90), 1);
+  });
+
+  it('quartering winds drift to the side they blow towards', () => {
+    expect(drift(45)).toBeLessThan(0);
+    expect(drift(135)).toBeLessThan(0);
+    expect(drift(225)).toBeGreaterThan(0);
+    expect(drift(315)).toBeGreaterThan(0);
+    expect(Math.abs(drift(45))).toBeLessThan(Math.abs(drift(90)));
+  });
+
+  it('angles wrap around the full circle', () => {
+    expect(drift(360)).toBeCloseTo(drift(0), 5);
+    expect(drift(-90)).toBeCloseTo(drift(270), 5);
+  });
+
+  it('headwind hits lower than tailwind', () => {
+    const head = calculateTrajectory(eldxG7Profile, 400, createStandardEnvironment(10, 0));
+    const tail = calculateTrajectory(eldxG7Profile, 400, createStandardEnvironment(10, 180));
+    expect(head.drop).toBeGreaterThan(tail.drop);
+    expect(head.velocity).toBeLessThan(tail.velocity);
+  });
+
+  it('clock hours map to wind angles', () => {
+    expect(clockToWindAngle(12)).toBe(0);
+    expect(clockToWindAngle(3)).toBe(90);
+    expect(clockToWindAngle(6)).toBe(180);
+    expect(clockToWindAngle(9)).toBe(270);
+    expect(windAngleToClock(0)).toBe(12);
+    expect(windAngleToClock(270)).toBe(9);
+    expect(windAngleToClock(350)).toBe(12);
+    expect(normalizeWindAngle(-30)).toBe(330);
+  });
+
+  it('direction text names the side the wind comes from', () => {
+    expect(getWindDirectionText(90)).toBe('von rechts (3 Uhr)');
+    expect(getWindDirectionText(270)).toBe('von links (9 Uhr)');
+    expect(getWindDirectionText(0)).toBe('Gegenwind (12 Uhr)');
+    expect(getWindDirectionText(315)).toBe('45° von links vorne');
+    expect(getWindDirectionText(210)).toBe('30° von links hinten (7 Uhr)');
+  });
+});
+
+// =============================================================================
+// 28. Scope turret clicks
+// =============================================================================
+
+describe('28. Scope turret clicks', () => {
+  const mil: OpticConfig = { clickValue: 'tenthMil', elevationTravel: 200 };
+
+  it('0.1 mrad clicks: 3 cm per click at 300 m, rounded to whole clicks', () => {
+    const clicks = calculateTurretClicks({ drop: 35, drift: -12 }, 300, mil);
+    expect(clicks.elevation).toBe(12);
+    expect(clicks.windage).toBe(4); // drift to the left is dialed right
+  });
+
+  it('1/4 MOA clicks: 0.727 cm per click at 100 m', () => {
+    const clicks = calculateTurretClicks({ drop: 35, drift: 6.5 }, 300, { ...mil, clickValue: 'quarterMoa' });
+    expect(clicks.elevation).toBe(16);
+    expect(clicks.windage).toBe(-3);
+  });
+
+  it('standard zero needs no clicks at the zero distance, GEE dials down', () => {
+    const calm = createStandardEnvironment(0, 90);
+    const standard: RifleProfile = { ...eldxG7Profile, zeroType: 'standard' };
+    const atZero = calculateTurretClicks(calculateTrajectory(standard, 100, calm), 100, mil);
+    expect(atZero.elevation).toBe(0);
+    expect(atZero.windage).toBe(0);
+    // GEE zero sits 4 cm high at 100 m: 4 clicks down to hit the point of aim
+    const gee = calculateTurretClicks(calculateTrajectory(eldxG7Profile, 100, calm), 100, mil);
+    expect(gee.elevation).toBe(-4);
+  });
+
+  it('warns against the elevation left above the zero', () => {
+    const far = calculateTrajectory(eldxG7Profile, 700, createStandardEnvironment(0, 90));
+    const needed = calculateTurretClicks(far, 700, mil).elevation;
+    const clicks = calculateTurretClicks(far, 700, { ...mil, elevationAboveZero: needed - 1 });
+    expect(clicks.elevationAvailable).toBe(needed - 1);
+    expect(clicks.exceedsElevation).toBe(true);
+    expect(calculateTurretClicks(far, 700, { ...mil, elevationAboveZero: needed }).exceedsElevation).toBe(false);
+
+    // Zeroed high in the travel: only the rest is left below the zero
+    const below = { drop: -60, drift: 0 };
+    expect(calculateTurretClicks(below, 100, { ...mil, elevationAboveZero: 150 }).belowZeroStop).toBe(true);
+    expect(calculateTurretClicks(below, 100, { ...mil, elevationAboveZero: 100 }).belowZeroStop).toBe(false);
+  });
+
+  it('optics without the elevation above the zero count half the travel', () => {
+    const short: OpticConfig = { ...mil, elevationTravel: 100 };
+    const far = calculateTrajectory(eldxG7Profile, 700, createStandardEnvironment(0, 90));
+    const clicks = calculateTurretClicks(far, 700, short);
+    expect(clicks.elevationAvailable).toBe(50);
+    expect(clicks.elevation).toBeGreaterThan(50);
+    expect(clicks.exceedsElevation).toBe(true);
+    expect(calculateTurretClicks(far, 700, { ...mil, elevationTravel: 400 }).exceedsElevation).toBe(false);
+  });
+
+  it('zero stop limits dialing below the zero', () => {
+    const below = { drop: -3, drift: 0 };
+    expect(calculateTurretClicks(below, 100, mil).belowZeroStop).toBe(false);
+    expect(calculateTurretClicks(below, 100, { ...mil, zeroStop: 0 }).belowZeroStop).toBe(true);
+    expect(calculateTurretClicks(below, 100, { ...mil, zeroStop: 5 }).belowZeroStop).toBe(false);
+  });
+});
+
+// =============================================================================
+// 29. Reticle holdover (FFP / SFP)
+// =============================================================================
+
+describe('29. Reticle holdover', () => {
+  const milDotFfp = RETICLES.find(r => r.key === 'milDotFfp')!;
+  const milDotSfp = RETICLES.find(r => r.key === 'milDotSfp')!;
+
+  it('FFP subtensions hold at every magnification, SFP only at the reference', () => {
+    expect(getReticleScale(milDotFfp, 4)).toBe(1);
+    expect(getReticleScale(milDotSfp, 10)).toBe(1);
+    expect(getReticleScale(milDotSfp, 5)).toBe(2);
+  });
+
+  it('picks the nearest elevation and windage marks', () => {
+    // 300 m: 1 mrad = 30 cm. 62 cm drop = 2.07 mrad, 28 cm drift right = 0.93 mrad
+    const hold = calculateReticleHold({ drop: 62, drift: 28 }, 300, milDotFfp, 6);
+    expect(hold.elevationMark).toBe(1); // second dot
+    expect(hold.markY).toBeCloseTo(2, 5);
+    expect(hold.windageMark).toBe(0);
+    expect(hold.markX).toBeCloseTo(1, 5);
+    expect(hold.errorY).toBeCloseTo(2, 1);
+    expect(hold.errorX).toBeCloseTo(-2, 1);
+  });
+
+  it('drift to the left holds on the left marks', () => {
+    const hold = calculateReticleHold({ drop: 0, drift: -60 }, 300, milDotFfp, 6);
+    expect(hold.markX).toBeCloseTo(-2, 5);
+    expect(hold.elevationMark).toBe(-1);
+  });
+
+  it('SFP at half the reference magnification doubles the mark subtension', () => {
+    // 2 mrad needed: the first dot covers 2 mrad at 5x
+    const hold = calculateReticleHold({ drop: 60, drift: 0 }, 300, milDotSfp, 5);
+    expect(hold.scale).toBe(2);
+    expect(hold.elevationMark).toBe(0);
+    expect(hold.markY).toBeCloseTo(2, 5);
+    expect(calculateReticleHold({ drop: 60, drift: 0 }, 300, milDotSfp, 10).elevationMark).toBe(1);
+  });
+
+  it('hold above the center (GEE inside the zero) stays on the crosshair', () => {
+    const hold = calculateReticleHold({ drop: -4, drift: 0 }, 100, milDotFfp, 6);
+    expect(hold.elevationMark).toBe(-1);
+    expect(hold.errorY).toBeCloseTo(-4, 1);
+  });
+
+  it('custom reticle from an even spacing, selected through the optic', () => {
+    const custom = createCustomReticle('sfp', 8, 0.75, 4, 2);
+    expect(custom.elevationMarks).toEqual([0.75, 1.5, 2.25, 3]);
+    expect(custom.windageMarks).toEqual([0.75, 1.5]);
+    const optic: OpticConfig = { clickValue: 'tenthMil', elevationTravel: 200, reticle: CUSTOM_RETICLE_KEY, customReticle: custom };
+    expect(getReticle(optic)).toBe(custom);
+    expect(getReticle({ ...optic, reticle: 'milDotFfp' })).toBe(milDotFfp);
+    expect(getReticle({ clickValue: 'tenthMil', elevationTravel: 200 })).toBeNull();
+  });
+});
+
+// =============================================================================
+// 30. Zero conditions (zero solved once, not per environment)
+// =============================================================================
+
+describe('30. Zero conditions', () => {
+  const standardZero: RifleProfile = { ...eldxG7Profile, zeroDistance: 200, zeroType: 'standard' };
+  const summerValley = {
+    temperature: 25,
+    altitude: 400,
+    pressure: calculatePressureFromAltitude(400),
+    humidity: 0.5,
+  };
+  const winterAlp = { ...summerValley, temperature: -10, altitude: 1800, pressure: calculatePressureFromAltitude(1800) };
+  const winterEnv = createStandardEnvironment(0, 90, winterAlp);
+
+  it('in its zero conditions the rifle hits the point of aim at the zero distance', () => {
+    const profile: RifleProfile = { ...standardZero, zeroConditions: summerValley };
+    const result = calculateTrajectory(profile, 200, createStandardEnvironment(0, 90, summerValley));
+    expect(Math.abs(result.drop)).toBeLessThan(0.1);
+  });
+
+  it('in other conditions the point of impact at the zero distance moves', () => {
+    const zeroedInSummer: RifleProfile = { ...standardZero, zeroConditions: summerValley };
+    const zeroedOnSite: RifleProfile = { ...standardZero, zeroConditions: winterAlp };
+    const shifted = calculateTrajectory(zeroedInSummer, 200, winterEnv);
+    const onSite = calculateTrajectory(zeroedOnSite, 200, winterEnv);
+    expect(Math.abs(onSite.drop)).toBeLessThan(0.1);
+    // Thinner air at altitude outweighs the cold: the summer zero hits high
+    expect(shifted.drop).toBeLessThan(-0.2);
+    expect(calculateTrajectory(zeroedInSummer, 400, winterEnv).drop)
+      .toBeLessThan(calculateTrajectory(zeroedOnSite, 400, winterEnv).drop);
+  });
+
+  it('without stored conditions the rifle is zeroed in the standard atmosphere', () => {
+    const explicit: RifleProfile = { ...standardZero, zeroConditions: { ...STANDARD_ATMOSPHERE } };
+    expect(calculateTrajectory(explicit, 300, winterEnv)).toEqual(calculateTrajectory(standardZero, 300, winterEnv));
+    expect(getZeroEnvironment(standardZero).temperature).toBe(STANDARD_ATMOSPHERE.temperature);
+    expect(Math.abs(calculateTrajectory(standardZero, 200, winterEnv).drop)).toBeGreaterThan(0.2);
+  });
+
+  it('powder temperature at zeroing sets the zero muzzle velocity', () => {
+    const sensitive: RifleProfile = {
+      ...standardZero,
+      ammunition: { ...standardZero.ammunition, powderTempReference: 21, powderTempSensitivity: 0.8 },
+    };
+    const atReference: RifleProfile = { ...sensitive, zeroConditions: { ...STANDARD_ATMOSPHERE, powderTemperature: 21 } };
+    const coldPowder: RifleProfile = { ...sensitive, zeroConditions: { ...STANDARD_ATMOSPHERE, powderTemperature: -5 } };
+    const env = createStandardEnvironment(0, 90, { powderTemperature: 21 });
+    // Zeroed with nominal V0 in both the default and the explicit reference case
+    expect(calculateTrajectory(atReference, 200, env).drop).toBe(calculateTrajectory(sensitive, 200, env).drop);
+    // Zeroed with slow cold powder: with warm powder the bullet is faster and hits high
+    expect(calculateTrajectory(coldPowder, 200, env).drop).toBeLessThan(-0.5);
+  });
+});
+
+// =============================================================================
+// 31. Range estimation from target size (mil / MOA)
+// =============================================================================
+
+describe('31. Range estimation', () => {
+  it('roe deer chest (40 cm) at 2 mil is 200 m', () => {
+    const roeDeer = GAME_SPECIES.find(g => g.key === 'roeDeer')!;
+    expect(estimateRange(roeDeer.chestDepth, 2, 'mil').distance).toBe(200);
+  });
+
+  it('MOA readings use 2.908 cm per MOA at 100 m', () => {
+    // 40 cm / (4 MOA * 2.908 cm) * 100 m = 343.9 m
+    expect(estimateRange(0.4, 4, 'moa').distance).toBe(344);
+    // Same angle in both units gives the same distance
+    expect(estimateRange(0.5, cmToMOA(50, 250), 'moa').distance).toBe(250);
+  });
+
+  it('uncertainty band brackets the estimate and grows with the reading error', () => {
+    const estimate = estimateRange(0.4, 2, 'mil', 0.1, 0.1);
+    // 36 cm at 2.1 mil, 44 cm at 1.9 mil
+    expect(estimate.minDistance).toBe(171);
+    expect(estimate.maxDistance).toBe(232);
+
+    const coarse = estimateRange(0.4, 2, 'mil', 0.3, 0.1);
+    expect(coarse.minDistance).toBeLessThan(estimate.minDistance);
+    expect(coarse.maxDistance).toBeGreaterThan(estimate.maxDistance);
+  });
+
+  it('small readings widen the band much more on the far side', () => {
+    const far = estimateRange(0.4, 1, 'mil', 0.1, 0);
+    expect(far.distance - far.minDistance).toBeLessThan(far.maxDistance - far.distance);
+  });
+
+  it('without errors the band collapses; a reading within the error has no upper bound', () => {
+    const exact = estimateRange(0.4, 2, 'mil', 0, 0);
+    expect(exact.minDistance).toBe(exact.distance);
+    expect(exact.maxDistance).toBe(exact.distance);
+    expect(estimateRange(0.4, 0.1, 'mil', 0.1).maxDistance).toBe(Infinity);
+  });
+});
+
+// =============================================================================
+// 32. Unit systems (metric / imperial / mixed)
+// =============================================================================
+
+describe('32. Unit systems', () => {
+  it('converts the base units to imperial display units', () => {
+    expect(toDisplayUnit(100, 'distance', 'imperial')).toBeCloseTo(109.36, 2);
+    expect(toDisplayUnit(2.54, 'length', 'imperial')).toBeCloseTo(1, 6);
+    expect(toDisplayUnit(800, 'velocity', 'imperial')).toBeCloseTo(2624.7, 1);
+    expect(toDisplayUnit(3000, 'energy', 'imperial')).toBeCloseTo(2212.7, 1);
+    expect(toDisplayUnit(1013.25, 'pressure', 'imperial')).toBeCloseTo(29.92, 2);
+    expect(toDisplayUnit(-40, 'temperature', 'imperial')).toBeCloseTo(-40, 6);
+    expect(toDisplayUnit(100, 'temperature', 'imperial')).toBeCloseTo(212, 6);
+  });
+
+  it('bullet weight is stored in grains and shown in grams in metric', () => {
+    expect(formatUnit(150, 'weight', 'metric')).toBe('9,7 g');
+    expect(formatUnit(150, 'weight', 'imperial')).toBe('150 gr');
+  });
+
+  it('display values convert back to the base unit', () => {
+    for (const quantity of ['distance', 'length', 'velocity', 'windSpeed', 'targetSpeed', 'energy', 'temperature', 'tempSensitivity', 'pressure', 'altitude'] as const) {
+      expect(fromDisplayUnit(toDisplayUnit(123.4, quantity, 'imperial'), quantity, 'imperial')).toBeCloseTo(123.4, 6);
+    }
+  });
+
+  it('mixed shows ballistics in imperial and weather in metric', () => {
+    expect(formatUnit(100, 'distance', 'mixed')).toBe('109 yd');
+    expect(formatUnit(15, 'temperature', 'mixed')).toBe('15 °C');
+    expect(formatUnit(1013, 'pressure', 'mixed')).toBe('1013 hPa');
+  });
+
+  it('powder temperature sensitivity is shown per degree in the system units', () => {
+    expect(formatUnit(1, 'tempSensitivity', 'metric')).toBe('1,0 m/s/°C');
+    expect(formatUnit(1, 'tempSensitivity', 'imperial')).toBe('1,8 fps/°F');
+    expect(formatUnit(1, 'tempSensitivity', 'mixed')).toBe('3,3 fps/°C');
+    expect(convertSliderRange({ min: 0, max: 2, step: 0.1 }, 'tempSensitivity', 'imperial'))
+      .toEqual({ min: 0, max: 3.6, step: 0.2 });
+  });
+
+  it('slider ranges are rounded to round display values', () => {
+    expect(convertSliderRange({ min: 50, max: 500, step: 10 }, 'distance', 'imperial'))
+      .toEqual({ min: 50, max: 550, step: 10 });
+    expect(convertSliderRange({ min: -20, max: 45, step: 1 }, 'temperature', 'imperial'))
+      .toEqual({ min: -4, max: 114, step: 2 });
+    expect(convertSliderRange({ min: 50, max: 500, step: 10 }, 'distance', 'metric'))
+      .toEqual({ min: 50, max: 500, step: 10 });
+  });
+
+  it('range card rows fall on round yards', () => {
+    const yards = getRangeCardDistances('imperial');
+    expect(yards).toHaveLength(23);
+    expect(yards[4]).toBeCloseTo(91.44, 6);
+    expect(getRangeCardDistances('metric')[4]).toBe(100);
+  });
+
+  it('lead mode shows game speed in km/h or mph and rows on round yards', () => {
+    expect(formatUnit(30 / 3.6, 'targetSpeed', 'metric')).toBe('30 km/h');
+    expect(formatUnit(30 / 3.6, 'targetSpeed', 'imperial')).toBe('19 mph');
+    expect(convertSliderRange({ min: 0, max: 50 / 3.6, step: 1 / 3.6 }, 'targetSpeed', 'metric'))
+      .toEqual({ min: 0, max: 50, step: 1 });
+
+    expect(getLeadTableDistances('metric')).toEqual([30, 40, 50, 60, 70, 80, 90, 100]);
+    const yards = getLeadTableDistances('mixed');
+    expect(yards[0]).toBeCloseTo(27.432, 6);
+    expect(formatUnit(yards[7], 'distance', 'mixed')).toBe('100 yd');
+  });
+
+  it('linear corrections follow the unit system, angular ones do not', () => {
+    expect(formatCorrection(25.4, 300, 'cm', 'imperial')).toBe('10,0 in');
+    expect(formatCorrection(25.4, 300, 'cm', 'metric')).toBe('25,4 cm');
+    expect(formatCorrection(30, 300, 'mil', 'imperial')).toBe('1,0 MIL');
+  });
+});
+
+// =============================================================================
+// 33. Translations (de / en / fr / it)
+// =============================================================================
+
+describe('33. Translations', () => {
+  afterEach(() => setLanguage('de'));
+
+  // All texts of a catalogue by dotted path
+  const textsOf = (catalogue: object, prefix = ''): [string, string][] =>
+    Object.entries(catalogue).flatMap(([key, value]): [string, string][] =>
+      typeof value === 'string' ? [[`${prefix}${key}`, value]] : textsOf(value, `${prefix}${key}.`)
+    );
+
+  it('every catalogue has exactly the German keys and no empty texts', () => {
+    const reference = textsOf(de).map(([key]) => key).sort();
+    for (const catalogue of [de, en, fr, italian]) {
+      const texts = textsOf(catalogue);
+      expect(texts.map(([key]) => key).sort()).toEqual(reference);
+      expect(texts.filter(([, text]) => text.trim() === '')).toEqual([]);
+    }
+  });
+
+  it('fills in parameters and formats numbers for the language', () => {
+    expect(translate('profiles.deleteConfirm', { name: '.308' })).toBe('Möchten Sie ".308" wirklich löschen?');
+    expect(translate('calculator.shotUphill', { angle: 12.5 }, 'de')).toBe('12,5° bergauf');
+    expect(translate('calculator.shotUphill', { angle: 12.5 }, 'en')).toBe('12.5° uphill');
+  });
+
+  it('decimal comma in German, French and Italian, point in English', () => {
+    expect(formatNumber(9.72, 1, 'de')).toBe('9,7');
+    expect(formatNumber(9.72, 1, 'fr')).toBe('9,7');
+    expect(formatNumber(9.72, 1, 'it')).toBe('9,7');
+    expect(formatNumber(9.72, 1, 'en')).toBe('9.7');
+    // No thousands separators, no negative zero
+    expect(formatNumber(2624.7, 0, 'en')).toBe('2625');
+    expect(formatNumber(-0.04, 1, 'de')).toBe('0,0');
+  });
+
+  it('the current language drives unit and wind texts outside the screens', () => {
+    setLanguage('en');
+    expect(formatUnit(150, 'weight', 'metric')).toBe('9.7 g');
+    expect(formatCorrection(30, 300, 'mil', 'imperial')).toBe('1.0 MIL');
+    expect(getWindDirectionText(90)).toBe("from the right (3 o'clock)");
+    expect(getAmmoCountText(3)).toBe('3 loads available');
+
+    setLanguage('fr');
+    expect(getWindDirectionText(180)).toBe('Vent arrière (6 h)');
+
+    setLanguage('de');
+    expect(getWindDirectionText(180)).toBe('Rückenwind (6 Uhr)');
+    expect(getAmmoCountText(1)).toBe('1 Ladung verfügbar');
+  });
+
+  it('caliber descriptions exist in every language', () => {
+    for (const group of CALIBER_DATABASE) {
+      for (const language of ['de', 'en', 'fr', 'it'] as const) {
+        expect(localize(group.description, language).length).toBeGreaterThan(0);
+      }
+    }
+    expect(localize(CALIBER_DATABASE[0].description, 'en')).toBe('Versatile at medium range');
+  });
+});
+
+// =============================================================================
+// 34. Custom Ammunition
+// =============================================================================
+
+describe('34. Custom ammunition', () => {
+  const handload: CustomAmmunitionDraft = {
+    caliber: '.308 Winchester',
+    name: 'Handload 168gr TMK',
+    bulletWeight: 168,
+    ballisticCoefficient: 0.523,
+    bcG7: 0.268,
+    muzzleVelocity: 810,
+    testBarrelLength: 22,
+    bulletLength: 1.22,
+    bulletDiameter: 0.308,
+  };
+
+  const stored: CustomAmmunition = {
+    ...normalizeCustomAmmunition(handload),
+    id: 'ammo_1',
+    createdAt: 1,
+  };
+
+  it('accepts a complete load', () => {
+    expect(validateCustomAmmunition(handload, [])).toEqual([]);
+    // Optional values may be left out
+    expect(validateCustomAmmunition({
+      caliber: '.308 Winchester',
+      name: 'Factory 150gr',
+      bulletWeight: 150,
+      ballisticCoefficient: 0.4,
+      muzzleVelocity: 860,
+    }, [])).toEqual([]);
+  });
+
+  it('reports missing and out-of-range values per field', () => {
+    const errors = validateCustomAmmunition({
+      ...handload,
+      name: '  ',
+      bulletWeight: undefined as unknown as number,
+      muzzleVelocity: 2700, // fps typed as m/s
+      bulletDiameter: 7.82, // mm typed as inches
+      ballisticCoefficient: NaN, // unparsable input
+    }, []);
+
+    expect(errors).toEqual([
+      { field: 'name', reason: 'required' },
+      { field: 'bulletWeight', reason: 'required' },
+      { field: 'ballisticCoefficient', reason: 'range', min: 0.05, max: 1.2 },
+      { field: 'muzzleVelocity', reason: 'range', min: 300, max: 1300 },
+      { field: 'bulletDiameter', reason: 'range', min: 0.17, max: 0.51 },
+    ]);
+  });
+
+  it('load names are unique per caliber across factory and custom loads', () => {
+    const factoryName = { ...handload, name: '.308 win 178gr eld-x ' };
+    expect(validateCustomAmmunition(factoryName, [])).toEqual([{ field: 'name', reason: 'duplicate' }]);
+
+    expect(validateCustomAmmunition(handload, [stored])).toEqual([{ field: 'name', reason: 'duplicate' }]);
+    // Saving the stored load again, or the same name for another caliber, is fine
+    expect(validateCustomAmmunition({ ...handload, id: 'ammo_1' }, [stored])).toEqual([]);
+    expect(validateCustomAmmunition({ ...handload, caliber: '.30-06 Springfield' }, [stored])).toEqual([]);
+  });
+
+  it('checks velocity bands and sorts them for the engine', () => {
+    const bands = [
+      { velocityThreshold: 500, bc: 0.48 },
+      { velocityThreshold: 750, bc: 0.53 },
+      { velocityThreshold: 500, bc: 0.47 },
+      { velocityThreshold: 600, bc: 2.5 },
+    ];
+    expect(validateCustomAmmunition({ ...handload, bcBands: bands }, [])).toEqual([
+      { field: 'bandVelocity', reason: 'duplicate', band: 2 },
+      { field: 'bandBC', reason: 'range', band: 3, min: 0.03, max: 1.2 },
+    ]);
+
+    const normalized = normalizeCustomAmmunition({ ...handload, bcBands: bands.slice(0, 2) });
+    expect(normalized.bcBands!.map(b => b.velocityThreshold)).toEqual([750, 500]);
+    expect(normalizeCustomAmmunition({ ...handload, bcBands: [] }).bcBands).toBeUndefined();
+  });
+
+  it('velocity bands apply only with the drag model they are referenced to', () => {
+    const env = createStandardEnvironment();
+    const g1Bands = [{ velocityThreshold: 700, bc: 0.6 }, { velocityThreshold: 0, bc: 0.58 }];
+    const g7 = calculateTrajectory(eldxG7Profile, 500, env);
+
+    // Published G1 bands next to a G7 BC: the G7 table keeps the G7 BC
+    const withG1Bands: RifleProfile = {
+      ...eldxG7Profile,
+      ammunition: { ...eldxG7Profile.ammunition, bcBands: g1Bands },
+    };
+    expect(calculateTrajectory(withG1Bands, 500, env).drop).toBeCloseTo(g7.drop, 5);
+    expect(calculateTrajectory({ ...withG1Bands, dragModel: 'g1' }, 500, env).drop)
+      .toBeLessThan(calculateTrajectory(eldxG1Profile, 500, env).drop);
+
+    const withG7Bands: RifleProfile = {
+      ...eldxG7Profile,
+      ammunition: { ...eldxG7Profile.ammunition, bcBands: [{ velocityThreshold: 0, bc: 0.3 }], bcBandsModel: 'g7' },
+    };
+    expect(calculateTrajectory(withG7Bands, 500, env).drop).toBeLessThan(g7.drop);
+
+    expect(normalizeCustomAmmunition({ ...handload, bcBands: g1Bands }).bcBandsModel).toBe('g1');
+    expect(normalizeCustomAmmunition(handload).bcBandsModel).toBeUndefined();
+    expect(validateCustomAmmunition({ ...handload, bcG7: undefined, bcBands: g1Bands, bcBandsModel: 'g7' }, []))
+      .toEqual([{ field: 'bcG7', reason: 'required' }]);
+  });
+
+  it('custom loads are marked unverified and work in the engine', () => {
+    const ammo = toAmmunitionData(stored);
+    expect(ammo.unverified).toBe(true);
+    expect(ammo.dragModel).toBe('g7');
+    expect(ammo).not.toHaveProperty('id');
+    expect(ammo).not.toHaveProperty('caliber');
+    expect(normalizeCustomAmmunition({ ...handload, name: '  Load A ', bcG7: undefined }))
+      .toMatchObject({ name: 'Load A', dragModel: 'g1', unverified: true });
+
+    const result = calculateTrajectory({ ...eldxG7Profile, ammunition: ammo }, 300, createStandardEnvironment());
+    expect(result.drop).toBeGreaterThan(0);
+    expect(isFinite(result.velocity)).toBe(true);
+  });
+
+  it('lists the custom loads of a caliber oldest first', () => {
+    const newer: CustomAmmunition = { ...stored, id: 'ammo_2', name: 'Newer', createdAt: 5 };
+    const other: CustomAmmunition = { ...stored, id: 'ammo_3', caliber: '8x57 IS', createdAt: 0 };
+    expect(getCustomAmmunitionForCaliber([newer, other, stored], '.308 Winchester').map(a => a.id))
+      .toEqual(['ammo_1', 'ammo_2']);
+  });
+});
+
+// =============================================================================
+// 35. Ammunition Database Sources
+// =============================================================================
+
+describe('35. Ammunition database sources', () => {
+  const loads = CALIBER_DATABASE.flatMap(group => group.ammunition.map(ammo => ({ caliber: group.caliber, ammo })));
+
+  it('every database load names its source and test barrel', () => {
+    for (const { ammo } of loads) {
+      expect(ammo.source).toBeDefined();
+      expect(AMMUNITION_MANUFACTURERS[ammo.source!.manufacturer]).toBeDefined();
+      expect(ammo.source!.productLine.length).toBeGreaterThan(0);
+      expect(ammo.source!.url).not.toMatch(/^https?:/);
+      expect(ammo.testBarrelLength).toBeGreaterThanOrEqual(20);
+      expect(ammo.testBarrelLength).toBeLessThanOrEqual(26);
+    }
+  });
+
+  it('only loads checked against a data sheet count as verified', () => {
+    for (const { ammo } of loads) {
+      if (ammo.unverified) {
+        expect(ammo.source!.verified).toBeUndefined();
+      } else {
+        expect(ammo.source!.verified).toMatch(/^20\d{2}-(0[1-9]|1[0-2])$/);
+        // A product page or an article number, not just the maker's home page
+        expect(ammo.source!.articleNumber != null || ammo.source!.url.includes('/')).toBe(true);
+      }
+      if (ammo.construction === 'bonded') {
+        expect(getMinExpansionVelocity(ammo)).toBe(DEFAULT_MIN_EXPANSION_VELOCITY.bonded);
+      }
+    }
+    const caliber = CALIBER_DATABASE.find(g => g.caliber === '7x64')!;
+    expect(caliber.ammunition.every(ammo => ammo.unverified)).toBe(true);
+  });
+
+  it('covers the European hunting calibres', () => {
+    const calibers = CALIBER_DATABASE.map(group => group.caliber);
+    for (const caliber of ['7x64', '7x65R', '8x68S', '9.3x74R', '6.5x57', '.30R Blaser']) {
+      expect(calibers).toContain(caliber);
+      const group = CALIBER_DATABASE.find(g => g.caliber === caliber)!;
+      expect(group.twistRate).toBeDefined();
+      expect(group.ammunition.length).toBeGreaterThan(0);
+    }
+
+    const makers = new Set(
+      CALIBER_DATABASE.find(g => g.caliber === '.30-06 Springfield')!.ammunition.map(a => a.source!.manufacturer)
+    );
+    for (const maker of ['rws', 'norma', 'sellierBellot', 'geco', 'lapua', 'blaser'] as const) {
+      expect(makers.has(maker)).toBe(true);
+    }
+  });
+
+  it('load names are unique and G7 BCs are plausible', () => {
+    const names = loads.map(l => l.ammo.name);
+    expect(new Set(names).size).toBe(names.length);
+    for (const { ammo } of loads) {
+      if (ammo.bcG7 != null) {
+        // G7 BCs run at roughly half the G1 value
+        expect(ammo.bcG7 / ammo.ballisticCoefficient).toBeGreaterThan(0.4);
+        expect(ammo.bcG7 / ammo.ballisticCoefficient).toBeLessThan(0.6);
+      }
+    }
+  });
+
+  it('data sources are summarized per manufacturer from the database', () => {
+    const sources = getDataSources();
+    expect(sources.map(s => s.manufacturer)).toEqual([
+      'rws', 'geco', 'norma', 'sellierBellot', 'lapua', 'blaser', 'hornady', 'federal', 'nosler',
+    ]);
+    expect(sources.reduce((sum, s) => sum + s.loadCount, 0)).toBe(loads.length);
+
+    const norma = sources.find(s => s.manufacturer === 'norma')!;
+    expect(norma.name).toBe('Norma Precision AB');
+    expect(norma.productLines).toEqual(['Oryx']);
+    expect(norma.calibers).toContain('9.3x74R');
+    expect(norma.testBarrelLengths).toEqual([23.6]);
+    expect(norma.verified).toBe('2026-02');
+    expect(norma.unverifiedCount).toBe(5);
+    expect(sources.find(s => s.manufacturer === 'lapua')!.verified).toBeUndefined();
+
+    // Only manufacturers with loads appear
+    const hornadyOnly = getDataSources([CALIBER_DATABASE[0]]);
+    expect(hornadyOnly.map(s => s.manufacturer)).toEqual(['hornady']);
+    expect(hornadyOnly[0].testBarrelLengths).toEqual([24]);
+    expect(hornadyOnly[0].productLines).toEqual(['American Whitetail', 'Precision Hunter']);
+  });
+});
+
+// =============================================================================
+// 36. Barrel length
+// =============================================================================
+
+describe('36. Barrel length', () => {
+  const env = createStandardEnvironment(0, 90);
+  const testBarrelAmmo = { ...eldxG7Profile.ammunition, testBarrelLength: 24 };
+  const shortBarrel: RifleProfile = { ...eldxG7Profile, ammunition: testBarrelAmmo, barrelLength: 20 };
+
+  it('adjusts V0 linearly from the test barrel length', () => {
+    expect(calculateBarrelLengthAdjustment(testBarrelAmmo, 20)).toBeCloseTo(-4 * DEFAULT_VELOCITY_PER_INCH, 5);
+    expect(calculateBarrelLengthAdjustment(testBarrelAmmo, 26)).toBeCloseTo(2 * DEFAULT_VELOCITY_PER_INCH, 5);
+    expect(calculateBarrelLengthAdjustment({ ...testBarrelAmmo, velocityPerInch: 9 }, 20)).toBe(-36);
+    // 600 mm C.I.P. test barrel, rounded to 0.1 m/s
+    expect(calculateBarrelLengthAdjustment({ ...testBarrelAmmo, testBarrelLength: 23.6 }, 24)).toBe(3);
+
+    // Unknown barrel or test barrel: published V0
+    expect(calculateBarrelLengthAdjustment(testBarrelAmmo)).toBe(0);
+    expect(calculateBarrelLengthAdjustment(eldxG7Profile.ammunition, 20)).toBe(0);
+  });
+
+  it('the trajectory uses the adjusted V0', () => {
+    expect(getNominalMuzzleVelocity(shortBarrel)).toBe(762);
+    expect(calculateMuzzleVelocity(shortBarrel, env)).toBe(762);
+
+    // Same as a rifle whose V0 is 762 m/s in the test barrel
+    const slowLoad: RifleProfile = { ...eldxG7Profile, ammunition: { ...eldxG7Profile.ammunition, muzzleVelocity: 762 } };
+    const short = calculateTrajectory(shortBarrel, 300, env);
+    expect(short.drop).toBeCloseTo(calculateTrajectory(slowLoad, 300, env).drop, 5);
+    // Slower bullet drops more (drop is positive below the line of sight)
+    expect(short.drop).toBeGreaterThan(calculateTrajectory(eldxG7Profile, 300, env).drop);
+  });
+
+  it('a trued V0 replaces the adjustment', () => {
+    const trued: RifleProfile = { ...shortBarrel, muzzleVelocity: 770 };
+    expect(getNominalMuzzleVelocity(trued)).toBe(770);
+    expect(calculateMuzzleVelocity(trued, env)).toBe(770);
+  });
+
+  it('magnum loads lose more velocity per inch', () => {
+    for (const caliber of ['7mm Remington Magnum', '.300 Winchester Magnum', '8x68S']) {
+      for (const ammo of CALIBER_DATABASE.find(g => g.caliber === caliber)!.ammunition) {
+        expect(ammo.velocityPerInch).toBeGreaterThan(DEFAULT_VELOCITY_PER_INCH);
+      }
+    }
+    const standard = CALIBER_DATABASE.find(g => g.caliber === '.308 Winchester')!.ammunition;
+    expect(standard.every(ammo => ammo.velocityPerInch == null)).toBe(true);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Ammunition Data Packs - Validation Tests
+ *
+ * Covers the versioned ammunition data packs: schema validation of the bundled
+ * and imported packs, release selection, and updating the profiles that use a
+ * load from an older release.
+ */
+
+import { RifleProfile, AmmunitionDataPack } from '../src/types';
+import { CALIBER_DATABASE, DEFAULT_DATA_PACK } from '../src/lib/ammunition-data';
+import {
+  applyDataPackUpdate,
+  checkDataPackImport,
+  findDataPackUpdates,
+  getDataPackRef,
+  parseDataPack,
+  selectDataPack,
+  validateDataPack,
+} from '../src/lib/data-pack';
+
+describe('Ammunition data packs', () => {
+  const caliber = DEFAULT_DATA_PACK.calibers[0].caliber;
+  const load = DEFAULT_DATA_PACK.calibers[0].ammunition[0];
+
+  // Deep copy, so a test can change a release without touching the bundled pack
+  const release = (version: number, edit?: (pack: AmmunitionDataPack) => void): AmmunitionDataPack => {
+    const pack: AmmunitionDataPack = JSON.parse(JSON.stringify({ ...DEFAULT_DATA_PACK, version }));
+    edit?.(pack);
+    return pack;
+  };
+
+  const errorsOf = (edit: (pack: AmmunitionDataPack) => void) => {
+    const pack: AmmunitionDataPack = JSON.parse(JSON.stringify(DEFAULT_DATA_PACK));
+    edit(pack);
+    return validateDataPack(pack).errors;
+  };
+
+  const profileFor = (id: string, overrides: Partial<RifleProfile> = {}): RifleProfile => ({
+    id,
+    name: `Test ${load.name}`,
+    caliber,
+    ammunition: load,
+    dataPack: { id: DEFAULT_DATA_PACK.id, version: DEFAULT_DATA_PACK.version },
+    zeroDistance: 100,
+    zeroType: 'standard',
+    sightHeight: 4.5,
+    dragModel: 'g1',
+    createdAt: Date.now(),
+    ...overrides,
+  });
+
+  it('the bundled pack is valid and holds the database', () => {
+    expect(validateDataPack(JSON.parse(JSON.stringify(DEFAULT_DATA_PACK))).errors).toEqual([]);
+    expect(CALIBER_DATABASE).toBe(DEFAULT_DATA_PACK.calibers);
+    expect(DEFAULT_DATA_PACK.published).toMatch(/^\d{4}-(0[1-9]|1[0-2])$/);
+  });
+
+  it('reports schema errors with their path', () => {
+    expect(errorsOf(p => { (p.calibers[0].ammunition[0] as unknown as Record<string, unknown>).ballisticCoefficent = 0.4; })).toEqual([
+      { path: 'calibers[0].ammunition[0].ballisticCoefficent', reason: 'unknown' },
+    ]);
+    expect(errorsOf(p => { p.calibers[0].ammunition[1].muzzleVelocity = 5000; })).toEqual([
+      { path: 'calibers[0].ammunition[1].muzzleVelocity', reason: 'range' },
+    ]);
+    expect(errorsOf(p => { delete (p.calibers[1].description as unknown as Record<string, unknown>).fr; })).toEqual([
+      { path: 'calibers[1].description.fr', reason: 'required' },
+    ]);
+    expect(errorsOf(p => { p.calibers[0].ammunition[0].source!.verified = '2026-13'; })).toEqual([
+      { path: 'calibers[0].ammunition[0].source.verified', reason: 'value' },
+    ]);
+    expect(errorsOf(p => { (p as unknown as Record<string, unknown>).version = '2'; })).toEqual([{ path: 'version', reason: 'type' }]);
+    expect(errorsOf(p => { (p.calibers[0].ammunition[0] as unknown as Record<string, unknown>).unverified = 'yes'; })).toEqual([
+      { path: 'calibers[0].ammunition[0].unverified', reason: 'type' },
+    ]);
+  });
+
+  it('a load is either verified or flagged unverified', () => {
+    expect(errorsOf(p => { p.calibers[0].ammunition[0].unverified = true; })).toEqual([
+      { path: 'calibers[0].ammunition[0].unverified', reason: 'value' },
+    ]);
+    expect(errorsOf(p => { delete p.calibers[0].ammunition[0].source!.verified; })).toEqual([
+      { path: 'calibers[0].ammunition[0].unverified', reason: 'value' },
+    ]);
+  });
+
+  it('requires the BC or curve of the preferred drag model', () => {
+    expect(errorsOf(p => { p.calibers[0].ammunition[0].dragModel = 'g5'; })).toEqual([
+      { path: 'calibers[0].ammunition[0].bcByModel.g5', reason: 'required' },
+    ]);
+    expect(errorsOf(p => { p.calibers[0].ammunition[0].dragModel = 'g7'; })).toEqual([
+      { path: 'calibers[0].ammunition[0].bcG7', reason: 'required' },
+    ]);
+    expect(errorsOf(p => {
+      p.calibers[0].ammunition[0].dragModel = 'custom';
+      delete p.calibers[0].ammunition[0].bulletDiameter;
+    })).toEqual([
+      { path: 'calibers[0].ammunition[0].customDragCurve', reason: 'required' },
+      { path: 'calibers[0].ammunition[0].bulletDiameter', reason: 'required' },
+    ]);
+    expect(errorsOf(p => {
+      p.calibers[0].ammunition[0].dragModel = 'g5';
+      p.calibers[0].ammunition[0].bcByModel = { g5: 0.5 };
+    })).toEqual([]);
+    // Bands apply only with their own model
+    expect(errorsOf(p => { p.calibers[0].ammunition[0].bcBandsModel = 'g7'; })).toEqual([
+      { path: 'calibers[0].ammunition[0].bcG7', reason: 'required' },
+    ]);
+  });
+
+  it('checks unique load names and sorted tables', () => {
+    expect(errorsOf(p => { p.calibers[1].ammunition[0].name = load.name; })).toEqual([
+      { path: 'calibers[1].ammunition[0].name', reason: 'duplicate' },
+    ]);
+    expect(errorsOf(p => {
+      p.calibers[0].ammunition[0].bcBands = [{ velocityThreshold: 500, bc: 0.3 }, { velocityThreshold: 700, bc: 0.32 }];
+    })).toEqual([{ path: 'calibers[0].ammunition[0].bcBands', reason: 'order' }]);
+  });
+
+  it('rejects other schema versions and files that are not JSON', () => {
+    expect(errorsOf(p => { p.schemaVersion = 2; p.calibers = []; })).toEqual([
+      { path: 'schemaVersion', reason: 'schemaVersion' },
+    ]);
+    expect(parseDataPack('{"schemaVersion": 1,')).toEqual({ pack: null, errors: [{ path: '', reason: 'json' }] });
+    expect(parseDataPack(JSON.stringify(release(2))).pack?.version).toBe(2);
+  });
+
+  it('only accepts newer releases of the same pack', () => {
+    const newer = release(DEFAULT_DATA_PACK.version + 1);
+    expect(checkDataPackImport(newer, DEFAULT_DATA_PACK)).toBeNull();
+    expect(checkDataPackImport(release(DEFAULT_DATA_PACK.version), DEFAULT_DATA_PACK)).toBe('notNewer');
+    expect(checkDataPackImport(release(newer.version, p => { p.id = 'other-pack'; }), DEFAULT_DATA_PACK)).toBe('otherPack');
+
+    expect(selectDataPack(DEFAULT_DATA_PACK, null)).toBe(DEFAULT_DATA_PACK);
+    expect(selectDataPack(DEFAULT_DATA_PACK, newer)).toBe(newer);
+    // A newer bundled pack from an app update supersedes the import
+    expect(selectDataPack(release(newer.version + 1), newer).version).toBe(newer.version + 1);
+  });
+
+  it('records the release of pack loads, not of custom loads', () => {
+    expect(getDataPackRef(DEFAULT_DATA_PACK, caliber, { ...load })).toEqual({
+      id: DEFAULT_DATA_PACK.id,
+      version: DEFAULT_DATA_PACK.version,
+    });
+    expect(getDataPackRef(DEFAULT_DATA_PACK, caliber, { ...load, ballisticCoefficient: 0.4 })).toBeUndefined();
+    expect(getDataPackRef(DEFAULT_DATA_PACK, caliber, { ...load, name: 'Handload 150gr' })).toBeUndefined();
+  });
+
+  it('finds profiles whose load changed or was removed', () => {
+    const next = release(DEFAULT_DATA_PACK.version + 1, p => {
+      p.calibers[0].ammunition[0].ballisticCoefficient = 0.345;
+      p.calibers[0].ammunition.splice(1, 1);
+    });
+    const profiles = [
+      profileFor('changed'),
+      profileFor('removed', { ammunition: DEFAULT_DATA_PACK.calibers[0].ammunition[1] }),
+      profileFor('unchanged', { ammunition: DEFAULT_DATA_PACK.calibers[0].ammunition[2] }),
+      profileFor('current', { dataPack: { id: next.id, version: next.version } }),
+      profileFor('custom', { ammunition: { ...load, name: 'Handload', unverified: true }, dataPack: undefined }),
+      // Created before data packs: matched by caliber and load name
+      profileFor('legacy', { dataPack: undefined }),
+    ];
+
+    const updates = findDataPackUpdates(profiles, next);
+    expect(updates.map(u => [u.profileId, u.status])).toEqual([
+      ['changed', 'changed'],
+      ['removed', 'removed'],
+      ['unchanged', 'unchanged'],
+      ['legacy', 'changed'],
+    ]);
+    expect(updates[0].from).toEqual({ id: DEFAULT_DATA_PACK.id, version: DEFAULT_DATA_PACK.version });
+    expect(updates[0].ammunition?.ballisticCoefficient).toBe(0.345);
+    expect(updates[3].from).toBeUndefined();
+  });
+
+  it('applying an update keeps the truing', () => {
+    const next = release(DEFAULT_DATA_PACK.version + 1, p => {
+      p.calibers[0].ammunition[0].muzzleVelocity = 860;
+    });
+    const trued = profileFor('trued', { muzzleVelocity: 855, bcScale: 0.97 });
+    const [update] = findDataPackUpdates([trued], next);
+
+    const updated = applyDataPackUpdate(trued, update);
+    expect(updated.ammunition.muzzleVelocity).toBe(860);
+    expect(updated.dataPack).toEqual({ id: next.id, version: next.version });
+    expect(updated.muzzleVelocity).toBe(855);
+    expect(updated.bcScale).toBe(0.97);
+
+    // A removed load stays on the profile without a release
+    const removed = applyDataPackUpdate(trued, { profileId: 'trued', status: 'removed', to: update.to });
+    expect(removed.ammunition).toBe(load);
+    expect(removed.dataPack).toBeUndefined();
+  });
+});
@@ -1,17 +1,64 @@
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Switch } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { Header, SliderInput, ResultDisplay, Card, RangeCard } from '../../src/components';
-import { colors, SLIDER_RANGES, ENVIRONMENT_RANGES, STANDARD_ATMOSPHERE } from '../../src/lib/constants';
+import {
+  Header,
+  SliderInput,
+  ResultDisplay,
+  Card,
+  RangeCard,
+  LeadDisplay,
+  LeadCard,
+  HitProbabilityDisplay,
+  EthicalRangeWarning,
+  WindZoneEditor,
+  WindClockPicker,
+  ReticleView,
+} from '../../src/components';
+import {
+  colors,
+  SLIDER_RANGES,
+  ENVIRONMENT_RANGES,
+  STANDARD_ATMOSPHERE,
+  DEFAULT_LATITUDE,
+  TARGET_SPEED_PRESETS,
+  GAME_SPECIES,
+  DEFAULT_SHOT_UNCERTAINTY,
+  DEFAULT_VITAL_ZONE,
+  ETHICAL_RANGE_LIMIT,
+  DEFAULT_READING_ERROR,
+  DEFAULT_TARGET_SIZE_TOLERANCE,
+  DRAG_MODEL_LABELS,
+} from '../../src/lib/constants';
 import { useApp } from '../../src/context/AppContext';
-import { calculateTrajectory, createStandardEnvironment } from '../../src/lib/ballistics';
+import {
+  calculateTrajectory,
+  calculateLead,
+  calculateHitProbability,
+  calculateReticleHold,
+  calculateExpansionRange,
+  calculateHorizontalDistance,
+  calculateMuzzleVelocity,
+  createStandardEnvironment,
+  estimateRange,
+  getEffectiveDragModel,
+  getReticleScale,
+  getNominalMuzzleVelocity,
+  getMinExpansionVelocity,
+} from '../../src/lib/ballistics';
+import { getWindDirectionText } from '../../src/lib/wind';
+import { getReticle } from '../../src/lib/reticle-data';
+import { formatCorrection, formatUnit } from '../../src/lib/units';
+import { useTranslation } from '../../src/i18n/useTranslation';
 import { autoDetectEnvironment, DEFAULT_ENVIRONMENT } from '../../src/lib/environment';
-import { EnvironmentData } from '../../src/types';
+import { AngularUnit, EnvironmentData, WindZone } from '../../src/types';
 
 export default function CalculatorScreen() {
   const { activeProfile, profiles, setActiveProfile, settings, setIsAddingProfile } = useApp();
+  const { t, language, locale, formatNumber } = useTranslation();
   const [distance, setDistance] = useState(150);
+  const [shotAngle, setShotAngle] = useState(0);
   const [windSpeed, setWindSpeed] = useState(0);
   const [windAngle, setWindAngle] = useState(90);
   const [showRangeCard, setShowRangeCard] = useState(false);
@@ -24,6 +71,42 @@ export default function CalculatorScreen() {
   const [pressure, setPressure] = useState(STANDARD_ATMOSPHERE.pressure);
   const [altitude, setAltitude] = useState(STANDARD_ATMOSPHERE.altitude);
   const [humidity, setHumidity] = useState(STANDARD_ATMOSPHERE.humidity * 100);
+  const [earthRotation, setEarthRotation] = useState(false);
+  const [latitude, setLatitude] = useState(DEFAULT_LATITUDE);
+  const [azimuth, setAzimuth] = useState(0);
+  const [separatePowderTemp, setSeparatePowderTemp] = useState(false);
+  const [powderTemperature, setPowderTemperature] = useState(STANDARD_ATMOSPHERE.temperature);
+
+  // Lead mode for moving game (driven hunts)
+  const [leadMode, setLeadMode] = useState(false);
+  const [leadDistance, setLeadDistance] = useState(50);
+  const [targetSpeed, setTargetSpeed] = useState<number>(TARGET_SPEED_PRESETS[1].speed / 3.6); // m/s
+  const [crossingAngle, setCrossingAngle] = useState(90);
+  const [gameKey, setGameKey] = useState<string>(GAME_SPECIES[0].key);
+  const [showLeadCard, setShowLeadCard] = useState(false);
+
+  // Wind zones along the bullet path (replace the single wind when enabled)
+  const [useWindZones, setUseWindZones] = useState(false);
+  const [windZones, setWindZones] = useState<WindZone[]>([]);
+
+  // Hit probability (Monte Carlo)
+  const [showHitProbability, setShowHitProbability] = useState(false);
+  const [vitalZone, setVitalZone] = useState(DEFAULT_VITAL_ZONE);
+  const [dispersion, setDispersion] = useState(DEFAULT_SHOT_UNCERTAINTY.dispersion);
+  const [muzzleVelocitySD, setMuzzleVelocitySD] = useState(DEFAULT_SHOT_UNCERTAINTY.muzzleVelocitySD);
+  const [bcUncertainty, setBcUncertainty] = useState(DEFAULT_SHOT_UNCERTAINTY.bcUncertainty * 100);
+  const [rangeErrorSD, setRangeErrorSD] = useState(DEFAULT_SHOT_UNCERTAINTY.rangeErrorSD);
+  const [windSpeedSD, setWindSpeedSD] = useState(DEFAULT_SHOT_UNCERTAINTY.windSpeedSD);
+
+  // Scope magnification for second focal plane reticles (null = reference magnification)
+  const [magnification, setMagnification] = useState<number | null>(null);
+
+  // Range estimation from a target of known size
+  const [showRangeEstimation, setShowRangeEstimation] = useState(false);
+  const [readingUnit, setReadingUnit] = useState<AngularUnit>('mil');
+  const [rangeReading, setRangeReading] = useState(2);
+  const [estimationTarget, setEstimationTarget] = useState<string>('roeDeer');
+  const [customTargetSize, setCustomTargetSize] = useState(40);
 
   // Auto-detect environment on first expand
   const handleRefreshEnvironment = useCallback(async () => {
@@ -42,6 +125,20 @@ export default function CalculatorScreen() {
     }
   }, []);
 
+  // Start with two zones from the current wind, split at half the distance
+  const handleToggleWindZones = (enabled: boolean) => {
+    if (enabled && windZones.length === 0) {
+      const step = SLIDER_RANGES.windZoneEnd.step;
+      const end = Math.max(2 * step, Math.round(distance / step) * step);
+      const half = Math.round(end / 2 / step) * step;
+      setWindZones([
+        { to: half, speed: windSpeed, angle: windAngle, vertical: 0 },
+        { to: end, speed: windSpeed, angle: windAngle, vertical: 0 },
+      ]);
+    }
+    setUseWindZones(enabled);
+  };
+
   // Auto-detect when environment section is first opened
   useEffect(() => {
     if (showEnvironment && envData.source === 'manual' && !isLoadingEnv) {
@@ -57,41 +154,125 @@ export default function CalculatorScreen() {
     }
   }, [profiles.length]);
 
+  // Full environment for the calculation
+  const environment = useMemo(() => createStandardEnvironment(windSpeed, windAngle, {
+    temperature,
+    pressure,
+    altitude,
+    humidity: humidity / 100, // Convert percentage to 0-1
+    shotAngle,
+    ...(earthRotation ? { latitude, azimuth } : {}),
+    ...(separatePowderTemp ? { powderTemperature } : {}),
+    ...(useWindZones ? { windZones } : {}),
+  }), [shotAngle, windSpeed, windAngle, temperature, pressure, altitude, humidity, earthRotation, latitude, azimuth, separatePowderTemp, powderTemperature, useWindZones, windZones]);
+
   // Calculate ballistic result with full environment
   const result = useMemo(() => {
     if (!activeProfile) return null;
-    const environment = createStandardEnvironment(windSpeed, windAngle, {
-      temperature,
-      pressure,
-      altitude,
-      humidity: humidity / 100, // Convert percentage to 0-1
-    });
     return calculateTrajectory(activeProfile, distance, environment);
-  }, [activeProfile, distance, windSpeed, windAngle, temperature, pressure, altitude, humidity]);
-
-  // Wind direction text
-  const getWindDirectionText = (angle: number): string => {
-    if (angle === 0) return 'Gegenwind';
-    if (angle === 180) return 'Ruckenwind';
-    if (angle === 90) return 'von rechts';
-    if (angle < 90) return `${angle}° von rechts vorne`;
-    return `${180 - angle}° von rechts hinten`;
+  }, [activeProfile, distance, environment]);
+
+  const game = GAME_SPECIES.find(g => g.key === gameKey) ?? GAME_SPECIES[0];
+
+  // Lead for the moving target
+  const lead = useMemo(() => {
+    if (!activeProfile || !leadMode) return null;
+    return calculateLead(activeProfile, leadDistance, targetSpeed, crossingAngle, game.bodyLength, environment);
+  }, [activeProfile, leadMode, leadDistance, targetSpeed, crossingAngle, game.bodyLength, environment]);
+
+  // Hit probability for the vital zone, only while the section is open
+  const hitProbability = useMemo(() => {
+    if (!activeProfile || leadMode || !showHitProbability) return null;
+    return calculateHitProbability(activeProfile, distance, vitalZone, {
+      muzzleVelocitySD,
+      bcUncertainty: bcUncertainty / 100, // percent to fraction
+      dispersion,
+      rangeErrorSD,
+      windSpeedSD,
+    }, environment);
+  }, [activeProfile, leadMode, showHitProbability, distance, vitalZone, muzzleVelocitySD, bcUncertainty, dispersion, rangeErrorSD, windSpeedSD, environment]);
+
+  // Nearest reticle hold marks at the current magnification
+  const reticle = useMemo(() => getReticle(activeProfile?.optic), [activeProfile]);
+  const currentMagnification = magnification ?? reticle?.referenceMagnification ?? 1;
+  const reticleHold = useMemo(() => {
+    if (!reticle || !result) return null;
+    return calculateReticleHold(result, distance, reticle, currentMagnification);
+  }, [reticle, result, distance, currentMagnification]);
+
+  // Distance from the reticle reading; SFP readings are converted to the true angle
+  const rangeEstimate = useMemo(() => {
+    if (!showRangeEstimation) return null;
+    const species = GAME_SPECIES.find(g => g.key === estimationTarget);
+    const targetSize = species ? species.chestDepth : customTargetSize / 100;
+    const scale = reticle ? getReticleScale(reticle, currentMagnification) : 1;
+    return estimateRange(targetSize, rangeReading * scale, readingUnit, DEFAULT_READING_ERROR[readingUnit] * scale);
+  }, [showRangeEstimation, estimationTarget, customTargetSize, reticle, currentMagnification, rangeReading, readingUnit]);
+
+  // The estimate drives the distance for the hold
+  useEffect(() => {
+    if (!rangeEstimate) return;
+    const step = SLIDER_RANGES.distance.step;
+    const rounded = Math.round(rangeEstimate.distance / step) * step;
+    setDistance(Math.min(Math.max(rounded, SLIDER_RANGES.distance.min), SLIDER_RANGES.distance.max));
+  }, [rangeEstimate]);
+
+  // Impact at both ends of the estimation band when holding for the estimate
+  const rangeBandDrop = useMemo(() => {
+    if (!activeProfile || !rangeEstimate) return null;
+    const far = Math.min(rangeEstimate.maxDistance, ETHICAL_RANGE_LIMIT);
+    return {
+      near: calculateTrajectory(activeProfile, rangeEstimate.minDistance, environment).drop,
+      far: calculateTrajectory(activeProfile, far, environment).drop,
+      farDistance: far,
+    };
+  }, [activeProfile, rangeEstimate, environment]);
+
+  // Last distance with reliable bullet expansion
+  const expansionRange = useMemo(() => {
+    if (!activeProfile) return null;
+    return calculateExpansionRange(activeProfile, environment);
+  }, [activeProfile, environment]);
+
+  // Muzzle velocity after powder temperature correction
+  const effectiveMuzzleVelocity = useMemo(() => {
+    if (!activeProfile) return null;
+    return Math.round(calculateMuzzleVelocity(activeProfile, environment));
+  }, [activeProfile, environment]);
+
+  // Firing direction text
+  const getAzimuthText = (angle: number): string => {
+    const directions = t('calculator.compassPoints').split(',');
+    return `${angle}° (${directions[Math.round(angle / 45) % 8]})`;
+  };
+
+  // Shot angle text
+  const getShotAngleText = (angle: number): string => {
+    if (angle === 0) return t('calculator.shotLevel');
+    return angle > 0
+      ? t('calculator.shotUphill', { angle })
+      : t('calculator.shotDownhill', { angle: Math.abs(angle) });
+  };
+
+  // Crossing angle text
+  const getCrossingAngleText = (angle: number): string => {
+    if (angle === 90) return t('calculator.crossingBroadside');
+    if (angle === 0) return t('calculator.crossingHeadOn');
+    return t('calculator.crossingQuartering', { angle });
   };
 
   if (!activeProfile) {
     return (
       <SafeAreaView style={styles.container} edges={['top']}>
-        <Header title="Ballistik Rechner" />
+        <Header title={t('calculator.title')} />
         <View style={styles.noProfileContainer}>
-          <Text style={styles.noProfileTitle}>Kein Profil aktiv</Text>
-          <Text style={styles.noProfileText}>
-            Bitte wahlen Sie ein Profil aus oder erstellen Sie ein neues.
-          </Text>
+          <Text style={styles.noProfileTitle}>{t('calculator.noProfileTitle')}</Text>
+          <Text style={styles.noProfileText}>{t('calculator.noProfileText')}</Text>
           <TouchableOpacity
             style={styles.goToProfilesButton}
             onPress={() => router.push('/(tabs)/profiles')}
           >
-            <Text style={styles.goToProfilesText}>Zu den Profilen</Text>
+            <Text style={styles.goToProfilesText}>{t('calculator.goToProfiles')}</Text>
           </TouchableOpacity>
         </View>
       </SafeAreaView>
@@ -101,7 +282,7 @@ export default function CalculatorScreen() {
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <Header
-        title="Ballistik Rechner"
+        title={t('calculator.title')}
         subtitle={activeProfile.name}
       />
 
@@ -137,92 +318,540 @@ export default function CalculatorScreen() {
           </ScrollView>
         )}
 
-        {/* Distance Slider */}
-        <Card style={styles.sliderCard}>
-          <SliderInput
-            label="Entfernung"
-            value={distance}
-            onValueChange={setDistance}
-            min={SLIDER_RANGES.distance.min}
-            max={SLIDER_RANGES.distance.max}
-            step={SLIDER_RANGES.distance.step}
-            unit="m"
-          />
-        </Card>
+        {/* Mode Switch */}
+        <View style={styles.modeSwitch}>
+          <TouchableOpacity
+            style={[styles.modeButton, !leadMode && styles.modeButtonActive]}
+            onPress={() => setLeadMode(false)}
+          >
+            <Text style={[styles.modeButtonText, !leadMode && styles.modeButtonTextActive]}>
+              {t('calculator.modeHold')}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.modeButton, leadMode && styles.modeButtonActive]}
+            onPress={() => setLeadMode(true)}
+          >
+            <Text style={[styles.modeButtonText, leadMode && styles.modeButtonTextActive]}>
+              {t('calculator.modeLead')}
+            </Text>
+          </TouchableOpacity>
+        </View>
 
-        {/* Result Display */}
-        {result && (
-          <ResultDisplay
-            result={result}
-            distance={distance}
-            unit={settings.units}
-          />
-        )}
+        {leadMode ? (
+          <>
+            {/* Lead Inputs */}
+            <Card style={styles.sliderCard}>
+              <SliderInput
+                label={t('calculator.distance')}
+                value={leadDistance}
+                onValueChange={setLeadDistance}
+                min={SLIDER_RANGES.leadDistance.min}
+                max={SLIDER_RANGES.leadDistance.max}
+                step={SLIDER_RANGES.leadDistance.step}
+                quantity="distance"
+                unitSystem={settings.unitSystem}
+              />
 
-        {/* Range Card Toggle Button */}
-        <TouchableOpacity
-          style={[
-            styles.rangeCardToggle,
-            showRangeCard && styles.rangeCardToggleActive,
-          ]}
-          onPress={() => setShowRangeCard(!showRangeCard)}
-        >
-          <Text style={styles.rangeCardToggleIcon}>
-            {showRangeCard ? '📋' : '📊'}
-          </Text>
-          <Text style={[
-            styles.rangeCardToggleText,
-            showRangeCard && styles.rangeCardToggleTextActive,
-          ]}>
-            {showRangeCard ? 'Schusstafel ausblenden' : 'Schusstafel anzeigen'}
-          </Text>
-          <Text style={[
-            styles.rangeCardToggleArrow,
-            showRangeCard && styles.rangeCardToggleArrowActive,
-          ]}>
-            {showRangeCard ? '▲' : '▼'}
-          </Text>
-        </TouchableOpacity>
+              <Text style={styles.chipLabel}>{t('calculator.gait')}</Text>
+              <View style={styles.chipRow}>
+                {TARGET_SPEED_PRESETS.map(preset => (
+                  <TouchableOpacity
+                    key={preset.key}
+                    style={[styles.profileChip, targetSpeed === preset.speed / 3.6 && styles.profileChipActive]}
+                    onPress={() => setTargetSpeed(preset.speed / 3.6)}
+                  >
+                    <Text style={[styles.profileChipText, targetSpeed === preset.speed / 3.6 && styles.profileChipTextActive]}>
+                      {t(`targetSpeed.${preset.key}`)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <SliderInput
+                label={t('calculator.targetSpeed')}
+                value={targetSpeed}
+                onValueChange={setTargetSpeed}
+                min={SLIDER_RANGES.targetSpeed.min}
+                max={SLIDER_RANGES.targetSpeed.max}
+                step={SLIDER_RANGES.targetSpeed.step}
+                quantity="targetSpeed"
+                unitSystem={settings.unitSystem}
+              />
+
+              <SliderInput
+                label={t('calculator.crossingAngle')}
+                value={crossingAngle}
+                onValueChange={setCrossingAngle}
+                min={SLIDER_RANGES.crossingAngle.min}
+                max={SLIDER_RANGES.crossingAngle.max}
+                step={SLIDER_RANGES.crossingAngle.step}
+                formatValue={(val) => getCrossingAngleText(val)}
+              />
+
+              <Text style={styles.chipLabel}>{t('calculator.species')}</Text>
+              <View style={styles.chipRow}>
+                {GAME_SPECIES.map(g => (
+                  <TouchableOpacity
+                    key={g.key}
+                    style={[styles.profileChip, gameKey === g.key && styles.profileChipActive]}
+                    onPress={() => setGameKey(g.key)}
+                  >
+                    <Text style={[styles.profileChipText, gameKey === g.key && styles.profileChipTextActive]}>
+                      {t(`species.${g.key}`)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </Card>
+
+            {/* Lead Result */}
+            {lead && (
+              <LeadDisplay
+                lead={lead}
+                targetSpeed={targetSpeed}
+                gameLabel={t(`species.${game.key}`)}
+                unitSystem={settings.unitSystem}
+              />
+            )}
 
-        {/* Range Card */}
-        {showRangeCard && (
-          <View style={styles.rangeCardContainer}>
-            <RangeCard
+            <EthicalRangeWarning
               profile={activeProfile}
-              windSpeed={windSpeed}
-              windAngle={windAngle}
-              unit={settings.units}
+              distance={leadDistance}
+              environment={environment}
+              unitSystem={settings.unitSystem}
             />
-          </View>
+
+            {/* Lead Table Toggle Button */}
+            <TouchableOpacity
+              style={[
+                styles.rangeCardToggle,
+                showLeadCard && styles.rangeCardToggleActive,
+              ]}
+              onPress={() => setShowLeadCard(!showLeadCard)}
+            >
+              <Text style={styles.rangeCardToggleIcon}>
+                {showLeadCard ? '📋' : '📊'}
+              </Text>
+              <Text style={[
+                styles.rangeCardToggleText,
+                showLeadCard && styles.rangeCardToggleTextActive,
+              ]}>
+                {showLeadCard ? t('calculator.hideLeadTable') : t('calculator.showLeadTable')}
+              </Text>
+              <Text style={[
+                styles.rangeCardToggleArrow,
+                showLeadCard && styles.rangeCardToggleArrowActive,
+              ]}>
+                {showLeadCard ? '▲' : '▼'}
+              </Text>
+            </TouchableOpacity>
+
+            {/* Lead Table */}
+            {showLeadCard && (
+              <View style={styles.rangeCardContainer}>
+                <LeadCard
+                  profile={activeProfile}
+                  crossingAngle={crossingAngle}
+                  bodyLength={game.bodyLength}
+                  gameLabel={t(`species.${game.key}`)}
+                  unitSystem={settings.unitSystem}
+                />
+              </View>
+            )}
+          </>
+        ) : (
+          <>
+            {/* Range Estimation Toggle */}
+            <TouchableOpacity
+              style={[
+                styles.rangeCardToggle,
+                showRangeEstimation && styles.rangeCardToggleActive,
+              ]}
+              onPress={() => setShowRangeEstimation(!showRangeEstimation)}
+            >
+              <Text style={styles.rangeCardToggleIcon}>📏</Text>
+              <Text style={[
+                styles.rangeCardToggleText,
+                showRangeEstimation && styles.rangeCardToggleTextActive,
+              ]}>
+                {t('calculator.estimateToggle')}
+              </Text>
+              <Text style={[
+                styles.rangeCardToggleArrow,
+                showRangeEstimation && styles.rangeCardToggleArrowActive,
+              ]}>
+                {showRangeEstimation ? '▲' : '▼'}
+              </Text>
+            </TouchableOpacity>
+
+            {/* Range Estimation */}
+            {showRangeEstimation && rangeEstimate && (
+              <Card style={styles.sliderCard}>
+                <Text style={styles.chipLabel}>{t('calculator.estimateTarget')}</Text>
+                <View style={styles.chipRow}>
+                  {GAME_SPECIES.map(g => (
+                    <TouchableOpacity
+                      key={g.key}
+                      style={[styles.profileChip, estimationTarget === g.key && styles.profileChipActive]}
+                      onPress={() => setEstimationTarget(g.key)}
+                    >
+                      <Text style={[styles.profileChipText, estimationTarget === g.key && styles.profileChipTextActive]}>
+                        {t(`species.${g.key}`)} {formatUnit(g.chestDepth * 100, 'length', settings.unitSystem, 0)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                  <TouchableOpacity
+                    style={[styles.profileChip, estimationTarget === 'custom' && styles.profileChipActive]}
+                    onPress={() => setEstimationTarget('custom')}
+                  >
+                    <Text style={[styles.profileChipText, estimationTarget === 'custom' && styles.profileChipTextActive]}>
+                      {t('calculator.estimateCustom')}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                {estimationTarget === 'custom' && (
+                  <SliderInput
+                    label={t('calculator.estimateTargetSize')}
+                    value={customTargetSize}
+                    onValueChange={setCustomTargetSize}
+                    min={SLIDER_RANGES.targetSize.min}
+                    max={SLIDER_RANGES.targetSize.max}
+                    step={SLIDER_RANGES.targetSize.step}
+                    quantity="length"
+                    unitSystem={settings.unitSystem}
+                  />
+                )}
+
+                <Text style={styles.chipLabel}>{t('calculator.estimateUnit')}</Text>
+                <View style={styles.chipRow}>
+                  {(['mil', 'moa'] as const).map(u => (
+                    <TouchableOpacity
+                      key={u}
+                      style={[styles.profileChip, readingUnit === u && styles.profileChipActive]}
+                      onPress={() => {
+                        setReadingUnit(u);
+                        setRangeReading(u === 'mil' ? 2 : 7); // about the same angle
+                      }}
+                    >
+                      <Text style={[styles.profileChipText, readingUnit === u && styles.profileChipTextActive]}>
+                        {u === 'mil' ? 'mrad' : 'MOA'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <SliderInput
+                  label={t('calculator.estimateReading')}
+                  value={rangeReading}
+                  onValueChange={setRangeReading}
+                  min={readingUnit === 'mil' ? SLIDER_RANGES.rangeReadingMil.min : SLIDER_RANGES.rangeReadingMoa.min}
+                  max={readingUnit === 'mil' ? SLIDER_RANGES.rangeReadingMil.max : SLIDER_RANGES.rangeReadingMoa.max}
+                  step={readingUnit === 'mil' ? SLIDER_RANGES.rangeReadingMil.step : SLIDER_RANGES.rangeReadingMoa.step}
+                  unit={readingUnit === 'mil' ? ' mrad' : ' MOA'}
+                />
+
+                <View style={styles.slopeInfo}>
+                  <Text style={styles.estimateValue}>
+                    {t('calculator.estimateDistance', { distance: formatUnit(rangeEstimate.distance, 'distance', settings.unitSystem) })}
+                  </Text>
+                  <Text style={styles.slopeInfoText}>
+                    {t('calculator.estimateBand', {
+                      min: formatUnit(rangeEstimate.minDistance, 'distance', settings.unitSystem),
+                      max: Number.isFinite(rangeEstimate.maxDistance)
+                        ? formatUnit(rangeEstimate.maxDistance, 'distance', settings.unitSystem)
+                        : t('calculator.estimateUnlimited'),
+                    })}
+                    {' '}{t('calculator.estimateErrors', {
+                      reading: DEFAULT_READING_ERROR[readingUnit],
+                      unit: readingUnit === 'mil' ? 'mrad' : 'MOA',
+                      size: DEFAULT_TARGET_SIZE_TOLERANCE * 100,
+                    })}
+                  </Text>
+                  {rangeBandDrop && (
+                    <Text style={styles.slopeInfoText}>
+                      {t('calculator.estimateDrops', {
+                        near: formatCorrection(rangeBandDrop.near, rangeEstimate.minDistance, settings.units, settings.unitSystem),
+                        nearDistance: formatUnit(rangeEstimate.minDistance, 'distance', settings.unitSystem),
+                        far: formatCorrection(rangeBandDrop.far, rangeBandDrop.farDistance, settings.units, settings.unitSystem),
+                        farDistance: formatUnit(rangeBandDrop.farDistance, 'distance', settings.unitSystem),
+                      })}
+                    </Text>
+                  )}
+                </View>
+                {reticle?.focalPlane === 'sfp' && currentMagnification !== reticle.referenceMagnification && (
+                  <Text style={styles.estimateNote}>
+                    {t('calculator.estimateSfp', {
+                      magnification: currentMagnification,
+                      reference: reticle.referenceMagnification,
+                    })}
+                  </Text>
+                )}
+              </Card>
+            )}
+
+            {/* Distance Slider */}
+            <Card style={styles.sliderCard}>
+              <SliderInput
+                label={t('calculator.distance')}
+                value={distance}
+                onValueChange={setDistance}
+                min={SLIDER_RANGES.distance.min}
+                max={SLIDER_RANGES.distance.max}
+                step={SLIDER_RANGES.distance.step}
+                quantity="distance"
+                unitSystem={settings.unitSystem}
+              />
+              <SliderInput
+                label={t('calculator.shotAngle')}
+                value={shotAngle}
+                onValueChange={setShotAngle}
+                min={SLIDER_RANGES.shotAngle.min}
+                max={SLIDER_RANGES.shotAngle.max}
+                step={SLIDER_RANGES.shotAngle.step}
+                unit="°"
+                formatValue={(val) => getShotAngleText(val)}
+              />
+              {shotAngle !== 0 && (
+                <View style={styles.slopeInfo}>
+                  <Text style={styles.slopeInfoText}>
+                    {t('calculator.slopeDistances', {
+                      laser: formatUnit(distance, 'distance', settings.unitSystem),
+                      horizontal: formatUnit(calculateHorizontalDistance(distance, shotAngle), 'distance', settings.unitSystem),
+                    })}
+                  </Text>
+                </View>
+              )}
+            </Card>
+
+            {/* Result Display */}
+            {result && (
+              <ResultDisplay
+                result={result}
+                distance={distance}
+                unit={settings.units}
+                unitSystem={settings.unitSystem}
+                minExpansionVelocity={getMinExpansionVelocity(activeProfile.ammunition)}
+                optic={activeProfile.optic}
+              />
+            )}
+
+            {/* Reticle hold */}
+            {reticle && reticleHold && (
+              <Card style={styles.sliderCard}>
+                <Text style={styles.reticleTitle}>{t('calculator.reticleHold')}</Text>
+                <Text style={styles.reticleName}>{t(`reticles.${reticle.key}`)}</Text>
+                {reticle.focalPlane === 'sfp' && (
+                  <SliderInput
+                    label={t('calculator.magnification')}
+                    value={currentMagnification}
+                    onValueChange={setMagnification}
+                    min={SLIDER_RANGES.magnification.min}
+                    max={SLIDER_RANGES.magnification.max}
+                    step={SLIDER_RANGES.magnification.step}
+                    formatValue={(val) => `${formatNumber(val)}x`}
+                  />
+                )}
+                <ReticleView
+                  reticle={reticle}
+                  hold={reticleHold}
+                  magnification={currentMagnification}
+                  unitSystem={settings.unitSystem}
+                />
+              </Card>
+            )}
+
+            {/* Minimum energy per game species */}
+            <EthicalRangeWarning
+              profile={activeProfile}
+              distance={distance}
+              environment={environment}
+              unitSystem={settings.unitSystem}
+            />
+
+            {/* Range Card Toggle Button */}
+            <TouchableOpacity
+              style={[
+                styles.rangeCardToggle,
+                showRangeCard && styles.rangeCardToggleActive,
+              ]}
+              onPress={() => setShowRangeCard(!showRangeCard)}
+            >
+              <Text style={styles.rangeCardToggleIcon}>
+                {showRangeCard ? '📋' : '📊'}
+              </Text>
+              <Text style={[
+                styles.rangeCardToggleText,
+                showRangeCard && styles.rangeCardToggleTextActive,
+              ]}>
+                {showRangeCard ? t('calculator.hideRangeCard') : t('calculator.showRangeCard')}
+              </Text>
+              <Text style={[
+                styles.rangeCardToggleArrow,
+                showRangeCard && styles.rangeCardToggleArrowActive,
+              ]}>
+                {showRangeCard ? '▲' : '▼'}
+              </Text>
+            </TouchableOpacity>
+
+            {/* Range Card */}
+            {showRangeCard && (
+              <View style={styles.rangeCardContainer}>
+                <RangeCard
+                  profile={activeProfile}
+                  windSpeed={windSpeed}
+                  windAngle={windAngle}
+                  windZones={useWindZones ? windZones : undefined}
+                  unit={settings.units}
+                  unitSystem={settings.unitSystem}
+                />
+              </View>
+            )}
+
+            {/* Hit Probability Toggle */}
+            <TouchableOpacity
+              style={[
+                styles.rangeCardToggle,
+                showHitProbability && styles.rangeCardToggleActive,
+              ]}
+              onPress={() => setShowHitProbability(!showHitProbability)}
+            >
+              <Text style={styles.rangeCardToggleIcon}>🎯</Text>
+              <Text style={[
+                styles.rangeCardToggleText,
+                showHitProbability && styles.rangeCardToggleTextActive,
+              ]}>
+                {t('calculator.hitProbability')}
+              </Text>
+              <Text style={[
+                styles.rangeCardToggleArrow,
+                showHitProbability && styles.rangeCardToggleArrowActive,
+              ]}>
+                {showHitProbability ? '▲' : '▼'}
+              </Text>
+            </TouchableOpacity>
+
+            {/* Hit Probability */}
+            {showHitProbability && (
+              <>
+                <Card style={styles.sliderCard}>
+                  <SliderInput
+                    label={t('calculator.vitalZone')}
+                    value={vitalZone}
+                    onValueChange={setVitalZone}
+                    min={SLIDER_RANGES.vitalZone.min}
+                    max={SLIDER_RANGES.vitalZone.max}
+                    step={SLIDER_RANGES.vitalZone.step}
+                    quantity="length"
+                    unitSystem={settings.unitSystem}
+                  />
+                  <SliderInput
+                    label={t('calculator.dispersion')}
+                    value={dispersion}
+                    onValueChange={setDispersion}
+                    min={SLIDER_RANGES.dispersion.min}
+                    max={SLIDER_RANGES.dispersion.max}
+                    step={SLIDER_RANGES.dispersion.step}
+                    unit=" MOA"
+                  />
+                  <SliderInput
+                    label={t('calculator.muzzleVelocitySD')}
+                    value={muzzleVelocitySD}
+                    onValueChange={setMuzzleVelocitySD}
+                    min={SLIDER_RANGES.muzzleVelocitySD.min}
+                    max={SLIDER_RANGES.muzzleVelocitySD.max}
+                    step={SLIDER_RANGES.muzzleVelocitySD.step}
+                    quantity="velocity"
+                    unitSystem={settings.unitSystem}
+                  />
+                  <SliderInput
+                    label={t('calculator.bcUncertainty')}
+                    value={bcUncertainty}
+                    onValueChange={setBcUncertainty}
+                    min={SLIDER_RANGES.bcUncertainty.min}
+                    max={SLIDER_RANGES.bcUncertainty.max}
+                    step={SLIDER_RANGES.bcUncertainty.step}
+                    unit="%"
+                  />
+                  <SliderInput
+                    label={t('calculator.rangeErrorSD')}
+                    value={rangeErrorSD}
+                    onValueChange={setRangeErrorSD}
+                    min={SLIDER_RANGES.rangeErrorSD.min}
+                    max={SLIDER_RANGES.rangeErrorSD.max}
+                    step={SLIDER_RANGES.rangeErrorSD.step}
+                    quantity="distance"
+                    unitSystem={settings.unitSystem}
+                  />
+                  <SliderInput
+                    label={t('calculator.windSpeedSD')}
+                    value={windSpeedSD}
+                    onValueChange={setWindSpeedSD}
+                    min={SLIDER_RANGES.windSpeedSD.min}
+                    max={SLIDER_RANGES.windSpeedSD.max}
+                    step={SLIDER_RANGES.windSpeedSD.step}
+                    quantity="windSpeed"
+                    unitSystem={settings.unitSystem}
+                  />
+                </Card>
+
+                {hitProbability && <HitProbabilityDisplay result={hitProbability} unitSystem={settings.unitSystem} />}
+              </>
+            )}
+          </>
         )}
 
         {/* Wind Settings */}
-        <Text style={styles.sectionTitle}>Windeinstellungen</Text>
+        <Text style={styles.sectionTitle}>{t('calculator.windSettings')}</Text>
 
         <Card style={styles.sliderCard}>
-          <SliderInput
-            label="Windgeschwindigkeit"
-            value={windSpeed}
-            onValueChange={setWindSpeed}
-            min={SLIDER_RANGES.windSpeed.min}
-            max={SLIDER_RANGES.windSpeed.max}
-            step={SLIDER_RANGES.windSpeed.step}
-            unit=" m/s"
-          />
-        </Card>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>{t('calculator.windZones')}</Text>
+            <Switch
+              value={useWindZones}
+              onValueChange={handleToggleWindZones}
+              trackColor={{ false: colors.border, true: colors.gold }}
+            />
+          </View>
 
-        <Card style={styles.sliderCard}>
-          <SliderInput
-            label="Windrichtung"
-            value={windAngle}
-            onValueChange={setWindAngle}
-            min={SLIDER_RANGES.windAngle.min}
-            max={SLIDER_RANGES.windAngle.max}
-            step={SLIDER_RANGES.windAngle.step}
-            formatValue={(val) => getWindDirectionText(val)}
-          />
+          {useWindZones && (
+            <WindZoneEditor
+              zones={windZones}
+              onChange={setWindZones}
+              formatDirection={angle => getWindDirectionText(angle, language)}
+              unitSystem={settings.unitSystem}
+            />
+          )}
         </Card>
 
+        {!useWindZones && (
+          <>
+            <Card style={styles.sliderCard}>
+              <SliderInput
+                label={t('calculator.windSpeed')}
+                value={windSpeed}
+                onValueChange={setWindSpeed}
+                min={SLIDER_RANGES.windSpeed.min}
+                max={SLIDER_RANGES.windSpeed.max}
+                step={SLIDER_RANGES.windSpeed.step}
+                quantity="windSpeed"
+                unitSystem={settings.unitSystem}
+              />
+            </Card>
+
+            <Card style={styles.sliderCard}>
+              <WindClockPicker value={windAngle} onValueChange={setWindAngle} />
+              <SliderInput
+                label={t('calculator.windFineTuning')}
+                value={windAngle}
+                onValueChange={setWindAngle}
+                min={SLIDER_RANGES.windAngle.min}
+                max={SLIDER_RANGES.windAngle.max}
+                step={SLIDER_RANGES.windAngle.step}
+                formatValue={(val) => `${val}°`}
+              />
+            </Card>
+          </>
+        )}
+
         {/* Environment Settings Toggle */}
         <TouchableOpacity
           style={[
@@ -237,11 +866,11 @@ export default function CalculatorScreen() {
               styles.environmentToggleText,
               showEnvironment && styles.environmentToggleTextActive,
             ]}>
-              Umgebungsbedingungen
+              {t('calculator.environment')}
             </Text>
             {envData.source === 'auto' && (
               <View style={styles.autoBadge}>
-                <Text style={styles.autoBadgeText}>Auto</Text>
+                <Text style={styles.autoBadgeText}>{t('calculator.environmentAuto')}</Text>
               </View>
             )}
           </View>
@@ -267,7 +896,7 @@ export default function CalculatorScreen() {
               ) : (
                 <>
                   <Text style={styles.refreshIcon}>🔄</Text>
-                  <Text style={styles.refreshText}>Aktualisieren</Text>
+                  <Text style={styles.refreshText}>{t('calculator.environmentRefresh')}</Text>
                 </>
               )}
             </TouchableOpacity>
@@ -276,13 +905,15 @@ export default function CalculatorScreen() {
             <View style={styles.envInfoBanner}>
               <Text style={styles.envInfoText}>
                 {envData.source === 'auto'
-                  ? `Automatisch erkannt • ${new Date(envData.lastUpdated).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}`
-                  : 'Manuelle Eingabe'}
+                  ? t('calculator.environmentDetected', {
+                    time: new Date(envData.lastUpdated).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }),
+                  })
+                  : t('calculator.environmentManual')}
               </Text>
             </View>
 
             <SliderInput
-              label="Temperatur"
+              label={t('calculator.temperature')}
               value={temperature}
               onValueChange={(val) => {
                 setTemperature(val);
@@ -291,11 +922,12 @@ export default function CalculatorScreen() {
               min={ENVIRONMENT_RANGES.temperature.min}
               max={ENVIRONMENT_RANGES.temperature.max}
               step={ENVIRONMENT_RANGES.temperature.step}
-              unit="°C"
+              quantity="temperature"
+              unitSystem={settings.unitSystem}
             />
 
             <SliderInput
-              label="Luftdruck"
+              label={t('calculator.pressure')}
               value={pressure}
               onValueChange={(val) => {
                 setPressure(val);
@@ -304,11 +936,12 @@ export default function CalculatorScreen() {
               min={ENVIRONMENT_RANGES.pressure.min}
               max={ENVIRONMENT_RANGES.pressure.max}
               step={ENVIRONMENT_RANGES.pressure.step}
-              unit=" hPa"
+              quantity="pressure"
+              unitSystem={settings.unitSystem}
             />
 
             <SliderInput
-              label="Hohe (m u. NN)"
+              label={t('calculator.altitude')}
               value={altitude}
               onValueChange={(val) => {
                 setAltitude(val);
@@ -317,11 +950,12 @@ export default function CalculatorScreen() {
               min={ENVIRONMENT_RANGES.altitude.min}
               max={ENVIRONMENT_RANGES.altitude.max}
               step={ENVIRONMENT_RANGES.altitude.step}
-              unit=" m"
+              quantity="altitude"
+              unitSystem={settings.unitSystem}
             />
 
             <SliderInput
-              label="Luftfeuchtigkeit"
+              label={t('calculator.humidity')}
               value={humidity}
               onValueChange={(val) => {
                 setHumidity(val);
@@ -333,35 +967,123 @@ export default function CalculatorScreen() {
               unit="%"
             />
 
+            {/* Powder temperature */}
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>{t('calculator.separatePowderTemp')}</Text>
+              <Switch
+                value={separatePowderTemp}
+                onValueChange={setSeparatePowderTemp}
+                trackColor={{ false: colors.border, true: colors.gold }}
+              />
+            </View>
+
+            {separatePowderTemp && (
+              <SliderInput
+                label={t('calculator.powderTemperature')}
+                value={powderTemperature}
+                onValueChange={setPowderTemperature}
+                min={ENVIRONMENT_RANGES.powderTemperature.min}
+                max={ENVIRONMENT_RANGES.powderTemperature.max}
+                step={ENVIRONMENT_RANGES.powderTemperature.step}
+                quantity="temperature"
+                unitSystem={settings.unitSystem}
+              />
+            )}
+
+            {/* Earth rotation */}
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>{t('calculator.earthRotation')}</Text>
+              <Switch
+                value={earthRotation}
+                onValueChange={setEarthRotation}
+                trackColor={{ false: colors.border, true: colors.gold }}
+              />
+            </View>
+
+            {earthRotation && (
+              <>
+                <SliderInput
+                  label={t('calculator.latitude')}
+                  value={latitude}
+                  onValueChange={setLatitude}
+                  min={ENVIRONMENT_RANGES.latitude.min}
+                  max={ENVIRONMENT_RANGES.latitude.max}
+                  step={ENVIRONMENT_RANGES.latitude.step}
+                  formatValue={(val) => val >= 0
+                    ? t('calculator.latitudeNorth', { angle: val })
+                    : t('calculator.latitudeSouth', { angle: Math.abs(val) })}
+                />
+
+                <SliderInput
+                  label={t('calculator.azimuth')}
+                  value={azimuth}
+                  onValueChange={setAzimuth}
+                  min={ENVIRONMENT_RANGES.azimuth.min}
+                  max={ENVIRONMENT_RANGES.azimuth.max}
+                  step={ENVIRONMENT_RANGES.azimuth.step}
+                  formatValue={(val) => getAzimuthText(val)}
+                />
+              </>
+            )}
+
             {/* Impact note */}
             <View style={styles.impactNote}>
               <Text style={styles.impactNoteText}>
-                Die Umgebungsbedingungen beeinflussen die Luftdichte und damit die Flugbahn.
-                Bei hoher Hohe und Warme ist die Luft dunner - das Geschoss fallt weniger.
+                {t('calculator.environmentNote')}
               </Text>
             </View>
           </Card>
         )}
 
         {/* Profile Info */}
-        <Text style={styles.sectionTitle}>Aktives Profil</Text>
+        <Text style={styles.sectionTitle}>{t('calculator.activeProfile')}</Text>
         <Card style={styles.profileInfo}>
           <View style={styles.profileRow}>
-            <Text style={styles.profileLabel}>Kaliber</Text>
+            <Text style={styles.profileLabel}>{t('calculator.caliber')}</Text>
             <Text style={styles.profileValue}>{activeProfile.caliber}</Text>
           </View>
           <View style={styles.profileRow}>
-            <Text style={styles.profileLabel}>Munition</Text>
+            <Text style={styles.profileLabel}>{t('calculator.ammunition')}</Text>
             <Text style={styles.profileValue}>{activeProfile.ammunition.name}</Text>
           </View>
+          {activeProfile.ammunition.construction && (
+            <View style={styles.profileRow}>
+              <Text style={styles.profileLabel}>{t('calculator.bullet')}</Text>
+              <Text style={styles.profileValue}>
+                {t(`construction.${activeProfile.ammunition.construction}`)}
+              </Text>
+            </View>
+          )}
+          {expansionRange != null && (
+            <View style={styles.profileRow}>
+              <Text style={styles.profileLabel}>{t('calculator.expansionRange')}</Text>
+              <Text style={styles.profileValue}>
+                {expansionRange >= ETHICAL_RANGE_LIMIT ? '>' : ''}{formatUnit(Math.min(expansionRange, ETHICAL_RANGE_LIMIT), 'distance', settings.unitSystem)}
+              </Text>
+            </View>
+          )}
+          <View style={styles.profileRow}>
+            <Text style={styles.profileLabel}>{t('calculator.effectiveMuzzleVelocity')}</Text>
+            <Text style={styles.profileValue}>
+              {formatUnit(effectiveMuzzleVelocity ?? 0, 'velocity', settings.unitSystem)}
+              {effectiveMuzzleVelocity !== Math.round(getNominalMuzzleVelocity(activeProfile)) &&
+                t('calculator.nominalMuzzleVelocity', {
+                  velocity: formatUnit(getNominalMuzzleVelocity(activeProfile), 'velocity', settings.unitSystem),
+                })}
+            </Text>
+          </View>
           <View style={styles.profileRow}>
-            <Text style={styles.profileLabel}>Modell</Text>
-            <Text style={styles.profileValue}>{(activeProfile.dragModel || 'g1').toUpperCase()}</Text>
+            <Text style={styles.profileLabel}>{t('calculator.dragModel')}</Text>
+            <Text style={styles.profileValue}>
+              {DRAG_MODEL_LABELS[getEffectiveDragModel(activeProfile)]}
+              {getEffectiveDragModel(activeProfile) !== (activeProfile.dragModel || 'g1') &&
+                t('calculator.dragModelFallback', { model: DRAG_MODEL_LABELS[activeProfile.dragModel] })}
+            </Text>
           </View>
           <View style={styles.profileRow}>
-            <Text style={styles.profileLabel}>Zero</Text>
+            <Text style={styles.profileLabel}>{t('calculator.zero')}</Text>
             <Text style={styles.profileValue}>
-              {activeProfile.zeroDistance}m {activeProfile.zeroType === 'gee' ? '(GEE)' : ''}
+              {formatUnit(activeProfile.zeroDistance, 'distance', settings.unitSystem)} {activeProfile.zeroType === 'gee' ? '(GEE)' : ''}
             </Text>
           </View>
         </Card>
@@ -441,6 +1163,57 @@ const styles = StyleSheet.create({
   sliderCard: {
     marginVertical: 8,
   },
+  modeSwitch: {
+    flexDirection: 'row',
+    backgroundColor: colors.warmWhite,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 4,
+    marginTop: 12,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: colors.forest,
+  },
+  modeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.forest,
+  },
+  modeButtonTextActive: {
+    color: colors.warmWhite,
+  },
+  chipLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 8,
+    marginBottom: 8,
+  },
+  slopeInfo: {
+    backgroundColor: colors.cream,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    marginTop: 4,
+    alignItems: 'center',
+  },
+  slopeInfoText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
   rangeCardToggle: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -482,6 +1255,28 @@ const styles = StyleSheet.create({
   rangeCardContainer: {
     marginBottom: 16,
   },
+  estimateValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.forest,
+    marginBottom: 2,
+  },
+  estimateNote: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  reticleTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  reticleName: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
   sectionTitle: {
     fontSize: 16,
     fontWeight: '700',
@@ -596,6 +1391,17 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: colors.textSecondary,
   },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  switchLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
   impactNote: {
     backgroundColor: '#FFF8E1',
     padding: 12,
@@ -2,48 +2,52 @@ import React, { useState, useMemo } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { Header, SliderInput, ResultDisplay, Card, RangeCard } from '../../src/components';
+import {
+  Header,
+  SliderInput,
+  ResultDisplay,
+  Card,
+  RangeCard,
+  EthicalRangeWarning,
+  WindClockPicker,
+} from '../../src/components';
 import { colors, SLIDER_RANGES } from '../../src/lib/constants';
 import { useApp } from '../../src/context/AppContext';
-import { calculateTrajectory, createStandardEnvironment } from '../../src/lib/ballistics';
+import { calculateTrajectory, createStandardEnvironment, getMinExpansionVelocity } from '../../src/lib/ballistics';
+import { formatUnit } from '../../src/lib/units';
+import { useTranslation } from '../../src/i18n/useTranslation';
 
 export default function CalculatorScreen() {
   const { activeProfile, profiles, setActiveProfile, settings } = useApp();
+  const { t } = useTranslation();
   const [distance, setDistance] = useState(150);
   const [windSpeed, setWindSpeed] = useState(0);
   const [windAngle, setWindAngle] = useState(90);
   const [showRangeCard, setShowRangeCard] = useState(false);
 
+  const environment = useMemo(
+    () => createStandardEnvironment(windSpeed, windAngle),
+    [windSpeed, windAngle]
+  );
+
   // Calculate ballistic result
   const result = useMemo(() => {
     if (!activeProfile) return null;
-    const environment = createStandardEnvironment(windSpeed, windAngle);
     return calculateTrajectory(activeProfile, distance, environment);
-  }, [activeProfile, distance, windSpeed, windAngle]);
-
-  // Wind direction text
-  const getWindDirectionText = (angle: number): string => {
-    if (angle === 0) return 'Gegenwind';
-    if (angle === 180) return 'Ruckenwind';
-    if (angle === 90) return 'von rechts';
-    if (angle < 90) return `${angle}° von rechts vorne`;
-    return `${180 - angle}° von rechts hinten`;
-  };
+  }, [activeProfile, distance, environment]);
 
   if (!activeProfile) {
     return (
       <SafeAreaView style={styles.container} edges={['top']}>
-        <Header title="Ballistik Rechner" />
+        <Header title={t('calculator.title')} />
         <View style={styles.noProfileContainer}>
-          <Text style={styles.noProfileTitle}>Kein Profil aktiv</Text>
-          <Text style={styles.noProfileText}>
-            Bitte wahlen Sie ein Profil aus oder erstellen Sie ein neues.
-          </Text>
+          <Text style={styles.noProfileTitle}>{t('calculator.noProfileTitle')}</Text>
+          <Text style={styles.noProfileText}>{t('calculator.noProfileText')}</Text>
           <TouchableOpacity
             style={styles.goToProfilesButton}
             onPress={() => router.push('/(tabs)/profiles')}
           >
-            <Text style={styles.goToProfilesText}>Zu den Profilen</Text>
+            <Text style={styles.goToProfilesText}>{t('calculator.goToProfiles')}</Text>
           </TouchableOpacity>
         </View>
       </SafeAreaView>
@@ -53,7 +57,7 @@ export default function CalculatorScreen() {
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <Header
-        title="Ballistik Rechner"
+        title={t('calculator.title')}
         subtitle={activeProfile.name}
       />
 
@@ -92,13 +96,14 @@ export default function CalculatorScreen() {
         {/* Distance Slider */}
         <Card style={styles.sliderCard}>
           <SliderInput
-            label="Entfernung"
+            label={t('calculator.distance')}
             value={distance}
             onValueChange={setDistance}
             min={SLIDER_RANGES.distance.min}
             max={SLIDER_RANGES.distance.max}
             step={SLIDER_RANGES.distance.step}
-            unit="m"
+            quantity="distance"
+            unitSystem={settings.unitSystem}
           />
         </Card>
 
@@ -108,9 +113,20 @@ export default function CalculatorScreen() {
             result={result}
             distance={distance}
             unit={settings.units}
+            unitSystem={settings.unitSystem}
+            minExpansionVelocity={getMinExpansionVelocity(activeProfile.ammunition)}
+            optic={activeProfile.optic}
           />
         )}
 
+        {/* Minimum energy per game species */}
+        <EthicalRangeWarning
+          profile={activeProfile}
+          distance={distance}
+          environment={environment}
+          unitSystem={settings.unitSystem}
+        />
+
         {/* Range Card Toggle Button */}
         <TouchableOpacity
           style={[
@@ -126,7 +142,7 @@ export default function CalculatorScreen() {
             styles.rangeCardToggleText,
             showRangeCard && styles.rangeCardToggleTextActive,
           ]}>
-            {showRangeCard ? 'Schusstafel ausblenden' : 'Schusstafel anzeigen'}
+            {showRangeCard ? t('calculator.hideRangeCard') : t('calculator.showRangeCard')}
           </Text>
           <Text style={[
             styles.rangeCardToggleArrow,
@@ -144,52 +160,46 @@ export default function CalculatorScreen() {
               windSpeed={windSpeed}
               windAngle={windAngle}
               unit={settings.units}
+              unitSystem={settings.unitSystem}
             />
           </View>
         )}
 
         {/* Wind Settings */}
-        <Text style={styles.sectionTitle}>Windeinstellungen</Text>
+        <Text style={styles.sectionTitle}>{t('calculator.windSettings')}</Text>
 
         <Card style={styles.sliderCard}>
           <SliderInput
-            label="Windgeschwindigkeit"
+            label={t('calculator.windSpeed')}
             value={windSpeed}
             onValueChange={setWindSpeed}
             min={SLIDER_RANGES.windSpeed.min}
             max={SLIDER_RANGES.windSpeed.max}
             step={SLIDER_RANGES.windSpeed.step}
-            unit=" m/s"
+            quantity="windSpeed"
+            unitSystem={settings.unitSystem}
           />
         </Card>
 
         <Card style={styles.sliderCard}>
-          <SliderInput
-            label="Windrichtung"
-            value={windAngle}
-            onValueChange={setWindAngle}
-            min={SLIDER_RANGES.windAngle.min}
-            max={SLIDER_RANGES.windAngle.max}
-            step={SLIDER_RANGES.windAngle.step}
-            formatValue={(val) => getWindDirectionText(val)}
-          />
+          <WindClockPicker value={windAngle} onValueChange={setWindAngle} />
         </Card>
 
         {/* Profile Info */}
-        <Text style={styles.sectionTitle}>Aktives Profil</Text>
+        <Text style={styles.sectionTitle}>{t('calculator.activeProfile')}</Text>
         <Card style={styles.profileInfo}>
           <View style={styles.profileRow}>
-            <Text style={styles.profileLabel}>Kaliber</Text>
+            <Text style={styles.profileLabel}>{t('calculator.caliber')}</Text>
             <Text style={styles.profileValue}>{activeProfile.caliber}</Text>
           </View>
           <View style={styles.profileRow}>
-            <Text style={styles.profileLabel}>Munition</Text>
+            <Text style={styles.profileLabel}>{t('calculator.ammunition')}</Text>
             <Text style={styles.profileValue}>{activeProfile.ammunition.name}</Text>
           </View>
           <View style={styles.profileRow}>
-            <Text style={styles.profileLabel}>Zero</Text>
+            <Text style={styles.profileLabel}>{t('calculator.zero')}</Text>
             <Text style={styles.profileValue}>
-              {activeProfile.zeroDistance}m {activeProfile.zeroType === 'gee' ? '(GEE)' : ''}
+              {formatUnit(activeProfile.zeroDistance, 'distance', settings.unitSystem)} {activeProfile.zeroType === 'gee' ? '(GEE)' : ''}
             </Text>
           </View>
         </Card>
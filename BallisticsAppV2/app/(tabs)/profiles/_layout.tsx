@@ -0,0 +1,20 @@
+import { Stack } from 'expo-router';
+import { colors } from '../../../src/lib/constants';
+
+export default function ProfilesLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+        contentStyle: { backgroundColor: colors.cream },
+        animation: 'slide_from_right',
+      }}
+    >
+      <Stack.Screen name="index" />
+      <Stack.Screen name="edit" />
+      <Stack.Screen name="custom-ammunition" />
+      <Stack.Screen name="truing" />
+      <Stack.Screen name="optic" />
+    </Stack>
+  );
+}
@@ -0,0 +1,94 @@
+import React from 'react';
+import { StyleSheet, ScrollView, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { CustomAmmunitionEditor, Header } from '../../../src/components';
+import { colors } from '../../../src/lib/constants';
+import { useApp } from '../../../src/context/AppContext';
+import { CustomAmmunition } from '../../../src/types';
+import { useTranslation } from '../../../src/i18n/useTranslation';
+
+export default function ProfileCustomAmmunitionScreen() {
+  const { caliber, ammoId } = useLocalSearchParams<{ caliber: string; ammoId?: string }>();
+  const { customAmmunition, addCustomAmmunition, updateCustomAmmunition, deleteCustomAmmunition, settings } = useApp();
+  const { t } = useTranslation();
+  const existing = ammoId ? customAmmunition.find(a => a.id === ammoId) : undefined;
+
+  const handleSave = async (data: Omit<CustomAmmunition, 'id' | 'createdAt'>) => {
+    try {
+      if (existing) {
+        await updateCustomAmmunition({ ...existing, ...data });
+      } else {
+        await addCustomAmmunition(data);
+      }
+      router.back();
+    } catch (error) {
+      Alert.alert(t('common.error'), t('customAmmo.saveFailed'));
+    }
+  };
+
+  const handleDelete = () => {
+    if (!existing) return;
+
+    Alert.alert(
+      t('customAmmo.deleteTitle'),
+      t('customAmmo.deleteConfirm', { name: existing.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCustomAmmunition(existing.id);
+              router.back();
+            } catch (error) {
+              Alert.alert(t('common.error'), t('customAmmo.deleteFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Header
+        title={existing ? t('customAmmo.titleEdit') : t('customAmmo.title')}
+        subtitle={caliber}
+        showBack
+        onBack={() => router.back()}
+      />
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <CustomAmmunitionEditor
+          caliber={existing?.caliber ?? caliber}
+          ammunition={existing}
+          library={customAmmunition}
+          unitSystem={settings.unitSystem}
+          onSave={handleSave}
+          onDelete={existing ? handleDelete : undefined}
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.cream,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  contentContainer: {
+    paddingBottom: 24,
+  },
+});
@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TextInput, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Header, Button, Card, SliderInput, UnverifiedBadge } from '../../../src/components';
+import {
+  colors,
+  DEFAULT_BARREL_LENGTH,
+  DEFAULT_POWDER_TEMP_SENSITIVITY,
+  DRAG_MODEL_LABELS,
+  SLIDER_RANGES,
+} from '../../../src/lib/constants';
+import { calculateBarrelLengthAdjustment, getNominalBC, resolveDragModel } from '../../../src/lib/ballistics';
+import { getCaliberByName } from '../../../src/lib/ammunition-data';
+import { getCustomAmmunitionForCaliber, toAmmunitionData } from '../../../src/lib/custom-ammunition';
+import { getDataPackRef } from '../../../src/lib/data-pack';
+import { formatUnit } from '../../../src/lib/units';
+import { useApp } from '../../../src/context/AppContext';
+import { AmmunitionData, RifleProfile } from '../../../src/types';
+import { useTranslation } from '../../../src/i18n/useTranslation';
+
+export default function ProfileEditScreen() {
+  const { profileId } = useLocalSearchParams<{ profileId: string }>();
+  const { profiles, updateProfile, customAmmunition, dataPack, settings } = useApp();
+  const { t, formatNumber } = useTranslation();
+  const profile = profiles.find(p => p.id === profileId);
+
+  const [name, setName] = useState(profile?.name ?? '');
+  const [ammunition, setAmmunition] = useState<AmmunitionData | null>(profile?.ammunition ?? null);
+  const [barrelLength, setBarrelLength] = useState<number | null>(profile?.barrelLength ?? null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!profile || !ammunition) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <Header title={t('profileEdit.title')} showBack onBack={() => router.back()} />
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>{t('profileEdit.notFound')}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const factoryLoads = getCaliberByName(profile.caliber, dataPack.calibers)?.ammunition ?? [];
+  const customLoads = getCustomAmmunitionForCaliber(customAmmunition, profile.caliber);
+  const ammunitionChanged = ammunition !== profile.ammunition;
+  const testBarrelLength = ammunition.testBarrelLength ?? DEFAULT_BARREL_LENGTH;
+  const barrelAdjustment = calculateBarrelLengthAdjustment(ammunition, barrelLength ?? undefined);
+  // Truing is kept unless the load changes, and a trued V0 already includes the barrel
+  const isTrued = !ammunitionChanged && profile.muzzleVelocity != null;
+
+  const save = async (updated: RifleProfile) => {
+    setIsSaving(true);
+    try {
+      await updateProfile(updated);
+      router.back();
+    } catch (error) {
+      Alert.alert(t('common.error'), t('profileEdit.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const renamed = { ...profile, name: name.trim() || profile.name, barrelLength: barrelLength ?? undefined };
+    if (!ammunitionChanged) {
+      save(renamed);
+      return;
+    }
+
+    // Trued values and the powder sensitivity belong to the previous load
+    const updated: RifleProfile = {
+      ...renamed,
+      ammunition,
+      dataPack: getDataPackRef(dataPack, profile.caliber, ammunition),
+      dragModel: ammunition.dragModel || 'g1',
+      powderTempSensitivity: ammunition.powderTempSensitivity ?? DEFAULT_POWDER_TEMP_SENSITIVITY,
+      muzzleVelocity: undefined,
+      bcScale: undefined,
+    };
+
+    if (profile.muzzleVelocity == null && profile.bcScale == null) {
+      save(updated);
+      return;
+    }
+
+    Alert.alert(
+      t('profileEdit.resetTruingTitle'),
+      t('profileEdit.resetTruingMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.save'), onPress: () => save(updated) },
+      ]
+    );
+  };
+
+  // Picking the profile's own load again keeps its stored copy (and the truing)
+  const renderAmmunition = (ammo: AmmunitionData, onEdit?: () => void) => {
+    const isSelected = ammunition.name === ammo.name;
+    const dragModel = resolveDragModel(ammo, ammo.dragModel || 'g1');
+
+    return (
+      <Card
+        key={ammo.name}
+        onPress={() => setAmmunition(ammo.name === profile.ammunition.name ? profile.ammunition : ammo)}
+        selected={isSelected}
+        style={styles.ammoCard}
+      >
+        <View style={styles.ammoHeader}>
+          <View style={styles.ammoTitle}>
+            <Text style={[styles.ammoName, isSelected && styles.selectedText]}>{ammo.name}</Text>
+            {ammo.unverified && <UnverifiedBadge />}
+          </View>
+          {onEdit && (
+            <TouchableOpacity style={styles.editButton} onPress={onEdit}>
+              <Text style={styles.editText}>{t('customAmmo.edit')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <Text style={styles.ammoSpecs}>
+          {formatUnit(ammo.bulletWeight, 'weight', settings.unitSystem)} •{' '}
+          {formatUnit(ammo.muzzleVelocity, 'velocity', settings.unitSystem)} •{' '}
+          BC ({DRAG_MODEL_LABELS[dragModel]}) {formatNumber(getNominalBC(ammo, dragModel))}
+        </Text>
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Header
+        title={t('profileEdit.title')}
+        subtitle={profile.caliber}
+        showBack
+        onBack={() => router.back()}
+      />
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+        <Text style={styles.sectionTitle}>{t('profileEdit.name')}</Text>
+        <Card style={styles.nameCard}>
+          <TextInput
+            style={styles.nameInput}
+            value={name}
+            onChangeText={setName}
+            placeholder={profile.name}
+            placeholderTextColor={colors.textSecondary}
+          />
+        </Card>
+
+        <Text style={styles.sectionTitle}>{t('zero.barrelSection')}</Text>
+        <Card style={styles.sliderCard}>
+          <SliderInput
+            label={t('zero.barrelLabel')}
+            value={(barrelLength ?? testBarrelLength) * 2.54}
+            onValueChange={value => setBarrelLength(Math.round(value / 2.54 * 10) / 10)}
+            min={SLIDER_RANGES.barrelLength.min}
+            max={SLIDER_RANGES.barrelLength.max}
+            step={SLIDER_RANGES.barrelLength.step}
+            quantity="length"
+            unitSystem={settings.unitSystem}
+          />
+          {barrelLength != null && (
+            <TouchableOpacity onPress={() => setBarrelLength(null)}>
+              <Text style={styles.resetLink}>{t('zero.resetBarrel')}</Text>
+            </TouchableOpacity>
+          )}
+        </Card>
+        <Text style={styles.changeNote}>
+          {isTrued
+            ? t('profileEdit.barrelTrued')
+            : barrelLength != null
+              ? t('zero.barrelAdjustment', {
+                  velocity: formatUnit(ammunition.muzzleVelocity + barrelAdjustment, 'velocity', settings.unitSystem),
+                  adjustment: `${barrelAdjustment > 0 ? '+' : ''}${formatUnit(barrelAdjustment, 'velocity', settings.unitSystem)}`,
+                })
+              : t('zero.barrelInstruction', { length: formatUnit(testBarrelLength * 2.54, 'length', settings.unitSystem) })}
+        </Text>
+
+        <Text style={styles.sectionTitle}>{t('profileEdit.ammunition')}</Text>
+        {factoryLoads.map(ammo => renderAmmunition(ammo))}
+        {customLoads.map(ammo =>
+          renderAmmunition(toAmmunitionData(ammo), () =>
+            router.push({ pathname: '/(tabs)/profiles/custom-ammunition', params: { caliber: profile.caliber, ammoId: ammo.id } })
+          )
+        )}
+        <TouchableOpacity
+          style={styles.addCustomButton}
+          onPress={() => router.push({ pathname: '/(tabs)/profiles/custom-ammunition', params: { caliber: profile.caliber } })}
+        >
+          <Text style={styles.addCustomText}>{t('customAmmo.add')}</Text>
+        </TouchableOpacity>
+
+        {ammunitionChanged && (
+          <Text style={styles.changeNote}>{t('profileEdit.ammunitionChanged')}</Text>
+        )}
+
+        <Button
+          title={t('common.save')}
+          onPress={handleSave}
+          loading={isSaving}
+          fullWidth
+          style={styles.saveButton}
+        />
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.cream,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  nameCard: {
+    marginVertical: 4,
+  },
+  nameInput: {
+    fontSize: 16,
+    color: colors.textPrimary,
+    paddingVertical: 4,
+  },
+  sliderCard: {
+    marginVertical: 4,
+  },
+  resetLink: {
+    fontSize: 13,
+    color: colors.forest,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  ammoCard: {
+    marginVertical: 4,
+  },
+  ammoHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  ammoTitle: {
+    flex: 1,
+    gap: 4,
+  },
+  ammoName: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  selectedText: {
+    color: colors.forest,
+  },
+  editButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  editText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.forest,
+  },
+  ammoSpecs: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  addCustomButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  addCustomText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.forest,
+  },
+  changeNote: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  saveButton: {
+    marginTop: 16,
+  },
+  bottomSpacer: {
+    height: 24,
+  },
+});
@@ -2,12 +2,25 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { Header, Button, ProfileCard } from '../../src/components';
-import { colors } from '../../src/lib/constants';
-import { useApp } from '../../src/context/AppContext';
+import { Header, Button, ProfileCard } from '../../../src/components';
+import { colors } from '../../../src/lib/constants';
+import { useApp } from '../../../src/context/AppContext';
+import { useTranslation } from '../../../src/i18n/useTranslation';
 
 export default function ProfilesScreen() {
-  const { profiles, activeProfile, setActiveProfile, deleteProfile, resetOnboarding, setIsAddingProfile, isAddingProfile } = useApp();
+  const {
+    profiles,
+    activeProfile,
+    setActiveProfile,
+    deleteProfile,
+    resetOnboarding,
+    setIsAddingProfile,
+    isAddingProfile,
+    settings,
+    dataPackUpdates,
+    applyDataPackUpdate,
+  } = useApp();
+  const { t } = useTranslation();
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [shouldNavigate, setShouldNavigate] = useState(false);
 
@@ -30,19 +43,19 @@ export default function ProfilesScreen() {
     if (!profile) return;
 
     Alert.alert(
-      'Profil loschen',
-      `Mochten Sie "${profile.name}" wirklich loschen?`,
+      t('profiles.deleteTitle'),
+      t('profiles.deleteConfirm', { name: profile.name }),
       [
-        { text: 'Abbrechen', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Loschen',
+          text: t('common.delete'),
           style: 'destructive',
           onPress: async () => {
             setDeletingId(profileId);
             try {
               await deleteProfile(profileId);
             } catch (error) {
-              Alert.alert('Fehler', 'Profil konnte nicht geloscht werden');
+              Alert.alert(t('common.error'), t('profiles.deleteFailed'));
             } finally {
               setDeletingId(null);
             }
@@ -52,6 +65,14 @@ export default function ProfilesScreen() {
     );
   };
 
+  const handleApplyDataPackUpdate = async (profileId: string) => {
+    try {
+      await applyDataPackUpdate(profileId);
+    } catch (error) {
+      Alert.alert(t('common.error'), t('dataPack.applyFailed'));
+    }
+  };
+
   const handleAddProfile = () => {
     // Reset onboarding state and navigate to add new profile
     resetOnboarding();
@@ -62,8 +83,8 @@ export default function ProfilesScreen() {
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <Header
-        title="Profile"
-        subtitle={`${profiles.length} ${profiles.length === 1 ? 'Profil' : 'Profile'}`}
+        title={t('profiles.title')}
+        subtitle={profiles.length === 1 ? t('profiles.countOne') : t('profiles.count', { count: profiles.length })}
       />
 
       <ScrollView
@@ -73,10 +94,8 @@ export default function ProfilesScreen() {
       >
         {profiles.length === 0 ? (
           <View style={styles.emptyState}>
-            <Text style={styles.emptyTitle}>Keine Profile</Text>
-            <Text style={styles.emptyText}>
-              Erstellen Sie Ihr erstes Waffenprofil, um den Ballistikrechner zu nutzen.
-            </Text>
+            <Text style={styles.emptyTitle}>{t('profiles.emptyTitle')}</Text>
+            <Text style={styles.emptyText}>{t('profiles.emptyText')}</Text>
           </View>
         ) : (
           profiles.map(profile => (
@@ -84,8 +103,14 @@ export default function ProfilesScreen() {
               key={profile.id}
               profile={profile}
               isActive={activeProfile?.id === profile.id}
+              unitSystem={settings.unitSystem}
               onSelect={() => handleSelectProfile(profile)}
+              onEdit={() => router.push({ pathname: '/(tabs)/profiles/edit', params: { profileId: profile.id } })}
+              onTrue={() => router.push({ pathname: '/(tabs)/profiles/truing', params: { profileId: profile.id } })}
+              onOptic={() => router.push({ pathname: '/(tabs)/profiles/optic', params: { profileId: profile.id } })}
               onDelete={() => handleDeleteProfile(profile.id)}
+              dataPackUpdate={dataPackUpdates.find(u => u.profileId === profile.id)}
+              onApplyDataPackUpdate={() => handleApplyDataPackUpdate(profile.id)}
             />
           ))
         )}
@@ -93,7 +118,7 @@ export default function ProfilesScreen() {
 
       <View style={styles.footer}>
         <Button
-          title="Neues Profil erstellen"
+          title={t('profiles.add')}
           onPress={handleAddProfile}
           fullWidth
         />
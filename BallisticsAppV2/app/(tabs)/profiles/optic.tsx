@@ -0,0 +1,382 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Switch, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Header, Button, Card, SliderInput } from '../../../src/components';
+import { CLICK_VALUES, colors, DEFAULT_OPTIC, SLIDER_RANGES } from '../../../src/lib/constants';
+import { useApp } from '../../../src/context/AppContext';
+import { getElevationAboveZero } from '../../../src/lib/ballistics';
+import { createCustomReticle, CUSTOM_RETICLE_KEY, RETICLES } from '../../../src/lib/reticle-data';
+import { ClickValue, FocalPlane, OpticConfig } from '../../../src/types';
+import { useTranslation } from '../../../src/i18n/useTranslation';
+
+const CLICK_VALUE_OPTIONS = Object.keys(CLICK_VALUES) as ClickValue[];
+
+const FOCAL_PLANE_OPTIONS: FocalPlane[] = ['ffp', 'sfp'];
+
+// Editable layout of the user-defined reticle
+interface CustomReticleInput {
+  focalPlane: FocalPlane;
+  referenceMagnification: number;
+  spacing: number; // mrad
+  elevationCount: number;
+  windageCount: number;
+}
+
+export default function OpticScreen() {
+  const { profileId } = useLocalSearchParams<{ profileId: string }>();
+  const { profiles, updateProfile } = useApp();
+  const { t, formatNumber } = useTranslation();
+  const profile = profiles.find(p => p.id === profileId);
+
+  const [optic, setOptic] = useState<OpticConfig>(profile?.optic ?? DEFAULT_OPTIC);
+  const [custom, setCustom] = useState<CustomReticleInput>(() => {
+    const existing = profile?.optic?.customReticle;
+    return {
+      focalPlane: existing?.focalPlane ?? 'sfp',
+      referenceMagnification: existing?.referenceMagnification ?? 10,
+      spacing: existing?.elevationMarks[0] ?? existing?.windageMarks[0] ?? 1,
+      elevationCount: existing?.elevationMarks.length ?? 5,
+      windageCount: existing?.windageMarks.length ?? 5,
+    };
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!profile) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <Header title={t('optic.title')} showBack onBack={() => router.back()} />
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>{t('optic.notFound')}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const click = CLICK_VALUES[optic.clickValue];
+  const elevationAboveZero = getElevationAboveZero(optic);
+
+  // Travel in the turret's own unit, e.g. "20 mrad"
+  const formatTravel = (clicks: number): string =>
+    t('optic.travel', { clicks, value: Math.round(clicks * click.perClick * 10) / 10, unit: click.unit });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const customReticle = optic.reticle === CUSTOM_RETICLE_KEY
+        ? createCustomReticle(custom.focalPlane, custom.referenceMagnification, custom.spacing, custom.elevationCount, custom.windageCount)
+        : undefined;
+      await updateProfile({ ...profile, optic: { ...optic, elevationAboveZero, customReticle } });
+      router.back();
+    } catch (error) {
+      Alert.alert(t('common.error'), t('optic.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    Alert.alert(
+      t('optic.removeTitle'),
+      t('optic.removeMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('optic.remove'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await updateProfile({ ...profile, optic: undefined });
+              router.back();
+            } catch (error) {
+              Alert.alert(t('common.error'), t('optic.saveFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Header
+        title={t('optic.title')}
+        subtitle={profile.name}
+        showBack
+        onBack={() => router.back()}
+      />
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Click value */}
+        <Text style={styles.sectionTitle}>{t('optic.clickValue')}</Text>
+        <Text style={styles.instruction}>{t('optic.clickValueInstruction')}</Text>
+        <View style={styles.chipRow}>
+          {CLICK_VALUE_OPTIONS.map(value => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.chip, optic.clickValue === value && styles.chipActive]}
+              onPress={() => setOptic(prev => ({ ...prev, clickValue: value }))}
+            >
+              <Text style={[styles.chipText, optic.clickValue === value && styles.chipTextActive]}>
+                {t(`clickValues.${value}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Elevation travel */}
+        <Text style={styles.sectionTitle}>{t('optic.travelSection')}</Text>
+        <Text style={styles.instruction}>{t('optic.travelInstruction')}</Text>
+        <Card style={styles.sliderCard}>
+          <SliderInput
+            label={t('optic.travelLabel')}
+            value={optic.elevationTravel}
+            onValueChange={(elevationTravel) => setOptic(prev => ({
+              ...prev,
+              elevationTravel,
+              elevationAboveZero: prev.elevationAboveZero != null ? Math.min(prev.elevationAboveZero, elevationTravel) : undefined,
+            }))}
+            min={SLIDER_RANGES.elevationTravel.min}
+            max={SLIDER_RANGES.elevationTravel.max}
+            step={SLIDER_RANGES.elevationTravel.step}
+            formatValue={formatTravel}
+          />
+        </Card>
+
+        {/* Elevation left above the zero */}
+        <Text style={styles.sectionTitle}>{t('optic.aboveZeroSection')}</Text>
+        <Text style={styles.instruction}>{t('optic.aboveZeroInstruction')}</Text>
+        <Card style={styles.sliderCard}>
+          <SliderInput
+            label={t('optic.aboveZeroLabel')}
+            value={elevationAboveZero}
+            onValueChange={(value) => setOptic(prev => ({ ...prev, elevationAboveZero: value }))}
+            min={SLIDER_RANGES.elevationAboveZero.min}
+            max={Math.min(SLIDER_RANGES.elevationAboveZero.max, optic.elevationTravel)}
+            step={SLIDER_RANGES.elevationAboveZero.step}
+            formatValue={formatTravel}
+          />
+        </Card>
+
+        {/* Zero stop */}
+        <Text style={styles.sectionTitle}>{t('optic.zeroStopSection')}</Text>
+        <Card style={styles.sliderCard}>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>{t('optic.hasZeroStop')}</Text>
+            <Switch
+              value={optic.zeroStop != null}
+              onValueChange={(enabled) => setOptic(prev => ({ ...prev, zeroStop: enabled ? 0 : undefined }))}
+              trackColor={{ false: colors.border, true: colors.gold }}
+            />
+          </View>
+          {optic.zeroStop != null && (
+            <SliderInput
+              label={t('optic.zeroStopLabel')}
+              value={optic.zeroStop}
+              onValueChange={(zeroStop) => setOptic(prev => ({ ...prev, zeroStop }))}
+              min={SLIDER_RANGES.zeroStop.min}
+              max={SLIDER_RANGES.zeroStop.max}
+              step={SLIDER_RANGES.zeroStop.step}
+              formatValue={(val) => val === 0 ? t('optic.zeroStopAtZero') : t('optic.clicks', { clicks: val })}
+            />
+          )}
+        </Card>
+
+        {/* Reticle */}
+        <Text style={styles.sectionTitle}>{t('optic.reticleSection')}</Text>
+        <Text style={styles.instruction}>{t('optic.reticleInstruction')}</Text>
+        <Card
+          onPress={() => setOptic(prev => ({ ...prev, reticle: undefined }))}
+          selected={!optic.reticle}
+          style={styles.optionCard}
+        >
+          <Text style={[styles.optionLabel, !optic.reticle && styles.selectedText]}>{t('optic.noReticle')}</Text>
+        </Card>
+        {RETICLES.map(reticle => (
+          <Card
+            key={reticle.key}
+            onPress={() => setOptic(prev => ({ ...prev, reticle: reticle.key }))}
+            selected={optic.reticle === reticle.key}
+            style={styles.optionCard}
+          >
+            <Text style={[styles.optionLabel, optic.reticle === reticle.key && styles.selectedText]}>
+              {t(`reticles.${reticle.key}`)}
+            </Text>
+          </Card>
+        ))}
+        <Card
+          onPress={() => setOptic(prev => ({ ...prev, reticle: CUSTOM_RETICLE_KEY }))}
+          selected={optic.reticle === CUSTOM_RETICLE_KEY}
+          style={styles.optionCard}
+        >
+          <Text style={[styles.optionLabel, optic.reticle === CUSTOM_RETICLE_KEY && styles.selectedText]}>
+            {t('reticles.custom')}
+          </Text>
+          <Text style={styles.optionDescription}>{t('optic.customDescription')}</Text>
+        </Card>
+
+        {optic.reticle === CUSTOM_RETICLE_KEY && (
+          <Card style={styles.sliderCard}>
+            <View style={styles.chipRow}>
+              {FOCAL_PLANE_OPTIONS.map(focalPlane => (
+                <TouchableOpacity
+                  key={focalPlane}
+                  style={[styles.chip, custom.focalPlane === focalPlane && styles.chipActive]}
+                  onPress={() => setCustom(prev => ({ ...prev, focalPlane }))}
+                >
+                  <Text style={[styles.chipText, custom.focalPlane === focalPlane && styles.chipTextActive]}>
+                    {t(`optic.focalPlanes.${focalPlane}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {custom.focalPlane === 'sfp' && (
+              <SliderInput
+                label={t('optic.referenceMagnification')}
+                value={custom.referenceMagnification}
+                onValueChange={(referenceMagnification) => setCustom(prev => ({ ...prev, referenceMagnification }))}
+                min={SLIDER_RANGES.magnification.min}
+                max={SLIDER_RANGES.magnification.max}
+                step={SLIDER_RANGES.magnification.step}
+                formatValue={(val) => `${val}x`}
+              />
+            )}
+            <SliderInput
+              label={t('optic.spacing')}
+              value={custom.spacing}
+              onValueChange={(spacing) => setCustom(prev => ({ ...prev, spacing }))}
+              min={SLIDER_RANGES.reticleSpacing.min}
+              max={SLIDER_RANGES.reticleSpacing.max}
+              step={SLIDER_RANGES.reticleSpacing.step}
+              formatValue={(val) => `${formatNumber(val, 2)} mrad`}
+            />
+            <SliderInput
+              label={t('optic.elevationMarks')}
+              value={custom.elevationCount}
+              onValueChange={(elevationCount) => setCustom(prev => ({ ...prev, elevationCount }))}
+              min={SLIDER_RANGES.reticleMarks.min}
+              max={SLIDER_RANGES.reticleMarks.max}
+              step={SLIDER_RANGES.reticleMarks.step}
+            />
+            <SliderInput
+              label={t('optic.windageMarks')}
+              value={custom.windageCount}
+              onValueChange={(windageCount) => setCustom(prev => ({ ...prev, windageCount }))}
+              min={SLIDER_RANGES.reticleMarks.min}
+              max={SLIDER_RANGES.reticleMarks.max}
+              step={SLIDER_RANGES.reticleMarks.step}
+            />
+          </Card>
+        )}
+
+        <Button title={t('common.save')} onPress={handleSave} loading={isSaving} fullWidth style={styles.saveButton} />
+
+        {profile.optic && (
+          <TouchableOpacity onPress={handleRemove}>
+            <Text style={styles.removeText}>{t('optic.removeTitle')}</Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.cream,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  instruction: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.warmWhite,
+  },
+  chipActive: {
+    backgroundColor: colors.forest,
+    borderColor: colors.forest,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  chipTextActive: {
+    color: colors.warmWhite,
+  },
+  sliderCard: {
+    marginVertical: 4,
+  },
+  optionCard: {
+    marginVertical: 4,
+  },
+  optionLabel: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  selectedText: {
+    color: colors.forest,
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  saveButton: {
+    marginTop: 24,
+  },
+  removeText: {
+    fontSize: 13,
+    color: colors.error,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  bottomSpacer: {
+    height: 24,
+  },
+});
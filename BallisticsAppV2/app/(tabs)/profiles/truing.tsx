@@ -0,0 +1,523 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TextInput, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Header, Button, Card, SliderInput } from '../../../src/components';
+import { colors, ENVIRONMENT_RANGES, STANDARD_ATMOSPHERE } from '../../../src/lib/constants';
+import { useApp } from '../../../src/context/AppContext';
+import { formatUnit, fromDisplayUnit, getUnitSymbol } from '../../../src/lib/units';
+import { createStandardEnvironment, getNominalMuzzleVelocity, trueProfile } from '../../../src/lib/ballistics';
+import { TruingObservation, TruingParameter, TruingRecord, TruingResult } from '../../../src/types';
+import { useTranslation } from '../../../src/i18n/useTranslation';
+
+// Maximum number of observed distances per truing run
+const MAX_OBSERVATIONS = 5;
+
+const PARAMETER_OPTIONS: TruingParameter[] = ['muzzleVelocity', 'bcScale'];
+
+interface ObservationInput {
+  distance: string;
+  drop: string;
+}
+
+export default function TruingScreen() {
+  const { profileId } = useLocalSearchParams<{ profileId: string }>();
+  const { profiles, updateProfile, settings } = useApp();
+  const { t, locale, formatNumber } = useTranslation();
+  const profile = profiles.find(p => p.id === profileId);
+
+  const [parameter, setParameter] = useState<TruingParameter>('muzzleVelocity');
+  const [inputs, setInputs] = useState<ObservationInput[]>([{ distance: '300', drop: '' }]);
+  const [temperature, setTemperature] = useState(STANDARD_ATMOSPHERE.temperature);
+  const [pressure, setPressure] = useState(STANDARD_ATMOSPHERE.pressure);
+  const [result, setResult] = useState<TruingResult | null>(null);
+  const [observations, setObservations] = useState<TruingObservation[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!profile) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <Header title={t('truing.title')} showBack onBack={() => router.back()} />
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>{t('truing.notFound')}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const { unitSystem } = settings;
+
+  const currentValue = (param: TruingParameter): number =>
+    param === 'muzzleVelocity' ? getNominalMuzzleVelocity(profile) : profile.bcScale ?? 1;
+
+  const formatParameterValue = (param: TruingParameter, value: number): string =>
+    param === 'muzzleVelocity' ? formatUnit(value, 'velocity', unitSystem, 1) : `× ${formatNumber(value, 3)}`;
+
+  const handleInputChange = (index: number, field: keyof ObservationInput, value: string) => {
+    setInputs(prev => prev.map((input, i) => i === index ? { ...input, [field]: value } : input));
+    setResult(null);
+  };
+
+  const handleAddObservation = () => {
+    setInputs(prev => [...prev, { distance: '', drop: '' }]);
+    setResult(null);
+  };
+
+  const handleRemoveObservation = (index: number) => {
+    setInputs(prev => prev.filter((_, i) => i !== index));
+    setResult(null);
+  };
+
+  const parseNumber = (value: string): number => parseFloat(value.replace(',', '.'));
+
+  // Inputs are in the display unit, observations in m and cm
+  const handleCalculate = () => {
+    const parsed: TruingObservation[] = inputs.map(input => ({
+      distance: fromDisplayUnit(parseNumber(input.distance), 'distance', unitSystem),
+      drop: fromDisplayUnit(parseNumber(input.drop), 'length', unitSystem),
+    }));
+
+    const invalid = parsed.some(o => !isFinite(o.distance) || !isFinite(o.drop));
+    if (invalid) {
+      Alert.alert(t('truing.invalidTitle'), t('truing.invalidMessage'));
+      return;
+    }
+
+    if (parsed.some(o => o.distance <= profile.zeroDistance)) {
+      Alert.alert(
+        t('truing.tooCloseTitle'),
+        t('truing.tooCloseMessage', { distance: formatUnit(profile.zeroDistance, 'distance', unitSystem) })
+      );
+      return;
+    }
+
+    const environment = createStandardEnvironment(0, 90, { temperature, pressure });
+    setObservations(parsed);
+    setResult(trueProfile(profile, parsed, environment, parameter));
+  };
+
+  const handleApply = async () => {
+    if (!result) return;
+
+    const record: TruingRecord = {
+      ...result,
+      date: Date.now(),
+      previousValue: currentValue(result.parameter),
+      observations,
+      temperature,
+    };
+    const truingHistory = [...(profile.truingHistory ?? []), record];
+
+    setIsSaving(true);
+    try {
+      await updateProfile(
+        result.parameter === 'muzzleVelocity'
+          ? { ...profile, muzzleVelocity: result.value, truingHistory }
+          : { ...profile, bcScale: result.value, truingHistory }
+      );
+      setResult(null);
+      Alert.alert(t('truing.savedTitle'), t('truing.savedMessage'));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('truing.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      t('truing.resetTitle'),
+      t('truing.resetMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('truing.reset'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await updateProfile({ ...profile, muzzleVelocity: undefined, bcScale: undefined });
+            } catch (error) {
+              Alert.alert(t('common.error'), t('truing.saveFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const history = [...(profile.truingHistory ?? [])].reverse();
+  const isTrued = profile.muzzleVelocity != null || profile.bcScale != null;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Header
+        title={t('truing.title')}
+        subtitle={profile.name}
+        showBack
+        onBack={() => router.back()}
+      />
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Current values */}
+        <Card style={styles.currentCard}>
+          <View style={styles.row}>
+            <Text style={styles.label}>V0</Text>
+            <Text style={styles.value}>
+              {formatUnit(getNominalMuzzleVelocity(profile), 'velocity', unitSystem)}
+              {profile.muzzleVelocity != null &&
+                t('truing.manufacturerValue', { value: formatUnit(profile.ammunition.muzzleVelocity, 'velocity', unitSystem) })}
+            </Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>{t('truing.bcScale')}</Text>
+            <Text style={styles.value}>× {formatNumber(profile.bcScale ?? 1, 3)}</Text>
+          </View>
+          {isTrued && (
+            <TouchableOpacity onPress={handleReset}>
+              <Text style={styles.resetText}>{t('truing.resetToManufacturer')}</Text>
+            </TouchableOpacity>
+          )}
+        </Card>
+
+        {/* Parameter */}
+        <Text style={styles.sectionTitle}>{t('truing.parameterSection')}</Text>
+        {PARAMETER_OPTIONS.map(option => (
+          <Card
+            key={option}
+            onPress={() => {
+              setParameter(option);
+              setResult(null);
+            }}
+            selected={parameter === option}
+            style={styles.optionCard}
+          >
+            <Text style={[styles.optionLabel, parameter === option && styles.selectedText]}>
+              {t(`truing.parameters.${option}.label`)}
+            </Text>
+            <Text style={styles.optionDescription}>{t(`truing.parameters.${option}.description`)}</Text>
+          </Card>
+        ))}
+
+        {/* Observations */}
+        <Text style={styles.sectionTitle}>{t('truing.observationsSection')}</Text>
+        <Text style={styles.instruction}>{t('truing.observationsInstruction')}</Text>
+
+        <Card style={styles.observationCard}>
+          <View style={styles.observationHeader}>
+            <Text style={[styles.observationHeaderText, styles.observationColumn]}>{t('truing.distanceColumn', { unit: getUnitSymbol('distance', unitSystem) })}</Text>
+            <Text style={[styles.observationHeaderText, styles.observationColumn]}>{t('truing.dropColumn', { unit: getUnitSymbol('length', unitSystem) })}</Text>
+            <View style={styles.removePlaceholder} />
+          </View>
+
+          {inputs.map((input, index) => (
+            <View key={index} style={styles.observationRow}>
+              <TextInput
+                style={[styles.input, styles.observationColumn]}
+                value={input.distance}
+                onChangeText={(value) => handleInputChange(index, 'distance', value)}
+                keyboardType="decimal-pad"
+                placeholder="300"
+                placeholderTextColor={colors.textSecondary}
+              />
+              <TextInput
+                style={[styles.input, styles.observationColumn]}
+                value={input.drop}
+                onChangeText={(value) => handleInputChange(index, 'drop', value)}
+                keyboardType="numbers-and-punctuation"
+                placeholder="25"
+                placeholderTextColor={colors.textSecondary}
+              />
+              {inputs.length > 1 ? (
+                <TouchableOpacity style={styles.removeButton} onPress={() => handleRemoveObservation(index)}>
+                  <Text style={styles.removeText}>✕</Text>
+                </TouchableOpacity>
+              ) : (
+                <View style={styles.removePlaceholder} />
+              )}
+            </View>
+          ))}
+
+          {inputs.length < MAX_OBSERVATIONS && (
+            <TouchableOpacity style={styles.addButton} onPress={handleAddObservation}>
+              <Text style={styles.addText}>{t('truing.addObservation')}</Text>
+            </TouchableOpacity>
+          )}
+        </Card>
+
+        {/* Conditions */}
+        <Text style={styles.sectionTitle}>{t('truing.conditionsSection')}</Text>
+        <Card style={styles.observationCard}>
+          <SliderInput
+            label={t('truing.temperature')}
+            value={temperature}
+            onValueChange={(val) => {
+              setTemperature(val);
+              setResult(null);
+            }}
+            min={ENVIRONMENT_RANGES.temperature.min}
+            max={ENVIRONMENT_RANGES.temperature.max}
+            step={ENVIRONMENT_RANGES.temperature.step}
+            quantity="temperature"
+            unitSystem={unitSystem}
+          />
+          <SliderInput
+            label={t('truing.pressure')}
+            value={pressure}
+            onValueChange={(val) => {
+              setPressure(val);
+              setResult(null);
+            }}
+            min={ENVIRONMENT_RANGES.pressure.min}
+            max={ENVIRONMENT_RANGES.pressure.max}
+            step={ENVIRONMENT_RANGES.pressure.step}
+            quantity="pressure"
+            unitSystem={unitSystem}
+          />
+        </Card>
+
+        <Button title={t('truing.calculate')} onPress={handleCalculate} fullWidth style={styles.calculateButton} />
+
+        {/* Result */}
+        {result && (
+          <Card style={styles.resultCard}>
+            <Text style={styles.resultTitle}>{t('truing.result')}</Text>
+            <View style={styles.row}>
+              <Text style={styles.label}>{t('truing.previous')}</Text>
+              <Text style={styles.value}>{formatParameterValue(result.parameter, currentValue(result.parameter))}</Text>
+            </View>
+            <View style={styles.row}>
+              <Text style={styles.label}>{t('truing.trued')}</Text>
+              <Text style={[styles.value, styles.resultValue]}>{formatParameterValue(result.parameter, result.value)}</Text>
+            </View>
+            <View style={styles.row}>
+              <Text style={styles.label}>{t('truing.rmsError')}</Text>
+              <Text style={styles.value}>{formatUnit(result.rmsError, 'length', unitSystem)}</Text>
+            </View>
+            {result.rmsError > 2 && (
+              <Text style={styles.warningText}>{t('truing.inconsistent')}</Text>
+            )}
+            <Button
+              title={t('truing.apply')}
+              onPress={handleApply}
+              loading={isSaving}
+              fullWidth
+              style={styles.applyButton}
+            />
+          </Card>
+        )}
+
+        {/* History */}
+        {history.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>{t('truing.history')}</Text>
+            <Card style={styles.observationCard}>
+              {history.map((record, index) => (
+                <View key={record.date} style={[styles.historyItem, index > 0 && styles.historyDivider]}>
+                  <View style={styles.row}>
+                    <Text style={styles.historyDate}>
+                      {new Date(record.date).toLocaleDateString(locale)}
+                    </Text>
+                    <Text style={styles.historyParameter}>
+                      {record.parameter === 'muzzleVelocity' ? 'V0' : t('truing.bcScale')}
+                    </Text>
+                  </View>
+                  <Text style={styles.historyValues}>
+                    {formatParameterValue(record.parameter, record.previousValue)} → {formatParameterValue(record.parameter, record.value)}
+                  </Text>
+                  <Text style={styles.historyDetail}>
+                    {record.observations
+                      .map(o => `${formatUnit(o.distance, 'distance', unitSystem)}: ${formatUnit(o.drop, 'length', unitSystem)}`)
+                      .join(' • ')}{' '}
+                    • {formatUnit(record.temperature, 'temperature', unitSystem)} • RMS {formatUnit(record.rmsError, 'length', unitSystem)}
+                  </Text>
+                </View>
+              ))}
+            </Card>
+          </>
+        )}
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.cream,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  currentCard: {
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  label: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.forest,
+  },
+  resetText: {
+    fontSize: 13,
+    color: colors.error,
+    marginTop: 8,
+    textAlign: 'right',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  instruction: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  optionCard: {
+    marginVertical: 4,
+  },
+  optionLabel: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginBottom: 4,
+  },
+  selectedText: {
+    color: colors.forest,
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  observationCard: {
+    marginVertical: 4,
+  },
+  observationHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  observationHeaderText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  observationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 4,
+  },
+  observationColumn: {
+    flex: 1,
+    marginRight: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    color: colors.textPrimary,
+    backgroundColor: colors.warmWhite,
+  },
+  removeButton: {
+    width: 32,
+    alignItems: 'center',
+  },
+  removePlaceholder: {
+    width: 32,
+  },
+  removeText: {
+    fontSize: 16,
+    color: colors.error,
+  },
+  addButton: {
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  addText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.forest,
+  },
+  calculateButton: {
+    marginTop: 16,
+  },
+  resultCard: {
+    marginTop: 16,
+    borderColor: colors.gold,
+    borderWidth: 2,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginBottom: 4,
+  },
+  resultValue: {
+    color: colors.gold,
+    fontSize: 16,
+  },
+  warningText: {
+    fontSize: 12,
+    color: colors.error,
+    marginTop: 4,
+  },
+  applyButton: {
+    marginTop: 12,
+  },
+  historyItem: {
+    paddingVertical: 8,
+  },
+  historyDivider: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  historyDate: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  historyParameter: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  historyValues: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.forest,
+  },
+  historyDetail: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  bottomSpacer: {
+    height: 24,
+  },
+});
@@ -1,17 +1,35 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, Linking, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth, useUser } from '@clerk/clerk-expo';
 import { useMutation, useQuery } from 'convex/react';
 import { router } from 'expo-router';
+import { File } from 'expo-file-system';
 import { api } from '../../convex/_generated/api';
 import { Header, Card } from '../../src/components';
 import { colors } from '../../src/lib/constants';
 import { useApp } from '../../src/context/AppContext';
 import { clearAllData } from '../../src/lib/storage';
+import { DEFAULT_DATA_PACK, getDataSources } from '../../src/lib/ammunition-data';
+import { checkDataPackImport, parseDataPack } from '../../src/lib/data-pack';
+import { getUnitSymbol, UNIT_SYSTEMS } from '../../src/lib/units';
+import { LANGUAGE_LABELS } from '../../src/i18n';
+import { useTranslation } from '../../src/i18n/useTranslation';
+import { DataPackError, DataPackUpdate, Language, UnitSystem } from '../../src/types';
+
+// Schema errors listed when an import is rejected
+const MAX_LISTED_ERRORS = 3;
 
 export default function SettingsScreen() {
-  const { settings, updateSettings, profiles } = useApp();
+  const { settings, updateSettings, profiles, dataPack, dataPackUpdates, importDataPack, resetDataPack } = useApp();
+  const { t, locale, formatNumber } = useTranslation();
+  const dataSources = useMemo(() => getDataSources(dataPack.calibers), [dataPack]);
+
+  // Source check month (YYYY-MM) as "February 2026"
+  const formatMonth = (month: string): string => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return new Date(year, monthIndex - 1, 1).toLocaleDateString(locale, { month: 'long', year: 'numeric' });
+  };
   const { isSignedIn, signOut } = useAuth();
   const { user } = useUser();
   const [syncing, setSyncing] = useState(false);
@@ -26,12 +44,12 @@ export default function SettingsScreen() {
 
   const handleSignOut = async () => {
     Alert.alert(
-      'Abmelden',
-      'Mochten Sie sich wirklich abmelden?',
+      t('settings.signOut'),
+      t('settings.signOutConfirm'),
       [
-        { text: 'Abbrechen', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Abmelden',
+          text: t('settings.signOut'),
           onPress: async () => {
             await signOut();
           },
@@ -42,12 +60,12 @@ export default function SettingsScreen() {
 
   const handleSyncToCloud = async () => {
     if (!isSignedIn) {
-      Alert.alert('Nicht angemeldet', 'Bitte melden Sie sich an, um Profile zu synchronisieren.');
+      Alert.alert(t('settings.notSignedInTitle'), t('settings.notSignedInMessage'));
       return;
     }
 
     if (profiles.length === 0) {
-      Alert.alert('Keine Profile', 'Es gibt keine lokalen Profile zum Synchronisieren.');
+      Alert.alert(t('settings.noProfilesTitle'), t('settings.noProfilesMessage'));
       return;
     }
 
@@ -72,17 +90,36 @@ export default function SettingsScreen() {
           synced++;
         }
       }
-      Alert.alert('Erfolg', `${synced} Profile wurden in die Cloud synchronisiert.`);
+      Alert.alert(t('settings.successTitle'), t('settings.syncSuccess', { count: synced }));
     } catch (error) {
       console.error('Sync error:', error);
-      Alert.alert('Fehler', 'Profile konnten nicht synchronisiert werden.');
+      Alert.alert(t('common.error'), t('settings.syncFailed'));
     } finally {
       setSyncing(false);
     }
   };
 
+  const languageOptions = (Object.keys(LANGUAGE_LABELS) as Language[]).map(value => ({
+    value,
+    label: LANGUAGE_LABELS[value],
+  }));
+
+  const handleLanguageChange = (language: Language) => {
+    updateSettings({ language });
+  };
+
+  const unitSystemOptions = (Object.keys(UNIT_SYSTEMS) as UnitSystem[]).map(value => ({
+    value,
+    label: t(`unitSystems.${value}.label`),
+    description: t(`unitSystems.${value}.description`),
+  }));
+
+  const handleUnitSystemChange = (unitSystem: UnitSystem) => {
+    updateSettings({ unitSystem });
+  };
+
   const unitOptions = [
-    { value: 'cm', label: 'Zentimeter (cm)' },
+    { value: 'cm', label: t('settings.correctionLinear', { unit: getUnitSymbol('length', settings.unitSystem) }) },
     { value: 'moa', label: 'MOA' },
     { value: 'mil', label: 'MIL/MRAD' },
   ] as const;
@@ -93,19 +130,103 @@ export default function SettingsScreen() {
 
   const handleResetData = () => {
     Alert.alert(
-      'Alle Daten loschen',
-      'Mochten Sie wirklich alle Profile und Einstellungen loschen? Diese Aktion kann nicht ruckgangig gemacht werden.',
+      t('settings.resetTitle'),
+      t('settings.resetConfirm'),
       [
-        { text: 'Abbrechen', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Loschen',
+          text: t('common.delete'),
           style: 'destructive',
           onPress: async () => {
             try {
               await clearAllData();
-              Alert.alert('Erfolg', 'Alle Daten wurden geloscht. Bitte starten Sie die App neu.');
+              Alert.alert(t('settings.successTitle'), t('settings.resetSuccess'));
             } catch (error) {
-              Alert.alert('Fehler', 'Daten konnten nicht geloscht werden');
+              Alert.alert(t('common.error'), t('settings.resetFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatPackErrors = (errors: DataPackError[]): string => {
+    const listed = errors
+      .slice(0, MAX_LISTED_ERRORS)
+      .map(error => `• ${error.path ? `${error.path}: ` : ''}${t(`dataPack.errors.${error.reason}`)}`);
+    if (errors.length > MAX_LISTED_ERRORS) {
+      listed.push(t('dataPack.moreErrors', { count: errors.length - MAX_LISTED_ERRORS }));
+    }
+    return listed.join('\n');
+  };
+
+  const profileNames = (updates: DataPackUpdate[]): string =>
+    updates.map(u => profiles.find(p => p.id === u.profileId)?.name).filter(Boolean).join(', ');
+
+  const handleImportDataPack = async () => {
+    let picked: Awaited<ReturnType<typeof File.pickFileAsync>>;
+    try {
+      picked = await File.pickFileAsync(undefined, 'application/json');
+    } catch {
+      // Closing the picker without a file rejects
+      return;
+    }
+    const file = Array.isArray(picked) ? picked[0] : picked;
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      console.error('Error reading data pack file:', error);
+      Alert.alert(t('common.error'), t('dataPack.readFailed'));
+      return;
+    }
+
+    const { pack, errors } = parseDataPack(text);
+    if (!pack) {
+      Alert.alert(t('dataPack.invalidTitle'), t('dataPack.invalid', { errors: formatPackErrors(errors) }));
+      return;
+    }
+
+    const rejection = checkDataPackImport(pack, dataPack);
+    if (rejection === 'otherPack') {
+      Alert.alert(t('dataPack.invalidTitle'), t('dataPack.otherPack', { id: pack.id }));
+      return;
+    }
+    if (rejection === 'notNewer') {
+      Alert.alert(t('dataPack.invalidTitle'), t('dataPack.notNewer', { version: pack.version, active: dataPack.version }));
+      return;
+    }
+
+    try {
+      const updates = await importDataPack(pack);
+      const message = t('dataPack.importedMessage', { name: pack.name, version: pack.version });
+      Alert.alert(
+        t('dataPack.importedTitle'),
+        updates.length > 0 ? `${message}\n\n${t('dataPack.updates', { profiles: profileNames(updates) })}` : message
+      );
+    } catch (error) {
+      Alert.alert(t('common.error'), t('dataPack.importFailed'));
+    }
+  };
+
+  const handleResetDataPack = () => {
+    Alert.alert(
+      t('dataPack.resetTitle'),
+      t('dataPack.resetConfirm'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('dataPack.reset'),
+          onPress: async () => {
+            try {
+              const updates = await resetDataPack();
+              if (updates.length > 0) {
+                Alert.alert(t('dataPack.section'), t('dataPack.updates', { profiles: profileNames(updates) }));
+              }
+            } catch (error) {
+              Alert.alert(t('common.error'), t('dataPack.resetFailed'));
             }
           },
         },
@@ -119,7 +240,7 @@ export default function SettingsScreen() {
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
-      <Header title="Einstellungen" />
+      <Header title={t('settings.title')} />
 
       <ScrollView
         style={styles.content}
@@ -127,24 +248,24 @@ export default function SettingsScreen() {
         showsVerticalScrollIndicator={false}
       >
         {/* Cloud Sync Section */}
-        <Text style={styles.sectionTitle}>Cloud & Konto</Text>
+        <Text style={styles.sectionTitle}>{t('settings.cloudSection')}</Text>
         <Card style={styles.settingsCard}>
           {isSignedIn ? (
             <>
               <View style={styles.accountRow}>
                 <View style={styles.accountInfo}>
                   <Text style={styles.accountEmail}>{user?.primaryEmailAddress?.emailAddress}</Text>
-                  <Text style={styles.accountStatus}>Angemeldet</Text>
+                  <Text style={styles.accountStatus}>{t('settings.signedIn')}</Text>
                 </View>
                 <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut}>
-                  <Text style={styles.signOutText}>Abmelden</Text>
+                  <Text style={styles.signOutText}>{t('settings.signOut')}</Text>
                 </TouchableOpacity>
               </View>
               <View style={styles.divider} />
               <View style={styles.syncRow}>
                 <View style={styles.syncInfo}>
-                  <Text style={styles.syncLabel}>Cloud-Profile</Text>
-                  <Text style={styles.syncCount}>{cloudProfiles.length} Profile in der Cloud</Text>
+                  <Text style={styles.syncLabel}>{t('settings.cloudProfiles')}</Text>
+                  <Text style={styles.syncCount}>{t('settings.cloudProfileCount', { count: cloudProfiles.length })}</Text>
                 </View>
               </View>
               <View style={styles.divider} />
@@ -157,8 +278,8 @@ export default function SettingsScreen() {
                   <ActivityIndicator size="small" color={colors.forestDark} />
                 ) : (
                   <>
-                    <Text style={styles.syncButtonText}>Lokale Profile synchronisieren</Text>
-                    <Text style={styles.syncButtonCount}>{profiles.length} lokal</Text>
+                    <Text style={styles.syncButtonText}>{t('settings.syncLocal')}</Text>
+                    <Text style={styles.syncButtonCount}>{t('settings.localCount', { count: profiles.length })}</Text>
                   </>
                 )}
               </TouchableOpacity>
@@ -166,9 +287,9 @@ export default function SettingsScreen() {
           ) : (
             <TouchableOpacity style={styles.signInRow} onPress={handleSignIn}>
               <View style={styles.signInInfo}>
-                <Text style={styles.signInLabel}>Anmelden</Text>
+                <Text style={styles.signInLabel}>{t('settings.signIn')}</Text>
                 <Text style={styles.signInDescription}>
-                  Profile uber Gerate synchronisieren
+                  {t('settings.signInDescription')}
                 </Text>
               </View>
               <Text style={styles.signInArrow}>→</Text>
@@ -176,8 +297,65 @@ export default function SettingsScreen() {
           )}
         </Card>
 
+        {/* Language Selection */}
+        <Text style={styles.sectionTitle}>{t('settings.languageSection')}</Text>
+        <Card style={styles.settingsCard}>
+          {languageOptions.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.optionRow,
+                settings.language === option.value && styles.optionRowSelected,
+              ]}
+              onPress={() => handleLanguageChange(option.value)}
+            >
+              <Text style={[
+                styles.optionLabel,
+                settings.language === option.value && styles.optionLabelSelected,
+              ]}>
+                {option.label}
+              </Text>
+              {settings.language === option.value && (
+                <View style={styles.checkmark}>
+                  <Text style={styles.checkmarkText}>✓</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          ))}
+        </Card>
+
+        {/* Unit System Selection */}
+        <Text style={styles.sectionTitle}>{t('settings.unitSystemSection')}</Text>
+        <Card style={styles.settingsCard}>
+          {unitSystemOptions.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.optionRow,
+                settings.unitSystem === option.value && styles.optionRowSelected,
+              ]}
+              onPress={() => handleUnitSystemChange(option.value)}
+            >
+              <View>
+                <Text style={[
+                  styles.optionLabel,
+                  settings.unitSystem === option.value && styles.optionLabelSelected,
+                ]}>
+                  {option.label}
+                </Text>
+                <Text style={styles.optionDescription}>{option.description}</Text>
+              </View>
+              {settings.unitSystem === option.value && (
+                <View style={styles.checkmark}>
+                  <Text style={styles.checkmarkText}>✓</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          ))}
+        </Card>
+
         {/* Unit Selection */}
-        <Text style={styles.sectionTitle}>Einheiten</Text>
+        <Text style={styles.sectionTitle}>{t('settings.correctionSection')}</Text>
         <Card style={styles.settingsCard}>
           {unitOptions.map(option => (
             <TouchableOpacity
@@ -203,90 +381,128 @@ export default function SettingsScreen() {
           ))}
         </Card>
 
+        {/* Ammunition Data Pack */}
+        <Text style={styles.sectionTitle}>{t('dataPack.section')}</Text>
+        <Card style={styles.settingsCard}>
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('dataPack.name')}</Text>
+            <Text style={styles.infoValue}>{dataPack.name}</Text>
+          </View>
+          <View style={styles.divider} />
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('settings.version')}</Text>
+            <Text style={styles.infoValue}>
+              {t('dataPack.version', { version: dataPack.version, date: formatMonth(dataPack.published) })}
+            </Text>
+          </View>
+          <View style={styles.divider} />
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('dataPack.origin')}</Text>
+            <Text style={styles.infoValue}>
+              {dataPack === DEFAULT_DATA_PACK ? t('dataPack.bundled') : t('dataPack.imported')}
+            </Text>
+          </View>
+          {dataPackUpdates.length > 0 && (
+            <Text style={styles.dataPackNote}>
+              {dataPackUpdates.length === 1
+                ? t('dataPack.pendingOne')
+                : t('dataPack.pending', { count: dataPackUpdates.length })}
+            </Text>
+          )}
+          <TouchableOpacity style={styles.syncButton} onPress={handleImportDataPack}>
+            <Text style={styles.syncButtonText}>{t('dataPack.import')}</Text>
+          </TouchableOpacity>
+          {dataPack !== DEFAULT_DATA_PACK && (
+            <TouchableOpacity style={styles.dataPackReset} onPress={handleResetDataPack}>
+              <Text style={styles.dataPackResetText}>{t('dataPack.reset')}</Text>
+            </TouchableOpacity>
+          )}
+        </Card>
+
         {/* Info Section */}
-        <Text style={styles.sectionTitle}>Uber die App</Text>
+        <Text style={styles.sectionTitle}>{t('settings.aboutSection')}</Text>
         <Card style={styles.settingsCard}>
           <View style={styles.infoRow}>
-            <Text style={styles.infoLabel}>Version</Text>
+            <Text style={styles.infoLabel}>{t('settings.version')}</Text>
             <Text style={styles.infoValue}>1.0.0</Text>
           </View>
           <View style={styles.divider} />
           <View style={styles.infoRow}>
-            <Text style={styles.infoLabel}>Ballistik-Modell</Text>
-            <Text style={styles.infoValue}>G1 / G7</Text>
+            <Text style={styles.infoLabel}>{t('settings.ballisticModel')}</Text>
+            <Text style={styles.infoValue}>G1-G8 / GI / CDM</Text>
           </View>
           <View style={styles.divider} />
           <View style={styles.infoRow}>
-            <Text style={styles.infoLabel}>Daten verifiziert</Text>
-            <Text style={styles.infoValue}>Januar 2025</Text>
+            <Text style={styles.infoLabel}>{t('settings.dataVerified')}</Text>
+            <Text style={styles.infoValue}>{formatMonth(dataPack.published)}</Text>
           </View>
         </Card>
 
         {/* Data Sources Section */}
-        <Text style={styles.sectionTitle}>Datenquellen & Methodik</Text>
+        <Text style={styles.sectionTitle}>{t('settings.dataSourcesSection')}</Text>
         <Card style={styles.settingsCard}>
           <View style={styles.dataSourceSection}>
-            <Text style={styles.dataSourceTitle}>Ballistisches Berechnungsmodell</Text>
+            <Text style={styles.dataSourceTitle}>{t('settings.modelTitle')}</Text>
             <Text style={styles.dataSourceText}>
-              Diese App verwendet G1- und G7-Widerstandsmodelle mit numerischer Integration (Punkt-Masse-Trajektorienberechnung). Das G7-Modell ist besser fur moderne Boat-Tail-Geschosse geeignet. Die Berechnung berucksichtigt:
+              {t('settings.modelText')}
             </Text>
-            <Text style={styles.dataSourceBullet}>• Schwerkraft (9.81 m/s²)</Text>
-            <Text style={styles.dataSourceBullet}>• Luftwiderstand nach G1- oder G7-Modell</Text>
-            <Text style={styles.dataSourceBullet}>• Luftdichte (Temperatur, Druck)</Text>
-            <Text style={styles.dataSourceBullet}>• Windabdrift (Querwind)</Text>
-            <Text style={styles.dataSourceBullet}>• Zielfernrohrhohe uber Lauf</Text>
+            <Text style={styles.dataSourceBullet}>{t('settings.modelGravity')}</Text>
+            <Text style={styles.dataSourceBullet}>{t('settings.modelDrag')}</Text>
+            <Text style={styles.dataSourceBullet}>{t('settings.modelDensity')}</Text>
+            <Text style={styles.dataSourceBullet}>{t('settings.modelWind')}</Text>
+            <Text style={styles.dataSourceBullet}>{t('settings.modelSightHeight')}</Text>
           </View>
 
           <View style={styles.dividerFull} />
 
           <View style={styles.dataSourceSection}>
-            <Text style={styles.dataSourceTitle}>Berechnungsmethodik je Metrik</Text>
+            <Text style={styles.dataSourceTitle}>{t('settings.methodTitle')}</Text>
 
             <View style={styles.metricItem}>
-              <Text style={styles.metricName}>Haltepunkt (Drop)</Text>
-              <Text style={styles.metricFormula}>Position = Anfangshohe + ∫∫(Beschleunigung) dt²</Text>
+              <Text style={styles.metricName}>{t('settings.dropName')}</Text>
+              <Text style={styles.metricFormula}>{t('settings.dropFormula')}</Text>
               <Text style={styles.metricDescription}>
-                Vertikale Abweichung vom Zielpunkt. Berechnet durch numerische Integration der Flugbahn unter Berucksichtigung von Schwerkraft (g = 9.81 m/s²), Luftwiderstand und Einschusswinkel. Positiv (+) = uber Zielpunkt, Negativ (-) = unter Zielpunkt.
+                {t('settings.dropText')}
               </Text>
             </View>
 
             <View style={styles.metricItem}>
-              <Text style={styles.metricName}>Windabdrift</Text>
-              <Text style={styles.metricFormula}>Drift = ∫(Windkraft × dt)</Text>
+              <Text style={styles.metricName}>{t('settings.driftName')}</Text>
+              <Text style={styles.metricFormula}>{t('settings.driftFormula')}</Text>
               <Text style={styles.metricDescription}>
-                Seitliche Abweichung durch Querwind. Windkomponente = Windgeschwindigkeit × sin(Windwinkel). Positiv (+) = Abdrift nach rechts, Negativ (-) = Abdrift nach links.
+                {t('settings.driftText')}
               </Text>
             </View>
 
             <View style={styles.metricItem}>
-              <Text style={styles.metricName}>Flugzeit</Text>
-              <Text style={styles.metricFormula}>t = ∑(Δt) bis Zieldistanz erreicht</Text>
+              <Text style={styles.metricName}>{t('settings.timeName')}</Text>
+              <Text style={styles.metricFormula}>{t('settings.timeFormula')}</Text>
               <Text style={styles.metricDescription}>
-                Gesamtzeit vom Verlassen des Laufs bis zum Erreichen der Zieldistanz. Berechnet in 1ms-Schritten durch numerische Integration.
+                {t('settings.timeText')}
               </Text>
             </View>
 
             <View style={styles.metricItem}>
-              <Text style={styles.metricName}>V @ Ziel (Geschwindigkeit)</Text>
+              <Text style={styles.metricName}>{t('settings.velocityName')}</Text>
               <Text style={styles.metricFormula}>v = √(vx² + vy²)</Text>
               <Text style={styles.metricDescription}>
-                Restgeschwindigkeit bei Zieldistanz. Berechnet aus horizontaler (vx) und vertikaler (vy) Geschwindigkeitskomponente nach Abbremsung durch Luftwiderstand.
+                {t('settings.velocityText')}
               </Text>
             </View>
 
             <View style={styles.metricItem}>
-              <Text style={styles.metricName}>Energie</Text>
+              <Text style={styles.metricName}>{t('settings.energyName')}</Text>
               <Text style={styles.metricFormula}>E = ½ × m × v²</Text>
               <Text style={styles.metricDescription}>
-                Kinetische Energie des Geschosses bei Zieldistanz in Joule. m = Geschossgewicht (grain × 0.0000648 kg), v = Restgeschwindigkeit in m/s.
+                {t('settings.energyText')}
               </Text>
             </View>
 
             <View style={styles.metricItem}>
-              <Text style={styles.metricName}>G1/G7 Widerstandsberechnung</Text>
+              <Text style={styles.metricName}>{t('settings.dragName')}</Text>
               <Text style={styles.metricFormula}>a = K × (ρ/ρ₀) × (Cd/BC) × v²</Text>
               <Text style={styles.metricDescription}>
-                Abbremsung durch Luftwiderstand. K = 0.000871, ρ = aktuelle Luftdichte, ρ₀ = 1.225 kg/m³ (Standardatmosphare), Cd = Widerstandsbeiwert des gewahlten Modells (G1 oder G7, Mach-abhangig aus JBM-Tabelle), BC = ballistischer Koeffizient.
+                {t('settings.dragText')}
               </Text>
             </View>
           </View>
@@ -294,67 +510,69 @@ export default function SettingsScreen() {
           <View style={styles.dividerFull} />
 
           <View style={styles.dataSourceSection}>
-            <Text style={styles.dataSourceTitle}>Munitionsdaten - Primare Quellen</Text>
+            <Text style={styles.dataSourceTitle}>{t('settings.ammoSourcesTitle')}</Text>
             <Text style={styles.dataSourceText}>
-              Alle ballistischen Koeffizienten (BC) und Mundungsgeschwindigkeiten stammen aus offiziellen Herstellerangaben:
+              {t('settings.ammoSourcesText')}
             </Text>
 
-            <View style={styles.sourceItem}>
-              <Text style={styles.sourceName}>Hornady Manufacturing, Inc.</Text>
-              <Text style={styles.sourceUrl}>hornady.com/ammunition</Text>
-              <Text style={styles.sourceDetail}>BC (G1), V0 aus Produktdatenblattern</Text>
-              <Text style={styles.sourceDetail}>Testlauflange: 24 Zoll (610 mm)</Text>
-            </View>
-
-            <View style={styles.sourceItem}>
-              <Text style={styles.sourceName}>Federal Premium Ammunition</Text>
-              <Text style={styles.sourceUrl}>federalpremium.com/ballistics</Text>
-              <Text style={styles.sourceDetail}>Fusion, Premium Produktlinien</Text>
-              <Text style={styles.sourceDetail}>Testlauflange: 24 Zoll (610 mm)</Text>
-            </View>
-
-            <View style={styles.sourceItem}>
-              <Text style={styles.sourceName}>Norma Precision AB</Text>
-              <Text style={styles.sourceUrl}>norma.cc/ammunition</Text>
-              <Text style={styles.sourceDetail}>Europaische Kaliber (9.3x62, 8x57 IS)</Text>
-              <Text style={styles.sourceDetail}>Oryx, Tipstrike Produktlinien</Text>
-            </View>
-
-            <View style={styles.sourceItem}>
-              <Text style={styles.sourceName}>RWS (RUAG Ammotec)</Text>
-              <Text style={styles.sourceUrl}>rws-ammunition.com</Text>
-              <Text style={styles.sourceDetail}>Deutsche Jagdmunition</Text>
-              <Text style={styles.sourceDetail}>HIT, ID Classic Produktlinien</Text>
-            </View>
+            {dataSources.map(source => (
+              <View key={source.manufacturer} style={styles.sourceItem}>
+                <Text style={styles.sourceName}>{source.name}</Text>
+                <Text style={styles.sourceUrl}>{source.url}</Text>
+                <Text style={styles.sourceDetail}>
+                  {t('settings.sourceProductLines', { lines: source.productLines.join(', ') })}
+                </Text>
+                <Text style={styles.sourceDetail}>
+                  {t('settings.sourceCalibers', { calibers: source.calibers.join(', '), count: source.loadCount })}
+                </Text>
+                <Text style={styles.sourceDetail}>
+                  {t('settings.sourceTestBarrel', {
+                    lengths: source.testBarrelLengths
+                      .map(length => `${formatNumber(length, 1)}" (${formatNumber(length * 25.4, 0)} mm)`)
+                      .join(', '),
+                  })}
+                </Text>
+                {source.verified && (
+                  <Text style={styles.sourceDetail}>
+                    {t('settings.sourceVerified', { date: formatMonth(source.verified) })}
+                  </Text>
+                )}
+                {source.unverifiedCount > 0 && (
+                  <Text style={styles.sourceDetail}>
+                    {t('settings.sourceUnverified', { count: source.unverifiedCount })}
+                  </Text>
+                )}
+              </View>
+            ))}
           </View>
 
           <View style={styles.dividerFull} />
 
           <View style={styles.dataSourceSection}>
-            <Text style={styles.dataSourceTitle}>Referenzwerke & Validierung</Text>
+            <Text style={styles.dataSourceTitle}>{t('settings.referencesTitle')}</Text>
             <View style={styles.sourceItem}>
               <Text style={styles.sourceName}>Bryan Litz - Applied Ballistics</Text>
-              <Text style={styles.sourceDetail}>Ballistik-Standardwerk fur BC-Messungen</Text>
+              <Text style={styles.sourceDetail}>{t('settings.referenceLitz')}</Text>
             </View>
             <View style={styles.sourceItem}>
               <Text style={styles.sourceName}>JBM Ballistics Calculator</Text>
               <Text style={styles.sourceUrl}>jbmballistics.com</Text>
-              <Text style={styles.sourceDetail}>Validierung der Trajektorienberechnungen</Text>
+              <Text style={styles.sourceDetail}>{t('settings.referenceJbm')}</Text>
             </View>
           </View>
 
           <View style={styles.dividerFull} />
 
           <View style={styles.dataSourceSection}>
-            <Text style={styles.dataSourceTitle}>Wichtige Hinweise</Text>
+            <Text style={styles.dataSourceTitle}>{t('settings.noticesTitle')}</Text>
             <Text style={styles.warningText}>
-              Die angegebenen Werte sind Durchschnittswerte unter Standardbedingungen (ICAO Standardatmosphare: 15°C, 1013.25 hPa, Meereshohe).
+              {t('settings.noticeStandard')}
             </Text>
             <Text style={styles.warningText}>
-              Tatsachliche Leistung kann variieren durch: Lauflange, Umgebungstemperatur, Hohe uber NN, Luftfeuchtigkeit, individuelle Waffencharakteristiken.
+              {t('settings.noticeVariation')}
             </Text>
             <Text style={styles.warningText}>
-              Alle Schussweiten sollten vor der Jagd am eigenen Gewehr uberpruft werden. Diese App dient als Berechnungshilfe, nicht als Ersatz fur praktisches Einschiessen.
+              {t('settings.noticeVerify')}
             </Text>
           </View>
         </Card>
@@ -363,24 +581,24 @@ export default function SettingsScreen() {
         <Text style={styles.sectionTitle}>Ostermayer AG</Text>
         <Card style={styles.settingsCard}>
           <TouchableOpacity style={styles.linkRow} onPress={handleOpenWebsite}>
-            <Text style={styles.linkLabel}>Website besuchen</Text>
+            <Text style={styles.linkLabel}>{t('settings.visitWebsite')}</Text>
             <Text style={styles.linkIcon}>→</Text>
           </TouchableOpacity>
           <View style={styles.divider} />
           <View style={styles.aboutRow}>
             <Text style={styles.aboutText}>
-              Premium Jagd seit 2019. Qualitat und Tradition vereint.
+              {t('settings.about')}
             </Text>
           </View>
         </Card>
 
         {/* Danger Zone */}
-        <Text style={styles.sectionTitle}>Gefahrenzone</Text>
+        <Text style={styles.sectionTitle}>{t('settings.dangerSection')}</Text>
         <Card style={[styles.settingsCard, styles.dangerCard]}>
           <TouchableOpacity style={styles.dangerRow} onPress={handleResetData}>
-            <Text style={styles.dangerLabel}>Alle Daten loschen</Text>
+            <Text style={styles.dangerLabel}>{t('settings.resetTitle')}</Text>
             <Text style={styles.dangerDescription}>
-              Loscht alle Profile und Einstellungen
+              {t('settings.resetDescription')}
             </Text>
           </TouchableOpacity>
         </Card>
@@ -437,6 +655,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.forest,
   },
+  optionDescription: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
   checkmark: {
     width: 24,
     height: 24,
@@ -470,6 +693,21 @@ const styles = StyleSheet.create({
     backgroundColor: colors.border,
     marginHorizontal: 16,
   },
+  dataPackNote: {
+    fontSize: 13,
+    color: colors.error,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  dataPackReset: {
+    alignItems: 'center',
+    paddingBottom: 16,
+  },
+  dataPackResetText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.forest,
+  },
   linkRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
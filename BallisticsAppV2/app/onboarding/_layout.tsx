@@ -12,6 +12,7 @@ export default function OnboardingLayout() {
     >
       <Stack.Screen name="index" />
       <Stack.Screen name="caliber" />
+      <Stack.Screen name="custom-ammunition" />
       <Stack.Screen name="zero" />
       <Stack.Screen name="summary" />
     </Stack>
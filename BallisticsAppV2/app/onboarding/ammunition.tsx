@@ -2,20 +2,25 @@ import React from 'react';
 import { View, Text, StyleSheet, ScrollView } from 'react-native';
 import { router } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Button, Card, Header } from '../../src/components';
+import { Button, Card, Header, UnverifiedBadge } from '../../src/components';
 import { colors } from '../../src/lib/constants';
 import { getCaliberByName } from '../../src/lib/ammunition-data';
+import { getCustomAmmunitionForCaliber, toAmmunitionData } from '../../src/lib/custom-ammunition';
 import { useApp } from '../../src/context/AppContext';
+import { formatUnit } from '../../src/lib/units';
 import { AmmunitionData } from '../../src/types';
+import { useTranslation } from '../../src/i18n/useTranslation';
 
 export default function AmmunitionScreen() {
-  const { onboardingState, setOnboardingState } = useApp();
-  const caliberGroup = onboardingState.caliber ? getCaliberByName(onboardingState.caliber) : null;
+  const { onboardingState, setOnboardingState, customAmmunition, dataPack, settings } = useApp();
+  const { t, formatNumber } = useTranslation();
+  const caliberGroup = onboardingState.caliber ? getCaliberByName(onboardingState.caliber, dataPack.calibers) : null;
 
   const handleSelectAmmunition = (ammo: AmmunitionData) => {
     setOnboardingState(prev => ({
       ...prev,
       ammunition: ammo,
+      powderTempSensitivity: ammo.powderTempSensitivity ?? null,
     }));
   };
 
@@ -29,14 +34,14 @@ export default function AmmunitionScreen() {
     return (
       <SafeAreaView style={styles.container} edges={['top']}>
         <Header
-          title="Munition wahlen"
-          subtitle="Schritt 2 von 4"
+          title={t('ammunition.title')}
+          subtitle={t('onboarding.step', { step: 2, total: 4 })}
           showBack
           onBack={() => router.back()}
         />
         <View style={styles.errorContent}>
-          <Text style={styles.errorText}>Bitte wahlen Sie zuerst ein Kaliber</Text>
-          <Button title="Zuruck" onPress={() => router.back()} />
+          <Text style={styles.errorText}>{t('ammunition.noCaliber')}</Text>
+          <Button title={t('common.back')} onPress={() => router.back()} />
         </View>
       </SafeAreaView>
     );
@@ -45,28 +50,29 @@ export default function AmmunitionScreen() {
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <Header
-        title="Munition wahlen"
-        subtitle="Schritt 2 von 4"
+        title={t('ammunition.title')}
+        subtitle={t('onboarding.step', { step: 2, total: 4 })}
         showBack
         onBack={() => router.back()}
       />
 
       <View style={styles.content}>
         <View style={styles.caliberInfo}>
-          <Text style={styles.caliberLabel}>Gewahltes Kaliber:</Text>
+          <Text style={styles.caliberLabel}>{t('ammunition.selectedCaliber')}</Text>
           <Text style={styles.caliberName}>{caliberGroup.caliber}</Text>
         </View>
 
-        <Text style={styles.instruction}>
-          Wahlen Sie die Laborierung / Munition
-        </Text>
+        <Text style={styles.instruction}>{t('ammunition.instruction')}</Text>
 
         <ScrollView
           style={styles.list}
           contentContainerStyle={styles.listContent}
           showsVerticalScrollIndicator={false}
         >
-          {caliberGroup.ammunition.map(ammo => (
+          {[
+            ...caliberGroup.ammunition,
+            ...getCustomAmmunitionForCaliber(customAmmunition, caliberGroup.caliber).map(toAmmunitionData),
+          ].map(ammo => (
             <Card
               key={ammo.name}
               onPress={() => handleSelectAmmunition(ammo)}
@@ -79,29 +85,36 @@ export default function AmmunitionScreen() {
               ]}>
                 {ammo.name}
               </Text>
+              {ammo.unverified && <View style={styles.badge}><UnverifiedBadge /></View>}
 
               <View style={styles.specs}>
                 <View style={styles.specItem}>
-                  <Text style={styles.specLabel}>Geschossgewicht</Text>
-                  <Text style={styles.specValue}>{ammo.bulletWeight} gr</Text>
+                  <Text style={styles.specLabel}>{t('ammunition.bulletWeight')}</Text>
+                  <Text style={styles.specValue}>{formatUnit(ammo.bulletWeight, 'weight', settings.unitSystem)}</Text>
                 </View>
                 <View style={styles.specItem}>
                   <Text style={styles.specLabel}>V0</Text>
-                  <Text style={styles.specValue}>{ammo.muzzleVelocity} m/s</Text>
+                  <Text style={styles.specValue}>{formatUnit(ammo.muzzleVelocity, 'velocity', settings.unitSystem)}</Text>
                 </View>
                 <View style={styles.specItem}>
                   <Text style={styles.specLabel}>BC (G1)</Text>
-                  <Text style={styles.specValue}>{ammo.ballisticCoefficient}</Text>
+                  <Text style={styles.specValue}>{formatNumber(ammo.ballisticCoefficient)}</Text>
                 </View>
               </View>
             </Card>
           ))}
+          <Button
+            title={t('customAmmo.add')}
+            onPress={() => router.push('/onboarding/custom-ammunition')}
+            variant="ghost"
+            fullWidth
+          />
         </ScrollView>
       </View>
 
       <View style={styles.footer}>
         <Button
-          title="Weiter"
+          title={t('common.next')}
           onPress={handleContinue}
           disabled={!onboardingState.ammunition}
           fullWidth
@@ -172,6 +185,10 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     marginBottom: 12,
   },
+  badge: {
+    marginTop: -8,
+    marginBottom: 12,
+  },
   selectedText: {
     color: colors.forest,
   },
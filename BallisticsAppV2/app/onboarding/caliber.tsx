@@ -2,14 +2,19 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { router } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Button, Card, Header } from '../../src/components';
-import { colors } from '../../src/lib/constants';
-import { CALIBER_DATABASE, getAmmoCountText } from '../../src/lib/ammunition-data';
+import { Button, Card, Header, UnverifiedBadge } from '../../src/components';
+import { colors, DRAG_MODEL_LABELS } from '../../src/lib/constants';
+import { getNominalBC, resolveDragModel } from '../../src/lib/ballistics';
+import { getAmmoCountText, getCaliberByName } from '../../src/lib/ammunition-data';
+import { getCustomAmmunitionForCaliber, toAmmunitionData } from '../../src/lib/custom-ammunition';
 import { useApp } from '../../src/context/AppContext';
+import { formatUnit } from '../../src/lib/units';
 import { AmmunitionData } from '../../src/types';
+import { useTranslation } from '../../src/i18n/useTranslation';
 
 export default function CaliberScreen() {
-  const { onboardingState, setOnboardingState } = useApp();
+  const { onboardingState, setOnboardingState, customAmmunition, dataPack, settings } = useApp();
+  const { t, language, localize, formatNumber } = useTranslation();
   const [expandedCaliber, setExpandedCaliber] = useState<string | null>(
     onboardingState.caliber || null
   );
@@ -20,6 +25,7 @@ export default function CaliberScreen() {
       ...prev,
       caliber,
       ammunition: null, // Reset ammunition when caliber changes
+      twistRate: getCaliberByName(caliber, dataPack.calibers)?.twistRate ?? null,
     }));
   };
 
@@ -27,6 +33,7 @@ export default function CaliberScreen() {
     setOnboardingState(prev => ({
       ...prev,
       ammunition: ammo,
+      powderTempSensitivity: ammo.powderTempSensitivity ?? null,
     }));
   };
 
@@ -36,30 +43,97 @@ export default function CaliberScreen() {
     }
   };
 
-  const selectedCaliberGroup = CALIBER_DATABASE.find(
-    c => c.caliber === expandedCaliber
-  );
+  const selectedCaliberGroup = expandedCaliber ? getCaliberByName(expandedCaliber, dataPack.calibers) : undefined;
+
+  const customLoads = expandedCaliber
+    ? getCustomAmmunitionForCaliber(customAmmunition, expandedCaliber)
+    : [];
+
+  const renderAmmunition = (ammo: AmmunitionData, onEdit?: () => void) => {
+    const isAmmoSelected = onboardingState.ammunition?.name === ammo.name;
+
+    return (
+      <TouchableOpacity
+        key={ammo.name}
+        style={[
+          styles.ammoCard,
+          isAmmoSelected && styles.ammoCardSelected,
+        ]}
+        onPress={() => handleSelectAmmunition(ammo)}
+      >
+        <View style={styles.ammoHeader}>
+          <View style={styles.ammoTitle}>
+            <Text style={[
+              styles.ammoName,
+              isAmmoSelected && styles.ammoNameSelected
+            ]}>
+              {ammo.name}
+            </Text>
+            {ammo.unverified && <UnverifiedBadge />}
+          </View>
+          {onEdit && (
+            <TouchableOpacity style={styles.editButton} onPress={onEdit}>
+              <Text style={styles.editText}>{t('customAmmo.edit')}</Text>
+            </TouchableOpacity>
+          )}
+          {isAmmoSelected && (
+            <View style={styles.checkmark}>
+              <Text style={styles.checkmarkText}>✓</Text>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.specs}>
+          <View style={styles.specItem}>
+            <Text style={styles.specLabel}>{t('caliber.weight')}</Text>
+            <Text style={[
+              styles.specValue,
+              isAmmoSelected && styles.specValueSelected
+            ]}>
+              {formatUnit(ammo.bulletWeight, 'weight', settings.unitSystem)}
+            </Text>
+          </View>
+          <View style={styles.specItem}>
+            <Text style={styles.specLabel}>V0</Text>
+            <Text style={[
+              styles.specValue,
+              isAmmoSelected && styles.specValueSelected
+            ]}>
+              {formatUnit(ammo.muzzleVelocity, 'velocity', settings.unitSystem)}
+            </Text>
+          </View>
+          <View style={styles.specItem}>
+            <Text style={styles.specLabel}>BC ({DRAG_MODEL_LABELS[resolveDragModel(ammo, ammo.dragModel || 'g1')]})</Text>
+            <Text style={[
+              styles.specValue,
+              isAmmoSelected && styles.specValueSelected
+            ]}>
+              {formatNumber(getNominalBC(ammo, ammo.dragModel || 'g1'))}
+            </Text>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <Header
-        title="Kaliber & Munition"
-        subtitle="Schritt 1 von 3"
+        title={t('caliber.title')}
+        subtitle={t('onboarding.step', { step: 1, total: 3 })}
         showBack
         onBack={() => router.back()}
       />
 
       <View style={styles.content}>
-        <Text style={styles.instruction}>
-          Wahlen Sie das Kaliber und die Laborierung Ihrer Jagdwaffe
-        </Text>
+        <Text style={styles.instruction}>{t('caliber.instruction')}</Text>
 
         <ScrollView
           style={styles.list}
           contentContainerStyle={styles.listContent}
           showsVerticalScrollIndicator={false}
         >
-          {CALIBER_DATABASE.map(caliberGroup => {
+          {dataPack.calibers.map(caliberGroup => {
             const isExpanded = expandedCaliber === caliberGroup.caliber;
             const isSelected = onboardingState.caliber === caliberGroup.caliber;
 
@@ -79,7 +153,7 @@ export default function CaliberScreen() {
                         {caliberGroup.caliber}
                       </Text>
                       <Text style={styles.caliberDescription}>
-                        {caliberGroup.description}
+                        {localize(caliberGroup.description)}
                       </Text>
                     </View>
                     <View style={styles.expandIndicator}>
@@ -92,74 +166,28 @@ export default function CaliberScreen() {
                     </View>
                   </View>
                   <Text style={styles.ammoCount}>
-                    {getAmmoCountText(caliberGroup.ammunition.length)}
+                    {getAmmoCountText(
+                      caliberGroup.ammunition.length + getCustomAmmunitionForCaliber(customAmmunition, caliberGroup.caliber).length,
+                      language
+                    )}
                   </Text>
                 </Card>
 
                 {/* Ammunition options - shown when caliber is expanded */}
                 {isExpanded && selectedCaliberGroup && (
                   <View style={styles.ammunitionContainer}>
-                    {selectedCaliberGroup.ammunition.map(ammo => {
-                      const isAmmoSelected =
-                        onboardingState.ammunition?.name === ammo.name;
-
-                      return (
-                        <TouchableOpacity
-                          key={ammo.name}
-                          style={[
-                            styles.ammoCard,
-                            isAmmoSelected && styles.ammoCardSelected,
-                          ]}
-                          onPress={() => handleSelectAmmunition(ammo)}
-                        >
-                          <View style={styles.ammoHeader}>
-                            <Text style={[
-                              styles.ammoName,
-                              isAmmoSelected && styles.ammoNameSelected
-                            ]}>
-                              {ammo.name}
-                            </Text>
-                            {isAmmoSelected && (
-                              <View style={styles.checkmark}>
-                                <Text style={styles.checkmarkText}>✓</Text>
-                              </View>
-                            )}
-                          </View>
-
-                          <View style={styles.specs}>
-                            <View style={styles.specItem}>
-                              <Text style={styles.specLabel}>Gewicht</Text>
-                              <Text style={[
-                                styles.specValue,
-                                isAmmoSelected && styles.specValueSelected
-                              ]}>
-                                {ammo.bulletWeight} gr
-                              </Text>
-                            </View>
-                            <View style={styles.specItem}>
-                              <Text style={styles.specLabel}>V0</Text>
-                              <Text style={[
-                                styles.specValue,
-                                isAmmoSelected && styles.specValueSelected
-                              ]}>
-                                {ammo.muzzleVelocity} m/s
-                              </Text>
-                            </View>
-                            <View style={styles.specItem}>
-                              <Text style={styles.specLabel}>BC ({(ammo.dragModel || 'g1').toUpperCase()})</Text>
-                              <Text style={[
-                                styles.specValue,
-                                isAmmoSelected && styles.specValueSelected
-                              ]}>
-                                {(ammo.dragModel || 'g1') === 'g7' && ammo.bcG7 != null
-                                  ? ammo.bcG7
-                                  : ammo.ballisticCoefficient}
-                              </Text>
-                            </View>
-                          </View>
-                        </TouchableOpacity>
-                      );
-                    })}
+                    {selectedCaliberGroup.ammunition.map(ammo => renderAmmunition(ammo))}
+                    {customLoads.map(ammo =>
+                      renderAmmunition(toAmmunitionData(ammo), () =>
+                        router.push({ pathname: '/onboarding/custom-ammunition', params: { ammoId: ammo.id } })
+                      )
+                    )}
+                    <TouchableOpacity
+                      style={styles.addCustomButton}
+                      onPress={() => router.push('/onboarding/custom-ammunition')}
+                    >
+                      <Text style={styles.addCustomText}>{t('customAmmo.add')}</Text>
+                    </TouchableOpacity>
                   </View>
                 )}
               </View>
@@ -170,7 +198,7 @@ export default function CaliberScreen() {
 
       <View style={styles.footer}>
         <Button
-          title="Weiter"
+          title={t('common.next')}
           onPress={handleContinue}
           disabled={!onboardingState.caliber || !onboardingState.ammunition}
           fullWidth
@@ -269,6 +297,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 10,
   },
+  ammoTitle: {
+    flex: 1,
+    gap: 4,
+  },
   ammoName: {
     fontSize: 15,
     fontWeight: '600',
@@ -277,6 +309,25 @@ const styles = StyleSheet.create({
   ammoNameSelected: {
     color: colors.forest,
   },
+  editButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginRight: 4,
+  },
+  editText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.forest,
+  },
+  addCustomButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  addCustomText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.forest,
+  },
   checkmark: {
     width: 22,
     height: 22,
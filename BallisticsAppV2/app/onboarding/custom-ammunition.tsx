@@ -0,0 +1,139 @@
+import React from 'react';
+import { StyleSheet, ScrollView, View, Text, Alert } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CustomAmmunitionEditor, Header } from '../../src/components';
+import { colors } from '../../src/lib/constants';
+import { toAmmunitionData } from '../../src/lib/custom-ammunition';
+import { useApp } from '../../src/context/AppContext';
+import { CustomAmmunition } from '../../src/types';
+import { useTranslation } from '../../src/i18n/useTranslation';
+
+export default function CustomAmmunitionScreen() {
+  const { ammoId } = useLocalSearchParams<{ ammoId?: string }>();
+  const {
+    onboardingState,
+    setOnboardingState,
+    customAmmunition,
+    addCustomAmmunition,
+    updateCustomAmmunition,
+    deleteCustomAmmunition,
+    settings,
+  } = useApp();
+  const { t } = useTranslation();
+  const existing = ammoId ? customAmmunition.find(a => a.id === ammoId) : undefined;
+  const caliber = existing?.caliber ?? onboardingState.caliber;
+
+  if (!caliber) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <Header title={t('customAmmo.title')} showBack onBack={() => router.back()} />
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>{t('ammunition.noCaliber')}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // A new or changed load becomes the onboarding selection
+  const select = (ammo: CustomAmmunition) => {
+    setOnboardingState(prev => ({
+      ...prev,
+      ammunition: toAmmunitionData(ammo),
+      powderTempSensitivity: ammo.powderTempSensitivity ?? null,
+    }));
+  };
+
+  const handleSave = async (data: Omit<CustomAmmunition, 'id' | 'createdAt'>) => {
+    try {
+      if (existing) {
+        const updated = { ...existing, ...data };
+        await updateCustomAmmunition(updated);
+        select(updated);
+      } else {
+        select(await addCustomAmmunition(data));
+      }
+      router.back();
+    } catch (error) {
+      Alert.alert(t('common.error'), t('customAmmo.saveFailed'));
+    }
+  };
+
+  const handleDelete = () => {
+    if (!existing) return;
+
+    Alert.alert(
+      t('customAmmo.deleteTitle'),
+      t('customAmmo.deleteConfirm', { name: existing.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCustomAmmunition(existing.id);
+              if (onboardingState.ammunition?.name === existing.name) {
+                setOnboardingState(prev => ({ ...prev, ammunition: null }));
+              }
+              router.back();
+            } catch (error) {
+              Alert.alert(t('common.error'), t('customAmmo.deleteFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Header
+        title={existing ? t('customAmmo.titleEdit') : t('customAmmo.title')}
+        subtitle={caliber}
+        showBack
+        onBack={() => router.back()}
+      />
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <CustomAmmunitionEditor
+          caliber={caliber}
+          ammunition={existing}
+          library={customAmmunition}
+          unitSystem={settings.unitSystem}
+          onSave={handleSave}
+          onDelete={existing ? handleDelete : undefined}
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.cream,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  contentContainer: {
+    paddingBottom: 24,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+});
@@ -4,8 +4,11 @@ import { router } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Button } from '../../src/components';
 import { colors } from '../../src/lib/constants';
+import { useTranslation } from '../../src/i18n/useTranslation';
 
 export default function WelcomeScreen() {
+  const { t } = useTranslation();
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView
@@ -19,45 +22,40 @@ export default function WelcomeScreen() {
             style={styles.logo}
             resizeMode="contain"
           />
-          <Text style={styles.tagline}>Premium Jagd seit 2019</Text>
+          <Text style={styles.tagline}>{t('welcome.tagline')}</Text>
         </View>
 
         <View style={styles.hero}>
-          <Text style={styles.title}>Ballistik Rechner</Text>
-          <Text style={styles.subtitle}>
-            Berechnen Sie prazise Haltepunkte fur Ihre Jagdwaffe.
-            Erstellen Sie Profile fur verschiedene Waffen und Munition.
-          </Text>
+          <Text style={styles.title}>{t('welcome.title')}</Text>
+          <Text style={styles.subtitle}>{t('welcome.subtitle')}</Text>
         </View>
 
         <View style={styles.features}>
           <View style={styles.feature}>
             <View style={styles.featureBullet} />
-            <Text style={styles.featureText}>Prazise Trajektorienberechnung</Text>
+            <Text style={styles.featureText}>{t('welcome.featureTrajectory')}</Text>
           </View>
           <View style={styles.feature}>
             <View style={styles.featureBullet} />
-            <Text style={styles.featureText}>Windabdrift Kalkulation</Text>
+            <Text style={styles.featureText}>{t('welcome.featureWind')}</Text>
           </View>
           <View style={styles.feature}>
             <View style={styles.featureBullet} />
-            <Text style={styles.featureText}>Schusstafel zum Teilen</Text>
+            <Text style={styles.featureText}>{t('welcome.featureRangeCard')}</Text>
           </View>
           <View style={styles.feature}>
             <View style={styles.featureBullet} />
-            <Text style={styles.featureText}>Mehrere Waffenprofile</Text>
+            <Text style={styles.featureText}>{t('welcome.featureProfiles')}</Text>
           </View>
         </View>
 
         <View style={styles.buttonContainer}>
           <Button
-            title="Jetzt einrichten"
+            title={t('welcome.start')}
             onPress={() => router.push('/onboarding/caliber')}
             fullWidth
           />
-          <Text style={styles.footerNote}>
-            Richten Sie Ihr erstes Waffenprofil in nur 3 Schritten ein
-          </Text>
+          <Text style={styles.footerNote}>{t('welcome.footer')}</Text>
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -2,14 +2,38 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TextInput, Alert } from 'react-native';
 import { router } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Button, Card, Header } from '../../src/components';
-import { colors } from '../../src/lib/constants';
+import { Button, Card, Header, UnverifiedBadge } from '../../src/components';
+import {
+  colors,
+  DRAG_MODEL_LABELS,
+  DEFAULT_GEE_OFFSET,
+  DEFAULT_POWDER_TEMP_SENSITIVITY,
+} from '../../src/lib/constants';
+import { calculateBarrelLengthAdjustment, getNominalBC, resolveDragModel } from '../../src/lib/ballistics';
+import { getDataPackRef } from '../../src/lib/data-pack';
 import { useApp } from '../../src/context/AppContext';
+import { formatUnit } from '../../src/lib/units';
+import { useTranslation } from '../../src/i18n/useTranslation';
 
 export default function SummaryScreen() {
-  const { onboardingState, setOnboardingState, addProfile, completeOnboarding, resetOnboarding, setIsAddingProfile } = useApp();
+  const {
+    onboardingState,
+    setOnboardingState,
+    addProfile,
+    completeOnboarding,
+    resetOnboarding,
+    setIsAddingProfile,
+    dataPack,
+    settings,
+  } = useApp();
+  const { t, formatNumber } = useTranslation();
+  const unitSystem = settings.unitSystem;
   const [isLoading, setIsLoading] = useState(false);
 
+  const barrelAdjustment = onboardingState.ammunition
+    ? calculateBarrelLengthAdjustment(onboardingState.ammunition, onboardingState.barrelLength ?? undefined)
+    : 0;
+
   const handleNameChange = (name: string) => {
     setOnboardingState(prev => ({
       ...prev,
@@ -19,7 +43,7 @@ export default function SummaryScreen() {
 
   const handleComplete = async () => {
     if (!onboardingState.caliber || !onboardingState.ammunition) {
-      Alert.alert('Fehler', 'Bitte wahlen Sie Kaliber und Munition aus');
+      Alert.alert(t('common.error'), t('summary.missingSelection'));
       return;
     }
 
@@ -33,10 +57,16 @@ export default function SummaryScreen() {
         name: profileName,
         caliber: onboardingState.caliber,
         ammunition: onboardingState.ammunition,
+        dataPack: getDataPackRef(dataPack, onboardingState.caliber, onboardingState.ammunition),
         zeroDistance: onboardingState.zeroDistance,
         zeroType: onboardingState.zeroType,
+        zeroOffset: onboardingState.zeroType === 'gee' ? onboardingState.zeroOffset ?? undefined : undefined,
         sightHeight: onboardingState.sightHeight,
         dragModel: onboardingState.ammunition.dragModel || 'g1',
+        twistRate: onboardingState.twistRate ?? undefined,
+        barrelLength: onboardingState.barrelLength ?? undefined,
+        powderTempSensitivity: onboardingState.powderTempSensitivity ?? DEFAULT_POWDER_TEMP_SENSITIVITY,
+        zeroConditions: onboardingState.zeroConditions ?? undefined,
       });
 
       await completeOnboarding();
@@ -47,7 +77,7 @@ export default function SummaryScreen() {
       router.replace('/(tabs)');
     } catch (error) {
       console.error('Error completing onboarding:', error);
-      Alert.alert('Fehler', 'Profil konnte nicht gespeichert werden');
+      Alert.alert(t('common.error'), t('summary.saveFailed'));
     } finally {
       setIsLoading(false);
     }
@@ -56,14 +86,14 @@ export default function SummaryScreen() {
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <Header
-        title="Zusammenfassung"
-        subtitle="Schritt 3 von 3"
+        title={t('summary.title')}
+        subtitle={t('onboarding.step', { step: 3, total: 3 })}
         showBack
         onBack={() => router.back()}
       />
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        <Text style={styles.sectionTitle}>Profilname</Text>
+        <Text style={styles.sectionTitle}>{t('summary.profileName')}</Text>
         <Card style={styles.nameCard}>
           <TextInput
             style={styles.nameInput}
@@ -74,87 +104,155 @@ export default function SummaryScreen() {
           />
         </Card>
 
-        <Text style={styles.sectionTitle}>Ihre Auswahl</Text>
+        <Text style={styles.sectionTitle}>{t('summary.selection')}</Text>
 
         <Card style={styles.summaryCard}>
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Kaliber</Text>
+            <Text style={styles.summaryLabel}>{t('summary.caliber')}</Text>
             <Text style={styles.summaryValue}>{onboardingState.caliber}</Text>
           </View>
 
           <View style={styles.divider} />
 
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Munition</Text>
+            <Text style={styles.summaryLabel}>{t('summary.ammunition')}</Text>
             <Text style={styles.summaryValue}>{onboardingState.ammunition?.name}</Text>
           </View>
 
+          {onboardingState.ammunition?.unverified && (
+            <View style={styles.unverified}>
+              <UnverifiedBadge />
+              <Text style={styles.unverifiedText}>
+                {onboardingState.ammunition.source ? t('customAmmo.unverifiedCatalogue') : t('customAmmo.unverifiedShort')}
+              </Text>
+            </View>
+          )}
+
           <View style={styles.divider} />
 
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Geschossgewicht</Text>
-            <Text style={styles.summaryValue}>{onboardingState.ammunition?.bulletWeight} gr</Text>
+            <Text style={styles.summaryLabel}>{t('summary.bulletWeight')}</Text>
+            <Text style={styles.summaryValue}>{onboardingState.ammunition && formatUnit(onboardingState.ammunition.bulletWeight, 'weight', unitSystem)}</Text>
           </View>
 
           <View style={styles.divider} />
 
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Mundungsgeschwindigkeit</Text>
-            <Text style={styles.summaryValue}>{onboardingState.ammunition?.muzzleVelocity} m/s</Text>
+            <Text style={styles.summaryLabel}>{t('summary.muzzleVelocity')}</Text>
+            <Text style={styles.summaryValue}>
+              {onboardingState.ammunition && formatUnit(onboardingState.ammunition.muzzleVelocity + barrelAdjustment, 'velocity', unitSystem)}
+            </Text>
           </View>
 
+          {onboardingState.ammunition?.testBarrelLength != null && onboardingState.barrelLength != null && (
+            <Text style={styles.summaryNote}>
+              {t('summary.barrelAdjustment', {
+                velocity: formatUnit(onboardingState.ammunition.muzzleVelocity, 'velocity', unitSystem),
+                adjustment: `${barrelAdjustment > 0 ? '+' : ''}${formatUnit(barrelAdjustment, 'velocity', unitSystem)}`,
+                length: formatUnit(onboardingState.barrelLength * 2.54, 'length', unitSystem),
+                testBarrel: formatUnit(onboardingState.ammunition.testBarrelLength * 2.54, 'length', unitSystem),
+              })}
+            </Text>
+          )}
+
           <View style={styles.divider} />
 
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Widerstandsmodell</Text>
-            <Text style={styles.summaryValue}>{(onboardingState.ammunition?.dragModel || 'g1').toUpperCase()}</Text>
+            <Text style={styles.summaryLabel}>{t('summary.dragModel')}</Text>
+            <Text style={styles.summaryValue}>{DRAG_MODEL_LABELS[onboardingState.ammunition?.dragModel || 'g1']}</Text>
           </View>
 
           <View style={styles.divider} />
 
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>BC ({(onboardingState.ammunition?.dragModel || 'g1').toUpperCase()})</Text>
+            <Text style={styles.summaryLabel}>
+              BC ({onboardingState.ammunition
+                ? DRAG_MODEL_LABELS[resolveDragModel(onboardingState.ammunition, onboardingState.ammunition.dragModel || 'g1')]
+                : DRAG_MODEL_LABELS.g1})
+            </Text>
             <Text style={styles.summaryValue}>
-              {(onboardingState.ammunition?.dragModel || 'g1') === 'g7' && onboardingState.ammunition?.bcG7 != null
-                ? onboardingState.ammunition.bcG7
-                : onboardingState.ammunition?.ballisticCoefficient}
+              {onboardingState.ammunition
+                ? formatNumber(getNominalBC(onboardingState.ammunition, onboardingState.ammunition.dragModel || 'g1'))
+                : null}
             </Text>
           </View>
         </Card>
 
         <Card style={styles.summaryCard}>
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Einschussentfernung</Text>
-            <Text style={styles.summaryValue}>{onboardingState.zeroDistance}m</Text>
+            <Text style={styles.summaryLabel}>{t('summary.zeroDistance')}</Text>
+            <Text style={styles.summaryValue}>{formatUnit(onboardingState.zeroDistance, 'distance', unitSystem)}</Text>
+          </View>
+
+          <View style={styles.divider} />
+
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>{t('summary.zeroMethod')}</Text>
+            <Text style={styles.summaryValue}>
+              {onboardingState.zeroType === 'gee'
+                ? `GEE (+${formatUnit(onboardingState.zeroOffset ?? DEFAULT_GEE_OFFSET, 'length', unitSystem)})`
+                : t('summary.standard')}
+            </Text>
+          </View>
+
+          <View style={styles.divider} />
+
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>{t('summary.sightHeight')}</Text>
+            <Text style={styles.summaryValue}>{formatUnit(onboardingState.sightHeight, 'length', unitSystem)}</Text>
           </View>
 
+          {onboardingState.twistRate != null && (
+            <>
+              <View style={styles.divider} />
+
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>{t('summary.twist')}</Text>
+                <Text style={styles.summaryValue}>1:{onboardingState.twistRate}"</Text>
+              </View>
+            </>
+          )}
+
+          {onboardingState.barrelLength != null && (
+            <>
+              <View style={styles.divider} />
+
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>{t('summary.barrelLength')}</Text>
+                <Text style={styles.summaryValue}>{formatUnit(onboardingState.barrelLength * 2.54, 'length', unitSystem)}</Text>
+              </View>
+            </>
+          )}
+
           <View style={styles.divider} />
 
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Einschussmethode</Text>
+            <Text style={styles.summaryLabel}>{t('summary.powderTemperature')}</Text>
             <Text style={styles.summaryValue}>
-              {onboardingState.zeroType === 'gee' ? 'GEE (+4cm)' : 'Standard'}
+              {formatUnit(onboardingState.powderTempSensitivity ?? DEFAULT_POWDER_TEMP_SENSITIVITY, 'tempSensitivity', unitSystem)}
             </Text>
           </View>
 
           <View style={styles.divider} />
 
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Zielfernrohrhohe</Text>
-            <Text style={styles.summaryValue}>{onboardingState.sightHeight} cm</Text>
+            <Text style={styles.summaryLabel}>{t('summary.zeroConditions')}</Text>
+            <Text style={styles.summaryValue}>
+              {onboardingState.zeroConditions
+                ? `${formatUnit(onboardingState.zeroConditions.temperature, 'temperature', unitSystem)}, ${formatUnit(onboardingState.zeroConditions.altitude, 'altitude', unitSystem)}`
+                : t('summary.standardAtmosphere')}
+            </Text>
           </View>
         </Card>
 
         <View style={styles.noteContainer}>
-          <Text style={styles.note}>
-            Sie konnen diese Einstellungen jederzeit in Ihrem Profil andern oder weitere Profile hinzufugen.
-          </Text>
+          <Text style={styles.note}>{t('summary.note')}</Text>
         </View>
       </ScrollView>
 
       <View style={styles.footer}>
         <Button
-          title="Profil erstellen"
+          title={t('summary.create')}
           onPress={handleComplete}
           loading={isLoading}
           fullWidth
@@ -206,6 +304,20 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.forest,
   },
+  summaryNote: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    textAlign: 'right',
+    paddingBottom: 8,
+  },
+  unverified: {
+    paddingBottom: 8,
+    gap: 4,
+  },
+  unverifiedText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
   divider: {
     height: 1,
     backgroundColor: colors.border,
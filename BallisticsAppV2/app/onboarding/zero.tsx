@@ -1,19 +1,86 @@
-import React from 'react';
-import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import React, { useState, useMemo, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { router } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Button, Card, Header, SliderInput } from '../../src/components';
-import { colors, ZERO_OPTIONS, SLIDER_RANGES } from '../../src/lib/constants';
+import {
+  colors,
+  ZERO_OPTIONS,
+  SLIDER_RANGES,
+  DEFAULT_TWIST_RATE,
+  DEFAULT_BARREL_LENGTH,
+  DEFAULT_POWDER_TEMP_REFERENCE,
+  DEFAULT_POWDER_TEMP_SENSITIVITY,
+  ALLOWED_DEVIATION_OPTIONS,
+  DEFAULT_ALLOWED_DEVIATION,
+  ENVIRONMENT_RANGES,
+  STANDARD_ATMOSPHERE,
+} from '../../src/lib/constants';
+import {
+  calculateBarrelLengthAdjustment,
+  calculatePointBlankRange,
+  calculatePressureFromAltitude,
+  createStandardEnvironment,
+} from '../../src/lib/ballistics';
 import { useApp } from '../../src/context/AppContext';
+import { formatUnit, fromDisplayUnit, getUnitSymbol, toDisplayUnit } from '../../src/lib/units';
+import { useTranslation } from '../../src/i18n/useTranslation';
 
 export default function ZeroScreen() {
-  const { onboardingState, setOnboardingState } = useApp();
+  const { onboardingState, setOnboardingState, settings } = useApp();
+  const { t, formatNumber } = useTranslation();
+  const unitSystem = settings.unitSystem;
+  const [allowedDeviation, setAllowedDeviation] = useState(DEFAULT_ALLOWED_DEVIATION);
+
+  // Optimal GEE for the selected ammunition and allowed deviation
+  const pointBlank = useMemo(() => {
+    const ammunition = onboardingState.ammunition;
+    if (!ammunition) return null;
+    return calculatePointBlankRange(
+      {
+        id: '',
+        name: '',
+        caliber: onboardingState.caliber ?? '',
+        ammunition,
+        zeroDistance: 100,
+        zeroType: 'gee',
+        sightHeight: onboardingState.sightHeight,
+        barrelLength: onboardingState.barrelLength ?? undefined,
+        dragModel: ammunition.dragModel || 'g1',
+        createdAt: 0,
+      },
+      allowedDeviation,
+      createStandardEnvironment()
+    );
+  }, [onboardingState.ammunition, onboardingState.caliber, onboardingState.sightHeight, onboardingState.barrelLength, allowedDeviation]);
+
+  // Keep a selected GEE zero in sync with the computed offset
+  useEffect(() => {
+    if (pointBlank && onboardingState.zeroType === 'gee') {
+      setOnboardingState(prev => ({
+        ...prev,
+        zeroDistance: pointBlank.sightInDistance,
+        zeroOffset: pointBlank.sightInOffset,
+      }));
+    }
+  }, [pointBlank]);
 
   const handleSelectZero = (distance: number, type: 'standard' | 'gee') => {
     setOnboardingState(prev => ({
       ...prev,
       zeroDistance: distance,
       zeroType: type,
+      zeroOffset: null,
+    }));
+  };
+
+  const handleSelectGee = () => {
+    if (!pointBlank) return;
+    setOnboardingState(prev => ({
+      ...prev,
+      zeroDistance: pointBlank.sightInDistance,
+      zeroType: 'gee',
+      zeroOffset: pointBlank.sightInOffset,
     }));
   };
 
@@ -24,80 +91,303 @@ export default function ZeroScreen() {
     }));
   };
 
+  const handleTwistRateChange = (value: number) => {
+    setOnboardingState(prev => ({
+      ...prev,
+      twistRate: value,
+    }));
+  };
+
+  // Slider in cm (display unit), stored in inches like the test barrel
+  const handleBarrelLengthChange = (value: number) => {
+    setOnboardingState(prev => ({
+      ...prev,
+      barrelLength: Math.round(value / 2.54 * 10) / 10,
+    }));
+  };
+
+  const handleResetBarrelLength = () => {
+    setOnboardingState(prev => ({
+      ...prev,
+      barrelLength: null,
+    }));
+  };
+
+  const handlePowderTempSensitivityChange = (value: number) => {
+    setOnboardingState(prev => ({
+      ...prev,
+      powderTempSensitivity: value,
+    }));
+  };
+
+  const testBarrelLength = onboardingState.ammunition?.testBarrelLength ?? DEFAULT_BARREL_LENGTH;
+  const barrelAdjustment = onboardingState.ammunition
+    ? calculateBarrelLengthAdjustment(onboardingState.ammunition, onboardingState.barrelLength ?? undefined)
+    : 0;
+
+  const zeroConditions = onboardingState.zeroConditions ?? STANDARD_ATMOSPHERE;
+
+  const handleZeroConditionsChange = (temperature: number, altitude: number) => {
+    setOnboardingState(prev => ({
+      ...prev,
+      zeroConditions: {
+        temperature,
+        altitude,
+        pressure: calculatePressureFromAltitude(altitude),
+        humidity: STANDARD_ATMOSPHERE.humidity,
+      },
+    }));
+  };
+
+  const handleResetZeroConditions = () => {
+    setOnboardingState(prev => ({
+      ...prev,
+      zeroConditions: null,
+    }));
+  };
+
   const handleContinue = () => {
     router.push('/onboarding/summary');
   };
 
-  const selectedKey = `${onboardingState.zeroDistance}-${onboardingState.zeroType}`;
+  const distanceSymbol = getUnitSymbol('distance', unitSystem);
+  const displayZeroDistance = Math.round(toDisplayUnit(onboardingState.zeroDistance, 'distance', unitSystem));
+  const typicalSightHeight = [4, 5]
+    .map(cm => formatNumber(Number(toDisplayUnit(cm, 'length', unitSystem).toFixed(1))))
+    .join('-');
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <Header
-        title="Einschussdaten"
-        subtitle="Schritt 2 von 3"
+        title={t('zero.title')}
+        subtitle={t('onboarding.step', { step: 2, total: 3 })}
         showBack
         onBack={() => router.back()}
       />
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        <Text style={styles.sectionTitle}>Einschussentfernung</Text>
-        <Text style={styles.instruction}>
-          Wahlen Sie Ihre Einschussentfernung und -methode
-        </Text>
+        <Text style={styles.sectionTitle}>{t('zero.distanceSection')}</Text>
+        <Text style={styles.instruction}>{t('zero.instruction')}</Text>
+
+        {pointBlank && (
+          <Card
+            onPress={handleSelectGee}
+            selected={onboardingState.zeroType === 'gee'}
+            style={styles.zeroCard}
+          >
+            <View style={styles.zeroHeader}>
+              <Text style={[styles.zeroLabel, onboardingState.zeroType === 'gee' && styles.selectedText]}>
+                GEE ({formatUnit(pointBlank.sightInDistance, 'distance', unitSystem)} +{formatUnit(pointBlank.sightInOffset, 'length', unitSystem)})
+              </Text>
+              <View style={styles.recommendedBadge}>
+                <Text style={styles.recommendedText}>{t('zero.recommended')}</Text>
+              </View>
+            </View>
+            <Text style={styles.zeroDescription}>
+              {t('zero.geeDescription', { deviation: formatUnit(allowedDeviation, 'length', unitSystem) })}
+            </Text>
+
+            <View style={styles.deviationRow}>
+              {ALLOWED_DEVIATION_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.deviationChip, allowedDeviation === option && styles.deviationChipActive]}
+                  onPress={() => setAllowedDeviation(option)}
+                >
+                  <Text style={[styles.deviationText, allowedDeviation === option && styles.deviationTextActive]}>
+                    ±{formatUnit(option, 'length', unitSystem)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.pbrRow}>
+              <View style={styles.pbrItem}>
+                <Text style={styles.pbrLabel}>{t('zero.nearZero')}</Text>
+                <Text style={styles.pbrValue}>{formatUnit(pointBlank.nearZero, 'distance', unitSystem)}</Text>
+              </View>
+              <View style={styles.pbrItem}>
+                <Text style={styles.pbrLabel}>{t('zero.farZero')}</Text>
+                <Text style={styles.pbrValue}>{formatUnit(pointBlank.farZero, 'distance', unitSystem)}</Text>
+              </View>
+              <View style={styles.pbrItem}>
+                <Text style={styles.pbrLabel}>{t('zero.pointBlank')}</Text>
+                <Text style={styles.pbrValue}>{formatUnit(pointBlank.pointBlankRange, 'distance', unitSystem)}</Text>
+              </View>
+            </View>
+          </Card>
+        )}
 
         {ZERO_OPTIONS.map(option => {
           const optionKey = `${option.distance}-${option.type}`;
-          const isSelected = selectedKey === optionKey;
+          const isSelected = onboardingState.zeroType === option.type && displayZeroDistance === option.distance;
 
           return (
             <Card
               key={optionKey}
-              onPress={() => handleSelectZero(option.distance, option.type)}
+              onPress={() => handleSelectZero(fromDisplayUnit(option.distance, 'distance', unitSystem), option.type)}
               selected={isSelected}
               style={styles.zeroCard}
             >
               <View style={styles.zeroHeader}>
                 <Text style={[styles.zeroLabel, isSelected && styles.selectedText]}>
-                  {option.label}
+                  {t('zero.standardLabel', { distance: `${option.distance} ${distanceSymbol}` })}
                 </Text>
-                {option.recommended && (
-                  <View style={styles.recommendedBadge}>
-                    <Text style={styles.recommendedText}>Empfohlen</Text>
-                  </View>
-                )}
               </View>
-              <Text style={styles.zeroDescription}>{option.description}</Text>
+              <Text style={styles.zeroDescription}>
+                {t('zero.standardDescription', { distance: `${option.distance} ${distanceSymbol}` })}
+              </Text>
             </Card>
           );
         })}
 
         <View style={styles.sightHeightSection}>
-          <Text style={styles.sectionTitle}>Zielfernrohrhohe</Text>
-          <Text style={styles.instruction}>
-            Hohe der optischen Achse uber der Laufachse
-          </Text>
+          <Text style={styles.sectionTitle}>{t('zero.sightHeightSection')}</Text>
+          <Text style={styles.instruction}>{t('zero.sightHeightInstruction')}</Text>
 
           <Card style={styles.sliderCard}>
             <SliderInput
-              label="Hohe uber Lauf"
+              label={t('zero.sightHeightLabel')}
               value={onboardingState.sightHeight}
               onValueChange={handleSightHeightChange}
               min={SLIDER_RANGES.sightHeight.min}
               max={SLIDER_RANGES.sightHeight.max}
               step={SLIDER_RANGES.sightHeight.step}
-              unit=" cm"
+              quantity="length"
+              unitSystem={unitSystem}
             />
           </Card>
 
           <Text style={styles.hint}>
-            Typischerweise 4-5 cm fur Zielfernrohre mit Standardmontage
+            {t('zero.sightHeightHint', { range: `${typicalSightHeight} ${getUnitSymbol('length', unitSystem)}` })}
+          </Text>
+        </View>
+
+        <View style={styles.sightHeightSection}>
+          <Text style={styles.sectionTitle}>{t('zero.twistSection')}</Text>
+          <Text style={styles.instruction}>{t('zero.twistInstruction')}</Text>
+
+          <Card style={styles.sliderCard}>
+            <SliderInput
+              label={t('zero.twistLabel')}
+              value={onboardingState.twistRate ?? DEFAULT_TWIST_RATE}
+              onValueChange={handleTwistRateChange}
+              min={SLIDER_RANGES.twistRate.min}
+              max={SLIDER_RANGES.twistRate.max}
+              step={SLIDER_RANGES.twistRate.step}
+              formatValue={(val) => `1:${val}"`}
+            />
+          </Card>
+
+          <Text style={styles.hint}>{t('zero.twistHint')}</Text>
+        </View>
+
+        <View style={styles.sightHeightSection}>
+          <Text style={styles.sectionTitle}>{t('zero.barrelSection')}</Text>
+          <Text style={styles.instruction}>
+            {t('zero.barrelInstruction', {
+              length: formatUnit(testBarrelLength * 2.54, 'length', unitSystem),
+            })}
+          </Text>
+
+          <Card style={styles.sliderCard}>
+            <SliderInput
+              label={t('zero.barrelLabel')}
+              value={(onboardingState.barrelLength ?? testBarrelLength) * 2.54}
+              onValueChange={handleBarrelLengthChange}
+              min={SLIDER_RANGES.barrelLength.min}
+              max={SLIDER_RANGES.barrelLength.max}
+              step={SLIDER_RANGES.barrelLength.step}
+              quantity="length"
+              unitSystem={unitSystem}
+            />
+            {onboardingState.barrelLength != null && (
+              <TouchableOpacity onPress={handleResetBarrelLength}>
+                <Text style={styles.resetLink}>{t('zero.resetBarrel')}</Text>
+              </TouchableOpacity>
+            )}
+          </Card>
+
+          <Text style={styles.hint}>
+            {onboardingState.ammunition && onboardingState.barrelLength != null
+              ? t('zero.barrelAdjustment', {
+                  velocity: formatUnit(onboardingState.ammunition.muzzleVelocity + barrelAdjustment, 'velocity', unitSystem),
+                  adjustment: `${barrelAdjustment > 0 ? '+' : ''}${formatUnit(barrelAdjustment, 'velocity', unitSystem)}`,
+                })
+              : t('zero.barrelHint')}
+          </Text>
+        </View>
+
+        <View style={styles.sightHeightSection}>
+          <Text style={styles.sectionTitle}>{t('zero.powderSection')}</Text>
+          <Text style={styles.instruction}>
+            {t('zero.powderInstruction', {
+              reference: onboardingState.ammunition?.powderTempReference ?? DEFAULT_POWDER_TEMP_REFERENCE,
+            })}
+          </Text>
+
+          <Card style={styles.sliderCard}>
+            <SliderInput
+              label={t('zero.powderLabel')}
+              value={onboardingState.powderTempSensitivity ?? DEFAULT_POWDER_TEMP_SENSITIVITY}
+              onValueChange={handlePowderTempSensitivityChange}
+              min={SLIDER_RANGES.powderTempSensitivity.min}
+              max={SLIDER_RANGES.powderTempSensitivity.max}
+              step={SLIDER_RANGES.powderTempSensitivity.step}
+              quantity="tempSensitivity"
+              unitSystem={unitSystem}
+            />
+          </Card>
+
+          <Text style={styles.hint}>
+            {t('zero.powderHint', {
+              stable: `${formatNumber(toDisplayUnit(0.1, 'tempSensitivity', unitSystem), 1)}-${formatUnit(0.3, 'tempSensitivity', unitSystem)}`,
+              common: `${formatNumber(toDisplayUnit(0.5, 'tempSensitivity', unitSystem), 1)}-${formatUnit(1.5, 'tempSensitivity', unitSystem)}`,
+            })}
+          </Text>
+        </View>
+
+        <View style={styles.sightHeightSection}>
+          <Text style={styles.sectionTitle}>{t('zero.conditionsSection')}</Text>
+          <Text style={styles.instruction}>{t('zero.conditionsInstruction')}</Text>
+
+          <Card style={styles.sliderCard}>
+            <SliderInput
+              label={t('zero.temperature')}
+              value={zeroConditions.temperature}
+              onValueChange={(val) => handleZeroConditionsChange(val, zeroConditions.altitude)}
+              min={ENVIRONMENT_RANGES.temperature.min}
+              max={ENVIRONMENT_RANGES.temperature.max}
+              step={ENVIRONMENT_RANGES.temperature.step}
+              quantity="temperature"
+              unitSystem={unitSystem}
+            />
+            <SliderInput
+              label={t('zero.altitude')}
+              value={zeroConditions.altitude}
+              onValueChange={(val) => handleZeroConditionsChange(zeroConditions.temperature, val)}
+              min={ENVIRONMENT_RANGES.altitude.min}
+              max={ENVIRONMENT_RANGES.altitude.max}
+              step={ENVIRONMENT_RANGES.altitude.step}
+              quantity="altitude"
+              unitSystem={unitSystem}
+            />
+            {onboardingState.zeroConditions && (
+              <TouchableOpacity onPress={handleResetZeroConditions}>
+                <Text style={styles.resetLink}>{t('zero.resetConditions')}</Text>
+              </TouchableOpacity>
+            )}
+          </Card>
+
+          <Text style={styles.hint}>
+            {t('zero.conditionsHint', { temperature: formatUnit(STANDARD_ATMOSPHERE.temperature, 'temperature', unitSystem) })}
           </Text>
         </View>
       </ScrollView>
 
       <View style={styles.footer}>
         <Button
-          title="Weiter"
+          title={t('common.next')}
           onPress={handleContinue}
           fullWidth
         />
@@ -159,6 +449,54 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: colors.textSecondary,
   },
+  deviationRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+    gap: 8,
+  },
+  deviationChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.warmWhite,
+  },
+  deviationChipActive: {
+    backgroundColor: colors.forest,
+    borderColor: colors.forest,
+  },
+  deviationText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  deviationTextActive: {
+    color: colors.warmWhite,
+  },
+  pbrRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  pbrItem: {
+    alignItems: 'center',
+  },
+  pbrLabel: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  pbrValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginTop: 2,
+  },
   sightHeightSection: {
     marginTop: 16,
     marginBottom: 24,
@@ -166,6 +504,13 @@ const styles = StyleSheet.create({
   sliderCard: {
     marginVertical: 8,
   },
+  resetLink: {
+    fontSize: 13,
+    color: colors.forest,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: 8,
+  },
   hint: {
     fontSize: 13,
     color: colors.textSecondary,
@@ -0,0 +1,450 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, KeyboardTypeOptions } from 'react-native';
+import { Button } from './Button';
+import { Card } from './Card';
+import { BC_BANDS_MODELS, colors, DRAG_MODEL_LABELS, MAX_CUSTOM_BC_BANDS } from '../lib/constants';
+import { normalizeCustomAmmunition, validateCustomAmmunition } from '../lib/custom-ammunition';
+import { formatUnit, fromDisplayUnit, getUnitSymbol, toDisplayUnit } from '../lib/units';
+import {
+  BCBandsModel,
+  CustomAmmunition,
+  CustomAmmunitionDraft,
+  CustomAmmunitionError,
+  CustomAmmunitionField,
+  UnitSystem,
+} from '../types';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface CustomAmmunitionEditorProps {
+  caliber: string;
+  ammunition?: CustomAmmunition; // stored load to edit, a new load if unset
+  library: CustomAmmunition[];
+  unitSystem: UnitSystem;
+  onSave: (ammo: Omit<CustomAmmunition, 'id' | 'createdAt'>) => Promise<void>;
+  onDelete?: () => void;
+}
+
+interface BandInput {
+  velocity: string;
+  bc: string;
+}
+
+interface FormInput {
+  name: string;
+  bulletWeight: string;
+  ballisticCoefficient: string;
+  bcG7: string;
+  muzzleVelocity: string;
+  testBarrelLength: string;
+  bulletLength: string;
+  bulletDiameter: string;
+  bands: BandInput[];
+  bandsModel: BCBandsModel;
+}
+
+// Converted values are rounded to 0.1 base units so a stored load survives
+// being opened and saved again in another unit system
+const roundBase = (value: number): number => Math.round(value * 10) / 10;
+
+// Empty text = not entered, anything unparsable = NaN (reported as out of range)
+const parseInput = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : parseFloat(value.replace(',', '.'));
+
+export function CustomAmmunitionEditor({
+  caliber,
+  ammunition,
+  library,
+  unitSystem,
+  onSave,
+  onDelete,
+}: CustomAmmunitionEditorProps) {
+  const { t, formatNumber } = useTranslation();
+
+  // Input text without trailing zeros, e.g. "9.72" or "2723"
+  const inputText = (value: number | undefined, decimals: number): string =>
+    value == null ? '' : formatNumber(Number(value.toFixed(decimals)));
+
+  const [input, setInput] = useState<FormInput>(() => ({
+    name: ammunition?.name ?? '',
+    bulletWeight: inputText(ammunition && toDisplayUnit(ammunition.bulletWeight, 'weight', unitSystem), 2),
+    ballisticCoefficient: inputText(ammunition?.ballisticCoefficient, 3),
+    bcG7: inputText(ammunition?.bcG7, 3),
+    muzzleVelocity: inputText(ammunition && toDisplayUnit(ammunition.muzzleVelocity, 'velocity', unitSystem), 0),
+    testBarrelLength: inputText(
+      ammunition?.testBarrelLength != null
+        ? toDisplayUnit(ammunition.testBarrelLength * 2.54, 'length', unitSystem)
+        : undefined,
+      1
+    ),
+    bulletLength: inputText(ammunition?.bulletLength, 3),
+    bulletDiameter: inputText(ammunition?.bulletDiameter, 3),
+    bands: (ammunition?.bcBands ?? []).map(band => ({
+      velocity: inputText(toDisplayUnit(band.velocityThreshold, 'velocity', unitSystem), 0),
+      bc: inputText(band.bc, 3),
+    })),
+    bandsModel: ammunition?.bcBandsModel ?? 'g1',
+  }));
+  const [showErrors, setShowErrors] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const draft = useMemo((): CustomAmmunitionDraft => {
+    const converted = (text: string, convert: (value: number) => number): number | undefined => {
+      const value = parseInput(text);
+      return value == null || !isFinite(value) ? value : roundBase(convert(value));
+    };
+    const testBarrelCm = converted(input.testBarrelLength, v => fromDisplayUnit(v, 'length', unitSystem));
+
+    return {
+      id: ammunition?.id,
+      caliber,
+      name: input.name,
+      bulletWeight: converted(input.bulletWeight, v => fromDisplayUnit(v, 'weight', unitSystem)) as number,
+      ballisticCoefficient: parseInput(input.ballisticCoefficient) as number,
+      bcG7: parseInput(input.bcG7),
+      bcBands: input.bands.map(band => ({
+        velocityThreshold: converted(band.velocity, v => fromDisplayUnit(v, 'velocity', unitSystem)) ?? NaN,
+        bc: parseInput(band.bc) ?? NaN,
+      })),
+      bcBandsModel: input.bandsModel,
+      muzzleVelocity: converted(input.muzzleVelocity, v => fromDisplayUnit(v, 'velocity', unitSystem)) as number,
+      testBarrelLength: testBarrelCm == null || !isFinite(testBarrelCm) ? testBarrelCm : roundBase(testBarrelCm / 2.54),
+      bulletLength: parseInput(input.bulletLength),
+      bulletDiameter: parseInput(input.bulletDiameter),
+    };
+  }, [input, ammunition, caliber, unitSystem]);
+
+  const errors = useMemo(() => validateCustomAmmunition(draft, library), [draft, library]);
+
+  const formatLimit = (field: CustomAmmunitionField, value: number): string => {
+    switch (field) {
+      case 'bulletWeight':
+        return formatUnit(value, 'weight', unitSystem);
+      case 'muzzleVelocity':
+      case 'bandVelocity':
+        return formatUnit(value, 'velocity', unitSystem);
+      case 'testBarrelLength':
+        return formatUnit(value * 2.54, 'length', unitSystem, 0);
+      case 'bulletLength':
+      case 'bulletDiameter':
+        return `${formatNumber(value)} in`;
+      default:
+        return formatNumber(value, 2);
+    }
+  };
+
+  const errorText = (field: CustomAmmunitionField, band?: number): string | null => {
+    if (!showErrors) return null;
+    const error = errors.find((e: CustomAmmunitionError) => e.field === field && e.band === band);
+    if (!error) return null;
+    if (error.reason === 'required') return t('customAmmo.errors.required');
+    if (error.reason === 'duplicate') {
+      return field === 'name' ? t('customAmmo.errors.duplicateName') : t('customAmmo.errors.duplicateBand');
+    }
+    return t('customAmmo.errors.range', {
+      min: formatLimit(field, error.min ?? 0),
+      max: formatLimit(field, error.max ?? 0),
+    });
+  };
+
+  const setField = (field: Exclude<keyof FormInput, 'bands'>, value: string) => {
+    setInput(prev => ({ ...prev, [field]: value }));
+  };
+
+  const setBand = (index: number, changes: Partial<BandInput>) => {
+    setInput(prev => ({
+      ...prev,
+      bands: prev.bands.map((band, i) => (i === index ? { ...band, ...changes } : band)),
+    }));
+  };
+
+  const addBand = () => {
+    setInput(prev => ({ ...prev, bands: [...prev.bands, { velocity: '', bc: '' }] }));
+  };
+
+  const removeBand = (index: number) => {
+    setInput(prev => ({ ...prev, bands: prev.bands.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    setShowErrors(true);
+    if (errors.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(normalizeCustomAmmunition(draft));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderField = (
+    field: Exclude<keyof FormInput, 'bands'> & CustomAmmunitionField,
+    label: string,
+    placeholder: string,
+    optional = false,
+    keyboardType: KeyboardTypeOptions = 'decimal-pad'
+  ) => {
+    const error = errorText(field);
+    return (
+      <View style={styles.field}>
+        <Text style={styles.label}>
+          {label}
+          {optional && <Text style={styles.optional}> {t('customAmmo.optional')}</Text>}
+        </Text>
+        <TextInput
+          style={[styles.input, error != null && styles.inputError]}
+          value={input[field]}
+          onChangeText={(value) => setField(field, value)}
+          keyboardType={keyboardType}
+          placeholder={placeholder}
+          placeholderTextColor={colors.textSecondary}
+        />
+        {error != null && <Text style={styles.errorText}>{error}</Text>}
+      </View>
+    );
+  };
+
+  const weightUnit = getUnitSymbol('weight', unitSystem);
+  const velocityUnit = getUnitSymbol('velocity', unitSystem);
+  const lengthUnit = getUnitSymbol('length', unitSystem);
+
+  return (
+    <View>
+      <View style={styles.notice}>
+        <Text style={styles.noticeText}>{t('customAmmo.unverifiedNote')}</Text>
+      </View>
+
+      <Text style={styles.sectionTitle}>{t('customAmmo.bulletSection')}</Text>
+      <Card style={styles.card}>
+        {renderField('name', t('customAmmo.fields.name'), t('customAmmo.namePlaceholder'), false, 'default')}
+        {renderField('bulletWeight', `${t('customAmmo.fields.bulletWeight')} (${weightUnit})`, formatNumber(weightUnit === 'g' ? 9.7 : 150))}
+        {renderField('bulletLength', `${t('customAmmo.fields.bulletLength')} (in)`, formatNumber(1.2, 3), true)}
+        {renderField('bulletDiameter', `${t('customAmmo.fields.bulletDiameter')} (in)`, formatNumber(0.308, 3), true)}
+      </Card>
+
+      <Text style={styles.sectionTitle}>{t('customAmmo.bcSection')}</Text>
+      <Card style={styles.card}>
+        {renderField('ballisticCoefficient', t('customAmmo.fields.ballisticCoefficient'), formatNumber(0.45, 3))}
+        {renderField('bcG7', t('customAmmo.fields.bcG7'), formatNumber(0.23, 3), true)}
+
+        <Text style={styles.label}>
+          {t('customAmmo.fields.bcBands')}
+          <Text style={styles.optional}> {t('customAmmo.optional')}</Text>
+        </Text>
+        <Text style={styles.hint}>{t('customAmmo.bandsHint')}</Text>
+        {input.bands.length > 0 && (
+          <View style={styles.modelRow}>
+            <Text style={styles.bandLabel}>{t('customAmmo.bandsModel')}</Text>
+            {BC_BANDS_MODELS.map(model => (
+              <TouchableOpacity
+                key={model}
+                style={[styles.chip, input.bandsModel === model && styles.chipActive]}
+                onPress={() => setInput(prev => ({ ...prev, bandsModel: model }))}
+              >
+                <Text style={[styles.chipText, input.bandsModel === model && styles.chipTextActive]}>
+                  {DRAG_MODEL_LABELS[model]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {input.bands.map((band, index) => {
+          const velocityError = errorText('bandVelocity', index);
+          const bcError = errorText('bandBC', index);
+          return (
+            <View key={index}>
+              <View style={styles.bandRow}>
+                <Text style={styles.bandLabel}>{t('customAmmo.bandFrom')}</Text>
+                <TextInput
+                  style={[styles.input, styles.bandInput, velocityError != null && styles.inputError]}
+                  value={band.velocity}
+                  onChangeText={(value) => setBand(index, { velocity: value })}
+                  keyboardType="decimal-pad"
+                  placeholder={velocityUnit}
+                  placeholderTextColor={colors.textSecondary}
+                />
+                <Text style={styles.bandLabel}>BC</Text>
+                <TextInput
+                  style={[styles.input, styles.bandInput, bcError != null && styles.inputError]}
+                  value={band.bc}
+                  onChangeText={(value) => setBand(index, { bc: value })}
+                  keyboardType="decimal-pad"
+                  placeholder={formatNumber(0.45, 3)}
+                  placeholderTextColor={colors.textSecondary}
+                />
+                <TouchableOpacity style={styles.removeButton} onPress={() => removeBand(index)}>
+                  <Text style={styles.removeText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+              {velocityError != null && <Text style={styles.errorText}>{velocityError}</Text>}
+              {bcError != null && <Text style={styles.errorText}>{bcError}</Text>}
+            </View>
+          );
+        })}
+        {input.bands.length < MAX_CUSTOM_BC_BANDS && (
+          <TouchableOpacity style={styles.addButton} onPress={addBand}>
+            <Text style={styles.addText}>{t('customAmmo.addBand')}</Text>
+          </TouchableOpacity>
+        )}
+      </Card>
+
+      <Text style={styles.sectionTitle}>{t('customAmmo.velocitySection')}</Text>
+      <Card style={styles.card}>
+        {renderField('muzzleVelocity', `${t('customAmmo.fields.muzzleVelocity')} (${velocityUnit})`, formatNumber(velocityUnit === 'm/s' ? 820 : 2700))}
+        {renderField('testBarrelLength', `${t('customAmmo.fields.testBarrelLength')} (${lengthUnit})`, formatNumber(lengthUnit === 'cm' ? 60 : 24), true)}
+      </Card>
+
+      {showErrors && errors.length > 0 && (
+        <Text style={styles.summaryError}>{t('customAmmo.invalid')}</Text>
+      )}
+
+      <Button
+        title={t('common.save')}
+        onPress={handleSave}
+        loading={isSaving}
+        fullWidth
+        style={styles.saveButton}
+      />
+      {onDelete && (
+        <Button
+          title={t('customAmmo.delete')}
+          onPress={onDelete}
+          variant="ghost"
+          fullWidth
+          textStyle={styles.deleteText}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  notice: {
+    backgroundColor: '#FFF3E0',
+    borderLeftWidth: 3,
+    borderLeftColor: colors.error,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 16,
+  },
+  noticeText: {
+    fontSize: 13,
+    color: colors.textPrimary,
+    lineHeight: 18,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.textPrimary,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  card: {
+    marginVertical: 4,
+  },
+  field: {
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 4,
+  },
+  optional: {
+    fontWeight: '400',
+    color: colors.textSecondary,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    color: colors.textPrimary,
+    backgroundColor: colors.warmWhite,
+  },
+  inputError: {
+    borderColor: colors.error,
+  },
+  errorText: {
+    fontSize: 12,
+    color: colors.error,
+    marginTop: 2,
+  },
+  bandRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 4,
+  },
+  bandLabel: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginRight: 6,
+  },
+  bandInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  modelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginVertical: 4,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.warmWhite,
+  },
+  chipActive: {
+    backgroundColor: colors.forest,
+    borderColor: colors.forest,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  chipTextActive: {
+    color: colors.warmWhite,
+  },
+  removeButton: {
+    width: 32,
+    alignItems: 'center',
+  },
+  removeText: {
+    fontSize: 16,
+    color: colors.error,
+  },
+  addButton: {
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  addText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.forest,
+  },
+  summaryError: {
+    fontSize: 13,
+    color: colors.error,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  saveButton: {
+    marginTop: 16,
+  },
+  deleteText: {
+    color: colors.error,
+  },
+});
@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '../lib/constants';
+import { calculateEthicalRanges } from '../lib/ballistics';
+import { BallisticEnvironment, RifleProfile, UnitSystem } from '../types';
+import { formatUnit } from '../lib/units';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface EthicalRangeWarningProps {
+  profile: RifleProfile;
+  distance: number;
+  environment: BallisticEnvironment;
+  unitSystem: UnitSystem;
+}
+
+export function EthicalRangeWarning({ profile, distance, environment, unitSystem }: EthicalRangeWarningProps) {
+  const ranges = useMemo(
+    () => calculateEthicalRanges(profile, environment),
+    [profile, environment]
+  );
+
+  const { t } = useTranslation();
+
+  const notLegal = ranges.filter(r => !r.legal);
+  const tooFar = ranges.filter(r => r.legal && distance > r.maxRange);
+
+  if (notLegal.length === 0 && tooFar.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{t('ethicalRange.title')}</Text>
+      {tooFar.map(r => (
+        <Text key={r.species} style={styles.text}>
+          {r.maxRange > 0
+            ? t('ethicalRange.onlyUntil', { species: t(`species.${r.species}`), distance: formatUnit(r.maxRange, 'distance', unitSystem) })
+            : t('ethicalRange.tooWeak', { species: t(`species.${r.species}`) })}
+          {t('ethicalRange.minEnergy', { energy: formatUnit(r.minEnergy, 'energy', unitSystem) })}
+        </Text>
+      ))}
+      {notLegal.map(r => (
+        <Text key={r.species} style={styles.text}>
+          {t('ethicalRange.notLegal', { species: t(`species.${r.species}`) })}
+          {r.legalIssue === 'caliber' ? t('ethicalRange.caliberTooSmall') : t('ethicalRange.energyTooLow')}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFF3E0',
+    borderLeftWidth: 3,
+    borderLeftColor: colors.error,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.error,
+    marginBottom: 4,
+  },
+  text: {
+    fontSize: 13,
+    color: colors.textPrimary,
+    lineHeight: 19,
+  },
+});
@@ -0,0 +1,235 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors, MIN_HIT_PROBABILITY } from '../lib/constants';
+import { HitProbabilityResult, UnitSystem } from '../types';
+import { formatUnit } from '../lib/units';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface HitProbabilityDisplayProps {
+  result: HitProbabilityResult;
+  unitSystem: UnitSystem;
+}
+
+// Scatter view size in px
+const SCATTER_SIZE = 240;
+
+// Impacts drawn in the scatter view (the probability uses all samples)
+const MAX_SCATTER_POINTS = 300;
+
+const DOT_SIZE = 4;
+
+export function HitProbabilityDisplay({ result, unitSystem }: HitProbabilityDisplayProps) {
+  const { t } = useTranslation();
+  const percent = Math.round(result.hitProbability * 100);
+  const isEthical = result.hitProbability >= MIN_HIT_PROBABILITY;
+  const radius = result.vitalZoneDiameter / 2;
+
+  // Half-width of the scatter view in cm: the vital zone plus three sigma of the impacts
+  const extent = Math.max(
+    radius * 1.5,
+    Math.abs(result.meanX) + 3 * result.sdX,
+    Math.abs(result.meanY) + 3 * result.sdY
+  );
+  const scale = SCATTER_SIZE / 2 / extent; // px per cm
+  const center = SCATTER_SIZE / 2;
+  const zoneSize = result.vitalZoneDiameter * scale;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.mainResult}>
+        <Text style={styles.mainLabel}>{t('hitProbability.title')}</Text>
+        <Text style={[styles.mainValue, !isEthical && styles.mainValueWarning]}>
+          {t('hitProbability.percent', { percent })}
+        </Text>
+        <Text style={styles.mainDescription}>
+          {t('hitProbability.vitalZone', {
+            diameter: formatUnit(result.vitalZoneDiameter, 'length', unitSystem, 0),
+            distance: formatUnit(result.distance, 'distance', unitSystem),
+          })}
+        </Text>
+      </View>
+
+      {/* Scatter View */}
+      <View style={styles.scatter}>
+        <View style={[styles.axis, styles.axisHorizontal, { top: center }]} />
+        <View style={[styles.axis, styles.axisVertical, { left: center }]} />
+        <View
+          style={[
+            styles.vitalZone,
+            {
+              width: zoneSize,
+              height: zoneSize,
+              borderRadius: zoneSize / 2,
+              left: center - zoneSize / 2,
+              top: center - zoneSize / 2,
+            },
+          ]}
+        />
+        {result.impacts.slice(0, MAX_SCATTER_POINTS).map((impact, index) => {
+          const left = center + impact.x * scale - DOT_SIZE / 2;
+          const top = center - impact.y * scale - DOT_SIZE / 2;
+          if (left < 0 || top < 0 || left > SCATTER_SIZE - DOT_SIZE || top > SCATTER_SIZE - DOT_SIZE) {
+            return null;
+          }
+          const isHit = impact.x * impact.x + impact.y * impact.y <= radius * radius;
+          return (
+            <View
+              key={index}
+              style={[styles.dot, isHit ? styles.dotHit : styles.dotMiss, { left, top }]}
+            />
+          );
+        })}
+      </View>
+      <Text style={styles.scatterCaption}>
+        {t('hitProbability.scatterCaption', {
+          extent: formatUnit(extent, 'length', unitSystem, 0),
+          side: result.meanX > 0 ? t('hitProbability.right') : t('hitProbability.left'),
+          x: formatUnit(Math.abs(result.meanX), 'length', unitSystem),
+          y: `${result.meanY >= 0 ? '+' : '-'}${formatUnit(Math.abs(result.meanY), 'length', unitSystem)}`,
+        })}
+      </Text>
+
+      <View style={styles.divider} />
+
+      <View style={styles.secondaryResults}>
+        <View style={styles.resultItem}>
+          <Text style={styles.itemLabel}>{t('hitProbability.spreadHorizontal')}</Text>
+          <Text style={styles.itemValue}>{formatUnit(result.sdX, 'length', unitSystem)}</Text>
+        </View>
+
+        <View style={styles.resultItem}>
+          <Text style={styles.itemLabel}>{t('hitProbability.spreadVertical')}</Text>
+          <Text style={styles.itemValue}>{formatUnit(result.sdY, 'length', unitSystem)}</Text>
+        </View>
+      </View>
+
+      {!isEthical && (
+        <View style={styles.warning}>
+          <Text style={styles.warningText}>
+            {t('hitProbability.warning', { percent: Math.round(MIN_HIT_PROBABILITY * 100) })}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.forestDark,
+    borderRadius: 16,
+    padding: 20,
+    marginVertical: 16,
+  },
+  mainResult: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  mainLabel: {
+    fontSize: 14,
+    color: colors.goldLight,
+    fontWeight: '500',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  mainValue: {
+    fontSize: 48,
+    fontWeight: '700',
+    color: colors.warmWhite,
+    marginVertical: 4,
+  },
+  mainValueWarning: {
+    color: colors.gold,
+  },
+  mainDescription: {
+    fontSize: 14,
+    color: colors.goldLight,
+    opacity: 0.8,
+  },
+  scatter: {
+    width: SCATTER_SIZE,
+    height: SCATTER_SIZE,
+    alignSelf: 'center',
+    backgroundColor: colors.warmWhite,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginTop: 16,
+  },
+  axis: {
+    position: 'absolute',
+    backgroundColor: colors.border,
+  },
+  axisHorizontal: {
+    left: 0,
+    right: 0,
+    height: 1,
+  },
+  axisVertical: {
+    top: 0,
+    bottom: 0,
+    width: 1,
+  },
+  vitalZone: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: colors.gold,
+    backgroundColor: 'rgba(201, 162, 39, 0.12)',
+  },
+  dot: {
+    position: 'absolute',
+    width: DOT_SIZE,
+    height: DOT_SIZE,
+    borderRadius: DOT_SIZE / 2,
+  },
+  dotHit: {
+    backgroundColor: colors.success,
+  },
+  dotMiss: {
+    backgroundColor: colors.error,
+  },
+  scatterCaption: {
+    fontSize: 11,
+    color: colors.goldLight,
+    opacity: 0.8,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: colors.forestLight,
+    marginVertical: 16,
+  },
+  secondaryResults: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  resultItem: {
+    width: '48%',
+    marginVertical: 8,
+  },
+  itemLabel: {
+    fontSize: 12,
+    color: colors.goldLight,
+    opacity: 0.8,
+    marginBottom: 2,
+  },
+  itemValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.warmWhite,
+  },
+  warning: {
+    backgroundColor: colors.forest,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.gold,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  warningText: {
+    fontSize: 12,
+    color: colors.goldLight,
+    lineHeight: 18,
+  },
+});
@@ -0,0 +1,266 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { RifleProfile, LeadResult, UnitSystem } from '../types';
+import { calculateLeadTable, createStandardEnvironment } from '../lib/ballistics';
+import { copyLeadTableToClipboard, shareLeadTable } from '../lib/export';
+import { colors, TARGET_SPEED_PRESETS } from '../lib/constants';
+import { formatUnit, getLeadTableDistances } from '../lib/units';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface LeadCardProps {
+  profile: RifleProfile;
+  crossingAngle: number; // degrees, 90 = crossing
+  bodyLength: number; // m
+  gameLabel: string;
+  unitSystem: UnitSystem;
+}
+
+interface LeadRow {
+  distance: number;
+  leads: LeadResult[]; // one per speed preset
+}
+
+export function LeadCard({ profile, crossingAngle, bodyLength, gameLabel, unitSystem }: LeadCardProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const { t, language, formatNumber } = useTranslation();
+
+  const leadData = useMemo<LeadRow[]>(() => {
+    const environment = createStandardEnvironment(0, 90);
+    const distances = getLeadTableDistances(unitSystem);
+    const columns = TARGET_SPEED_PRESETS.map(preset =>
+      calculateLeadTable(profile, distances, preset.speed / 3.6, crossingAngle, bodyLength, environment)
+    );
+
+    return distances.map((distance, index) => ({
+      distance,
+      leads: columns.map(column => column[index]),
+    }));
+  }, [profile, crossingAngle, bodyLength, unitSystem]);
+
+  const exportOptions = { profile, crossingAngle, bodyLength, gameLabel, unitSystem, language };
+
+  const handleCopy = async () => {
+    setIsExporting(true);
+    try {
+      const success = await copyLeadTableToClipboard(exportOptions);
+      if (success) {
+        Alert.alert(t('leadCard.copiedTitle'), t('leadCard.copiedMessage'));
+      } else {
+        Alert.alert(t('common.error'), t('leadCard.copyFailed'));
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleShare = async () => {
+    setIsExporting(true);
+    try {
+      await shareLeadTable(exportOptions);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t('leadCard.title')}</Text>
+        <Text style={styles.subtitle}>
+          {profile.name} | {gameLabel} | {crossingAngle === 90 ? t('leadCard.broadside') : `${crossingAngle}°`}
+        </Text>
+      </View>
+
+      {/* Column Headers */}
+      <View style={styles.tableHeader}>
+        <View style={styles.distanceCol}>
+          <Text style={styles.headerText}>{t('leadCard.distance')}</Text>
+        </View>
+        {TARGET_SPEED_PRESETS.map(preset => (
+          <View key={preset.key} style={styles.leadCol}>
+            <Text style={styles.headerText}>{t(`targetSpeed.${preset.key}`)}</Text>
+            <Text style={styles.headerUnit}>{t('leadCard.speed', { speed: formatUnit(preset.speed / 3.6, 'targetSpeed', unitSystem) })}</Text>
+          </View>
+        ))}
+      </View>
+
+      {/* Data Rows */}
+      {leadData.map((row, index) => (
+        <View
+          key={row.distance}
+          style={[styles.tableRow, index % 2 === 0 && styles.tableRowAlt]}
+        >
+          <View style={styles.distanceCol}>
+            <Text style={[styles.cellText, styles.distanceText]}>{t('leadCard.rowDistance', { distance: formatUnit(row.distance, 'distance', unitSystem) })}</Text>
+          </View>
+          {row.leads.map((lead, leadIndex) => (
+            <View key={TARGET_SPEED_PRESETS[leadIndex].key} style={styles.leadCol}>
+              <Text style={[styles.cellText, styles.leadText]}>{t('leadCard.lead', { lead: formatUnit(lead.lead, 'length', unitSystem, 0) })}</Text>
+              <Text style={styles.bodyLengthText}>
+                {t('leadCard.bodyLengths', { value: formatNumber(lead.bodyLengths, 1) })}
+              </Text>
+            </View>
+          ))}
+        </View>
+      ))}
+
+      {/* Export Buttons */}
+      <View style={styles.exportRow}>
+        <TouchableOpacity
+          style={styles.exportButton}
+          onPress={handleCopy}
+          disabled={isExporting}
+        >
+          <Text style={styles.exportButtonIcon}>📋</Text>
+          <Text style={styles.exportButtonText}>{t('leadCard.copy')}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.exportButton, styles.exportButtonPrimary]}
+          onPress={handleShare}
+          disabled={isExporting}
+        >
+          <Text style={styles.exportButtonIcon}>📤</Text>
+          <Text style={[styles.exportButtonText, styles.exportButtonTextPrimary]}>
+            {t('leadCard.share')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Legend */}
+      <View style={styles.legend}>
+        <Text style={styles.legendText}>
+          {t('leadCard.legend', { length: formatUnit(bodyLength, 'distance', unitSystem, 1) })}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.warmWhite,
+    borderRadius: 12,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  header: {
+    backgroundColor: colors.forestDark,
+    padding: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.warmWhite,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: colors.goldLight,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    backgroundColor: colors.forest,
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  headerText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.warmWhite,
+    textAlign: 'center',
+  },
+  headerUnit: {
+    fontSize: 9,
+    color: colors.goldLight,
+    textAlign: 'center',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  tableRowAlt: {
+    backgroundColor: '#F9F9F7',
+  },
+  distanceCol: {
+    width: 50,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  leadCol: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cellText: {
+    fontSize: 13,
+    color: colors.textPrimary,
+    textAlign: 'center',
+  },
+  distanceText: {
+    fontWeight: '600',
+  },
+  leadText: {
+    fontWeight: '700',
+    fontSize: 14,
+  },
+  bodyLengthText: {
+    fontSize: 11,
+    color: colors.textSecondary,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    backgroundColor: '#F5F5F3',
+  },
+  exportButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: colors.warmWhite,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  exportButtonPrimary: {
+    backgroundColor: colors.forest,
+    borderColor: colors.forest,
+  },
+  exportButtonIcon: {
+    fontSize: 16,
+    marginRight: 6,
+  },
+  exportButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.forest,
+  },
+  exportButtonTextPrimary: {
+    color: colors.warmWhite,
+  },
+  legend: {
+    backgroundColor: colors.cream,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  legendText: {
+    fontSize: 10,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
+
+export default LeadCard;
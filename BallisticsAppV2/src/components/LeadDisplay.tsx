@@ -0,0 +1,126 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '../lib/constants';
+import { LeadResult, UnitSystem } from '../types';
+import { formatUnit } from '../lib/units';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface LeadDisplayProps {
+  lead: LeadResult;
+  targetSpeed: number; // m/s
+  gameLabel: string;
+  unitSystem: UnitSystem;
+}
+
+export function LeadDisplay({ lead, targetSpeed, gameLabel, unitSystem }: LeadDisplayProps) {
+  const { t, formatNumber } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.mainResult}>
+        <Text style={styles.mainLabel}>{t('lead.title')}</Text>
+        <Text style={styles.mainValue}>{t('lead.value', { lead: formatUnit(lead.lead, 'length', unitSystem, 0) })}</Text>
+        <Text style={styles.mainDescription}>{t('lead.description')}</Text>
+      </View>
+
+      <View style={styles.divider} />
+
+      <View style={styles.secondaryResults}>
+        <View style={styles.resultItem}>
+          <Text style={styles.itemLabel}>{t('lead.bodyLengths', { species: gameLabel })}</Text>
+          <Text style={styles.itemValue}>{formatNumber(lead.bodyLengths, 1)}</Text>
+        </View>
+
+        <View style={styles.resultItem}>
+          <Text style={styles.itemLabel}>{t('lead.reticle')}</Text>
+          <Text style={styles.itemValue}>{t('lead.mil', { mil: formatNumber(lead.mil, 1) })}</Text>
+        </View>
+
+        <View style={styles.resultItem}>
+          <Text style={styles.itemLabel}>{t('lead.time')}</Text>
+          <Text style={styles.itemValue}>{t('lead.timeValue', { time: lead.time })}</Text>
+        </View>
+
+        <View style={styles.resultItem}>
+          <Text style={styles.itemLabel}>{t('lead.targetSpeed')}</Text>
+          <Text style={styles.itemValue}>{t('lead.speed', { speed: formatUnit(targetSpeed, 'targetSpeed', unitSystem) })}</Text>
+        </View>
+      </View>
+
+      <View style={styles.note}>
+        <Text style={styles.noteText}>
+          {t('lead.note')}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.forestDark,
+    borderRadius: 16,
+    padding: 20,
+    marginVertical: 16,
+  },
+  mainResult: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  mainLabel: {
+    fontSize: 14,
+    color: colors.goldLight,
+    fontWeight: '500',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  mainValue: {
+    fontSize: 48,
+    fontWeight: '700',
+    color: colors.warmWhite,
+    marginVertical: 4,
+  },
+  mainDescription: {
+    fontSize: 14,
+    color: colors.goldLight,
+    opacity: 0.8,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: colors.forestLight,
+    marginVertical: 16,
+  },
+  secondaryResults: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  resultItem: {
+    width: '48%',
+    marginVertical: 8,
+  },
+  itemLabel: {
+    fontSize: 12,
+    color: colors.goldLight,
+    opacity: 0.8,
+    marginBottom: 2,
+  },
+  itemValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.warmWhite,
+  },
+  note: {
+    backgroundColor: colors.forest,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.gold,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  noteText: {
+    fontSize: 12,
+    color: colors.goldLight,
+    lineHeight: 18,
+  },
+});
@@ -1,17 +1,57 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { colors } from '../lib/constants';
-import { RifleProfile } from '../types';
+import { colors, DRAG_MODEL_LABELS } from '../lib/constants';
+import {
+  calculateBarrelLengthAdjustment,
+  calculateEthicalRanges,
+  createStandardEnvironment,
+  getEffectiveDragModel,
+  getNominalBC,
+  getNominalMuzzleVelocity,
+} from '../lib/ballistics';
+import { DataPackUpdate, RifleProfile, UnitSystem } from '../types';
+import { formatUnit } from '../lib/units';
+import { UnverifiedBadge } from './UnverifiedBadge';
+import { useTranslation } from '../i18n/useTranslation';
 
 interface ProfileCardProps {
   profile: RifleProfile;
   isActive: boolean;
+  unitSystem: UnitSystem;
   onSelect: () => void;
   onEdit?: () => void;
+  onTrue?: () => void;
+  onOptic?: () => void;
   onDelete?: () => void;
+  dataPackUpdate?: DataPackUpdate;
+  onApplyDataPackUpdate?: () => void;
 }
 
-export function ProfileCard({ profile, isActive, onSelect, onEdit, onDelete }: ProfileCardProps) {
+export function ProfileCard({
+  profile,
+  isActive,
+  unitSystem,
+  onSelect,
+  onEdit,
+  onTrue,
+  onOptic,
+  onDelete,
+  dataPackUpdate,
+  onApplyDataPackUpdate,
+}: ProfileCardProps) {
+  const { t, formatNumber } = useTranslation();
+
+  // Maximum ethical range per species under standard conditions
+  const ethicalRanges = useMemo(
+    () => calculateEthicalRanges(profile, createStandardEnvironment()),
+    [profile]
+  );
+
+  // A trued V0 already reflects the barrel it was measured with
+  const barrelAdjustment = profile.muzzleVelocity == null
+    ? calculateBarrelLengthAdjustment(profile.ammunition, profile.barrelLength)
+    : 0;
+
   return (
     <TouchableOpacity
       style={[styles.container, isActive && styles.activeContainer]}
@@ -22,7 +62,7 @@ export function ProfileCard({ profile, isActive, onSelect, onEdit, onDelete }: P
         <Text style={[styles.name, isActive && styles.activeName]}>{profile.name}</Text>
         {isActive && (
           <View style={styles.activeBadge}>
-            <Text style={styles.activeBadgeText}>Aktiv</Text>
+            <Text style={styles.activeBadgeText}>{t('profileCard.active')}</Text>
           </View>
         )}
       </View>
@@ -30,39 +70,91 @@ export function ProfileCard({ profile, isActive, onSelect, onEdit, onDelete }: P
       <View style={styles.details}>
         <Text style={styles.caliber}>{profile.caliber}</Text>
         <Text style={styles.ammo}>{profile.ammunition.name}</Text>
+        {profile.ammunition.unverified && (
+          <View style={styles.unverified}>
+            <UnverifiedBadge />
+          </View>
+        )}
       </View>
 
+      {dataPackUpdate && dataPackUpdate.status !== 'unchanged' && (
+        <View style={styles.dataPackNotice}>
+          <Text style={styles.dataPackText}>
+            {t(`dataPack.${dataPackUpdate.status}`, { version: dataPackUpdate.to.version })}
+            {dataPackUpdate.status === 'changed' && profile.muzzleVelocity != null && ` ${t('dataPack.truedHint')}`}
+          </Text>
+          {onApplyDataPackUpdate && (
+            <TouchableOpacity style={styles.dataPackButton} onPress={onApplyDataPackUpdate}>
+              <Text style={styles.dataPackButtonText}>
+                {dataPackUpdate.status === 'changed' ? t('dataPack.apply') : t('dataPack.acknowledge')}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       <View style={styles.specs}>
         <View style={styles.specItem}>
-          <Text style={styles.specLabel}>Zero</Text>
+          <Text style={styles.specLabel}>{t('profileCard.zero')}</Text>
           <Text style={styles.specValue}>
-            {profile.zeroDistance}m {profile.zeroType === 'gee' ? '(GEE)' : ''}
+            {formatUnit(profile.zeroDistance, 'distance', unitSystem)} {profile.zeroType === 'gee' ? '(GEE)' : ''}
           </Text>
         </View>
         <View style={styles.specItem}>
-          <Text style={styles.specLabel}>V0</Text>
-          <Text style={styles.specValue}>{profile.ammunition.muzzleVelocity} m/s</Text>
+          <Text style={styles.specLabel}>{profile.muzzleVelocity != null ? t('profileCard.muzzleVelocityTrued') : t('profileCard.muzzleVelocity')}</Text>
+          <Text style={styles.specValue}>{formatUnit(getNominalMuzzleVelocity(profile), 'velocity', unitSystem)}</Text>
+          {profile.barrelLength != null && barrelAdjustment !== 0 && (
+            <Text style={styles.specNote}>
+              {t('profileCard.barrelAdjustment', {
+                adjustment: `${barrelAdjustment > 0 ? '+' : ''}${formatUnit(barrelAdjustment, 'velocity', unitSystem)}`,
+                length: formatUnit(profile.barrelLength * 2.54, 'length', unitSystem),
+              })}
+            </Text>
+          )}
         </View>
         <View style={styles.specItem}>
-          <Text style={styles.specLabel}>BC ({(profile.dragModel || 'g1').toUpperCase()})</Text>
+          <Text style={styles.specLabel}>BC ({DRAG_MODEL_LABELS[getEffectiveDragModel(profile)]})</Text>
           <Text style={styles.specValue}>
-            {(profile.dragModel || 'g1') === 'g7' && profile.ammunition.bcG7 != null
-              ? profile.ammunition.bcG7
-              : profile.ammunition.ballisticCoefficient}
+            {formatNumber(getNominalBC(profile.ammunition, profile.dragModel || 'g1'))}
           </Text>
         </View>
       </View>
 
-      {(onEdit || onDelete) && (
+      <View style={styles.ethical}>
+        <Text style={styles.specLabel}>{t('profileCard.ethicalRanges')}</Text>
+        <View style={styles.ethicalList}>
+          {ethicalRanges.map(range => (
+            <Text
+              key={range.species}
+              style={[styles.ethicalItem, (!range.legal || range.maxRange === 0) && styles.ethicalItemInvalid]}
+            >
+              {t(`species.${range.species}`)}{' '}
+              {!range.legal ? t('profileCard.notLegal') : range.maxRange === 0 ? '–' : formatUnit(range.maxRange, 'distance', unitSystem)}
+            </Text>
+          ))}
+        </View>
+      </View>
+
+      {(onEdit || onTrue || onOptic || onDelete) && (
         <View style={styles.actions}>
           {onEdit && (
             <TouchableOpacity style={styles.actionButton} onPress={onEdit}>
-              <Text style={styles.actionText}>Bearbeiten</Text>
+              <Text style={styles.actionText}>{t('profileCard.edit')}</Text>
+            </TouchableOpacity>
+          )}
+          {onTrue && (
+            <TouchableOpacity style={styles.actionButton} onPress={onTrue}>
+              <Text style={styles.actionText}>{t('profileCard.true')}</Text>
+            </TouchableOpacity>
+          )}
+          {onOptic && (
+            <TouchableOpacity style={styles.actionButton} onPress={onOptic}>
+              <Text style={styles.actionText}>{t('profileCard.optic')}</Text>
             </TouchableOpacity>
           )}
           {onDelete && (
             <TouchableOpacity style={[styles.actionButton, styles.deleteButton]} onPress={onDelete}>
-              <Text style={[styles.actionText, styles.deleteText]}>Loschen</Text>
+              <Text style={[styles.actionText, styles.deleteText]}>{t('profileCard.delete')}</Text>
             </TouchableOpacity>
           )}
         </View>
@@ -129,6 +221,34 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginTop: 2,
   },
+  unverified: {
+    marginTop: 6,
+  },
+  dataPackNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.cream,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+    gap: 8,
+  },
+  dataPackText: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.textPrimary,
+  },
+  dataPackButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: colors.gold,
+  },
+  dataPackButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.forestDark,
+  },
   specs: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -151,6 +271,37 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     marginTop: 2,
   },
+  specNote: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  ethical: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  ethicalList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+    gap: 6,
+  },
+  ethicalItem: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: colors.forest,
+    backgroundColor: colors.cream,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  ethicalItemInvalid: {
+    color: colors.error,
+    backgroundColor: '#FFF0F0',
+  },
   actions: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -1,59 +1,114 @@
 import React, { useMemo, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
-import { RifleProfile, BallisticResult } from '../types';
-import { calculateTrajectory, createStandardEnvironment, formatValue } from '../lib/ballistics';
+import { RifleProfile, BallisticResult, EthicalRangeResult, UnitSystem, WindZone } from '../types';
+import {
+  calculateEthicalRanges,
+  calculateTrajectoryTable,
+  calculateTurretClicks,
+  createStandardEnvironment,
+  getMinExpansionVelocity,
+} from '../lib/ballistics';
 import { copyRangeCardToClipboard, shareRangeCard } from '../lib/export';
 import { colors } from '../lib/constants';
+import { getWindDirectionText } from '../lib/wind';
+import {
+  formatCorrectionValue,
+  formatUnit,
+  getCorrectionUnitLabel,
+  getRangeCardDistances,
+  getUnitSymbol,
+  toDisplayUnit,
+} from '../lib/units';
+import { useTranslation } from '../i18n/useTranslation';
 
 interface RangeCardProps {
   profile: RifleProfile;
   windSpeed?: number;
   windAngle?: number;
+  windZones?: WindZone[]; // replace the single wind when set
   unit: 'cm' | 'moa' | 'mil';
+  unitSystem: UnitSystem;
 }
 
-// Full range card distances in 25m increments (0-500m)
-const RANGE_DISTANCES = [
-  0, 25, 50, 75, 100, 125, 150, 175, 200, 225,
-  250, 275, 300, 325, 350, 375, 400, 425, 450, 475, 500
-];
-
 interface RangeRow {
   distance: number;
   result: BallisticResult;
 }
 
-export function RangeCard({ profile, windSpeed = 0, windAngle = 90, unit }: RangeCardProps) {
+export function RangeCard({ profile, windSpeed = 0, windAngle = 90, windZones, unit, unitSystem }: RangeCardProps) {
   const [isExporting, setIsExporting] = useState(false);
+  const { t, language } = useTranslation();
+
+  // Round distances in the display unit (25 m or 25 yd steps)
+  const distances = useMemo(() => getRangeCardDistances(unitSystem), [unitSystem]);
+
+  const environment = useMemo(
+    () => createStandardEnvironment(windSpeed, windAngle, windZones?.length ? { windZones } : undefined),
+    [windSpeed, windAngle, windZones]
+  );
 
   const rangeData = useMemo<RangeRow[]>(() => {
-    const environment = createStandardEnvironment(windSpeed, windAngle);
+    const results = calculateTrajectoryTable(profile, distances, environment);
 
-    return RANGE_DISTANCES.map(distance => ({
+    return distances.map((distance, index) => ({
       distance,
-      result: calculateTrajectory(profile, distance, environment),
+      result: results[index],
     }));
-  }, [profile, windSpeed, windAngle]);
+  }, [profile, distances, environment]);
+
+  const ethicalRanges = useMemo(
+    () => calculateEthicalRanges(profile, environment),
+    [profile, environment]
+  );
+
+  // Species whose maximum ethical range ends between this row and the next
+  const getRangeLimits = (index: number): EthicalRangeResult[] => {
+    const next = distances[index + 1];
+    if (next == null) return [];
+    return ethicalRanges.filter(r =>
+      r.legal && r.maxRange > 0 && r.maxRange >= distances[index] && r.maxRange < next
+    );
+  };
+
+  // Rows are compared in the display unit: a 100 yd zero is stored as 91.44 m
+  const displayDistance = (distance: number) => Math.round(toDisplayUnit(distance, 'distance', unitSystem));
+
+  // Rows below this impact velocity are flagged: the bullet no longer expands reliably
+  const minExpansionVelocity = getMinExpansionVelocity(profile.ammunition);
+  const isBelowExpansion = (row: RangeRow): boolean =>
+    minExpansionVelocity != null && row.result.velocity < minExpansionVelocity;
 
   const getDropDisplay = (row: RangeRow): string => {
     const drop = row.result.drop;
     if (unit === 'cm') {
       const prefix = drop > 0 ? '-' : '+';
-      return `${prefix}${Math.abs(drop).toFixed(1)}`;
+      return `${prefix}${formatCorrectionValue(Math.abs(drop), row.distance, unit, unitSystem)}`;
     }
-    return formatValue(drop, row.distance, unit, 1).replace(' ' + unit.toUpperCase(), '');
+    return formatCorrectionValue(drop, row.distance, unit, unitSystem);
   };
 
   const getDriftDisplay = (row: RangeRow): string => {
     const drift = row.result.drift;
     if (Math.abs(drift) < 0.1) return '0';
-    if (unit === 'cm') {
-      const prefix = drift > 0 ? 'R ' : 'L ';
-      return `${prefix}${Math.abs(drift).toFixed(1)}`;
-    }
-    const value = formatValue(Math.abs(drift), row.distance, unit, 1).replace(' ' + unit.toUpperCase(), '');
-    const prefix = drift > 0 ? 'R ' : 'L ';
-    return `${prefix}${value}`;
+    const value = formatCorrectionValue(Math.abs(drift), row.distance, unit, unitSystem);
+    return t(drift > 0 ? 'rangeCard.right' : 'rangeCard.left', { value });
+  };
+
+  // Turret clicks as dial direction arrows, e.g. "↑12 ←3"
+  const optic = profile.optic;
+  const getClicks = (row: RangeRow) => optic ? calculateTurretClicks(row.result, row.distance, optic) : null;
+
+  const getClicksDisplay = (row: RangeRow): string => {
+    const clicks = getClicks(row);
+    if (!clicks) return '';
+    const elevation = clicks.elevation === 0 ? '0' : `${clicks.elevation > 0 ? '↑' : '↓'}${Math.abs(clicks.elevation)}`;
+    if (clicks.windage === 0) return elevation;
+    return `${elevation} ${clicks.windage > 0 ? '→' : '←'}${Math.abs(clicks.windage)}`;
+  };
+
+  const isBeyondTurret = (row: RangeRow): boolean => {
+    const clicks = getClicks(row);
+    return clicks != null && (clicks.exceedsElevation || clicks.belowZeroStop);
   };
 
   const handleCopy = async () => {
@@ -63,12 +118,15 @@ export function RangeCard({ profile, windSpeed = 0, windAngle = 90, unit }: Rang
         profile,
         windSpeed,
         windAngle,
+        windZones,
         unit,
+        unitSystem,
+        language,
       });
       if (success) {
-        Alert.alert('Kopiert', 'Schusstafel wurde in die Zwischenablage kopiert.');
+        Alert.alert(t('rangeCard.copiedTitle'), t('rangeCard.copiedMessage'));
       } else {
-        Alert.alert('Fehler', 'Kopieren fehlgeschlagen.');
+        Alert.alert(t('common.error'), t('rangeCard.copyFailed'));
       }
     } finally {
       setIsExporting(false);
@@ -82,7 +140,10 @@ export function RangeCard({ profile, windSpeed = 0, windAngle = 90, unit }: Rang
         profile,
         windSpeed,
         windAngle,
+        windZones,
         unit,
+        unitSystem,
+        language,
       });
     } finally {
       setIsExporting(false);
@@ -92,75 +153,102 @@ export function RangeCard({ profile, windSpeed = 0, windAngle = 90, unit }: Rang
   return (
     <View style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.title}>Schusstafel</Text>
+        <Text style={styles.title}>{t('rangeCard.title')}</Text>
         <Text style={styles.subtitle}>
-          {profile.name} | {profile.zeroDistance}m {profile.zeroType === 'gee' ? 'GEE' : ''}
+          {profile.name} | {formatUnit(profile.zeroDistance, 'distance', unitSystem)} {profile.zeroType === 'gee' ? 'GEE' : ''}
         </Text>
       </View>
 
       {/* Column Headers */}
       <View style={styles.tableHeader}>
         <View style={styles.distanceCol}>
-          <Text style={styles.headerText}>Dist.</Text>
+          <Text style={styles.headerText}>{t('rangeCard.distance')}</Text>
         </View>
         <View style={styles.dropCol}>
-          <Text style={styles.headerText}>Hohe</Text>
-          <Text style={styles.headerUnit}>({unit})</Text>
+          <Text style={styles.headerText}>{t('rangeCard.drop')}</Text>
+          <Text style={styles.headerUnit}>({getCorrectionUnitLabel(unit, unitSystem)})</Text>
         </View>
         <View style={styles.driftCol}>
-          <Text style={styles.headerText}>Seite</Text>
-          <Text style={styles.headerUnit}>({unit})</Text>
+          <Text style={styles.headerText}>{t('rangeCard.drift')}</Text>
+          <Text style={styles.headerUnit}>({getCorrectionUnitLabel(unit, unitSystem)})</Text>
         </View>
+        {optic && (
+          <View style={styles.clicksCol}>
+            <Text style={styles.headerText}>{t('rangeCard.clicks')}</Text>
+            <Text style={styles.headerUnit}>({t(`clickValues.${optic.clickValue}`)})</Text>
+          </View>
+        )}
         <View style={styles.velocityCol}>
           <Text style={styles.headerText}>V</Text>
-          <Text style={styles.headerUnit}>(m/s)</Text>
+          <Text style={styles.headerUnit}>({getUnitSymbol('velocity', unitSystem)})</Text>
         </View>
         <View style={styles.energyCol}>
           <Text style={styles.headerText}>E</Text>
-          <Text style={styles.headerUnit}>(J)</Text>
+          <Text style={styles.headerUnit}>({getUnitSymbol('energy', unitSystem)})</Text>
         </View>
       </View>
 
       {/* Data Rows */}
       <ScrollView style={styles.tableBody} showsVerticalScrollIndicator={false}>
         {rangeData.map((row, index) => {
-          const isZeroDistance = row.distance === profile.zeroDistance;
+          const isZeroDistance = displayDistance(row.distance) === displayDistance(profile.zeroDistance);
 
           return (
-            <View
-              key={row.distance}
-              style={[
-                styles.tableRow,
-                index % 2 === 0 && styles.tableRowAlt,
-                isZeroDistance && styles.tableRowHighlight,
-              ]}
-            >
-              <View style={styles.distanceCol}>
-                <Text style={[styles.cellText, styles.distanceText]}>
-                  {row.distance}m
-                </Text>
-              </View>
-              <View style={styles.dropCol}>
-                <Text style={[
-                  styles.cellText,
-                  styles.dropText,
-                  row.result.drop > 0 ? styles.dropNegative : styles.dropPositive,
-                ]}>
-                  {getDropDisplay(row)}
-                </Text>
-              </View>
-              <View style={styles.driftCol}>
-                <Text style={[styles.cellText, styles.driftText]}>
-                  {getDriftDisplay(row)}
-                </Text>
+            <React.Fragment key={row.distance}>
+              <View
+                style={[
+                  styles.tableRow,
+                  index % 2 === 0 && styles.tableRowAlt,
+                  isZeroDistance && styles.tableRowHighlight,
+                ]}
+              >
+                <View style={styles.distanceCol}>
+                  <Text style={[styles.cellText, styles.distanceText]}>
+                    {displayDistance(row.distance)}{getUnitSymbol('distance', unitSystem)}
+                  </Text>
+                </View>
+                <View style={styles.dropCol}>
+                  <Text style={[
+                    styles.cellText,
+                    styles.dropText,
+                    row.result.drop > 0 ? styles.dropNegative : styles.dropPositive,
+                  ]}>
+                    {getDropDisplay(row)}
+                  </Text>
+                </View>
+                <View style={styles.driftCol}>
+                  <Text style={[styles.cellText, styles.driftText]}>
+                    {getDriftDisplay(row)}
+                  </Text>
+                </View>
+                {optic && (
+                  <View style={styles.clicksCol}>
+                    <Text style={[styles.cellText, styles.clicksText, isBeyondTurret(row) && styles.velocityLow]}>
+                      {getClicksDisplay(row)}
+                    </Text>
+                  </View>
+                )}
+                <View style={styles.velocityCol}>
+                  <Text style={[styles.cellText, isBelowExpansion(row) && styles.velocityLow]}>
+                    {Math.round(toDisplayUnit(row.result.velocity, 'velocity', unitSystem))}
+                  </Text>
+                </View>
+                <View style={styles.energyCol}>
+                  <Text style={styles.cellText}>{Math.round(toDisplayUnit(row.result.energy, 'energy', unitSystem))}</Text>
+                </View>
               </View>
-              <View style={styles.velocityCol}>
-                <Text style={styles.cellText}>{row.result.velocity}</Text>
-              </View>
-              <View style={styles.energyCol}>
-                <Text style={styles.cellText}>{row.result.energy}</Text>
-              </View>
-            </View>
+              {getRangeLimits(index).map(limit => (
+                <View key={limit.species} style={styles.limitRow}>
+                  <Text style={styles.limitText}>
+                    {t('rangeCard.speciesLimit', {
+                      species: t(`species.${limit.species}`),
+                      distance: formatUnit(limit.maxRange, 'distance', unitSystem),
+                      energy: formatUnit(limit.minEnergy, 'energy', unitSystem),
+                    })}
+                  </Text>
+                </View>
+              ))}
+            </React.Fragment>
           );
         })}
       </ScrollView>
@@ -169,7 +257,10 @@ export function RangeCard({ profile, windSpeed = 0, windAngle = 90, unit }: Rang
       {windSpeed > 0 && (
         <View style={styles.windInfo}>
           <Text style={styles.windText}>
-            Wind: {windSpeed} m/s | {windAngle === 90 ? 'Seitenwind' : `${windAngle}°`}
+            {t('rangeCard.wind', {
+              speed: formatUnit(windSpeed, 'windSpeed', unitSystem),
+              direction: getWindDirectionText(windAngle, language),
+            })}
           </Text>
         </View>
       )}
@@ -182,7 +273,7 @@ export function RangeCard({ profile, windSpeed = 0, windAngle = 90, unit }: Rang
           disabled={isExporting}
         >
           <Text style={styles.exportButtonIcon}>📋</Text>
-          <Text style={styles.exportButtonText}>Kopieren</Text>
+          <Text style={styles.exportButtonText}>{t('rangeCard.copy')}</Text>
         </TouchableOpacity>
 
         <TouchableOpacity
@@ -192,7 +283,7 @@ export function RangeCard({ profile, windSpeed = 0, windAngle = 90, unit }: Rang
         >
           <Text style={styles.exportButtonIcon}>📤</Text>
           <Text style={[styles.exportButtonText, styles.exportButtonTextPrimary]}>
-            Teilen
+            {t('rangeCard.share')}
           </Text>
         </TouchableOpacity>
       </View>
@@ -200,8 +291,18 @@ export function RangeCard({ profile, windSpeed = 0, windAngle = 90, unit }: Rang
       {/* Legend */}
       <View style={styles.legend}>
         <Text style={styles.legendText}>
-          + = uber Ziel | - = unter Ziel | R = rechts | L = links
+          {t('rangeCard.legend')}
         </Text>
+        {optic && (
+          <Text style={styles.legendText}>
+            {t('rangeCard.legendClicks')}
+          </Text>
+        )}
+        {minExpansionVelocity != null && (
+          <Text style={styles.legendText}>
+            {t('rangeCard.legendExpansion', { velocity: formatUnit(minExpansionVelocity, 'velocity', unitSystem) })}
+          </Text>
+        )}
       </View>
     </View>
   );
@@ -281,6 +382,14 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  clicksCol: {
+    width: 64,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  clicksText: {
+    fontSize: 12,
+  },
   velocityCol: {
     width: 50,
     justifyContent: 'center',
@@ -309,6 +418,23 @@ const styles = StyleSheet.create({
   dropNegative: {
     color: '#C62828', // Red for below target
   },
+  velocityLow: {
+    color: colors.error,
+    fontWeight: '700',
+  },
+  limitRow: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    backgroundColor: '#FFF3E0',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  limitText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.error,
+    textAlign: 'center',
+  },
   driftText: {
     fontSize: 12,
     color: colors.textSecondary,
@@ -1,25 +1,43 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
-import { colors } from '../lib/constants';
-import { BallisticResult } from '../types';
-import { formatValue } from '../lib/ballistics';
+import { colors, MIN_STABILITY_FACTOR } from '../lib/constants';
+import { BallisticResult, OpticConfig, UnitSystem } from '../types';
+import { calculateTurretClicks } from '../lib/ballistics';
+import { formatCorrection, formatUnit } from '../lib/units';
+import { translate } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
 
 interface ResultDisplayProps {
   result: BallisticResult;
   distance: number;
   unit: 'cm' | 'moa' | 'mil';
+  unitSystem: UnitSystem;
+  minExpansionVelocity?: number | null; // m/s, from getMinExpansionVelocity
+  optic?: OpticConfig; // shows turret clicks when set
 }
 
-export function ResultDisplay({ result, distance, unit }: ResultDisplayProps) {
+// Lateral deflection with the side the bullet moves to (R = right, L = left)
+function formatSide(value: number, distance: number, unit: 'cm' | 'moa' | 'mil', unitSystem: UnitSystem): string {
+  const formatted = formatCorrection(Math.abs(value), distance, unit, unitSystem);
+  if (Math.abs(value) < 0.05) return formatted;
+  return translate(value > 0 ? 'result.right' : 'result.left', { value: formatted });
+}
+
+export function ResultDisplay({ result, distance, unit, unitSystem, minExpansionVelocity, optic }: ResultDisplayProps) {
+  const isMarginallyStable = result.stabilityFactor != null && result.stabilityFactor < MIN_STABILITY_FACTOR;
+  const isBelowExpansion = minExpansionVelocity != null && result.velocity < minExpansionVelocity;
+  const clicks = optic ? calculateTurretClicks(result, distance, optic) : null;
+  const { t, formatNumber } = useTranslation();
+
   return (
     <View style={styles.container}>
       <View style={styles.mainResult}>
-        <Text style={styles.mainLabel}>Haltepunkt</Text>
+        <Text style={styles.mainLabel}>{t('result.hold')}</Text>
         <Text style={styles.mainValue}>
-          {result.drop > 0 ? '+' : ''}{formatValue(result.drop, distance, unit)}
+          {result.drop > 0 ? '+' : ''}{formatCorrection(result.drop, distance, unit, unitSystem)}
         </Text>
         <Text style={styles.mainDescription}>
-          {result.drop > 0 ? 'uber' : 'unter'} Zielpunkt
+          {result.drop > 0 ? t('result.aboveAim') : t('result.belowAim')}
         </Text>
       </View>
 
@@ -27,32 +45,126 @@ export function ResultDisplay({ result, distance, unit }: ResultDisplayProps) {
 
       <View style={styles.secondaryResults}>
         <View style={styles.resultItem}>
-          <Text style={styles.itemLabel}>Windabdrift</Text>
+          <Text style={styles.itemLabel}>{t('result.drift')}</Text>
           <Text style={styles.itemValue}>
-            {result.drift > 0 ? '+' : ''}{formatValue(result.drift, distance, unit)}
+            {formatSide(result.drift, distance, unit, unitSystem)}
           </Text>
         </View>
 
+        {clicks && optic && (
+          <>
+            <View style={styles.resultItem}>
+              <Text style={styles.itemLabel}>
+                {t('result.clicksElevation', { clickValue: t(`clickValues.${optic.clickValue}`) })}
+              </Text>
+              <Text style={[styles.itemValue, (clicks.exceedsElevation || clicks.belowZeroStop) && styles.itemValueWarning]}>
+                {clicks.elevation === 0
+                  ? '0'
+                  : t(clicks.elevation > 0 ? 'result.clicksUp' : 'result.clicksDown', { clicks: Math.abs(clicks.elevation) })}
+              </Text>
+            </View>
+
+            <View style={styles.resultItem}>
+              <Text style={styles.itemLabel}>{t('result.clicksWindage')}</Text>
+              <Text style={styles.itemValue}>
+                {clicks.windage === 0
+                  ? '0'
+                  : t(clicks.windage > 0 ? 'result.clicksRight' : 'result.clicksLeft', { clicks: Math.abs(clicks.windage) })}
+              </Text>
+            </View>
+          </>
+        )}
+
         <View style={styles.resultItem}>
-          <Text style={styles.itemLabel}>Flugzeit</Text>
-          <Text style={styles.itemValue}>{result.time}s</Text>
+          <Text style={styles.itemLabel}>{t('result.time')}</Text>
+          <Text style={styles.itemValue}>{t('result.timeValue', { time: result.time })}</Text>
         </View>
 
         <View style={styles.resultItem}>
-          <Text style={styles.itemLabel}>V @ Ziel</Text>
-          <Text style={styles.itemValue}>{result.velocity} m/s</Text>
+          <Text style={styles.itemLabel}>{t('result.velocity')}</Text>
+          <Text style={[styles.itemValue, isBelowExpansion && styles.itemValueWarning]}>
+            {formatUnit(result.velocity, 'velocity', unitSystem)}
+          </Text>
         </View>
 
         <View style={styles.resultItem}>
-          <Text style={styles.itemLabel}>Energie</Text>
-          <Text style={styles.itemValue}>{result.energy} J</Text>
+          <Text style={styles.itemLabel}>{t('result.energy')}</Text>
+          <Text style={styles.itemValue}>{formatUnit(result.energy, 'energy', unitSystem)}</Text>
         </View>
 
         <View style={styles.resultItem}>
-          <Text style={styles.itemLabel}>Mach @ Ziel</Text>
-          <Text style={styles.itemValue}>{result.machAtTarget}</Text>
+          <Text style={styles.itemLabel}>{t('result.mach')}</Text>
+          <Text style={styles.itemValue}>{formatNumber(result.machAtTarget)}</Text>
         </View>
+
+        {result.coriolisDrift != null && (
+          <View style={styles.resultItem}>
+            <Text style={styles.itemLabel}>{t('result.coriolis')}</Text>
+            <Text style={styles.itemValue}>
+              {formatSide(result.coriolisDrift, distance, unit, unitSystem)}
+            </Text>
+          </View>
+        )}
+
+        {result.eotvos != null && (
+          <View style={styles.resultItem}>
+            <Text style={styles.itemLabel}>{t('result.eotvos')}</Text>
+            <Text style={styles.itemValue}>
+              {result.eotvos > 0 ? '+' : ''}{formatCorrection(result.eotvos, distance, unit, unitSystem)}
+            </Text>
+          </View>
+        )}
+
+        {result.stabilityFactor != null && (
+          <View style={styles.resultItem}>
+            <Text style={styles.itemLabel}>{t('result.stability')}</Text>
+            <Text style={[styles.itemValue, isMarginallyStable && styles.itemValueWarning]}>
+              {formatNumber(result.stabilityFactor, 2)}
+            </Text>
+          </View>
+        )}
+
+        {result.spinDrift != null && (
+          <View style={styles.resultItem}>
+            <Text style={styles.itemLabel}>{t('result.spinDrift')}</Text>
+            <Text style={styles.itemValue}>
+              {formatSide(result.spinDrift, distance, unit, unitSystem)}
+            </Text>
+          </View>
+        )}
       </View>
+
+      {isMarginallyStable && (
+        <View style={styles.warning}>
+          <Text style={styles.warningText}>
+            {t('result.marginalStability', { min: MIN_STABILITY_FACTOR })}
+          </Text>
+        </View>
+      )}
+
+      {clicks?.exceedsElevation && (
+        <View style={styles.warning}>
+          <Text style={styles.warningText}>
+            {t('result.exceedsElevation', { clicks: clicks.elevation, available: clicks.elevationAvailable })}
+          </Text>
+        </View>
+      )}
+
+      {clicks?.belowZeroStop && (
+        <View style={styles.warning}>
+          <Text style={styles.warningText}>
+            {t('result.belowZeroStop', { clicks: Math.abs(clicks.elevation) })}
+          </Text>
+        </View>
+      )}
+
+      {isBelowExpansion && minExpansionVelocity != null && (
+        <View style={styles.warning}>
+          <Text style={styles.warningText}>
+            {t('result.belowExpansion', { velocity: formatUnit(minExpansionVelocity, 'velocity', unitSystem) })}
+          </Text>
+        </View>
+      )}
     </View>
   );
 }
@@ -111,4 +223,20 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.warmWhite,
   },
+  itemValueWarning: {
+    color: colors.gold,
+  },
+  warning: {
+    backgroundColor: colors.forest,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.gold,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  warningText: {
+    fontSize: 12,
+    color: colors.goldLight,
+    lineHeight: 18,
+  },
 });
@@ -0,0 +1,175 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '../lib/constants';
+import { Reticle, ReticleHold, UnitSystem } from '../types';
+import { formatUnit, getUnitSymbol } from '../lib/units';
+import { TranslationKey } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface ReticleViewProps {
+  reticle: Reticle;
+  hold: ReticleHold;
+  magnification: number;
+  unitSystem: UnitSystem;
+}
+
+// Reticle view size in px
+const VIEW_SIZE = 240;
+
+const TICK_LENGTH = 10;
+const HOLD_DOT_SIZE = 10;
+
+// Smallest half-width of the view (nominal mrad)
+const MIN_EXTENT = 3;
+
+export function ReticleView({ reticle, hold, magnification, unitSystem }: ReticleViewProps) {
+  const { t, formatNumber } = useTranslation();
+
+  // Everything is drawn in nominal reticle mrad, as seen through the scope
+  const apparentX = hold.holdX / hold.scale;
+  const apparentY = hold.holdY / hold.scale;
+  const extent = Math.max(
+    MIN_EXTENT,
+    (Math.max(0, ...reticle.elevationMarks, ...reticle.windageMarks, Math.abs(apparentX), Math.abs(apparentY))) * 1.15
+  );
+  const scale = VIEW_SIZE / 2 / extent; // px per nominal mrad
+  const center = VIEW_SIZE / 2;
+
+  const holdLeft = Math.min(Math.max(center + apparentX * scale, 0), VIEW_SIZE) - HOLD_DOT_SIZE / 2;
+  const holdTop = Math.min(Math.max(center + apparentY * scale, 0), VIEW_SIZE) - HOLD_DOT_SIZE / 2;
+  const windageSide = Math.sign(hold.markX) || 1;
+
+  const describeMark = (index: number, side: string): string =>
+    index < 0 ? t('reticleView.center') : t('reticleView.mark', { index: index + 1, side });
+
+  // Whole centimeters, tenths of an inch
+  const errorDecimals = getUnitSymbol('length', unitSystem) === 'cm' ? 0 : 1;
+  const describeError = (cm: number, positive: TranslationKey, negative: TranslationKey): string =>
+    Math.abs(cm) < 0.5
+      ? ''
+      : t(cm > 0 ? positive : negative, { value: formatUnit(Math.abs(cm), 'length', unitSystem, errorDecimals) });
+
+  const isScaled = reticle.focalPlane === 'sfp' && hold.scale !== 1;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.view}>
+        {/* Crosshair */}
+        <View style={[styles.line, styles.lineHorizontal, { top: center }]} />
+        <View style={[styles.line, styles.lineVertical, { left: center }]} />
+
+        {/* Elevation marks below the center */}
+        {reticle.elevationMarks.map((mark, index) => (
+          <View
+            key={`e${index}`}
+            style={[
+              styles.tick,
+              styles.tickHorizontal,
+              index === hold.elevationMark && styles.tickActive,
+              { left: center - TICK_LENGTH / 2, top: center + mark * scale },
+            ]}
+          />
+        ))}
+
+        {/* Windage marks on both sides */}
+        {reticle.windageMarks.flatMap((mark, index) => [-1, 1].map(side => (
+          <View
+            key={`w${index}${side}`}
+            style={[
+              styles.tick,
+              styles.tickVertical,
+              index === hold.windageMark && side === windageSide && styles.tickActive,
+              { left: center + side * mark * scale, top: center - TICK_LENGTH / 2 },
+            ]}
+          />
+        )))}
+
+        {/* Exact hold point */}
+        <View style={[styles.holdDot, { left: holdLeft, top: holdTop }]} />
+      </View>
+
+      <Text style={styles.caption}>
+        {t('reticleView.elevation', { mark: describeMark(hold.elevationMark, t('reticleView.below')) })}
+        {describeError(hold.errorY, 'reticleView.errorLower', 'reticleView.errorHigher')}
+      </Text>
+      <Text style={styles.caption}>
+        {t('reticleView.windage', {
+          mark: describeMark(hold.windageMark, hold.markX < 0 ? t('reticleView.left') : t('reticleView.right')),
+        })}
+        {describeError(hold.errorX, 'reticleView.errorRight', 'reticleView.errorLeft')}
+      </Text>
+      {isScaled && (
+        <Text style={styles.note}>
+          {t('reticleView.sfpNote', {
+            magnification,
+            scale: formatNumber(hold.scale, 2),
+            reference: reticle.referenceMagnification,
+          })}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginVertical: 8,
+  },
+  view: {
+    width: VIEW_SIZE,
+    height: VIEW_SIZE,
+    borderRadius: VIEW_SIZE / 2,
+    backgroundColor: colors.warmWhite,
+    borderWidth: 2,
+    borderColor: colors.forestDark,
+    overflow: 'hidden',
+  },
+  line: {
+    position: 'absolute',
+    backgroundColor: colors.forestDark,
+  },
+  lineHorizontal: {
+    left: 0,
+    right: 0,
+    height: 1,
+  },
+  lineVertical: {
+    top: 0,
+    bottom: 0,
+    width: 1,
+  },
+  tick: {
+    position: 'absolute',
+    backgroundColor: colors.forestDark,
+  },
+  tickHorizontal: {
+    width: TICK_LENGTH,
+    height: 2,
+  },
+  tickVertical: {
+    width: 2,
+    height: TICK_LENGTH,
+  },
+  tickActive: {
+    backgroundColor: colors.gold,
+  },
+  holdDot: {
+    position: 'absolute',
+    width: HOLD_DOT_SIZE,
+    height: HOLD_DOT_SIZE,
+    borderRadius: HOLD_DOT_SIZE / 2,
+    backgroundColor: colors.error,
+  },
+  caption: {
+    fontSize: 13,
+    color: colors.textPrimary,
+    marginTop: 6,
+  },
+  note: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+});
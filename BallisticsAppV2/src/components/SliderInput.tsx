@@ -2,6 +2,15 @@ import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import Slider from '@react-native-community/slider';
 import { colors } from '../lib/constants';
+import {
+  convertSliderRange,
+  fromDisplayUnit,
+  getStepDecimals,
+  getUnitSymbol,
+  toDisplayUnit,
+} from '../lib/units';
+import { UnitQuantity, UnitSystem } from '../types';
+import { useTranslation } from '../i18n/useTranslation';
 
 interface SliderInputProps {
   label: string;
@@ -12,6 +21,9 @@ interface SliderInputProps {
   step: number;
   unit?: string;
   formatValue?: (value: number) => string;
+  // Value, range and callback in base units; the slider shows the unit system's display unit
+  quantity?: UnitQuantity;
+  unitSystem?: UnitSystem;
 }
 
 export function SliderInput({
@@ -23,8 +35,29 @@ export function SliderInput({
   step,
   unit = '',
   formatValue,
+  quantity,
+  unitSystem,
 }: SliderInputProps) {
-  const displayValue = formatValue ? formatValue(value) : `${value}${unit}`;
+  const { formatNumber } = useTranslation();
+
+  if (quantity && unitSystem) {
+    const range = convertSliderRange({ min, max, step }, quantity, unitSystem);
+    const decimals = getStepDecimals(range.step);
+    return (
+      <SliderInput
+        label={label}
+        value={Number(toDisplayUnit(value, quantity, unitSystem).toFixed(decimals))}
+        onValueChange={val => onValueChange(fromDisplayUnit(val, quantity, unitSystem))}
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        unit={` ${getUnitSymbol(quantity, unitSystem)}`}
+        formatValue={formatValue && (val => formatValue(fromDisplayUnit(val, quantity, unitSystem)))}
+      />
+    );
+  }
+
+  const displayValue = formatValue ? formatValue(value) : `${formatNumber(value)}${unit}`;
 
   return (
     <View style={styles.container}>
@@ -44,8 +77,8 @@ export function SliderInput({
         thumbTintColor={colors.gold}
       />
       <View style={styles.rangeLabels}>
-        <Text style={styles.rangeLabel}>{min}{unit}</Text>
-        <Text style={styles.rangeLabel}>{max}{unit}</Text>
+        <Text style={styles.rangeLabel}>{formatNumber(min)}{unit}</Text>
+        <Text style={styles.rangeLabel}>{formatNumber(max)}{unit}</Text>
       </View>
     </View>
   );
@@ -0,0 +1,34 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '../lib/constants';
+import { useTranslation } from '../i18n/useTranslation';
+
+// Marks user-entered loads that were not checked against manufacturer data
+export function UnverifiedBadge() {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.badge}>
+      <Text style={styles.text}>{t('customAmmo.unverified')}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    backgroundColor: '#FFF3E0',
+    borderWidth: 1,
+    borderColor: colors.error,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    alignSelf: 'flex-start',
+  },
+  text: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.error,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+});
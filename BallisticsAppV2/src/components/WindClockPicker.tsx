@@ -0,0 +1,148 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { colors } from '../lib/constants';
+import {
+  CLOCK_HOURS,
+  clockToWindAngle,
+  getWindDirectionText,
+  normalizeWindAngle,
+} from '../lib/wind';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface WindClockPickerProps {
+  label?: string;
+  value: number; // wind angle, degrees
+  onValueChange: (angle: number) => void;
+}
+
+// Dial size in px
+const DIAL_SIZE = 200;
+
+const HOUR_BUTTON_SIZE = 36;
+
+// Distance of the hour buttons from the dial center
+const HOUR_RADIUS = (DIAL_SIZE - HOUR_BUTTON_SIZE) / 2;
+
+export function WindClockPicker({ label, value, onValueChange }: WindClockPickerProps) {
+  const { t, language } = useTranslation();
+  const angle = normalizeWindAngle(value);
+  const center = DIAL_SIZE / 2;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.label}>{label ?? t('wind.direction')}</Text>
+        <Text style={styles.value}>{getWindDirectionText(angle, language)}</Text>
+      </View>
+
+      <View style={styles.dial}>
+        {/* Shooter in the center, target at 12 o'clock */}
+        <View style={[styles.shooter, { left: center - 30, top: center - 20 }]}>
+          <Text style={styles.shooterArrow}>▲</Text>
+          <Text style={styles.shooterText}>{t('wind.shooter')}</Text>
+        </View>
+
+        {CLOCK_HOURS.map(hour => {
+          const hourAngle = clockToWindAngle(hour);
+          const rad = (hourAngle * Math.PI) / 180;
+          const isSelected = hourAngle === angle;
+          return (
+            <TouchableOpacity
+              key={hour}
+              style={[
+                styles.hour,
+                isSelected && styles.hourSelected,
+                {
+                  left: center + HOUR_RADIUS * Math.sin(rad) - HOUR_BUTTON_SIZE / 2,
+                  top: center - HOUR_RADIUS * Math.cos(rad) - HOUR_BUTTON_SIZE / 2,
+                },
+              ]}
+              onPress={() => onValueChange(hourAngle)}
+            >
+              <Text style={[styles.hourText, isSelected && styles.hourTextSelected]}>{hour}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={styles.caption}>{t('wind.clockCaption')}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  value: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.forest,
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 8,
+  },
+  dial: {
+    width: DIAL_SIZE,
+    height: DIAL_SIZE,
+    borderRadius: DIAL_SIZE / 2,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.cream,
+    alignSelf: 'center',
+  },
+  shooter: {
+    position: 'absolute',
+    width: 60,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  shooterArrow: {
+    fontSize: 18,
+    color: colors.forest,
+  },
+  shooterText: {
+    fontSize: 10,
+    color: colors.textSecondary,
+  },
+  hour: {
+    position: 'absolute',
+    width: HOUR_BUTTON_SIZE,
+    height: HOUR_BUTTON_SIZE,
+    borderRadius: HOUR_BUTTON_SIZE / 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.warmWhite,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  hourSelected: {
+    backgroundColor: colors.gold,
+    borderColor: colors.gold,
+  },
+  hourText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.forest,
+  },
+  hourTextSelected: {
+    color: colors.warmWhite,
+  },
+  caption: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+});
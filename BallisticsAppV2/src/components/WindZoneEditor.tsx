@@ -0,0 +1,157 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { SliderInput } from './SliderInput';
+import { colors, MAX_WIND_ZONES, SLIDER_RANGES } from '../lib/constants';
+import { UnitSystem, WindZone } from '../types';
+import { formatUnit } from '../lib/units';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface WindZoneEditorProps {
+  zones: WindZone[];
+  onChange: (zones: WindZone[]) => void;
+  formatDirection: (angle: number) => string;
+  unitSystem: UnitSystem;
+}
+
+export function WindZoneEditor({ zones, onChange, formatDirection, unitSystem }: WindZoneEditorProps) {
+  const { t } = useTranslation();
+
+  // Later zones are pushed back so the zones stay in order
+  const updateZone = (index: number, changes: Partial<WindZone>) => {
+    const updated = zones.map((zone, i) => (i === index ? { ...zone, ...changes } : zone));
+    for (let i = index + 1; i < updated.length; i++) {
+      const minTo = updated[i - 1].to + SLIDER_RANGES.windZoneEnd.step;
+      if (updated[i].to < minTo) {
+        updated[i] = { ...updated[i], to: minTo };
+      }
+    }
+    onChange(updated);
+  };
+
+  const addZone = () => {
+    const last = zones[zones.length - 1];
+    const to = Math.min((last?.to ?? 0) + 100, SLIDER_RANGES.windZoneEnd.max);
+    onChange([...zones, { to, speed: last?.speed ?? 0, angle: last?.angle ?? 90, vertical: 0 }]);
+  };
+
+  const removeZone = (index: number) => {
+    onChange(zones.filter((_, i) => i !== index));
+  };
+
+  return (
+    <View>
+      {zones.map((zone, index) => {
+        const from = index === 0 ? 0 : zones[index - 1].to;
+        const isLast = index === zones.length - 1;
+
+        return (
+          <View key={index} style={styles.zone}>
+            <View style={styles.zoneHeader}>
+              <Text style={styles.zoneTitle}>
+                {t('wind.zoneTitle', {
+                  index: index + 1,
+                  from: formatUnit(from, 'distance', unitSystem),
+                  to: formatUnit(zone.to, 'distance', unitSystem),
+                })}
+                {isLast ? '+' : ''}
+              </Text>
+              {zones.length > 1 && (
+                <TouchableOpacity onPress={() => removeZone(index)}>
+                  <Text style={styles.removeText}>{t('wind.zoneRemove')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <SliderInput
+              label={t('wind.zoneEnd')}
+              value={zone.to}
+              onValueChange={(to) => updateZone(index, { to })}
+              min={Math.max(SLIDER_RANGES.windZoneEnd.min, from + SLIDER_RANGES.windZoneEnd.step)}
+              max={SLIDER_RANGES.windZoneEnd.max}
+              step={SLIDER_RANGES.windZoneEnd.step}
+              quantity="distance"
+              unitSystem={unitSystem}
+            />
+            <SliderInput
+              label={t('wind.zoneSpeed')}
+              value={zone.speed}
+              onValueChange={(speed) => updateZone(index, { speed })}
+              min={SLIDER_RANGES.windSpeed.min}
+              max={SLIDER_RANGES.windSpeed.max}
+              step={SLIDER_RANGES.windSpeed.step}
+              quantity="windSpeed"
+              unitSystem={unitSystem}
+            />
+            <SliderInput
+              label={t('wind.direction')}
+              value={zone.angle}
+              onValueChange={(angle) => updateZone(index, { angle })}
+              min={SLIDER_RANGES.windAngle.min}
+              max={SLIDER_RANGES.windAngle.max}
+              step={SLIDER_RANGES.windAngle.step}
+              formatValue={formatDirection}
+            />
+            <SliderInput
+              label={t('wind.zoneVertical')}
+              value={zone.vertical ?? 0}
+              onValueChange={(vertical) => updateZone(index, { vertical })}
+              min={SLIDER_RANGES.verticalWind.min}
+              max={SLIDER_RANGES.verticalWind.max}
+              step={SLIDER_RANGES.verticalWind.step}
+              quantity="windSpeed"
+              unitSystem={unitSystem}
+              formatValue={(val) => val === 0
+                ? t('wind.verticalNone')
+                : t(val > 0 ? 'wind.updraft' : 'wind.downdraft', { speed: formatUnit(Math.abs(val), 'windSpeed', unitSystem, 1) })}
+            />
+          </View>
+        );
+      })}
+
+      {zones.length < MAX_WIND_ZONES && (
+        <TouchableOpacity style={styles.addButton} onPress={addZone}>
+          <Text style={styles.addText}>{t('wind.addZone')}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  zone: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingTop: 12,
+    marginTop: 8,
+  },
+  zoneHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  zoneTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.forest,
+  },
+  removeText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.error,
+  },
+  addButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.forest,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+  },
+  addText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.forest,
+  },
+});
@@ -5,3 +5,12 @@ export { SliderInput } from './SliderInput';
 export { ResultDisplay } from './ResultDisplay';
 export { ProfileCard } from './ProfileCard';
 export { RangeCard } from './RangeCard';
+export { LeadCard } from './LeadCard';
+export { LeadDisplay } from './LeadDisplay';
+export { HitProbabilityDisplay } from './HitProbabilityDisplay';
+export { EthicalRangeWarning } from './EthicalRangeWarning';
+export { WindZoneEditor } from './WindZoneEditor';
+export { WindClockPicker } from './WindClockPicker';
+export { ReticleView } from './ReticleView';
+export { UnverifiedBadge } from './UnverifiedBadge';
+export { CustomAmmunitionEditor } from './CustomAmmunitionEditor';
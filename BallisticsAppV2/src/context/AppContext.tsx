@@ -1,5 +1,12 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { RifleProfile, AppSettings, OnboardingState, AmmunitionData } from '../types';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import {
+  RifleProfile,
+  AppSettings,
+  OnboardingState,
+  CustomAmmunition,
+  AmmunitionDataPack,
+  DataPackUpdate,
+} from '../types';
 import {
   loadProfiles,
   saveProfiles,
@@ -13,8 +20,17 @@ import {
   loadSettings,
   saveSettings,
   generateProfileId,
+  loadCustomAmmunition,
+  saveCustomAmmunition,
+  generateCustomAmmunitionId,
+  loadDataPack,
+  saveDataPack,
+  clearDataPack,
 } from '../lib/storage';
 import { DEFAULT_SETTINGS, DEFAULT_ONBOARDING } from '../lib/constants';
+import { setLanguage } from '../i18n';
+import { DEFAULT_DATA_PACK, setActiveDataPack } from '../lib/ammunition-data';
+import { applyDataPackUpdate, findDataPackUpdates, selectDataPack } from '../lib/data-pack';
 
 interface AppContextType {
   // Loading state
@@ -28,6 +44,19 @@ interface AppContextType {
   updateProfile: (profile: RifleProfile) => Promise<void>;
   deleteProfile: (profileId: string) => Promise<void>;
 
+  // Custom ammunition library
+  customAmmunition: CustomAmmunition[];
+  addCustomAmmunition: (ammo: Omit<CustomAmmunition, 'id' | 'createdAt'>) => Promise<CustomAmmunition>;
+  updateCustomAmmunition: (ammo: CustomAmmunition) => Promise<void>;
+  deleteCustomAmmunition: (ammoId: string) => Promise<void>;
+
+  // Ammunition data pack
+  dataPack: AmmunitionDataPack;
+  dataPackUpdates: DataPackUpdate[]; // profiles whose load changed or was removed in the pack
+  importDataPack: (pack: AmmunitionDataPack) => Promise<DataPackUpdate[]>;
+  resetDataPack: () => Promise<DataPackUpdate[]>;
+  applyDataPackUpdate: (profileId: string) => Promise<void>;
+
   // Onboarding
   onboardingComplete: boolean;
   completeOnboarding: () => Promise<void>;
@@ -47,6 +76,19 @@ interface AppContextType {
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
+// Move profiles whose load is unchanged in the pack to its release
+async function syncProfilesWithDataPack(profiles: RifleProfile[], pack: AmmunitionDataPack): Promise<RifleProfile[]> {
+  const unchanged = findDataPackUpdates(profiles, pack).filter(u => u.status === 'unchanged');
+  if (unchanged.length === 0) return profiles;
+
+  const synced = profiles.map(profile => {
+    const update = unchanged.find(u => u.profileId === profile.id);
+    return update ? applyDataPackUpdate(profile, update) : profile;
+  });
+  await saveProfiles(synced);
+  return synced;
+}
+
 interface AppProviderProps {
   children: ReactNode;
 }
@@ -59,6 +101,8 @@ export function AppProvider({ children }: AppProviderProps) {
   const [onboardingState, setOnboardingState] = useState<OnboardingState>(DEFAULT_ONBOARDING);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [isAddingProfile, setIsAddingProfile] = useState(false);
+  const [customAmmunition, setCustomAmmunition] = useState<CustomAmmunition[]>([]);
+  const [dataPack, setDataPack] = useState<AmmunitionDataPack>(DEFAULT_DATA_PACK);
 
   // Load initial data with timeout to prevent getting stuck
   const loadInitialData = useCallback(async () => {
@@ -71,14 +115,23 @@ export function AppProvider({ children }: AppProviderProps) {
 
     try {
       const loadData = async () => {
-        const [loadedProfiles, loadedSettings, loadedOnboardingComplete, activeId] = await Promise.all([
+        const [storedProfiles, loadedSettings, loadedOnboardingComplete, activeId, loadedCustomAmmunition, importedPack] = await Promise.all([
           loadProfiles(),
           loadSettings(),
           isOnboardingComplete(),
           getActiveProfileId(),
+          loadCustomAmmunition(),
+          loadDataPack(),
         ]);
 
+        const pack = selectDataPack(DEFAULT_DATA_PACK, importedPack);
+        setActiveDataPack(pack);
+        setDataPack(pack);
+        const loadedProfiles = await syncProfilesWithDataPack(storedProfiles, pack);
+
         setProfiles(loadedProfiles);
+        setCustomAmmunition(loadedCustomAmmunition);
+        setLanguage(loadedSettings.language);
         setSettings(loadedSettings);
         setOnboardingCompleteState(loadedOnboardingComplete);
 
@@ -153,6 +206,68 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   }, [profiles, activeProfile, setActiveProfile]);
 
+  // Custom ammunition library (profiles keep their own copy of a load)
+  const addCustomAmmunition = useCallback(async (ammoData: Omit<CustomAmmunition, 'id' | 'createdAt'>): Promise<CustomAmmunition> => {
+    const newAmmo: CustomAmmunition = {
+      ...ammoData,
+      id: generateCustomAmmunitionId(),
+      createdAt: Date.now(),
+    };
+
+    const updated = [...customAmmunition, newAmmo];
+    await saveCustomAmmunition(updated);
+    setCustomAmmunition(updated);
+    return newAmmo;
+  }, [customAmmunition]);
+
+  const updateCustomAmmunition = useCallback(async (ammo: CustomAmmunition) => {
+    const updated = customAmmunition.map(a => a.id === ammo.id ? ammo : a);
+    await saveCustomAmmunition(updated);
+    setCustomAmmunition(updated);
+  }, [customAmmunition]);
+
+  const deleteCustomAmmunition = useCallback(async (ammoId: string) => {
+    const updated = customAmmunition.filter(a => a.id !== ammoId);
+    await saveCustomAmmunition(updated);
+    setCustomAmmunition(updated);
+  }, [customAmmunition]);
+
+  // Ammunition data pack
+  const dataPackUpdates = useMemo(
+    () => findDataPackUpdates(profiles, dataPack).filter(u => u.status !== 'unchanged'),
+    [profiles, dataPack]
+  );
+
+  const activateDataPack = useCallback(async (pack: AmmunitionDataPack): Promise<DataPackUpdate[]> => {
+    // Before the re-render, so the library helpers use the new pack
+    setActiveDataPack(pack);
+    setDataPack(pack);
+
+    const synced = await syncProfilesWithDataPack(profiles, pack);
+    setProfiles(synced);
+    if (activeProfile) {
+      setActiveProfileState(synced.find(p => p.id === activeProfile.id) ?? activeProfile);
+    }
+    return findDataPackUpdates(synced, pack).filter(u => u.status !== 'unchanged');
+  }, [profiles, activeProfile]);
+
+  const importDataPack = useCallback(async (pack: AmmunitionDataPack): Promise<DataPackUpdate[]> => {
+    await saveDataPack(pack);
+    return activateDataPack(pack);
+  }, [activateDataPack]);
+
+  const resetDataPack = useCallback(async (): Promise<DataPackUpdate[]> => {
+    await clearDataPack();
+    return activateDataPack(DEFAULT_DATA_PACK);
+  }, [activateDataPack]);
+
+  const applyDataPackUpdateToProfile = useCallback(async (profileId: string) => {
+    const update = dataPackUpdates.find(u => u.profileId === profileId);
+    const profile = profiles.find(p => p.id === profileId);
+    if (!update || !profile) return;
+    await updateProfile(applyDataPackUpdate(profile, update));
+  }, [dataPackUpdates, profiles, updateProfile]);
+
   // Onboarding
   const completeOnboarding = useCallback(async () => {
     await setOnboardingCompleteInStorage(true);
@@ -167,6 +282,8 @@ export function AppProvider({ children }: AppProviderProps) {
   const updateSettings = useCallback(async (newSettings: Partial<AppSettings>) => {
     const updated = { ...settings, ...newSettings };
     await saveSettings(updated);
+    // Before the re-render, so export and unit texts switch with the screens
+    setLanguage(updated.language);
     setSettings(updated);
   }, [settings]);
 
@@ -183,6 +300,15 @@ export function AppProvider({ children }: AppProviderProps) {
     addProfile,
     updateProfile,
     deleteProfile,
+    customAmmunition,
+    addCustomAmmunition,
+    updateCustomAmmunition,
+    deleteCustomAmmunition,
+    dataPack,
+    dataPackUpdates,
+    importDataPack,
+    resetDataPack,
+    applyDataPackUpdate: applyDataPackUpdateToProfile,
     onboardingComplete,
     completeOnboarding,
     onboardingState,
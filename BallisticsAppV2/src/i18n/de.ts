@@ -0,0 +1,685 @@
+/**
+ * German catalogue, the reference for all other languages.
+ */
+const de = {
+  common: {
+    cancel: 'Abbrechen',
+    back: 'Zurück',
+    next: 'Weiter',
+    save: 'Speichern',
+    delete: 'Löschen',
+    error: 'Fehler',
+    ok: 'OK',
+  },
+  tabs: {
+    calculator: 'Rechner',
+    profiles: 'Profile',
+    settings: 'Einstellungen',
+  },
+  calculator: {
+    title: 'Ballistik Rechner',
+    noProfileTitle: 'Kein Profil aktiv',
+    noProfileText: 'Bitte wählen Sie ein Profil aus oder erstellen Sie ein neues.',
+    goToProfiles: 'Zu den Profilen',
+    modeHold: 'Haltepunkt',
+    modeLead: 'Vorhalt (bewegt)',
+    distance: 'Entfernung',
+    gait: 'Gangart',
+    targetSpeed: 'Geschwindigkeit',
+    crossingAngle: 'Laufwinkel',
+    crossingBroadside: 'Quer (90°)',
+    crossingHeadOn: 'Spitz (0°)',
+    crossingQuartering: 'Schräg ({angle}°)',
+    species: 'Wildart',
+    showLeadTable: 'Vorhaltetabelle anzeigen',
+    hideLeadTable: 'Vorhaltetabelle ausblenden',
+    estimateToggle: 'Entfernung schätzen (Absehen)',
+    estimateTarget: 'Zielgröße (Rumpfhöhe)',
+    estimateCustom: 'Eigene',
+    estimateTargetSize: 'Zielgröße',
+    estimateUnit: 'Gemessen in',
+    estimateReading: 'Abgelesen',
+    estimateDistance: 'ca. {distance}',
+    estimateBand: 'Bereich {min} - {max}',
+    estimateUnlimited: 'unbegrenzt',
+    estimateErrors: '(±{reading} {unit} Ablesefehler, ±{size} % Zielgröße)',
+    estimateDrops: 'Fallen {near} bei {nearDistance} bis {far} bei {farDistance}',
+    estimateSfp: '2. Bildebene: Ablesung bei {magnification}x auf {reference}x umgerechnet',
+    shotAngle: 'Schusswinkel',
+    shotLevel: 'Eben',
+    shotUphill: '{angle}° bergauf',
+    shotDownhill: '{angle}° bergab',
+    slopeDistances: 'Laserdistanz {laser} • Horizontale Entfernung {horizontal}',
+    reticleHold: 'Haltepunkt im Absehen',
+    magnification: 'Vergrößerung',
+    showRangeCard: 'Schusstafel anzeigen',
+    hideRangeCard: 'Schusstafel ausblenden',
+    hitProbability: 'Trefferwahrscheinlichkeit',
+    vitalZone: 'Vitalzone',
+    dispersion: 'Streuung Waffe/Schütze (1σ)',
+    muzzleVelocitySD: 'V0-Streuung (1σ)',
+    bcUncertainty: 'BC-Unsicherheit (1σ)',
+    rangeErrorSD: 'Entfernungsfehler (1σ)',
+    windSpeedSD: 'Windfehler (1σ)',
+    windSettings: 'Windeinstellungen',
+    windZones: 'Windzonen entlang der Flugbahn',
+    windSpeed: 'Windgeschwindigkeit',
+    windFineTuning: 'Feineinstellung',
+    environment: 'Umgebungsbedingungen',
+    environmentAuto: 'Auto',
+    environmentRefresh: 'Aktualisieren',
+    environmentDetected: 'Automatisch erkannt • {time}',
+    environmentManual: 'Manuelle Eingabe',
+    temperature: 'Temperatur',
+    pressure: 'Luftdruck',
+    altitude: 'Höhe (ü. NN)',
+    humidity: 'Luftfeuchtigkeit',
+    separatePowderTemp: 'Pulvertemperatur separat',
+    powderTemperature: 'Pulvertemperatur',
+    earthRotation: 'Erdrotation (Coriolis/Eötvös)',
+    latitude: 'Breitengrad',
+    latitudeNorth: '{angle}° N',
+    latitudeSouth: '{angle}° S',
+    azimuth: 'Schussrichtung',
+    compassPoints: 'N,NO,O,SO,S,SW,W,NW',
+    environmentNote: 'Die Umgebungsbedingungen beeinflussen die Luftdichte und damit die Flugbahn. Bei großer Höhe und Wärme ist die Luft dünner - das Geschoss fällt weniger.',
+    activeProfile: 'Aktives Profil',
+    caliber: 'Kaliber',
+    ammunition: 'Munition',
+    bullet: 'Geschoss',
+    expansionRange: 'Sichere Aufpilzung bis',
+    effectiveMuzzleVelocity: 'V0 (effektiv)',
+    nominalMuzzleVelocity: ' (nominal {velocity})',
+    dragModel: 'Modell',
+    dragModelFallback: ' (keine {model}-Daten zur Munition)',
+    zero: 'Zero',
+  },
+  settings: {
+    title: 'Einstellungen',
+    signOut: 'Abmelden',
+    signOutConfirm: 'Möchten Sie sich wirklich abmelden?',
+    notSignedInTitle: 'Nicht angemeldet',
+    notSignedInMessage: 'Bitte melden Sie sich an, um Profile zu synchronisieren.',
+    noProfilesTitle: 'Keine Profile',
+    noProfilesMessage: 'Es gibt keine lokalen Profile zum Synchronisieren.',
+    successTitle: 'Erfolg',
+    syncSuccess: '{count} Profile wurden in die Cloud synchronisiert.',
+    syncFailed: 'Profile konnten nicht synchronisiert werden.',
+    correctionLinear: 'Linear ({unit})',
+    resetTitle: 'Alle Daten löschen',
+    resetConfirm: 'Möchten Sie wirklich alle Profile und Einstellungen löschen? Diese Aktion kann nicht rückgängig gemacht werden.',
+    resetSuccess: 'Alle Daten wurden gelöscht. Bitte starten Sie die App neu.',
+    resetFailed: 'Daten konnten nicht gelöscht werden',
+    cloudSection: 'Cloud & Konto',
+    signedIn: 'Angemeldet',
+    cloudProfiles: 'Cloud-Profile',
+    cloudProfileCount: '{count} Profile in der Cloud',
+    syncLocal: 'Lokale Profile synchronisieren',
+    localCount: '{count} lokal',
+    signIn: 'Anmelden',
+    signInDescription: 'Profile über Geräte synchronisieren',
+    languageSection: 'Sprache',
+    unitSystemSection: 'Einheitensystem',
+    correctionSection: 'Korrekturen',
+    aboutSection: 'Über die App',
+    version: 'Version',
+    ballisticModel: 'Ballistik-Modell',
+    dataVerified: 'Daten verifiziert',
+    dataSourcesSection: 'Datenquellen & Methodik',
+    modelTitle: 'Ballistisches Berechnungsmodell',
+    modelText: 'Diese App verwendet die Standard-Widerstandsmodelle G1, G2, G5, G6, G7, G8 und GI sowie herstellerspezifische Widerstandskurven (CDM, Mach/Cd) mit numerischer Integration (Punkt-Masse-Trajektorienberechnung). Das G7-Modell ist besser für moderne Boat-Tail-Geschosse geeignet. Die Berechnung berücksichtigt:',
+    modelGravity: '• Schwerkraft (9,81 m/s²)',
+    modelDrag: '• Luftwiderstand nach G-Modell oder eigener Widerstandskurve',
+    modelDensity: '• Luftdichte (Temperatur, Druck)',
+    modelWind: '• Windabdrift (Querwind)',
+    modelSightHeight: '• Zielfernrohrhöhe über Lauf',
+    methodTitle: 'Berechnungsmethodik je Metrik',
+    dropName: 'Haltepunkt (Drop)',
+    dropFormula: 'Position = Anfangshöhe + ∫∫(Beschleunigung) dt²',
+    dropText: 'Vertikale Abweichung vom Zielpunkt. Berechnet durch numerische Integration der Flugbahn unter Berücksichtigung von Schwerkraft (g = 9,81 m/s²), Luftwiderstand und Einschusswinkel. Positiv (+) = über Zielpunkt, Negativ (-) = unter Zielpunkt.',
+    driftName: 'Windabdrift',
+    driftFormula: 'Drift = ∫(Windkraft × dt)',
+    driftText: 'Seitliche Abweichung durch Querwind. Windkomponente = Windgeschwindigkeit × sin(Windwinkel). Positiv (+) = Abdrift nach rechts, Negativ (-) = Abdrift nach links.',
+    timeName: 'Flugzeit',
+    timeFormula: 't = ∑(Δt) bis Zieldistanz erreicht',
+    timeText: 'Gesamtzeit vom Verlassen des Laufs bis zum Erreichen der Zieldistanz. Berechnet in 1ms-Schritten durch numerische Integration.',
+    velocityName: 'V @ Ziel (Geschwindigkeit)',
+    velocityText: 'Restgeschwindigkeit bei Zieldistanz. Berechnet aus horizontaler (vx) und vertikaler (vy) Geschwindigkeitskomponente nach Abbremsung durch Luftwiderstand.',
+    energyName: 'Energie',
+    energyText: 'Kinetische Energie des Geschosses bei Zieldistanz in Joule. m = Geschossgewicht (grain × 0,0000648 kg), v = Restgeschwindigkeit in m/s.',
+    dragName: 'Widerstandsberechnung',
+    dragText: 'Abbremsung durch Luftwiderstand. K = 0,000871, ρ = aktuelle Luftdichte, ρ₀ = 1,225 kg/m³ (Standardatmosphäre), Cd = Widerstandsbeiwert des gewählten Modells (G1-G8/GI Mach-abhängig aus JBM-Tabelle, oder eigene Mach/Cd-Kurve), BC = ballistischer Koeffizient (bei eigener Kurve: Querschnittsbelastung in lb/in²).',
+    ammoSourcesTitle: 'Munitionsdaten - Primäre Quellen',
+    ammoSourcesText: 'Alle ballistischen Koeffizienten (BC) und Mündungsgeschwindigkeiten stammen aus offiziellen Herstellerangaben:',
+    sourceProductLines: 'Produktlinien: {lines}',
+    sourceCalibers: 'Kaliber: {calibers} (Ladungen: {count})',
+    sourceTestBarrel: 'Testlauf: {lengths}',
+    sourceVerified: 'Zuletzt geprüft: {date}',
+    sourceUnverified: 'Ungeprüfte Katalogwerte: {count} Laborierungen',
+    referencesTitle: 'Referenzwerke & Validierung',
+    referenceLitz: 'Ballistik-Standardwerk für BC-Messungen',
+    referenceJbm: 'Validierung der Trajektorienberechnungen',
+    noticesTitle: 'Wichtige Hinweise',
+    noticeStandard: 'Die angegebenen Werte sind Durchschnittswerte unter Standardbedingungen (ICAO Standardatmosphäre: 15 °C, 1013,25 hPa, Meereshöhe).',
+    noticeVariation: 'Tatsächliche Leistung kann variieren durch: Lauflänge, Umgebungstemperatur, Höhe über NN, Luftfeuchtigkeit, individuelle Waffencharakteristiken.',
+    noticeVerify: 'Alle Schussweiten sollten vor der Jagd am eigenen Gewehr überprüft werden. Diese App dient als Berechnungshilfe, nicht als Ersatz für praktisches Einschießen.',
+    visitWebsite: 'Website besuchen',
+    about: 'Premium Jagd seit 2019. Qualität und Tradition vereint.',
+    dangerSection: 'Gefahrenzone',
+    resetDescription: 'Löscht alle Profile und Einstellungen',
+  },
+  unitSystems: {
+    metric: { label: 'Metrisch', description: 'm, cm, m/s, J, g, °C, hPa' },
+    imperial: { label: 'Imperial', description: 'yd, in, fps, ft·lbf, gr, °F, inHg' },
+    mixed: { label: 'Gemischt', description: 'yd, in, fps, ft·lbf, gr mit °C, hPa, m' },
+  },
+  species: {
+    wildBoar: 'Schwarzwild',
+    redDeer: 'Rotwild',
+    fallowDeer: 'Damwild',
+    chamois: 'Gamswild',
+    roeDeer: 'Rehwild',
+  },
+  targetSpeed: {
+    walking: 'Schritt',
+    trotting: 'Troll',
+    running: 'Flucht',
+  },
+  construction: {
+    bonded: 'Verbundkern (bonded)',
+    monolithic: 'Monolithisch',
+    softPoint: 'Teilmantel',
+    fragmenting: 'Teilzerleger',
+  },
+  clickValues: {
+    quarterMoa: '1/4 MOA',
+    tenthMil: '0,1 mrad',
+    cm: '1 cm/100 m',
+  },
+  reticles: {
+    plex: 'Plex / Duplex (ohne Haltemarken)',
+    milDotFfp: 'Mil-Dot (1. Bildebene)',
+    milDotSfp: 'Mil-Dot (2. Bildebene, 10x)',
+    milHashFfp: 'Mil-Striche 0,5 mrad (1. Bildebene)',
+    moaHashSfp: 'MOA-Striche 2 MOA (2. Bildebene, 12x)',
+    custom: 'Eigenes Absehen',
+  },
+  result: {
+    hold: 'Haltepunkt',
+    aboveAim: 'über Zielpunkt',
+    belowAim: 'unter Zielpunkt',
+    right: 'R {value}',
+    left: 'L {value}',
+    drift: 'Windabdrift',
+    clicksElevation: 'Klicks Höhe ({clickValue})',
+    clicksUp: '{clicks} hoch',
+    clicksDown: '{clicks} tief',
+    clicksWindage: 'Klicks Seite',
+    clicksRight: '{clicks} rechts',
+    clicksLeft: '{clicks} links',
+    time: 'Flugzeit',
+    timeValue: '{time}s',
+    velocity: 'V @ Ziel',
+    energy: 'Energie',
+    mach: 'Mach @ Ziel',
+    coriolis: 'davon Coriolis',
+    eotvos: 'Eötvös (Höhe)',
+    stability: 'Stabilität (Sg)',
+    spinDrift: 'davon Drallabdrift',
+    marginalStability: 'Stabilität grenzwertig (Sg unter {min}). Das Geschoss kann BC verlieren oder instabil fliegen - schnelleren Drall oder kürzeres Geschoss wählen.',
+    exceedsElevation: 'Verstellweg reicht nicht: {clicks} Klicks hoch nötig, nur {available} verfügbar. Rest mit dem Absehen halten oder Entfernung verkürzen.',
+    belowZeroStop: 'Unter dem Nullanschlag: {clicks} Klicks tief nötig. Tiefer halten statt drehen.',
+    belowExpansion: 'Auftreffgeschwindigkeit unter {velocity}. Das Geschoss pilzt nicht mehr zuverlässig auf - Entfernung verkürzen.',
+  },
+  ethicalRange: {
+    title: 'Energiegrenze',
+    onlyUntil: '{species}: nur bis {distance}',
+    tooWeak: '{species}: zu schwach',
+    minEnergy: ' (min. {energy})',
+    notLegal: '{species}: gesetzlich nicht zulässig',
+    caliberTooSmall: ' (Kaliber unter 6,5 mm)',
+    energyTooLow: ' (Mindestenergie nicht erreicht)',
+  },
+  reticleView: {
+    center: 'Mitte',
+    mark: '{index}. Marke {side}',
+    below: 'unten',
+    left: 'links',
+    right: 'rechts',
+    elevation: 'Höhe: {mark}',
+    windage: 'Seite: {mark}',
+    errorLower: ' ({value} tiefer)',
+    errorHigher: ' ({value} höher)',
+    errorRight: ' ({value} weiter rechts)',
+    errorLeft: ' ({value} weiter links)',
+    sfpNote: '2. Bildebene: Marken bei {magnification}x um Faktor {scale} umgerechnet (maßstabsgetreu bei {reference}x)',
+  },
+  rangeCard: {
+    title: 'Schusstafel',
+    distance: 'Dist.',
+    drop: 'Höhe',
+    drift: 'Seite',
+    clicks: 'Klicks',
+    right: 'R {value}',
+    left: 'L {value}',
+    speciesLimit: '▲ {species} bis {distance} (min. {energy})',
+    wind: 'Wind: {speed} | {direction}',
+    copy: 'Kopieren',
+    share: 'Teilen',
+    copiedTitle: 'Kopiert',
+    copiedMessage: 'Schusstafel wurde in die Zwischenablage kopiert.',
+    copyFailed: 'Kopieren fehlgeschlagen.',
+    legend: '+ = über Ziel | - = unter Ziel | R = rechts | L = links | ▲ = Energiegrenze',
+    legendClicks: 'Klicks: ↑↓ Höhe, ←→ Seite (Drehrichtung) | rot = Verstellweg reicht nicht',
+    legendExpansion: 'V rot = unter {velocity}, keine sichere Aufpilzung',
+  },
+  profileCard: {
+    active: 'Aktiv',
+    zero: 'Zero',
+    muzzleVelocity: 'V0',
+    muzzleVelocityTrued: 'V0 (abgegl.)',
+    barrelAdjustment: '{adjustment} für {length} Lauf',
+    ethicalRanges: 'Max. Entfernung (Mindestenergie)',
+    notLegal: 'unzulässig',
+    edit: 'Bearbeiten',
+    true: 'Abgleich',
+    optic: 'Zielfernrohr',
+    delete: 'Löschen',
+  },
+  hitProbability: {
+    title: 'Trefferwahrscheinlichkeit',
+    percent: '{percent} %',
+    vitalZone: 'Vitalzone {diameter} auf {distance}',
+    scatterCaption: 'Ausschnitt ±{extent} | Treffpunktlage {side} {x} / {y}',
+    right: 'R',
+    left: 'L',
+    spreadHorizontal: 'Streuung seitlich (1σ)',
+    spreadVertical: 'Streuung Höhe (1σ)',
+    warning: 'Unter {percent} % Trefferwahrscheinlichkeit. Näher herangehen, besser auflegen oder auf den Schuss verzichten.',
+  },
+  lead: {
+    title: 'Vorhalt',
+    value: '{lead}',
+    description: 'in Laufrichtung vor den Haltepunkt',
+    bodyLengths: 'Körperlängen ({species})',
+    reticle: 'Absehen',
+    mil: '{mil} MIL',
+    time: 'Flugzeit',
+    timeValue: '{time}s',
+    targetSpeed: 'Zielgeschwindigkeit',
+    speed: '{speed}',
+    note: 'Mitschwingend geschossen, ohne Reaktionszeit. Wer beim Schuss die Waffe anhält, braucht deutlich mehr Vorhalt.',
+  },
+  leadCard: {
+    title: 'Vorhaltetabelle',
+    broadside: 'quer',
+    distance: 'Dist.',
+    speed: '({speed})',
+    rowDistance: '{distance}',
+    lead: '{lead}',
+    bodyLengths: '{value} KL',
+    copy: 'Kopieren',
+    share: 'Teilen',
+    copiedTitle: 'Kopiert',
+    copiedMessage: 'Vorhaltetabelle wurde in die Zwischenablage kopiert.',
+    copyFailed: 'Kopieren fehlgeschlagen.',
+    legend: 'KL = Körperlängen ({length}) | mitschwingend, ohne Reaktionszeit',
+  },
+  wind: {
+    direction: 'Windrichtung',
+    headwind: 'Gegenwind',
+    tailwind: 'Rückenwind',
+    fromRight: 'von rechts',
+    fromLeft: 'von links',
+    fromFrontRight: '{angle}° von rechts vorne',
+    fromRearRight: '{angle}° von rechts hinten',
+    fromRearLeft: '{angle}° von links hinten',
+    fromFrontLeft: '{angle}° von links vorne',
+    clock: '{text} ({hour} Uhr)',
+    shooter: 'Schuss',
+    clockCaption: 'Uhrzeit, aus der der Wind kommt (Ziel auf 12 Uhr)',
+    zoneTitle: 'Zone {index} | {from} – {to}',
+    zoneRemove: 'Entfernen',
+    zoneEnd: 'Bis Entfernung',
+    zoneSpeed: 'Windgeschwindigkeit',
+    zoneVertical: 'Vertikalwind',
+    verticalNone: 'keiner',
+    updraft: '{speed} Aufwind',
+    downdraft: '{speed} Abwind',
+    addZone: '+ Windzone hinzufügen',
+  },
+  export: {
+    rangeCardHeader: 'SCHUSSTAFEL',
+    leadTableHeader: 'VORHALTETABELLE',
+    profile: 'Profil: {name}',
+    caliber: 'Kaliber: {caliber}',
+    ammunition: 'Munition: {name}',
+    bulletWeight: 'Geschossgewicht: {weight}',
+    construction: 'Geschossbauart: {construction}',
+    minImpactVelocity: 'Min. Auftreffgeschw.: {velocity}',
+    muzzleVelocity: 'V0: {velocity}',
+    trued: ' (abgeglichen)',
+    dragModel: 'Widerstandsmodell: {model}',
+    dragModelFallback: ' (keine {model}-Daten zur Munition)',
+    bcScale: 'BC-Faktor (abgeglichen): {scale}',
+    zero: 'Zero: {distance}',
+    zeroConditions: 'Eingeschossen bei: {temperature}, {altitude}',
+    sightHeight: 'ZF-Höhe: {height}',
+    twist: 'Drall: 1:{rate}" {direction}',
+    twistLeft: 'links',
+    twistRight: 'rechts',
+    turret: 'Turm: {clickValue}/Klick | {travel} Klicks Verstellweg, {above} über dem Einschuss{zeroStop}',
+    zeroStop: ' | Nullanschlag ({clicks} Klicks darunter)',
+    wind: 'Wind: {speed} | {direction}',
+    windZone: 'Wind {from} – {to}: {speed} | {direction}',
+    windZoneLast: 'Wind ab {from}: {speed} | {direction}',
+    columnDistance: 'Dist',
+    columnDrop: 'Höhe',
+    columnDrift: 'Seite',
+    columnClicks: 'Klicks',
+    speciesLimit: '▲ {species} bis {distance}',
+    ethicalRanges: 'Max. Entfernung (Mindestenergie):',
+    notLegal: 'nicht zulässig',
+    tooWeak: 'zu schwach',
+    legend: 'Legende:',
+    legendAbove: '+ = über Ziel | - = unter Ziel',
+    legendSide: 'R = rechts | L = links',
+    legendZero: '* = Einschussentfernung',
+    legendSpecies: '▲ = Energiegrenze der Wildart',
+    legendExpansion: '! = keine sichere Aufpilzung (zu langsam)',
+    legendClicks: 'Klicks: ↑↓ Höhe, ←→ Seite (Drehrichtung)',
+    legendBeyond: '# = Verstellweg reicht nicht, mit Absehen halten',
+    game: 'Wild: {species} ({length})',
+    crossingAngle: 'Laufwinkel: {angle}°',
+    broadside: ' (quer)',
+    legendLead: '{unit}/KL = Vorhalt in {unit} / Körperlängen',
+    legendSwing: 'Vorhalt bei mitschwingendem Schuss,',
+    legendReaction: 'ohne Reaktionszeit des Schützen',
+    generated: 'Generiert mit Ostermayer AG App',
+    rangeCardTitle: 'Schusstafel - {name}',
+    leadTableTitle: 'Vorhaltetabelle - {name}',
+    exportTitle: 'Schusstafel exportieren',
+    exportMessage: 'Wählen Sie eine Export-Option:',
+    copy: 'Kopieren',
+    share: 'Teilen',
+    copiedTitle: 'Kopiert',
+    copiedMessage: 'Schusstafel wurde in die Zwischenablage kopiert.',
+    copyFailed: 'Kopieren fehlgeschlagen.',
+  },
+  welcome: {
+    tagline: 'Premium Jagd seit 2019',
+    title: 'Ballistik Rechner',
+    subtitle: 'Berechnen Sie präzise Haltepunkte für Ihre Jagdwaffe. Erstellen Sie Profile für verschiedene Waffen und Munition.',
+    featureTrajectory: 'Präzise Trajektorienberechnung',
+    featureWind: 'Windabdrift-Kalkulation',
+    featureRangeCard: 'Schusstafel zum Teilen',
+    featureProfiles: 'Mehrere Waffenprofile',
+    start: 'Jetzt einrichten',
+    footer: 'Richten Sie Ihr erstes Waffenprofil in nur 3 Schritten ein',
+  },
+  onboarding: {
+    step: 'Schritt {step} von {total}',
+  },
+  caliber: {
+    title: 'Kaliber & Munition',
+    instruction: 'Wählen Sie das Kaliber und die Laborierung Ihrer Jagdwaffe',
+    loadCountOne: '1 Ladung verfügbar',
+    loadCount: '{count} Ladungen verfügbar',
+    weight: 'Gewicht',
+  },
+  ammunition: {
+    title: 'Munition wählen',
+    noCaliber: 'Bitte wählen Sie zuerst ein Kaliber',
+    selectedCaliber: 'Gewähltes Kaliber:',
+    instruction: 'Wählen Sie die Laborierung / Munition',
+    bulletWeight: 'Geschossgewicht',
+  },
+  zero: {
+    title: 'Einschussdaten',
+    distanceSection: 'Einschussentfernung',
+    instruction: 'Wählen Sie Ihre Einschussentfernung und -methode',
+    recommended: 'Empfohlen',
+    geeDescription: 'Günstigste Einschussentfernung für ±{deviation} Abweichung',
+    nearZero: 'Nahe Null',
+    farZero: 'Ferne Null',
+    pointBlank: 'Fleckschuss',
+    standardLabel: '{distance} Standard',
+    standardDescription: 'Nullpunkt genau bei {distance}',
+    sightHeightSection: 'Zielfernrohrhöhe',
+    sightHeightInstruction: 'Höhe der optischen Achse über der Laufachse',
+    sightHeightLabel: 'Höhe über Lauf',
+    sightHeightHint: 'Typischerweise {range} für Zielfernrohre mit Standardmontage',
+    twistSection: 'Dralllänge',
+    twistInstruction: 'Lauflänge pro Umdrehung der Züge (für Drallabdrift und Stabilität)',
+    twistLabel: 'Drall',
+    twistHint: 'Vorbelegt mit dem C.I.P./SAAMI-Standard des Kalibers',
+    barrelSection: 'Lauflänge',
+    barrelInstruction: 'Die V0 des Herstellers gilt für seinen Testlauf ({length}). Kürzere Läufe schießen langsamer, längere schneller.',
+    barrelLabel: 'Lauflänge',
+    barrelHint: 'Ohne Angabe wird die V0 des Herstellers unverändert verwendet',
+    barrelAdjustment: 'V0 mit diesem Lauf: {velocity} ({adjustment} gegenüber dem Testlauf)',
+    resetBarrel: 'Länge des Testlaufs verwenden',
+    powderSection: 'Pulvertemperatur',
+    powderInstruction: 'Änderung der V0 pro °C Abweichung von {reference} °C Pulvertemperatur',
+    powderLabel: 'Temperaturempfindlichkeit',
+    powderHint: 'Temperaturstabile Pulver ca. {stable}, übliche Pulver {common}. 0 = keine Korrektur',
+    conditionsSection: 'Einschussbedingungen',
+    conditionsInstruction: 'Wetter und Höhe am Schießstand, an dem die Waffe eingeschossen wurde',
+    temperature: 'Temperatur',
+    altitude: 'Höhe ü. NN',
+    resetConditions: 'Auf Normatmosphäre zurücksetzen',
+    conditionsHint: 'Der Haltepunkt wird einmal für diese Bedingungen berechnet. In anderem Wetter wandert die Treffpunktlage dann wie in der Praxis. Ohne Angabe: {temperature} auf Meereshöhe',
+  },
+  summary: {
+    title: 'Zusammenfassung',
+    missingSelection: 'Bitte wählen Sie Kaliber und Munition aus',
+    saveFailed: 'Profil konnte nicht gespeichert werden',
+    profileName: 'Profilname',
+    selection: 'Ihre Auswahl',
+    caliber: 'Kaliber',
+    ammunition: 'Munition',
+    bulletWeight: 'Geschossgewicht',
+    muzzleVelocity: 'Mündungsgeschwindigkeit',
+    dragModel: 'Widerstandsmodell',
+    zeroDistance: 'Einschussentfernung',
+    zeroMethod: 'Einschussmethode',
+    standard: 'Standard',
+    sightHeight: 'Zielfernrohrhöhe',
+    twist: 'Drall',
+    barrelLength: 'Lauflänge',
+    barrelAdjustment: 'Hersteller {velocity} ({testBarrel} Testlauf), {adjustment} für {length} Lauf',
+    powderTemperature: 'Pulvertemperatur',
+    zeroConditions: 'Einschussbedingungen',
+    standardAtmosphere: 'Normatmosphäre',
+    note: 'Sie können diese Einstellungen jederzeit in Ihrem Profil ändern oder weitere Profile hinzufügen.',
+    create: 'Profil erstellen',
+  },
+  profiles: {
+    title: 'Profile',
+    countOne: '1 Profil',
+    count: '{count} Profile',
+    deleteTitle: 'Profil löschen',
+    deleteConfirm: 'Möchten Sie "{name}" wirklich löschen?',
+    deleteFailed: 'Profil konnte nicht gelöscht werden',
+    emptyTitle: 'Keine Profile',
+    emptyText: 'Erstellen Sie Ihr erstes Waffenprofil, um den Ballistikrechner zu nutzen.',
+    add: 'Neues Profil erstellen',
+  },
+  optic: {
+    title: 'Zielfernrohr',
+    notFound: 'Profil nicht gefunden',
+    travel: '{clicks} Klicks ({value} {unit})',
+    saveFailed: 'Profil konnte nicht gespeichert werden',
+    removeTitle: 'Turmdaten entfernen',
+    removeMessage: 'Ohne Turmdaten werden keine Klicks mehr angezeigt.',
+    remove: 'Entfernen',
+    clickValue: 'Klickwert',
+    clickValueInstruction: 'Verstellung pro Klick am Höhen- und Seitenturm',
+    travelSection: 'Verstellweg',
+    travelInstruction: 'Gesamter Höhenverstellweg laut Hersteller.',
+    travelLabel: 'Höhe gesamt',
+    aboveZeroSection: 'Über dem Einschuss',
+    aboveZeroInstruction: 'Klicks, die der Höhenturm vom Einschuss bis zum oberen Anschlag dreht. Zielfernrohre sind oft deutlich unter der Mitte eingeschossen: einmal bis zum Anschlag hoch- und zurückdrehen und zählen.',
+    aboveZeroLabel: 'Höhe über dem Einschuss',
+    zeroStopSection: 'Nullanschlag',
+    hasZeroStop: 'Turm hat Nullanschlag',
+    zeroStopLabel: 'Klicks unter Null',
+    zeroStopAtZero: 'stoppt bei Null',
+    clicks: '{clicks} Klicks',
+    reticleSection: 'Absehen',
+    reticleInstruction: 'Für den Haltepunkt mit Haltemarken statt Klicks',
+    noReticle: 'Kein Absehen',
+    customDescription: 'Gleichmäßige Marken, Abstand in mrad',
+    focalPlanes: {
+      ffp: '1. Bildebene',
+      sfp: '2. Bildebene',
+    },
+    referenceMagnification: 'Maßstabsgetreu bei',
+    spacing: 'Markenabstand',
+    elevationMarks: 'Marken unten',
+    windageMarks: 'Marken seitlich (je Seite)',
+  },
+  truing: {
+    title: 'Abgleich',
+    notFound: 'Profil nicht gefunden',
+    parameters: {
+      muzzleVelocity: {
+        label: 'Mündungsgeschwindigkeit (V0)',
+        description: 'Empfohlen - Lauflänge und Pulvercharge weichen meist vom Testlauf ab',
+      },
+      bcScale: {
+        label: 'BC-Faktor',
+        description: 'Wenn V0 per Chronograph gemessen ist und nur die Weitschüsse abweichen',
+      },
+    },
+    invalidTitle: 'Ungültige Eingabe',
+    invalidMessage: 'Bitte Entfernung und Treffpunktlage für jede Beobachtung eingeben.',
+    tooCloseTitle: 'Entfernung zu kurz',
+    tooCloseMessage: 'Beobachtungen müssen weiter als die Einschussentfernung ({distance}) liegen.',
+    savedTitle: 'Gespeichert',
+    savedMessage: 'Der abgeglichene Wert wurde im Profil gespeichert.',
+    saveFailed: 'Profil konnte nicht gespeichert werden',
+    resetTitle: 'Abgleich zurücksetzen',
+    resetMessage: 'V0 und BC wieder auf die Herstellerangaben setzen? Der Verlauf bleibt erhalten.',
+    reset: 'Zurücksetzen',
+    manufacturerValue: ' (Hersteller {value})',
+    bcScale: 'BC-Faktor',
+    resetToManufacturer: 'Auf Herstellerangaben zurücksetzen',
+    parameterSection: 'Anzupassender Wert',
+    observationsSection: 'Beobachtete Treffpunktlage',
+    observationsInstruction: 'Mit Haltepunkt Ziel schießen und den Abstand der Trefferlage unter dem Haltepunkt messen',
+    distanceColumn: 'Entfernung ({unit})',
+    dropColumn: 'Tiefschuss ({unit})',
+    addObservation: '+ Weitere Entfernung',
+    conditionsSection: 'Bedingungen beim Schießen',
+    temperature: 'Temperatur',
+    pressure: 'Luftdruck',
+    calculate: 'Berechnen',
+    result: 'Ergebnis',
+    previous: 'Bisher',
+    trued: 'Abgeglichen',
+    rmsError: 'Restabweichung (RMS)',
+    inconsistent: 'Die Beobachtungen passen nicht gut zusammen - Messungen und Bedingungen prüfen.',
+    apply: 'Im Profil speichern',
+    history: 'Verlauf',
+  },
+  customAmmo: {
+    title: 'Eigene Laborierung',
+    titleEdit: 'Laborierung bearbeiten',
+    add: '+ Eigene Laborierung',
+    edit: 'Bearbeiten',
+    unverified: 'Ungeprüft',
+    unverifiedNote: 'Eigene Angaben werden nicht mit Herstellerdaten abgeglichen. Werte sorgfältig eingeben und die Flugbahn vor der Jagd auf dem Schießstand überprüfen.',
+    unverifiedShort: 'Eigene Angaben - vor der Jagd auf dem Schießstand überprüfen.',
+    unverifiedCatalogue: 'Katalogwerte, noch nicht mit dem Datenblatt abgeglichen - vor der Jagd auf dem Schießstand überprüfen.',
+    optional: '(optional)',
+    namePlaceholder: 'z. B. Handladung 168 gr ELD-X',
+    bulletSection: 'Geschoss',
+    bcSection: 'Ballistischer Koeffizient',
+    velocitySection: 'Mündungsgeschwindigkeit',
+    fields: {
+      name: 'Bezeichnung',
+      bulletWeight: 'Geschossgewicht',
+      bulletLength: 'Geschosslänge',
+      bulletDiameter: 'Geschossdurchmesser',
+      ballisticCoefficient: 'BC (G1)',
+      bcG7: 'BC (G7)',
+      bcBands: 'BC nach Geschwindigkeit',
+      muzzleVelocity: 'V0',
+      testBarrelLength: 'Lauflänge bei der Messung',
+    },
+    bandsHint: 'Für Geschosse mit mehreren BC-Angaben. Jeder BC gilt ab der angegebenen Geschwindigkeit, unterhalb der niedrigsten Stufe der letzte. Die Stufen gelten nur mit dem Widerstandsmodell, für das sie angegeben sind.',
+    bandsModel: 'Angegeben für',
+    bandFrom: 'ab',
+    addBand: '+ Geschwindigkeitsstufe',
+    invalid: 'Bitte die markierten Felder korrigieren.',
+    delete: 'Laborierung löschen',
+    deleteTitle: 'Laborierung löschen',
+    deleteConfirm: '"{name}" löschen? Profile mit dieser Laborierung behalten ihre Werte.',
+    saveFailed: 'Laborierung konnte nicht gespeichert werden.',
+    deleteFailed: 'Laborierung konnte nicht gelöscht werden.',
+    errors: {
+      required: 'Pflichtfeld',
+      range: 'Erlaubt: {min} bis {max}',
+      duplicateName: 'Für dieses Kaliber gibt es bereits eine Laborierung mit diesem Namen.',
+      duplicateBand: 'Diese Geschwindigkeit ist bereits vergeben.',
+    },
+  },
+  profileEdit: {
+    title: 'Profil bearbeiten',
+    notFound: 'Profil nicht gefunden.',
+    name: 'Profilname',
+    ammunition: 'Munition',
+    ammunitionChanged: 'Beim Speichern wird die neue Munition übernommen. Abgleichwerte der bisherigen Munition werden zurückgesetzt.',
+    barrelTrued: 'Die abgeglichene V0 wurde mit Ihrem Lauf ermittelt. Die Lauflänge ändert sie nicht.',
+    saveFailed: 'Profil konnte nicht gespeichert werden.',
+    resetTruingTitle: 'Abgleich zurücksetzen',
+    resetTruingMessage: 'Die abgeglichene V0 und der BC-Faktor gelten nur für die bisherige Munition und werden zurückgesetzt. Der Verlauf bleibt erhalten.',
+  },
+  dataPack: {
+    section: 'Munitionsdaten',
+    name: 'Datenpaket',
+    version: 'Version {version}, {date}',
+    origin: 'Herkunft',
+    bundled: 'Mit der App geliefert',
+    imported: 'Importiert',
+    pendingOne: '1 Profil nutzt geänderte Munitionsdaten. Sie können die neuen Daten in der Profilliste übernehmen.',
+    pending: '{count} Profile nutzen geänderte Munitionsdaten. Sie können die neuen Daten in der Profilliste übernehmen.',
+    import: 'Datenpaket importieren',
+    reset: 'Mitgeliefertes Datenpaket verwenden',
+    resetTitle: 'Datenpaket zurücksetzen',
+    resetConfirm: 'Das importierte Datenpaket wird entfernt und das mit der App gelieferte verwendet.',
+    resetFailed: 'Datenpaket konnte nicht zurückgesetzt werden',
+    readFailed: 'Die Datei konnte nicht gelesen werden',
+    invalidTitle: 'Ungültiges Datenpaket',
+    invalid: 'Die Datei entspricht nicht dem Datenpaket-Format:\n{errors}',
+    moreErrors: '… und {count} weitere',
+    otherPack: 'Die Datei ist kein Datenpaket dieser App ({id}).',
+    notNewer: 'Version {version} ist nicht neuer als das aktive Datenpaket (Version {active}).',
+    importedTitle: 'Datenpaket importiert',
+    importedMessage: '{name}, Version {version} ist jetzt aktiv.',
+    updates: 'Geänderte Munitionsdaten in: {profiles}. Sie können die neuen Daten in der Profilliste übernehmen.',
+    importFailed: 'Datenpaket konnte nicht gespeichert werden',
+    changed: 'Munitionsdaten in Datenpaket v{version} geändert',
+    removed: 'Munition nicht mehr in Datenpaket v{version}, die gespeicherten Daten bleiben',
+    truedHint: 'Prüfen Sie den Abgleich nach der Übernahme.',
+    apply: 'Übernehmen',
+    acknowledge: 'Verstanden',
+    applyFailed: 'Profil konnte nicht gespeichert werden',
+    errors: {
+      json: 'keine JSON-Datei',
+      type: 'falscher Typ',
+      required: 'fehlt',
+      unknown: 'unbekanntes Feld',
+      range: 'außerhalb des zulässigen Bereichs',
+      value: 'unzulässiger Wert',
+      duplicate: 'doppelt',
+      order: 'falsche Reihenfolge',
+      schemaVersion: 'nicht unterstützte Formatversion',
+    },
+  },
+};
+
+export type Translations = typeof de;
+
+export default de;
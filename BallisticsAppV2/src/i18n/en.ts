@@ -0,0 +1,685 @@
+import { Translations } from './de';
+
+/**
+ * English catalogue.
+ */
+const en: Translations = {
+  common: {
+    cancel: 'Cancel',
+    back: 'Back',
+    next: 'Next',
+    save: 'Save',
+    delete: 'Delete',
+    error: 'Error',
+    ok: 'OK',
+  },
+  tabs: {
+    calculator: 'Calculator',
+    profiles: 'Profiles',
+    settings: 'Settings',
+  },
+  calculator: {
+    title: 'Ballistics Calculator',
+    noProfileTitle: 'No active profile',
+    noProfileText: 'Please select a profile or create a new one.',
+    goToProfiles: 'Go to profiles',
+    modeHold: 'Hold',
+    modeLead: 'Lead (moving)',
+    distance: 'Distance',
+    gait: 'Gait',
+    targetSpeed: 'Speed',
+    crossingAngle: 'Crossing angle',
+    crossingBroadside: 'Broadside (90°)',
+    crossingHeadOn: 'Head-on (0°)',
+    crossingQuartering: 'Quartering ({angle}°)',
+    species: 'Species',
+    showLeadTable: 'Show lead table',
+    hideLeadTable: 'Hide lead table',
+    estimateToggle: 'Estimate distance (reticle)',
+    estimateTarget: 'Target size (chest depth)',
+    estimateCustom: 'Custom',
+    estimateTargetSize: 'Target size',
+    estimateUnit: 'Measured in',
+    estimateReading: 'Reading',
+    estimateDistance: 'approx. {distance}',
+    estimateBand: 'Range {min} - {max}',
+    estimateUnlimited: 'unlimited',
+    estimateErrors: '(±{reading} {unit} reading error, ±{size} % target size)',
+    estimateDrops: 'Drop {near} at {nearDistance} to {far} at {farDistance}',
+    estimateSfp: 'Second focal plane: reading at {magnification}x converted to {reference}x',
+    shotAngle: 'Shot angle',
+    shotLevel: 'Level',
+    shotUphill: '{angle}° uphill',
+    shotDownhill: '{angle}° downhill',
+    slopeDistances: 'Laser distance {laser} • Horizontal distance {horizontal}',
+    reticleHold: 'Hold in the reticle',
+    magnification: 'Magnification',
+    showRangeCard: 'Show range card',
+    hideRangeCard: 'Hide range card',
+    hitProbability: 'Hit probability',
+    vitalZone: 'Vital zone',
+    dispersion: 'Rifle/shooter dispersion (1σ)',
+    muzzleVelocitySD: 'Muzzle velocity spread (1σ)',
+    bcUncertainty: 'BC uncertainty (1σ)',
+    rangeErrorSD: 'Range error (1σ)',
+    windSpeedSD: 'Wind error (1σ)',
+    windSettings: 'Wind settings',
+    windZones: 'Wind zones along the trajectory',
+    windSpeed: 'Wind speed',
+    windFineTuning: 'Fine tuning',
+    environment: 'Environment',
+    environmentAuto: 'Auto',
+    environmentRefresh: 'Refresh',
+    environmentDetected: 'Detected automatically • {time}',
+    environmentManual: 'Manual entry',
+    temperature: 'Temperature',
+    pressure: 'Air pressure',
+    altitude: 'Altitude (above sea level)',
+    humidity: 'Humidity',
+    separatePowderTemp: 'Separate powder temperature',
+    powderTemperature: 'Powder temperature',
+    earthRotation: 'Earth rotation (Coriolis/Eötvös)',
+    latitude: 'Latitude',
+    latitudeNorth: '{angle}° N',
+    latitudeSouth: '{angle}° S',
+    azimuth: 'Shot direction',
+    compassPoints: 'N,NE,E,SE,S,SW,W,NW',
+    environmentNote: 'The environment affects the air density and with it the trajectory. At high altitude and in warm weather the air is thinner - the bullet drops less.',
+    activeProfile: 'Active profile',
+    caliber: 'Calibre',
+    ammunition: 'Ammunition',
+    bullet: 'Bullet',
+    expansionRange: 'Reliable expansion up to',
+    effectiveMuzzleVelocity: 'MV (effective)',
+    nominalMuzzleVelocity: ' (nominal {velocity})',
+    dragModel: 'Model',
+    dragModelFallback: ' (no {model} data for this load)',
+    zero: 'Zero',
+  },
+  settings: {
+    title: 'Settings',
+    signOut: 'Sign out',
+    signOutConfirm: 'Do you really want to sign out?',
+    notSignedInTitle: 'Not signed in',
+    notSignedInMessage: 'Please sign in to sync your profiles.',
+    noProfilesTitle: 'No profiles',
+    noProfilesMessage: 'There are no local profiles to sync.',
+    successTitle: 'Success',
+    syncSuccess: '{count} profiles were synced to the cloud.',
+    syncFailed: 'Profiles could not be synced.',
+    correctionLinear: 'Linear ({unit})',
+    resetTitle: 'Delete all data',
+    resetConfirm: 'Do you really want to delete all profiles and settings? This cannot be undone.',
+    resetSuccess: 'All data has been deleted. Please restart the app.',
+    resetFailed: 'Data could not be deleted',
+    cloudSection: 'Cloud & account',
+    signedIn: 'Signed in',
+    cloudProfiles: 'Cloud profiles',
+    cloudProfileCount: '{count} profiles in the cloud',
+    syncLocal: 'Sync local profiles',
+    localCount: '{count} local',
+    signIn: 'Sign in',
+    signInDescription: 'Sync profiles across devices',
+    languageSection: 'Language',
+    unitSystemSection: 'Unit system',
+    correctionSection: 'Corrections',
+    aboutSection: 'About',
+    version: 'Version',
+    ballisticModel: 'Ballistic model',
+    dataVerified: 'Data verified',
+    dataSourcesSection: 'Data sources & method',
+    modelTitle: 'Ballistic model',
+    modelText: 'This app uses the standard drag models G1, G2, G5, G6, G7, G8 and GI as well as manufacturer drag curves (CDM, Mach/Cd) with numerical integration (point-mass trajectory). The G7 model suits modern boat-tail bullets better. The calculation takes into account:',
+    modelGravity: '• Gravity (9.81 m/s²)',
+    modelDrag: '• Air drag from the G model or a custom drag curve',
+    modelDensity: '• Air density (temperature, pressure)',
+    modelWind: '• Wind drift (crosswind)',
+    modelSightHeight: '• Sight height above the bore',
+    methodTitle: 'Method per value',
+    dropName: 'Hold (drop)',
+    dropFormula: 'Position = initial height + ∫∫(acceleration) dt²',
+    dropText: 'Vertical deviation from the point of aim. Computed by numerical integration of the trajectory taking gravity (g = 9.81 m/s²), air drag and the launch angle into account. Positive (+) = above the point of aim, negative (-) = below.',
+    driftName: 'Wind drift',
+    driftFormula: 'Drift = ∫(wind force × dt)',
+    driftText: 'Lateral deviation from crosswind. Wind component = wind speed × sin(wind angle). Positive (+) = drift to the right, negative (-) = drift to the left.',
+    timeName: 'Time of flight',
+    timeFormula: 't = ∑(Δt) until the target distance is reached',
+    timeText: 'Total time from leaving the muzzle to reaching the target distance. Computed in 1 ms steps by numerical integration.',
+    velocityName: 'V @ target (velocity)',
+    velocityText: 'Remaining velocity at the target distance. Computed from the horizontal (vx) and vertical (vy) velocity components after slowing down from air drag.',
+    energyName: 'Energy',
+    energyText: 'Kinetic energy of the bullet at the target distance in joules. m = bullet weight (grain × 0.0000648 kg), v = remaining velocity in m/s.',
+    dragName: 'Drag',
+    dragText: 'Deceleration from air drag. K = 0.000871, ρ = current air density, ρ₀ = 1.225 kg/m³ (standard atmosphere), Cd = drag coefficient of the selected model (G1-G8/GI Mach dependent from the JBM table, or a custom Mach/Cd curve), BC = ballistic coefficient (with a custom curve: sectional density in lb/in²).',
+    ammoSourcesTitle: 'Ammunition data - primary sources',
+    ammoSourcesText: 'All ballistic coefficients (BC) and muzzle velocities are taken from official manufacturer data:',
+    sourceProductLines: 'Product lines: {lines}',
+    sourceCalibers: 'Calibres: {calibers} (loads: {count})',
+    sourceTestBarrel: 'Test barrel: {lengths}',
+    sourceVerified: 'Last checked: {date}',
+    sourceUnverified: 'Unverified catalogue values: {count} loads',
+    referencesTitle: 'References & validation',
+    referenceLitz: 'Standard reference for BC measurements',
+    referenceJbm: 'Validation of the trajectory calculation',
+    noticesTitle: 'Important notes',
+    noticeStandard: 'The values given are averages under standard conditions (ICAO standard atmosphere: 15 °C, 1013.25 hPa, sea level).',
+    noticeVariation: 'Actual performance may vary with barrel length, ambient temperature, altitude, humidity and the individual rifle.',
+    noticeVerify: 'Check all distances on your own rifle before hunting. This app is a calculation aid, not a replacement for shooting in at the range.',
+    visitWebsite: 'Visit website',
+    about: 'Premium hunting since 2019. Quality and tradition combined.',
+    dangerSection: 'Danger zone',
+    resetDescription: 'Deletes all profiles and settings',
+  },
+  unitSystems: {
+    metric: { label: 'Metric', description: 'm, cm, m/s, J, g, °C, hPa' },
+    imperial: { label: 'Imperial', description: 'yd, in, fps, ft·lbf, gr, °F, inHg' },
+    mixed: { label: 'Mixed', description: 'yd, in, fps, ft·lbf, gr with °C, hPa, m' },
+  },
+  species: {
+    wildBoar: 'Wild boar',
+    redDeer: 'Red deer',
+    fallowDeer: 'Fallow deer',
+    chamois: 'Chamois',
+    roeDeer: 'Roe deer',
+  },
+  targetSpeed: {
+    walking: 'Walking',
+    trotting: 'Trotting',
+    running: 'Running',
+  },
+  construction: {
+    bonded: 'Bonded core',
+    monolithic: 'Monolithic',
+    softPoint: 'Soft point',
+    fragmenting: 'Fragmenting',
+  },
+  clickValues: {
+    quarterMoa: '1/4 MOA',
+    tenthMil: '0.1 mrad',
+    cm: '1 cm/100 m',
+  },
+  reticles: {
+    plex: 'Plex / duplex (no hold marks)',
+    milDotFfp: 'Mil-dot (first focal plane)',
+    milDotSfp: 'Mil-dot (second focal plane, 10x)',
+    milHashFfp: 'Mil hash 0.5 mrad (first focal plane)',
+    moaHashSfp: 'MOA hash 2 MOA (second focal plane, 12x)',
+    custom: 'Custom reticle',
+  },
+  result: {
+    hold: 'Hold',
+    aboveAim: 'above point of aim',
+    belowAim: 'below point of aim',
+    right: 'R {value}',
+    left: 'L {value}',
+    drift: 'Wind drift',
+    clicksElevation: 'Elevation clicks ({clickValue})',
+    clicksUp: '{clicks} up',
+    clicksDown: '{clicks} down',
+    clicksWindage: 'Windage clicks',
+    clicksRight: '{clicks} right',
+    clicksLeft: '{clicks} left',
+    time: 'Time of flight',
+    timeValue: '{time}s',
+    velocity: 'V @ target',
+    energy: 'Energy',
+    mach: 'Mach @ target',
+    coriolis: 'of which Coriolis',
+    eotvos: 'Eötvös (elevation)',
+    stability: 'Stability (Sg)',
+    spinDrift: 'of which spin drift',
+    marginalStability: 'Marginal stability (Sg below {min}). The bullet may lose BC or fly unstable - choose a faster twist or a shorter bullet.',
+    exceedsElevation: 'Not enough turret travel: {clicks} clicks up needed, only {available} available. Hold the rest with the reticle or shorten the distance.',
+    belowZeroStop: 'Below the zero stop: {clicks} clicks down needed. Hold low instead of dialling.',
+    belowExpansion: 'Impact velocity below {velocity}. The bullet no longer expands reliably - shorten the distance.',
+  },
+  ethicalRange: {
+    title: 'Energy limit',
+    onlyUntil: '{species}: only up to {distance}',
+    tooWeak: '{species}: too weak',
+    minEnergy: ' (min. {energy})',
+    notLegal: '{species}: not legal',
+    caliberTooSmall: ' (calibre below 6.5 mm)',
+    energyTooLow: ' (minimum energy not reached)',
+  },
+  reticleView: {
+    center: 'Centre',
+    mark: 'Mark {index} {side}',
+    below: 'below',
+    left: 'left',
+    right: 'right',
+    elevation: 'Elevation: {mark}',
+    windage: 'Windage: {mark}',
+    errorLower: ' ({value} lower)',
+    errorHigher: ' ({value} higher)',
+    errorRight: ' ({value} further right)',
+    errorLeft: ' ({value} further left)',
+    sfpNote: 'Second focal plane: marks at {magnification}x converted by a factor of {scale} (true to scale at {reference}x)',
+  },
+  rangeCard: {
+    title: 'Range card',
+    distance: 'Dist.',
+    drop: 'Drop',
+    drift: 'Drift',
+    clicks: 'Clicks',
+    right: 'R {value}',
+    left: 'L {value}',
+    speciesLimit: '▲ {species} up to {distance} (min. {energy})',
+    wind: 'Wind: {speed} | {direction}',
+    copy: 'Copy',
+    share: 'Share',
+    copiedTitle: 'Copied',
+    copiedMessage: 'The range card was copied to the clipboard.',
+    copyFailed: 'Copying failed.',
+    legend: '+ = above target | - = below target | R = right | L = left | ▲ = energy limit',
+    legendClicks: 'Clicks: ↑↓ elevation, ←→ windage (turn direction) | red = not enough travel',
+    legendExpansion: 'V red = below {velocity}, no reliable expansion',
+  },
+  profileCard: {
+    active: 'Active',
+    zero: 'Zero',
+    muzzleVelocity: 'MV',
+    muzzleVelocityTrued: 'MV (trued)',
+    barrelAdjustment: '{adjustment} for {length} barrel',
+    ethicalRanges: 'Max. distance (minimum energy)',
+    notLegal: 'not legal',
+    edit: 'Edit',
+    true: 'Truing',
+    optic: 'Scope',
+    delete: 'Delete',
+  },
+  hitProbability: {
+    title: 'Hit probability',
+    percent: '{percent} %',
+    vitalZone: 'Vital zone {diameter} at {distance}',
+    scatterCaption: 'Area ±{extent} | Mean point of impact {side} {x} / {y}',
+    right: 'R',
+    left: 'L',
+    spreadHorizontal: 'Horizontal spread (1σ)',
+    spreadVertical: 'Vertical spread (1σ)',
+    warning: 'Below {percent} % hit probability. Get closer, use a better rest or pass on the shot.',
+  },
+  lead: {
+    title: 'Lead',
+    value: '{lead}',
+    description: 'ahead of the hold in the direction of travel',
+    bodyLengths: 'Body lengths ({species})',
+    reticle: 'Reticle',
+    mil: '{mil} MIL',
+    time: 'Time of flight',
+    timeValue: '{time}s',
+    targetSpeed: 'Target speed',
+    speed: '{speed}',
+    note: 'Swinging through, without reaction time. If you stop the rifle on the shot you need considerably more lead.',
+  },
+  leadCard: {
+    title: 'Lead table',
+    broadside: 'broadside',
+    distance: 'Dist.',
+    speed: '({speed})',
+    rowDistance: '{distance}',
+    lead: '{lead}',
+    bodyLengths: '{value} BL',
+    copy: 'Copy',
+    share: 'Share',
+    copiedTitle: 'Copied',
+    copiedMessage: 'The lead table was copied to the clipboard.',
+    copyFailed: 'Copying failed.',
+    legend: 'BL = body lengths ({length}) | swinging through, without reaction time',
+  },
+  wind: {
+    direction: 'Wind direction',
+    headwind: 'Headwind',
+    tailwind: 'Tailwind',
+    fromRight: 'from the right',
+    fromLeft: 'from the left',
+    fromFrontRight: '{angle}° from front right',
+    fromRearRight: '{angle}° from rear right',
+    fromRearLeft: '{angle}° from rear left',
+    fromFrontLeft: '{angle}° from front left',
+    clock: "{text} ({hour} o'clock)",
+    shooter: 'Shooter',
+    clockCaption: "Clock position the wind comes from (target at 12 o'clock)",
+    zoneTitle: 'Zone {index} | {from} – {to}',
+    zoneRemove: 'Remove',
+    zoneEnd: 'Up to distance',
+    zoneSpeed: 'Wind speed',
+    zoneVertical: 'Vertical wind',
+    verticalNone: 'none',
+    updraft: '{speed} updraft',
+    downdraft: '{speed} downdraft',
+    addZone: '+ Add wind zone',
+  },
+  export: {
+    rangeCardHeader: 'RANGE CARD',
+    leadTableHeader: 'LEAD TABLE',
+    profile: 'Profile: {name}',
+    caliber: 'Calibre: {caliber}',
+    ammunition: 'Ammunition: {name}',
+    bulletWeight: 'Bullet weight: {weight}',
+    construction: 'Construction: {construction}',
+    minImpactVelocity: 'Min. impact velocity: {velocity}',
+    muzzleVelocity: 'MV: {velocity}',
+    trued: ' (trued)',
+    dragModel: 'Drag model: {model}',
+    dragModelFallback: ' (no {model} data for this load)',
+    bcScale: 'BC factor (trued): {scale}',
+    zero: 'Zero: {distance}',
+    zeroConditions: 'Zeroed at: {temperature}, {altitude}',
+    sightHeight: 'Sight height: {height}',
+    twist: 'Twist: 1:{rate}" {direction}',
+    twistLeft: 'left',
+    twistRight: 'right',
+    turret: 'Turret: {clickValue}/click | {travel} clicks travel, {above} above the zero{zeroStop}',
+    zeroStop: ' | zero stop ({clicks} clicks below)',
+    wind: 'Wind: {speed} | {direction}',
+    windZone: 'Wind {from} – {to}: {speed} | {direction}',
+    windZoneLast: 'Wind from {from}: {speed} | {direction}',
+    columnDistance: 'Dist',
+    columnDrop: 'Drop',
+    columnDrift: 'Drift',
+    columnClicks: 'Clicks',
+    speciesLimit: '▲ {species} up to {distance}',
+    ethicalRanges: 'Max. distance (minimum energy):',
+    notLegal: 'not legal',
+    tooWeak: 'too weak',
+    legend: 'Legend:',
+    legendAbove: '+ = above target | - = below target',
+    legendSide: 'R = right | L = left',
+    legendZero: '* = zero distance',
+    legendSpecies: '▲ = energy limit of the species',
+    legendExpansion: '! = no reliable expansion (too slow)',
+    legendClicks: 'Clicks: ↑↓ elevation, ←→ windage (turn direction)',
+    legendBeyond: '# = not enough travel, hold with the reticle',
+    game: 'Game: {species} ({length})',
+    crossingAngle: 'Crossing angle: {angle}°',
+    broadside: ' (broadside)',
+    legendLead: '{unit}/BL = lead in {unit} / body lengths',
+    legendSwing: 'Lead when swinging through,',
+    legendReaction: "without the shooter's reaction time",
+    generated: 'Generated with the Ostermayer AG app',
+    rangeCardTitle: 'Range card - {name}',
+    leadTableTitle: 'Lead table - {name}',
+    exportTitle: 'Export range card',
+    exportMessage: 'Choose an export option:',
+    copy: 'Copy',
+    share: 'Share',
+    copiedTitle: 'Copied',
+    copiedMessage: 'The range card was copied to the clipboard.',
+    copyFailed: 'Copying failed.',
+  },
+  welcome: {
+    tagline: 'Premium hunting since 2019',
+    title: 'Ballistics Calculator',
+    subtitle: 'Calculate precise holds for your hunting rifle. Create profiles for different rifles and ammunition.',
+    featureTrajectory: 'Precise trajectory calculation',
+    featureWind: 'Wind drift calculation',
+    featureRangeCard: 'Shareable range card',
+    featureProfiles: 'Multiple rifle profiles',
+    start: 'Get started',
+    footer: 'Set up your first rifle profile in just 3 steps',
+  },
+  onboarding: {
+    step: 'Step {step} of {total}',
+  },
+  caliber: {
+    title: 'Calibre & ammunition',
+    instruction: 'Choose the calibre and load of your hunting rifle',
+    loadCountOne: '1 load available',
+    loadCount: '{count} loads available',
+    weight: 'Weight',
+  },
+  ammunition: {
+    title: 'Choose ammunition',
+    noCaliber: 'Please choose a calibre first',
+    selectedCaliber: 'Selected calibre:',
+    instruction: 'Choose the load / ammunition',
+    bulletWeight: 'Bullet weight',
+  },
+  zero: {
+    title: 'Zero data',
+    distanceSection: 'Zero distance',
+    instruction: 'Choose your zero distance and method',
+    recommended: 'Recommended',
+    geeDescription: 'Optimal zero distance for ±{deviation} deviation',
+    nearZero: 'Near zero',
+    farZero: 'Far zero',
+    pointBlank: 'Point blank',
+    standardLabel: '{distance} standard',
+    standardDescription: 'Zeroed exactly at {distance}',
+    sightHeightSection: 'Sight height',
+    sightHeightInstruction: 'Height of the optical axis above the bore axis',
+    sightHeightLabel: 'Height above bore',
+    sightHeightHint: 'Typically {range} for scopes on standard mounts',
+    twistSection: 'Twist rate',
+    twistInstruction: 'Barrel length per turn of the rifling (for spin drift and stability)',
+    twistLabel: 'Twist',
+    twistHint: 'Preset to the C.I.P./SAAMI standard of the calibre',
+    barrelSection: 'Barrel length',
+    barrelInstruction: "The manufacturer's MV applies to its test barrel ({length}). Shorter barrels shoot slower, longer ones faster.",
+    barrelLabel: 'Barrel length',
+    barrelHint: "Without a barrel length the manufacturer's MV is used unchanged",
+    barrelAdjustment: 'MV with this barrel: {velocity} ({adjustment} versus the test barrel)',
+    resetBarrel: 'Use the test barrel length',
+    powderSection: 'Powder temperature',
+    powderInstruction: 'Change in MV per °C away from {reference} °C powder temperature',
+    powderLabel: 'Temperature sensitivity',
+    powderHint: 'Temperature-stable powders approx. {stable}, common powders {common}. 0 = no correction',
+    conditionsSection: 'Zero conditions',
+    conditionsInstruction: 'Weather and altitude at the range where the rifle was zeroed',
+    temperature: 'Temperature',
+    altitude: 'Altitude above sea level',
+    resetConditions: 'Reset to standard atmosphere',
+    conditionsHint: 'The hold is calculated once for these conditions. In other weather the point of impact then shifts as it does in the field. Without an entry: {temperature} at sea level',
+  },
+  summary: {
+    title: 'Summary',
+    missingSelection: 'Please choose a calibre and ammunition',
+    saveFailed: 'The profile could not be saved',
+    profileName: 'Profile name',
+    selection: 'Your selection',
+    caliber: 'Calibre',
+    ammunition: 'Ammunition',
+    bulletWeight: 'Bullet weight',
+    muzzleVelocity: 'Muzzle velocity',
+    dragModel: 'Drag model',
+    zeroDistance: 'Zero distance',
+    zeroMethod: 'Zero method',
+    standard: 'Standard',
+    sightHeight: 'Sight height',
+    twist: 'Twist',
+    barrelLength: 'Barrel length',
+    barrelAdjustment: 'Manufacturer {velocity} ({testBarrel} test barrel), {adjustment} for {length} barrel',
+    powderTemperature: 'Powder temperature',
+    zeroConditions: 'Zero conditions',
+    standardAtmosphere: 'Standard atmosphere',
+    note: 'You can change these settings in your profile at any time or add further profiles.',
+    create: 'Create profile',
+  },
+  profiles: {
+    title: 'Profiles',
+    countOne: '1 profile',
+    count: '{count} profiles',
+    deleteTitle: 'Delete profile',
+    deleteConfirm: 'Do you really want to delete "{name}"?',
+    deleteFailed: 'The profile could not be deleted',
+    emptyTitle: 'No profiles',
+    emptyText: 'Create your first rifle profile to use the ballistics calculator.',
+    add: 'Create new profile',
+  },
+  optic: {
+    title: 'Scope',
+    notFound: 'Profile not found',
+    travel: '{clicks} clicks ({value} {unit})',
+    saveFailed: 'The profile could not be saved',
+    removeTitle: 'Remove turret data',
+    removeMessage: 'Without turret data no clicks are shown.',
+    remove: 'Remove',
+    clickValue: 'Click value',
+    clickValueInstruction: 'Adjustment per click on the elevation and windage turrets',
+    travelSection: 'Travel',
+    travelInstruction: 'Total elevation travel according to the manufacturer.',
+    travelLabel: 'Total elevation',
+    aboveZeroSection: 'Above the zero',
+    aboveZeroInstruction: 'Clicks the elevation turret turns up from your zero to the top stop. Scopes are often zeroed well below the middle: count them once by dialing up to the stop and back.',
+    aboveZeroLabel: 'Elevation above zero',
+    zeroStopSection: 'Zero stop',
+    hasZeroStop: 'Turret has a zero stop',
+    zeroStopLabel: 'Clicks below zero',
+    zeroStopAtZero: 'stops at zero',
+    clicks: '{clicks} clicks',
+    reticleSection: 'Reticle',
+    reticleInstruction: 'For holding with reticle marks instead of clicks',
+    noReticle: 'No reticle',
+    customDescription: 'Evenly spaced marks, spacing in mrad',
+    focalPlanes: {
+      ffp: 'First focal plane',
+      sfp: 'Second focal plane',
+    },
+    referenceMagnification: 'True to scale at',
+    spacing: 'Mark spacing',
+    elevationMarks: 'Marks below',
+    windageMarks: 'Marks to the side (each side)',
+  },
+  truing: {
+    title: 'Truing',
+    notFound: 'Profile not found',
+    parameters: {
+      muzzleVelocity: {
+        label: 'Muzzle velocity (MV)',
+        description: 'Recommended - barrel length and powder lot usually differ from the test barrel',
+      },
+      bcScale: {
+        label: 'BC factor',
+        description: 'When MV was measured with a chronograph and only the long shots are off',
+      },
+    },
+    invalidTitle: 'Invalid input',
+    invalidMessage: 'Please enter the distance and point of impact for every observation.',
+    tooCloseTitle: 'Distance too short',
+    tooCloseMessage: 'Observations must be beyond the zero distance ({distance}).',
+    savedTitle: 'Saved',
+    savedMessage: 'The trued value was saved in the profile.',
+    saveFailed: 'The profile could not be saved',
+    resetTitle: 'Reset truing',
+    resetMessage: 'Reset MV and BC to the manufacturer data? The history is kept.',
+    reset: 'Reset',
+    manufacturerValue: ' (manufacturer {value})',
+    bcScale: 'BC factor',
+    resetToManufacturer: 'Reset to manufacturer data',
+    parameterSection: 'Value to adjust',
+    observationsSection: 'Observed point of impact',
+    observationsInstruction: 'Shoot holding on the target and measure how far the impacts are below the hold',
+    distanceColumn: 'Distance ({unit})',
+    dropColumn: 'Low by ({unit})',
+    addObservation: '+ Another distance',
+    conditionsSection: 'Conditions when shooting',
+    temperature: 'Temperature',
+    pressure: 'Air pressure',
+    calculate: 'Calculate',
+    result: 'Result',
+    previous: 'Previous',
+    trued: 'Trued',
+    rmsError: 'Remaining error (RMS)',
+    inconsistent: 'The observations do not agree well - check the measurements and conditions.',
+    apply: 'Save in profile',
+    history: 'History',
+  },
+  customAmmo: {
+    title: 'Custom load',
+    titleEdit: 'Edit load',
+    add: '+ Custom load',
+    edit: 'Edit',
+    unverified: 'Unverified',
+    unverifiedNote: 'Your own data is not checked against manufacturer data. Enter the values carefully and verify the trajectory on the range before hunting.',
+    unverifiedShort: 'Own data - verify on the range before hunting.',
+    unverifiedCatalogue: 'Catalogue values, not yet checked against the data sheet - verify on the range before hunting.',
+    optional: '(optional)',
+    namePlaceholder: 'e.g. Handload 168 gr ELD-X',
+    bulletSection: 'Bullet',
+    bcSection: 'Ballistic coefficient',
+    velocitySection: 'Muzzle velocity',
+    fields: {
+      name: 'Name',
+      bulletWeight: 'Bullet weight',
+      bulletLength: 'Bullet length',
+      bulletDiameter: 'Bullet diameter',
+      ballisticCoefficient: 'BC (G1)',
+      bcG7: 'BC (G7)',
+      bcBands: 'BC by velocity',
+      muzzleVelocity: 'Muzzle velocity',
+      testBarrelLength: 'Barrel length when measured',
+    },
+    bandsHint: 'For bullets with several published BCs. Each BC applies from the given velocity up, below the lowest step the last one. The steps are only used with the drag model they are published for.',
+    bandsModel: 'Published for',
+    bandFrom: 'from',
+    addBand: '+ Velocity step',
+    invalid: 'Please correct the marked fields.',
+    delete: 'Delete load',
+    deleteTitle: 'Delete load',
+    deleteConfirm: 'Delete "{name}"? Profiles using this load keep their values.',
+    saveFailed: 'The load could not be saved.',
+    deleteFailed: 'The load could not be deleted.',
+    errors: {
+      required: 'Required',
+      range: 'Allowed: {min} to {max}',
+      duplicateName: 'This caliber already has a load with this name.',
+      duplicateBand: 'This velocity is already used.',
+    },
+  },
+  profileEdit: {
+    title: 'Edit profile',
+    notFound: 'Profile not found.',
+    name: 'Profile name',
+    ammunition: 'Ammunition',
+    ammunitionChanged: 'The new ammunition is applied when you save. Truing values of the previous ammunition are reset.',
+    barrelTrued: 'The trued MV was measured with your barrel. The barrel length does not change it.',
+    saveFailed: 'The profile could not be saved.',
+    resetTruingTitle: 'Reset truing',
+    resetTruingMessage: 'The trued muzzle velocity and BC factor only apply to the previous ammunition and will be reset. The history is kept.',
+  },
+  dataPack: {
+    section: 'Ammunition data',
+    name: 'Data pack',
+    version: 'Version {version}, {date}',
+    origin: 'Origin',
+    bundled: 'Shipped with the app',
+    imported: 'Imported',
+    pendingOne: '1 profile uses changed ammunition data. You can apply the new data in the profile list.',
+    pending: '{count} profiles use changed ammunition data. You can apply the new data in the profile list.',
+    import: 'Import data pack',
+    reset: 'Use the bundled data pack',
+    resetTitle: 'Reset data pack',
+    resetConfirm: 'The imported data pack is removed and the one shipped with the app is used.',
+    resetFailed: 'Could not reset the data pack',
+    readFailed: 'Could not read the file',
+    invalidTitle: 'Invalid data pack',
+    invalid: 'The file does not match the data pack format:\n{errors}',
+    moreErrors: '… and {count} more',
+    otherPack: 'The file is not a data pack of this app ({id}).',
+    notNewer: 'Version {version} is not newer than the active data pack (version {active}).',
+    importedTitle: 'Data pack imported',
+    importedMessage: '{name}, version {version} is now active.',
+    updates: 'Changed ammunition data in: {profiles}. You can apply the new data in the profile list.',
+    importFailed: 'Could not save the data pack',
+    changed: 'Ammunition data changed in data pack v{version}',
+    removed: 'Ammunition no longer in data pack v{version}, the stored data is kept',
+    truedHint: 'Check the truing after applying.',
+    apply: 'Apply',
+    acknowledge: 'Got it',
+    applyFailed: 'Could not save the profile',
+    errors: {
+      json: 'not a JSON file',
+      type: 'wrong type',
+      required: 'missing',
+      unknown: 'unknown field',
+      range: 'out of the allowed range',
+      value: 'invalid value',
+      duplicate: 'duplicate',
+      order: 'wrong order',
+      schemaVersion: 'unsupported format version',
+    },
+  },
+};
+
+export default en;
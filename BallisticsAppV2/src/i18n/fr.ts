@@ -0,0 +1,685 @@
+import { Translations } from './de';
+
+/**
+ * French catalogue.
+ */
+const fr: Translations = {
+  common: {
+    cancel: 'Annuler',
+    back: 'Retour',
+    next: 'Suivant',
+    save: 'Enregistrer',
+    delete: 'Supprimer',
+    error: 'Erreur',
+    ok: 'OK',
+  },
+  tabs: {
+    calculator: 'Calculateur',
+    profiles: 'Profils',
+    settings: 'Réglages',
+  },
+  calculator: {
+    title: 'Calculateur balistique',
+    noProfileTitle: 'Aucun profil actif',
+    noProfileText: 'Veuillez choisir un profil ou en créer un nouveau.',
+    goToProfiles: 'Vers les profils',
+    modeHold: 'Point de visée',
+    modeLead: 'Avance (en mouvement)',
+    distance: 'Distance',
+    gait: 'Allure',
+    targetSpeed: 'Vitesse',
+    crossingAngle: 'Angle de course',
+    crossingBroadside: 'Travers (90°)',
+    crossingHeadOn: 'De face (0°)',
+    crossingQuartering: 'En biais ({angle}°)',
+    species: 'Gibier',
+    showLeadTable: "Afficher la table d'avance",
+    hideLeadTable: "Masquer la table d'avance",
+    estimateToggle: 'Estimer la distance (réticule)',
+    estimateTarget: 'Taille de la cible (hauteur de poitrine)',
+    estimateCustom: 'Personnalisée',
+    estimateTargetSize: 'Taille de la cible',
+    estimateUnit: 'Mesuré en',
+    estimateReading: 'Lecture',
+    estimateDistance: 'env. {distance}',
+    estimateBand: 'Plage {min} - {max}',
+    estimateUnlimited: 'illimitée',
+    estimateErrors: '(±{reading} {unit} erreur de lecture, ±{size} % taille de la cible)',
+    estimateDrops: 'Chute de {near} à {nearDistance} à {far} à {farDistance}',
+    estimateSfp: 'Second plan focal : lecture à {magnification}x convertie à {reference}x',
+    shotAngle: 'Angle de tir',
+    shotLevel: 'À plat',
+    shotUphill: '{angle}° en montée',
+    shotDownhill: '{angle}° en descente',
+    slopeDistances: 'Distance laser {laser} • Distance horizontale {horizontal}',
+    reticleHold: 'Point de visée dans le réticule',
+    magnification: 'Grossissement',
+    showRangeCard: 'Afficher la table de tir',
+    hideRangeCard: 'Masquer la table de tir',
+    hitProbability: "Probabilité d'impact",
+    vitalZone: 'Zone vitale',
+    dispersion: 'Dispersion arme/tireur (1σ)',
+    muzzleVelocitySD: 'Dispersion V0 (1σ)',
+    bcUncertainty: 'Incertitude BC (1σ)',
+    rangeErrorSD: 'Erreur de distance (1σ)',
+    windSpeedSD: 'Erreur de vent (1σ)',
+    windSettings: 'Réglages du vent',
+    windZones: 'Zones de vent le long de la trajectoire',
+    windSpeed: 'Vitesse du vent',
+    windFineTuning: 'Réglage fin',
+    environment: 'Conditions ambiantes',
+    environmentAuto: 'Auto',
+    environmentRefresh: 'Actualiser',
+    environmentDetected: 'Détecté automatiquement • {time}',
+    environmentManual: 'Saisie manuelle',
+    temperature: 'Température',
+    pressure: 'Pression atmosphérique',
+    altitude: 'Altitude',
+    humidity: 'Humidité',
+    separatePowderTemp: 'Température de poudre séparée',
+    powderTemperature: 'Température de la poudre',
+    earthRotation: 'Rotation de la Terre (Coriolis/Eötvös)',
+    latitude: 'Latitude',
+    latitudeNorth: '{angle}° N',
+    latitudeSouth: '{angle}° S',
+    azimuth: 'Direction de tir',
+    compassPoints: 'N,NE,E,SE,S,SO,O,NO',
+    environmentNote: "Les conditions ambiantes influencent la densité de l'air et donc la trajectoire. En altitude et par temps chaud, l'air est plus léger - la balle chute moins.",
+    activeProfile: 'Profil actif',
+    caliber: 'Calibre',
+    ammunition: 'Munition',
+    bullet: 'Projectile',
+    expansionRange: "Expansion fiable jusqu'à",
+    effectiveMuzzleVelocity: 'V0 (effective)',
+    nominalMuzzleVelocity: ' (nominale {velocity})',
+    dragModel: 'Modèle',
+    dragModelFallback: ' (pas de données {model} pour cette munition)',
+    zero: 'Zéro',
+  },
+  settings: {
+    title: 'Réglages',
+    signOut: 'Se déconnecter',
+    signOutConfirm: 'Voulez-vous vraiment vous déconnecter ?',
+    notSignedInTitle: 'Non connecté',
+    notSignedInMessage: 'Veuillez vous connecter pour synchroniser les profils.',
+    noProfilesTitle: 'Aucun profil',
+    noProfilesMessage: "Il n'y a aucun profil local à synchroniser.",
+    successTitle: 'Succès',
+    syncSuccess: '{count} profils ont été synchronisés dans le cloud.',
+    syncFailed: "Les profils n'ont pas pu être synchronisés.",
+    correctionLinear: 'Linéaire ({unit})',
+    resetTitle: 'Supprimer toutes les données',
+    resetConfirm: 'Voulez-vous vraiment supprimer tous les profils et réglages ? Cette action est irréversible.',
+    resetSuccess: "Toutes les données ont été supprimées. Veuillez redémarrer l'application.",
+    resetFailed: "Les données n'ont pas pu être supprimées",
+    cloudSection: 'Cloud & compte',
+    signedIn: 'Connecté',
+    cloudProfiles: 'Profils cloud',
+    cloudProfileCount: '{count} profils dans le cloud',
+    syncLocal: 'Synchroniser les profils locaux',
+    localCount: '{count} en local',
+    signIn: 'Se connecter',
+    signInDescription: 'Synchroniser les profils entre appareils',
+    languageSection: 'Langue',
+    unitSystemSection: "Système d'unités",
+    correctionSection: 'Corrections',
+    aboutSection: "À propos de l'application",
+    version: 'Version',
+    ballisticModel: 'Modèle balistique',
+    dataVerified: 'Données vérifiées',
+    dataSourcesSection: 'Sources de données & méthode',
+    modelTitle: 'Modèle de calcul balistique',
+    modelText: "Cette application utilise les modèles de traînée standard G1, G2, G5, G6, G7, G8 et GI ainsi que des courbes de traînée des fabricants (CDM, Mach/Cd) avec intégration numérique (trajectoire point-masse). Le modèle G7 convient mieux aux balles modernes à culot en dépouille. Le calcul tient compte de :",
+    modelGravity: '• Pesanteur (9,81 m/s²)',
+    modelDrag: "• Résistance de l'air selon le modèle G ou une courbe de traînée propre",
+    modelDensity: "• Densité de l'air (température, pression)",
+    modelWind: '• Dérive due au vent (vent de travers)',
+    modelSightHeight: '• Hauteur de la lunette au-dessus du canon',
+    methodTitle: 'Méthode de calcul par valeur',
+    dropName: 'Point de visée (chute)',
+    dropFormula: 'Position = hauteur initiale + ∫∫(accélération) dt²',
+    dropText: "Écart vertical par rapport au point visé. Calculé par intégration numérique de la trajectoire en tenant compte de la pesanteur (g = 9,81 m/s²), de la résistance de l'air et de l'angle de tir. Positif (+) = au-dessus du point visé, négatif (-) = en dessous.",
+    driftName: 'Dérive due au vent',
+    driftFormula: 'Dérive = ∫(force du vent × dt)',
+    driftText: "Écart latéral dû au vent de travers. Composante du vent = vitesse du vent × sin(angle du vent). Positif (+) = dérive à droite, négatif (-) = dérive à gauche.",
+    timeName: 'Temps de vol',
+    timeFormula: "t = ∑(Δt) jusqu'à la distance de la cible",
+    timeText: "Temps total entre la sortie du canon et la distance de la cible. Calculé par pas de 1 ms par intégration numérique.",
+    velocityName: 'V @ cible (vitesse)',
+    velocityText: "Vitesse restante à la distance de la cible. Calculée à partir des composantes horizontale (vx) et verticale (vy) après freinage par la résistance de l'air.",
+    energyName: 'Énergie',
+    energyText: 'Énergie cinétique du projectile à la distance de la cible en joules. m = poids du projectile (grain × 0,0000648 kg), v = vitesse restante en m/s.',
+    dragName: 'Calcul de la traînée',
+    dragText: "Décélération due à la résistance de l'air. K = 0,000871, ρ = densité de l'air actuelle, ρ₀ = 1,225 kg/m³ (atmosphère standard), Cd = coefficient de traînée du modèle choisi (G1-G8/GI selon Mach, table JBM, ou courbe Mach/Cd propre), BC = coefficient balistique (avec une courbe propre : densité sectionnelle en lb/in²).",
+    ammoSourcesTitle: 'Données des munitions - sources primaires',
+    ammoSourcesText: 'Tous les coefficients balistiques (BC) et vitesses initiales proviennent des données officielles des fabricants :',
+    sourceProductLines: 'Gammes : {lines}',
+    sourceCalibers: 'Calibres : {calibers} (chargements : {count})',
+    sourceTestBarrel: "Canon d'essai : {lengths}",
+    sourceVerified: 'Dernière vérification : {date}',
+    sourceUnverified: 'Valeurs de catalogue non vérifiées : {count} munitions',
+    referencesTitle: 'Ouvrages de référence & validation',
+    referenceLitz: 'Ouvrage de référence pour les mesures de BC',
+    referenceJbm: 'Validation du calcul de trajectoire',
+    noticesTitle: 'Remarques importantes',
+    noticeStandard: 'Les valeurs indiquées sont des moyennes en conditions standard (atmosphère standard OACI : 15 °C, 1013,25 hPa, niveau de la mer).',
+    noticeVariation: "Les performances réelles peuvent varier selon la longueur du canon, la température ambiante, l'altitude, l'humidité et l'arme.",
+    noticeVerify: "Vérifiez toutes les distances avec votre propre arme avant la chasse. Cette application est une aide au calcul, elle ne remplace pas le réglage au stand.",
+    visitWebsite: 'Visiter le site',
+    about: 'Chasse premium depuis 2019. Qualité et tradition réunies.',
+    dangerSection: 'Zone de danger',
+    resetDescription: 'Supprime tous les profils et réglages',
+  },
+  unitSystems: {
+    metric: { label: 'Métrique', description: 'm, cm, m/s, J, g, °C, hPa' },
+    imperial: { label: 'Impérial', description: 'yd, in, fps, ft·lbf, gr, °F, inHg' },
+    mixed: { label: 'Mixte', description: 'yd, in, fps, ft·lbf, gr avec °C, hPa, m' },
+  },
+  species: {
+    wildBoar: 'Sanglier',
+    redDeer: 'Cerf élaphe',
+    fallowDeer: 'Daim',
+    chamois: 'Chamois',
+    roeDeer: 'Chevreuil',
+  },
+  targetSpeed: {
+    walking: 'Pas',
+    trotting: 'Trot',
+    running: 'Fuite',
+  },
+  construction: {
+    bonded: 'Noyau soudé (bonded)',
+    monolithic: 'Monolithique',
+    softPoint: 'Pointe molle',
+    fragmenting: 'Fragmentation partielle',
+  },
+  clickValues: {
+    quarterMoa: '1/4 MOA',
+    tenthMil: '0,1 mrad',
+    cm: '1 cm/100 m',
+  },
+  reticles: {
+    plex: 'Plex / Duplex (sans repères)',
+    milDotFfp: 'Mil-Dot (premier plan focal)',
+    milDotSfp: 'Mil-Dot (second plan focal, 10x)',
+    milHashFfp: 'Graduations 0,5 mrad (premier plan focal)',
+    moaHashSfp: 'Graduations 2 MOA (second plan focal, 12x)',
+    custom: 'Réticule personnalisé',
+  },
+  result: {
+    hold: 'Point de visée',
+    aboveAim: 'au-dessus du point visé',
+    belowAim: 'en dessous du point visé',
+    right: 'D {value}',
+    left: 'G {value}',
+    drift: 'Dérive due au vent',
+    clicksElevation: 'Clics hauteur ({clickValue})',
+    clicksUp: '{clicks} en haut',
+    clicksDown: '{clicks} en bas',
+    clicksWindage: 'Clics dérive',
+    clicksRight: '{clicks} à droite',
+    clicksLeft: '{clicks} à gauche',
+    time: 'Temps de vol',
+    timeValue: '{time}s',
+    velocity: 'V @ cible',
+    energy: 'Énergie',
+    mach: 'Mach @ cible',
+    coriolis: 'dont Coriolis',
+    eotvos: 'Eötvös (hauteur)',
+    stability: 'Stabilité (Sg)',
+    spinDrift: 'dont dérive gyroscopique',
+    marginalStability: 'Stabilité limite (Sg inférieur à {min}). Le projectile peut perdre du BC ou voler de façon instable - choisir un pas de rayure plus rapide ou un projectile plus court.',
+    exceedsElevation: 'Course insuffisante : {clicks} clics vers le haut nécessaires, seulement {available} disponibles. Compenser le reste avec le réticule ou réduire la distance.',
+    belowZeroStop: 'Sous la butée zéro : {clicks} clics vers le bas nécessaires. Viser plus bas au lieu de tourner.',
+    belowExpansion: "Vitesse d'impact inférieure à {velocity}. Le projectile ne s'expanse plus de façon fiable - réduire la distance.",
+  },
+  ethicalRange: {
+    title: "Limite d'énergie",
+    onlyUntil: "{species} : seulement jusqu'à {distance}",
+    tooWeak: '{species} : trop faible',
+    minEnergy: ' (min. {energy})',
+    notLegal: '{species} : non autorisé par la loi',
+    caliberTooSmall: ' (calibre inférieur à 6,5 mm)',
+    energyTooLow: ' (énergie minimale non atteinte)',
+  },
+  reticleView: {
+    center: 'Centre',
+    mark: '{index}e repère {side}',
+    below: 'en bas',
+    left: 'à gauche',
+    right: 'à droite',
+    elevation: 'Hauteur : {mark}',
+    windage: 'Dérive : {mark}',
+    errorLower: ' ({value} plus bas)',
+    errorHigher: ' ({value} plus haut)',
+    errorRight: ' ({value} plus à droite)',
+    errorLeft: ' ({value} plus à gauche)',
+    sfpNote: "Second plan focal : repères à {magnification}x convertis d'un facteur {scale} (à l'échelle à {reference}x)",
+  },
+  rangeCard: {
+    title: 'Table de tir',
+    distance: 'Dist.',
+    drop: 'Hauteur',
+    drift: 'Dérive',
+    clicks: 'Clics',
+    right: 'D {value}',
+    left: 'G {value}',
+    speciesLimit: "▲ {species} jusqu'à {distance} (min. {energy})",
+    wind: 'Vent : {speed} | {direction}',
+    copy: 'Copier',
+    share: 'Partager',
+    copiedTitle: 'Copié',
+    copiedMessage: 'La table de tir a été copiée dans le presse-papiers.',
+    copyFailed: 'La copie a échoué.',
+    legend: "+ = au-dessus de la cible | - = en dessous | D = droite | G = gauche | ▲ = limite d'énergie",
+    legendClicks: 'Clics : ↑↓ hauteur, ←→ dérive (sens de rotation) | rouge = course insuffisante',
+    legendExpansion: 'V rouge = inférieure à {velocity}, expansion non fiable',
+  },
+  profileCard: {
+    active: 'Actif',
+    zero: 'Zéro',
+    muzzleVelocity: 'V0',
+    muzzleVelocityTrued: 'V0 (ajustée)',
+    barrelAdjustment: '{adjustment} pour un canon de {length}',
+    ethicalRanges: 'Distance max. (énergie minimale)',
+    notLegal: 'non autorisé',
+    edit: 'Modifier',
+    true: 'Ajustement',
+    optic: 'Lunette',
+    delete: 'Supprimer',
+  },
+  hitProbability: {
+    title: "Probabilité d'impact",
+    percent: '{percent} %',
+    vitalZone: 'Zone vitale {diameter} à {distance}',
+    scatterCaption: "Extrait ±{extent} | Point moyen d'impact {side} {x} / {y}",
+    right: 'D',
+    left: 'G',
+    spreadHorizontal: 'Dispersion latérale (1σ)',
+    spreadVertical: 'Dispersion verticale (1σ)',
+    warning: "Probabilité d'impact inférieure à {percent} %. Se rapprocher, mieux s'appuyer ou renoncer au tir.",
+  },
+  lead: {
+    title: 'Avance',
+    value: '{lead}',
+    description: 'devant le point de visée, dans le sens de la course',
+    bodyLengths: 'Longueurs de corps ({species})',
+    reticle: 'Réticule',
+    mil: '{mil} MIL',
+    time: 'Temps de vol',
+    timeValue: '{time}s',
+    targetSpeed: 'Vitesse de la cible',
+    speed: '{speed}',
+    note: "Tir en accompagnant, sans temps de réaction. Qui arrête l'arme au départ du coup a besoin de nettement plus d'avance.",
+  },
+  leadCard: {
+    title: "Table d'avance",
+    broadside: 'travers',
+    distance: 'Dist.',
+    speed: '({speed})',
+    rowDistance: '{distance}',
+    lead: '{lead}',
+    bodyLengths: '{value} LC',
+    copy: 'Copier',
+    share: 'Partager',
+    copiedTitle: 'Copié',
+    copiedMessage: "La table d'avance a été copiée dans le presse-papiers.",
+    copyFailed: 'La copie a échoué.',
+    legend: 'LC = longueurs de corps ({length}) | en accompagnant, sans temps de réaction',
+  },
+  wind: {
+    direction: 'Direction du vent',
+    headwind: 'Vent de face',
+    tailwind: 'Vent arrière',
+    fromRight: 'de droite',
+    fromLeft: 'de gauche',
+    fromFrontRight: '{angle}° avant droit',
+    fromRearRight: '{angle}° arrière droit',
+    fromRearLeft: '{angle}° arrière gauche',
+    fromFrontLeft: '{angle}° avant gauche',
+    clock: '{text} ({hour} h)',
+    shooter: 'Tireur',
+    clockCaption: "Heure d'où vient le vent (cible à 12 h)",
+    zoneTitle: 'Zone {index} | {from} – {to}',
+    zoneRemove: 'Retirer',
+    zoneEnd: "Jusqu'à la distance",
+    zoneSpeed: 'Vitesse du vent',
+    zoneVertical: 'Vent vertical',
+    verticalNone: 'aucun',
+    updraft: '{speed} ascendant',
+    downdraft: '{speed} descendant',
+    addZone: '+ Ajouter une zone de vent',
+  },
+  export: {
+    rangeCardHeader: 'TABLE DE TIR',
+    leadTableHeader: "TABLE D'AVANCE",
+    profile: 'Profil : {name}',
+    caliber: 'Calibre : {caliber}',
+    ammunition: 'Munition : {name}',
+    bulletWeight: 'Poids du projectile : {weight}',
+    construction: 'Construction : {construction}',
+    minImpactVelocity: "Vitesse d'impact min. : {velocity}",
+    muzzleVelocity: 'V0 : {velocity}',
+    trued: ' (ajustée)',
+    dragModel: 'Modèle de traînée : {model}',
+    dragModelFallback: ' (pas de données {model} pour cette munition)',
+    bcScale: 'Facteur BC (ajusté) : {scale}',
+    zero: 'Zéro : {distance}',
+    zeroConditions: 'Réglée à : {temperature}, {altitude}',
+    sightHeight: 'Hauteur lunette : {height}',
+    twist: 'Pas de rayure : 1:{rate}" {direction}',
+    twistLeft: 'à gauche',
+    twistRight: 'à droite',
+    turret: 'Tourelle : {clickValue}/clic | {travel} clics de course, {above} au-dessus du zéro{zeroStop}',
+    zeroStop: ' | butée zéro ({clicks} clics en dessous)',
+    wind: 'Vent : {speed} | {direction}',
+    windZone: 'Vent {from} – {to} : {speed} | {direction}',
+    windZoneLast: 'Vent dès {from} : {speed} | {direction}',
+    columnDistance: 'Dist',
+    columnDrop: 'Haut.',
+    columnDrift: 'Dérive',
+    columnClicks: 'Clics',
+    speciesLimit: "▲ {species} jusqu'à {distance}",
+    ethicalRanges: 'Distance max. (énergie minimale) :',
+    notLegal: 'non autorisé',
+    tooWeak: 'trop faible',
+    legend: 'Légende :',
+    legendAbove: '+ = au-dessus de la cible | - = en dessous',
+    legendSide: 'D = droite | G = gauche',
+    legendZero: '* = distance de réglage',
+    legendSpecies: "▲ = limite d'énergie du gibier",
+    legendExpansion: '! = expansion non fiable (trop lent)',
+    legendClicks: 'Clics : ↑↓ hauteur, ←→ dérive (sens de rotation)',
+    legendBeyond: '# = course insuffisante, viser avec le réticule',
+    game: 'Gibier : {species} ({length})',
+    crossingAngle: 'Angle de course : {angle}°',
+    broadside: ' (travers)',
+    legendLead: '{unit}/LC = avance en {unit} / longueurs de corps',
+    legendSwing: 'Avance en tir accompagné,',
+    legendReaction: 'sans temps de réaction du tireur',
+    generated: "Généré avec l'application Ostermayer AG",
+    rangeCardTitle: 'Table de tir - {name}',
+    leadTableTitle: "Table d'avance - {name}",
+    exportTitle: 'Exporter la table de tir',
+    exportMessage: "Choisissez une option d'export :",
+    copy: 'Copier',
+    share: 'Partager',
+    copiedTitle: 'Copié',
+    copiedMessage: 'La table de tir a été copiée dans le presse-papiers.',
+    copyFailed: 'La copie a échoué.',
+  },
+  welcome: {
+    tagline: 'Chasse premium depuis 2019',
+    title: 'Calculateur balistique',
+    subtitle: 'Calculez des points de visée précis pour votre arme de chasse. Créez des profils pour différentes armes et munitions.',
+    featureTrajectory: 'Calcul de trajectoire précis',
+    featureWind: 'Calcul de la dérive due au vent',
+    featureRangeCard: 'Table de tir à partager',
+    featureProfiles: "Plusieurs profils d'arme",
+    start: 'Configurer maintenant',
+    footer: "Configurez votre premier profil d'arme en seulement 3 étapes",
+  },
+  onboarding: {
+    step: 'Étape {step} sur {total}',
+  },
+  caliber: {
+    title: 'Calibre & munition',
+    instruction: 'Choisissez le calibre et le chargement de votre arme de chasse',
+    loadCountOne: '1 chargement disponible',
+    loadCount: '{count} chargements disponibles',
+    weight: 'Poids',
+  },
+  ammunition: {
+    title: 'Choisir la munition',
+    noCaliber: "Veuillez d'abord choisir un calibre",
+    selectedCaliber: 'Calibre choisi :',
+    instruction: 'Choisissez le chargement / la munition',
+    bulletWeight: 'Poids du projectile',
+  },
+  zero: {
+    title: 'Données de réglage',
+    distanceSection: 'Distance de réglage',
+    instruction: 'Choisissez votre distance et méthode de réglage',
+    recommended: 'Recommandé',
+    geeDescription: "Distance de réglage optimale pour ±{deviation} d'écart",
+    nearZero: 'Zéro proche',
+    farZero: 'Zéro lointain',
+    pointBlank: 'Tir direct',
+    standardLabel: '{distance} standard',
+    standardDescription: 'Zéro exactement à {distance}',
+    sightHeightSection: 'Hauteur de la lunette',
+    sightHeightInstruction: "Hauteur de l'axe optique au-dessus de l'axe du canon",
+    sightHeightLabel: 'Hauteur au-dessus du canon',
+    sightHeightHint: 'En général {range} pour des lunettes sur montage standard',
+    twistSection: 'Pas de rayure',
+    twistInstruction: 'Longueur de canon par tour de rayure (pour la dérive gyroscopique et la stabilité)',
+    twistLabel: 'Pas',
+    twistHint: 'Prérempli avec le standard C.I.P./SAAMI du calibre',
+    barrelSection: 'Longueur du canon',
+    barrelInstruction: "La V0 du fabricant correspond à son canon d'essai ({length}). Un canon plus court tire plus lentement, un canon plus long plus vite.",
+    barrelLabel: 'Longueur du canon',
+    barrelHint: 'Sans longueur de canon, la V0 du fabricant est utilisée telle quelle',
+    barrelAdjustment: "V0 avec ce canon : {velocity} ({adjustment} par rapport au canon d'essai)",
+    resetBarrel: "Utiliser la longueur du canon d'essai",
+    powderSection: 'Température de la poudre',
+    powderInstruction: "Variation de la V0 par °C d'écart à {reference} °C de température de poudre",
+    powderLabel: 'Sensibilité à la température',
+    powderHint: 'Poudres stables en température env. {stable}, poudres courantes {common}. 0 = pas de correction',
+    conditionsSection: 'Conditions de réglage',
+    conditionsInstruction: "Météo et altitude au stand où l'arme a été réglée",
+    temperature: 'Température',
+    altitude: 'Altitude',
+    resetConditions: "Revenir à l'atmosphère standard",
+    conditionsHint: "Le point de visée est calculé une fois pour ces conditions. Par un autre temps, le point d'impact se déplace alors comme dans la pratique. Sans indication : {temperature} au niveau de la mer",
+  },
+  summary: {
+    title: 'Récapitulatif',
+    missingSelection: 'Veuillez choisir un calibre et une munition',
+    saveFailed: "Le profil n'a pas pu être enregistré",
+    profileName: 'Nom du profil',
+    selection: 'Votre sélection',
+    caliber: 'Calibre',
+    ammunition: 'Munition',
+    bulletWeight: 'Poids du projectile',
+    muzzleVelocity: 'Vitesse initiale',
+    dragModel: 'Modèle de traînée',
+    zeroDistance: 'Distance de réglage',
+    zeroMethod: 'Méthode de réglage',
+    standard: 'Standard',
+    sightHeight: 'Hauteur de la lunette',
+    twist: 'Pas de rayure',
+    barrelLength: 'Longueur du canon',
+    barrelAdjustment: "Fabricant {velocity} (canon d'essai {testBarrel}), {adjustment} pour un canon de {length}",
+    powderTemperature: 'Température de la poudre',
+    zeroConditions: 'Conditions de réglage',
+    standardAtmosphere: 'Atmosphère standard',
+    note: "Vous pouvez modifier ces réglages à tout moment dans votre profil ou ajouter d'autres profils.",
+    create: 'Créer le profil',
+  },
+  profiles: {
+    title: 'Profils',
+    countOne: '1 profil',
+    count: '{count} profils',
+    deleteTitle: 'Supprimer le profil',
+    deleteConfirm: 'Voulez-vous vraiment supprimer « {name} » ?',
+    deleteFailed: "Le profil n'a pas pu être supprimé",
+    emptyTitle: 'Aucun profil',
+    emptyText: "Créez votre premier profil d'arme pour utiliser le calculateur balistique.",
+    add: 'Créer un nouveau profil',
+  },
+  optic: {
+    title: 'Lunette',
+    notFound: 'Profil introuvable',
+    travel: '{clicks} clics ({value} {unit})',
+    saveFailed: "Le profil n'a pas pu être enregistré",
+    removeTitle: 'Supprimer les données de tourelle',
+    removeMessage: "Sans données de tourelle, aucun clic n'est plus affiché.",
+    remove: 'Supprimer',
+    clickValue: 'Valeur du clic',
+    clickValueInstruction: 'Correction par clic sur les tourelles de hauteur et de dérive',
+    travelSection: 'Course',
+    travelInstruction: 'Course totale en hauteur selon le fabricant.',
+    travelLabel: 'Hauteur totale',
+    aboveZeroSection: 'Au-dessus du zéro',
+    aboveZeroInstruction: "Clics que la tourelle de hauteur tourne depuis votre zéro jusqu'à la butée haute. Les lunettes sont souvent réglées bien en dessous du milieu : comptez-les une fois en tournant jusqu'à la butée et retour.",
+    aboveZeroLabel: 'Hauteur au-dessus du zéro',
+    zeroStopSection: 'Butée zéro',
+    hasZeroStop: 'La tourelle a une butée zéro',
+    zeroStopLabel: 'Clics sous le zéro',
+    zeroStopAtZero: "s'arrête au zéro",
+    clicks: '{clicks} clics',
+    reticleSection: 'Réticule',
+    reticleInstruction: 'Pour viser avec les repères au lieu des clics',
+    noReticle: 'Aucun réticule',
+    customDescription: 'Repères réguliers, espacement en mrad',
+    focalPlanes: {
+      ffp: 'Premier plan focal',
+      sfp: 'Second plan focal',
+    },
+    referenceMagnification: "À l'échelle à",
+    spacing: 'Espacement des repères',
+    elevationMarks: 'Repères en bas',
+    windageMarks: 'Repères latéraux (par côté)',
+  },
+  truing: {
+    title: 'Ajustement',
+    notFound: 'Profil introuvable',
+    parameters: {
+      muzzleVelocity: {
+        label: 'Vitesse initiale (V0)',
+        description: "Recommandé - la longueur du canon et le lot de poudre diffèrent généralement du canon d'essai",
+      },
+      bcScale: {
+        label: 'Facteur BC',
+        description: 'Si la V0 est mesurée au chronographe et que seuls les tirs lointains divergent',
+      },
+    },
+    invalidTitle: 'Saisie invalide',
+    invalidMessage: "Veuillez saisir la distance et le point d'impact pour chaque observation.",
+    tooCloseTitle: 'Distance trop courte',
+    tooCloseMessage: 'Les observations doivent se situer au-delà de la distance de réglage ({distance}).',
+    savedTitle: 'Enregistré',
+    savedMessage: 'La valeur ajustée a été enregistrée dans le profil.',
+    saveFailed: "Le profil n'a pas pu être enregistré",
+    resetTitle: "Réinitialiser l'ajustement",
+    resetMessage: "Remettre V0 et BC aux données du fabricant ? L'historique est conservé.",
+    reset: 'Réinitialiser',
+    manufacturerValue: ' (fabricant {value})',
+    bcScale: 'Facteur BC',
+    resetToManufacturer: 'Revenir aux données du fabricant',
+    parameterSection: 'Valeur à ajuster',
+    observationsSection: "Point d'impact observé",
+    observationsInstruction: "Tirer en visant la cible et mesurer l'écart des impacts sous le point visé",
+    distanceColumn: 'Distance ({unit})',
+    dropColumn: 'Tir bas ({unit})',
+    addObservation: '+ Autre distance',
+    conditionsSection: 'Conditions lors du tir',
+    temperature: 'Température',
+    pressure: 'Pression atmosphérique',
+    calculate: 'Calculer',
+    result: 'Résultat',
+    previous: 'Avant',
+    trued: 'Ajusté',
+    rmsError: 'Écart résiduel (RMS)',
+    inconsistent: 'Les observations ne concordent pas bien - vérifier les mesures et les conditions.',
+    apply: 'Enregistrer dans le profil',
+    history: 'Historique',
+  },
+  customAmmo: {
+    title: 'Munition personnalisée',
+    titleEdit: 'Modifier la munition',
+    add: '+ Munition personnalisée',
+    edit: 'Modifier',
+    unverified: 'Non vérifiée',
+    unverifiedNote: "Vos données ne sont pas comparées aux données du fabricant. Saisissez les valeurs avec soin et vérifiez la trajectoire au stand avant la chasse.",
+    unverifiedShort: 'Données personnelles - à vérifier au stand avant la chasse.',
+    unverifiedCatalogue: 'Valeurs de catalogue, pas encore comparées à la fiche technique - à vérifier au stand avant la chasse.',
+    optional: '(facultatif)',
+    namePlaceholder: 'p. ex. Rechargement 168 gr ELD-X',
+    bulletSection: 'Projectile',
+    bcSection: 'Coefficient balistique',
+    velocitySection: 'Vitesse initiale',
+    fields: {
+      name: 'Désignation',
+      bulletWeight: 'Poids du projectile',
+      bulletLength: 'Longueur du projectile',
+      bulletDiameter: 'Diamètre du projectile',
+      ballisticCoefficient: 'CB (G1)',
+      bcG7: 'CB (G7)',
+      bcBands: 'CB selon la vitesse',
+      muzzleVelocity: 'V0',
+      testBarrelLength: 'Longueur du canon à la mesure',
+    },
+    bandsHint: "Pour les projectiles avec plusieurs CB publiés. Chaque CB s'applique à partir de la vitesse indiquée, sous le palier le plus bas le dernier. Les paliers ne servent qu'avec le modèle de traînée pour lequel ils sont publiés.",
+    bandsModel: 'Publiés pour',
+    bandFrom: 'dès',
+    addBand: '+ Palier de vitesse',
+    invalid: 'Veuillez corriger les champs marqués.',
+    delete: 'Supprimer la munition',
+    deleteTitle: 'Supprimer la munition',
+    deleteConfirm: 'Supprimer « {name} » ? Les profils utilisant cette munition conservent leurs valeurs.',
+    saveFailed: "La munition n'a pas pu être enregistrée.",
+    deleteFailed: "La munition n'a pas pu être supprimée.",
+    errors: {
+      required: 'Champ obligatoire',
+      range: 'Autorisé : {min} à {max}',
+      duplicateName: 'Ce calibre a déjà une munition portant ce nom.',
+      duplicateBand: 'Cette vitesse est déjà utilisée.',
+    },
+  },
+  profileEdit: {
+    title: 'Modifier le profil',
+    notFound: 'Profil introuvable.',
+    name: 'Nom du profil',
+    ammunition: 'Munition',
+    ammunitionChanged: "La nouvelle munition est appliquée à l'enregistrement. Les valeurs d'ajustement de l'ancienne munition sont réinitialisées.",
+    barrelTrued: 'La V0 ajustée a été mesurée avec votre canon. La longueur du canon ne la modifie pas.',
+    saveFailed: "Le profil n'a pas pu être enregistré.",
+    resetTruingTitle: "Réinitialiser l'ajustement",
+    resetTruingMessage: "La V0 ajustée et le facteur CB ne valent que pour l'ancienne munition et seront réinitialisés. L'historique est conservé.",
+  },
+  dataPack: {
+    section: 'Données de munitions',
+    name: 'Paquet de données',
+    version: 'Version {version}, {date}',
+    origin: 'Origine',
+    bundled: "Fourni avec l'application",
+    imported: 'Importé',
+    pendingOne: '1 profil utilise des données de munition modifiées. Vous pouvez appliquer les nouvelles données dans la liste des profils.',
+    pending: '{count} profils utilisent des données de munition modifiées. Vous pouvez appliquer les nouvelles données dans la liste des profils.',
+    import: 'Importer un paquet de données',
+    reset: 'Utiliser le paquet de données fourni',
+    resetTitle: 'Réinitialiser le paquet de données',
+    resetConfirm: "Le paquet importé est supprimé et celui fourni avec l'application est utilisé.",
+    resetFailed: 'Impossible de réinitialiser le paquet de données',
+    readFailed: 'Impossible de lire le fichier',
+    invalidTitle: 'Paquet de données invalide',
+    invalid: 'Le fichier ne correspond pas au format des paquets de données :\n{errors}',
+    moreErrors: '… et {count} autres',
+    otherPack: "Le fichier n'est pas un paquet de données de cette application ({id}).",
+    notNewer: "La version {version} n'est pas plus récente que le paquet actif (version {active}).",
+    importedTitle: 'Paquet de données importé',
+    importedMessage: '{name}, version {version} est maintenant actif.',
+    updates: 'Données de munition modifiées dans : {profiles}. Vous pouvez appliquer les nouvelles données dans la liste des profils.',
+    importFailed: "Impossible d'enregistrer le paquet de données",
+    changed: 'Données de munition modifiées dans le paquet v{version}',
+    removed: 'Munition retirée du paquet v{version}, les données enregistrées sont conservées',
+    truedHint: "Vérifiez l'ajustement après l'application.",
+    apply: 'Appliquer',
+    acknowledge: 'Compris',
+    applyFailed: "Impossible d'enregistrer le profil",
+    errors: {
+      json: 'pas un fichier JSON',
+      type: 'type incorrect',
+      required: 'manquant',
+      unknown: 'champ inconnu',
+      range: 'hors de la plage autorisée',
+      value: 'valeur non autorisée',
+      duplicate: 'en double',
+      order: 'ordre incorrect',
+      schemaVersion: 'version de format non prise en charge',
+    },
+  },
+};
+
+export default fr;
@@ -0,0 +1,120 @@
+import { Language, LocalizedText } from '../types';
+import { DEFAULT_SETTINGS } from '../lib/constants';
+import de, { Translations } from './de';
+import en from './en';
+import fr from './fr';
+import it from './it';
+
+/**
+ * Translation layer.
+ *
+ * Every user-facing text lives in the catalogues (de, en, fr, it) under a
+ * dotted key such as 'settings.title'. German is the reference catalogue: the
+ * others are typed against it, so a missing or misspelled key fails the
+ * type check instead of showing up in the app.
+ *
+ * The current language is kept here as well as in the settings so that code
+ * outside React (export, unit formatting, wind texts) formats in the same
+ * language as the screens. AppContext updates it together with the settings;
+ * components read it through useTranslation() so they re-render on a change.
+ */
+
+const CATALOGUES: Record<Language, Translations> = { de, en, fr, it };
+
+/** Number and date locale per language */
+const LOCALES: Record<Language, string> = {
+  de: 'de-DE',
+  en: 'en-GB',
+  fr: 'fr-FR',
+  it: 'it-IT',
+};
+
+/** Language names in their own language, for the settings picker */
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  de: 'Deutsch',
+  en: 'English',
+  fr: 'Français',
+  it: 'Italiano',
+};
+
+// All dotted paths to a text in the catalogue, e.g. 'settings.title'
+type PathKeys<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${PathKeys<T[K]>}`;
+}[keyof T & string];
+
+export type TranslationKey = PathKeys<Translations>;
+
+export type TranslationParams = Record<string, string | number>;
+
+let currentLanguage: Language = DEFAULT_SETTINGS.language;
+
+/**
+ * Set the language used by translate() and formatNumber() by default.
+ */
+export function setLanguage(language: Language): void {
+  currentLanguage = CATALOGUES[language] ? language : DEFAULT_SETTINGS.language;
+}
+
+export function getLanguage(): Language {
+  return currentLanguage;
+}
+
+/**
+ * Locale for Intl and Date formatting, e.g. 'de-DE'.
+ */
+export function getLocale(language: Language = currentLanguage): string {
+  return LOCALES[language];
+}
+
+function lookup(catalogue: Translations, key: string): string | undefined {
+  let node: unknown = catalogue;
+  for (const part of key.split('.')) {
+    if (node === null || typeof node !== 'object') return undefined;
+    node = (node as Record<string, unknown>)[part];
+  }
+  return typeof node === 'string' ? node : undefined;
+}
+
+/**
+ * Format a number in the language's locale: decimal comma in German, French
+ * and Italian, point in English. Without decimals up to three are shown.
+ * No thousands separators, values are read off tables in the field.
+ */
+export function formatNumber(
+  value: number,
+  decimals?: number,
+  language: Language = currentLanguage
+): string {
+  // Avoid "-0"
+  const rounded = decimals === undefined ? value : Number(value.toFixed(decimals)) || 0;
+  return new Intl.NumberFormat(LOCALES[language], {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals ?? 3,
+    useGrouping: false,
+  }).format(rounded);
+}
+
+/**
+ * Text for a key with {param} placeholders filled in. Numbers are formatted
+ * for the language. Falls back to German, then to the key itself.
+ */
+export function translate(
+  key: TranslationKey,
+  params?: TranslationParams,
+  language: Language = currentLanguage
+): string {
+  const text = lookup(CATALOGUES[language], key) ?? lookup(de, key) ?? key;
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value, undefined, language) : value;
+  });
+}
+
+/**
+ * Pick the text for a language from app data (e.g. caliber descriptions).
+ */
+export function localize(text: LocalizedText, language: Language = currentLanguage): string {
+  return text[language] ?? text[DEFAULT_SETTINGS.language];
+}
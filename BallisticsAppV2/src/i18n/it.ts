@@ -0,0 +1,685 @@
+import { Translations } from './de';
+
+/**
+ * Italian catalogue.
+ */
+const it: Translations = {
+  common: {
+    cancel: 'Annulla',
+    back: 'Indietro',
+    next: 'Avanti',
+    save: 'Salva',
+    delete: 'Elimina',
+    error: 'Errore',
+    ok: 'OK',
+  },
+  tabs: {
+    calculator: 'Calcolatore',
+    profiles: 'Profili',
+    settings: 'Impostazioni',
+  },
+  calculator: {
+    title: 'Calcolatore balistico',
+    noProfileTitle: 'Nessun profilo attivo',
+    noProfileText: 'Selezionare un profilo o crearne uno nuovo.',
+    goToProfiles: 'Vai ai profili',
+    modeHold: 'Punto di mira',
+    modeLead: 'Anticipo (in movimento)',
+    distance: 'Distanza',
+    gait: 'Andatura',
+    targetSpeed: 'Velocità',
+    crossingAngle: 'Angolo di corsa',
+    crossingBroadside: 'Di traverso (90°)',
+    crossingHeadOn: 'Di fronte (0°)',
+    crossingQuartering: 'Obliquo ({angle}°)',
+    species: 'Selvaggina',
+    showLeadTable: 'Mostra tabella anticipi',
+    hideLeadTable: 'Nascondi tabella anticipi',
+    estimateToggle: 'Stima distanza (reticolo)',
+    estimateTarget: 'Dimensione bersaglio (altezza del torace)',
+    estimateCustom: 'Personalizzata',
+    estimateTargetSize: 'Dimensione bersaglio',
+    estimateUnit: 'Misurato in',
+    estimateReading: 'Lettura',
+    estimateDistance: 'ca. {distance}',
+    estimateBand: 'Intervallo {min} - {max}',
+    estimateUnlimited: 'illimitato',
+    estimateErrors: '(±{reading} {unit} errore di lettura, ±{size} % dimensione bersaglio)',
+    estimateDrops: 'Caduta da {near} a {nearDistance} a {far} a {farDistance}',
+    estimateSfp: 'Secondo piano focale: lettura a {magnification}x convertita a {reference}x',
+    shotAngle: 'Angolo di tiro',
+    shotLevel: 'In piano',
+    shotUphill: '{angle}° in salita',
+    shotDownhill: '{angle}° in discesa',
+    slopeDistances: 'Distanza laser {laser} • Distanza orizzontale {horizontal}',
+    reticleHold: 'Punto di mira nel reticolo',
+    magnification: 'Ingrandimento',
+    showRangeCard: 'Mostra tabella di tiro',
+    hideRangeCard: 'Nascondi tabella di tiro',
+    hitProbability: 'Probabilità di colpire',
+    vitalZone: 'Zona vitale',
+    dispersion: 'Dispersione arma/tiratore (1σ)',
+    muzzleVelocitySD: 'Dispersione V0 (1σ)',
+    bcUncertainty: 'Incertezza BC (1σ)',
+    rangeErrorSD: 'Errore di distanza (1σ)',
+    windSpeedSD: 'Errore vento (1σ)',
+    windSettings: 'Impostazioni vento',
+    windZones: 'Zone di vento lungo la traiettoria',
+    windSpeed: 'Velocità del vento',
+    windFineTuning: 'Regolazione fine',
+    environment: 'Condizioni ambientali',
+    environmentAuto: 'Auto',
+    environmentRefresh: 'Aggiorna',
+    environmentDetected: 'Rilevato automaticamente • {time}',
+    environmentManual: 'Inserimento manuale',
+    temperature: 'Temperatura',
+    pressure: 'Pressione atmosferica',
+    altitude: 'Altitudine (s.l.m.)',
+    humidity: 'Umidità',
+    separatePowderTemp: 'Temperatura polvere separata',
+    powderTemperature: 'Temperatura della polvere',
+    earthRotation: 'Rotazione terrestre (Coriolis/Eötvös)',
+    latitude: 'Latitudine',
+    latitudeNorth: '{angle}° N',
+    latitudeSouth: '{angle}° S',
+    azimuth: 'Direzione di tiro',
+    compassPoints: 'N,NE,E,SE,S,SO,O,NO',
+    environmentNote: "Le condizioni ambientali influenzano la densità dell'aria e quindi la traiettoria. In quota e con il caldo l'aria è più rarefatta - il proiettile cade meno.",
+    activeProfile: 'Profilo attivo',
+    caliber: 'Calibro',
+    ammunition: 'Munizione',
+    bullet: 'Palla',
+    expansionRange: 'Espansione affidabile fino a',
+    effectiveMuzzleVelocity: 'V0 (effettiva)',
+    nominalMuzzleVelocity: ' (nominale {velocity})',
+    dragModel: 'Modello',
+    dragModelFallback: ' (nessun dato {model} per questa munizione)',
+    zero: 'Zero',
+  },
+  settings: {
+    title: 'Impostazioni',
+    signOut: 'Esci',
+    signOutConfirm: 'Vuoi davvero uscire?',
+    notSignedInTitle: 'Non connesso',
+    notSignedInMessage: 'Accedi per sincronizzare i profili.',
+    noProfilesTitle: 'Nessun profilo',
+    noProfilesMessage: 'Non ci sono profili locali da sincronizzare.',
+    successTitle: 'Fatto',
+    syncSuccess: '{count} profili sono stati sincronizzati nel cloud.',
+    syncFailed: 'Non è stato possibile sincronizzare i profili.',
+    correctionLinear: 'Lineare ({unit})',
+    resetTitle: 'Elimina tutti i dati',
+    resetConfirm: "Vuoi davvero eliminare tutti i profili e le impostazioni? L'operazione non può essere annullata.",
+    resetSuccess: "Tutti i dati sono stati eliminati. Riavviare l'app.",
+    resetFailed: 'Non è stato possibile eliminare i dati',
+    cloudSection: 'Cloud & account',
+    signedIn: 'Connesso',
+    cloudProfiles: 'Profili cloud',
+    cloudProfileCount: '{count} profili nel cloud',
+    syncLocal: 'Sincronizza profili locali',
+    localCount: '{count} locali',
+    signIn: 'Accedi',
+    signInDescription: 'Sincronizza i profili tra dispositivi',
+    languageSection: 'Lingua',
+    unitSystemSection: 'Sistema di unità',
+    correctionSection: 'Correzioni',
+    aboutSection: "Informazioni sull'app",
+    version: 'Versione',
+    ballisticModel: 'Modello balistico',
+    dataVerified: 'Dati verificati',
+    dataSourcesSection: 'Fonti dei dati & metodo',
+    modelTitle: 'Modello di calcolo balistico',
+    modelText: "Questa app utilizza i modelli di resistenza standard G1, G2, G5, G6, G7, G8 e GI e le curve di resistenza dei produttori (CDM, Mach/Cd) con integrazione numerica (traiettoria a punto materiale). Il modello G7 è più adatto alle palle moderne boat-tail. Il calcolo tiene conto di:",
+    modelGravity: '• Gravità (9,81 m/s²)',
+    modelDrag: "• Resistenza dell'aria secondo il modello G o una curva propria",
+    modelDensity: "• Densità dell'aria (temperatura, pressione)",
+    modelWind: '• Deriva del vento (vento laterale)',
+    modelSightHeight: "• Altezza dell'ottica sopra la canna",
+    methodTitle: 'Metodo di calcolo per valore',
+    dropName: 'Punto di mira (caduta)',
+    dropFormula: 'Posizione = altezza iniziale + ∫∫(accelerazione) dt²',
+    dropText: "Scostamento verticale dal punto mirato. Calcolato per integrazione numerica della traiettoria considerando gravità (g = 9,81 m/s²), resistenza dell'aria e angolo di tiro. Positivo (+) = sopra il punto mirato, negativo (-) = sotto.",
+    driftName: 'Deriva del vento',
+    driftFormula: 'Deriva = ∫(forza del vento × dt)',
+    driftText: 'Scostamento laterale dovuto al vento laterale. Componente del vento = velocità del vento × sin(angolo del vento). Positivo (+) = deriva a destra, negativo (-) = deriva a sinistra.',
+    timeName: 'Tempo di volo',
+    timeFormula: 't = ∑(Δt) fino alla distanza del bersaglio',
+    timeText: "Tempo totale dall'uscita dalla canna al raggiungimento della distanza del bersaglio. Calcolato in passi di 1 ms per integrazione numerica.",
+    velocityName: 'V @ bersaglio (velocità)',
+    velocityText: "Velocità residua alla distanza del bersaglio. Calcolata dalle componenti orizzontale (vx) e verticale (vy) dopo la frenata dovuta alla resistenza dell'aria.",
+    energyName: 'Energia',
+    energyText: 'Energia cinetica del proiettile alla distanza del bersaglio in joule. m = peso della palla (grain × 0,0000648 kg), v = velocità residua in m/s.',
+    dragName: 'Calcolo della resistenza',
+    dragText: "Decelerazione dovuta alla resistenza dell'aria. K = 0,000871, ρ = densità attuale dell'aria, ρ₀ = 1,225 kg/m³ (atmosfera standard), Cd = coefficiente di resistenza del modello scelto (G1-G8/GI in funzione del Mach dalla tabella JBM, o curva Mach/Cd propria), BC = coefficiente balistico (con curva propria: densità sezionale in lb/in²).",
+    ammoSourcesTitle: 'Dati delle munizioni - fonti primarie',
+    ammoSourcesText: 'Tutti i coefficienti balistici (BC) e le velocità alla bocca provengono dai dati ufficiali dei produttori:',
+    sourceProductLines: 'Linee: {lines}',
+    sourceCalibers: 'Calibri: {calibers} (cariche: {count})',
+    sourceTestBarrel: 'Canna di prova: {lengths}',
+    sourceVerified: 'Ultimo controllo: {date}',
+    sourceUnverified: 'Valori di catalogo non verificati: {count} munizioni',
+    referencesTitle: 'Opere di riferimento & validazione',
+    referenceLitz: 'Opera di riferimento per le misure di BC',
+    referenceJbm: 'Validazione del calcolo della traiettoria',
+    noticesTitle: 'Avvertenze importanti',
+    noticeStandard: 'I valori indicati sono medie in condizioni standard (atmosfera standard ICAO: 15 °C, 1013,25 hPa, livello del mare).',
+    noticeVariation: "Le prestazioni reali possono variare in base a lunghezza della canna, temperatura ambiente, altitudine, umidità e caratteristiche dell'arma.",
+    noticeVerify: "Verificare tutte le distanze con la propria arma prima della caccia. Questa app è un aiuto al calcolo, non sostituisce l'azzeramento al poligono.",
+    visitWebsite: 'Visita il sito',
+    about: 'Caccia premium dal 2019. Qualità e tradizione unite.',
+    dangerSection: 'Zona pericolosa',
+    resetDescription: 'Elimina tutti i profili e le impostazioni',
+  },
+  unitSystems: {
+    metric: { label: 'Metrico', description: 'm, cm, m/s, J, g, °C, hPa' },
+    imperial: { label: 'Imperiale', description: 'yd, in, fps, ft·lbf, gr, °F, inHg' },
+    mixed: { label: 'Misto', description: 'yd, in, fps, ft·lbf, gr con °C, hPa, m' },
+  },
+  species: {
+    wildBoar: 'Cinghiale',
+    redDeer: 'Cervo',
+    fallowDeer: 'Daino',
+    chamois: 'Camoscio',
+    roeDeer: 'Capriolo',
+  },
+  targetSpeed: {
+    walking: 'Passo',
+    trotting: 'Trotto',
+    running: 'Fuga',
+  },
+  construction: {
+    bonded: 'Nucleo legato (bonded)',
+    monolithic: 'Monolitica',
+    softPoint: 'Punta morbida',
+    fragmenting: 'Semiframmentante',
+  },
+  clickValues: {
+    quarterMoa: '1/4 MOA',
+    tenthMil: '0,1 mrad',
+    cm: '1 cm/100 m',
+  },
+  reticles: {
+    plex: 'Plex / Duplex (senza tacche)',
+    milDotFfp: 'Mil-Dot (primo piano focale)',
+    milDotSfp: 'Mil-Dot (secondo piano focale, 10x)',
+    milHashFfp: 'Tacche 0,5 mrad (primo piano focale)',
+    moaHashSfp: 'Tacche 2 MOA (secondo piano focale, 12x)',
+    custom: 'Reticolo personalizzato',
+  },
+  result: {
+    hold: 'Punto di mira',
+    aboveAim: 'sopra il punto mirato',
+    belowAim: 'sotto il punto mirato',
+    right: 'D {value}',
+    left: 'S {value}',
+    drift: 'Deriva del vento',
+    clicksElevation: 'Click elevazione ({clickValue})',
+    clicksUp: '{clicks} su',
+    clicksDown: '{clicks} giù',
+    clicksWindage: 'Click deriva',
+    clicksRight: '{clicks} a destra',
+    clicksLeft: '{clicks} a sinistra',
+    time: 'Tempo di volo',
+    timeValue: '{time}s',
+    velocity: 'V @ bersaglio',
+    energy: 'Energia',
+    mach: 'Mach @ bersaglio',
+    coriolis: 'di cui Coriolis',
+    eotvos: 'Eötvös (altezza)',
+    stability: 'Stabilità (Sg)',
+    spinDrift: 'di cui deriva giroscopica',
+    marginalStability: 'Stabilità al limite (Sg sotto {min}). La palla può perdere BC o volare instabile - scegliere un passo di rigatura più veloce o una palla più corta.',
+    exceedsElevation: "Escursione insufficiente: servono {clicks} click in su, disponibili solo {available}. Compensare il resto con il reticolo o ridurre la distanza.",
+    belowZeroStop: 'Sotto lo zero stop: servono {clicks} click in giù. Mirare più in basso invece di ruotare.',
+    belowExpansion: "Velocità d'impatto sotto {velocity}. La palla non si espande più in modo affidabile - ridurre la distanza.",
+  },
+  ethicalRange: {
+    title: 'Limite di energia',
+    onlyUntil: '{species}: solo fino a {distance}',
+    tooWeak: '{species}: troppo debole',
+    minEnergy: ' (min. {energy})',
+    notLegal: '{species}: non consentito per legge',
+    caliberTooSmall: ' (calibro inferiore a 6,5 mm)',
+    energyTooLow: ' (energia minima non raggiunta)',
+  },
+  reticleView: {
+    center: 'Centro',
+    mark: '{index}ª tacca {side}',
+    below: 'in basso',
+    left: 'a sinistra',
+    right: 'a destra',
+    elevation: 'Elevazione: {mark}',
+    windage: 'Deriva: {mark}',
+    errorLower: ' ({value} più in basso)',
+    errorHigher: ' ({value} più in alto)',
+    errorRight: ' ({value} più a destra)',
+    errorLeft: ' ({value} più a sinistra)',
+    sfpNote: 'Secondo piano focale: tacche a {magnification}x convertite di un fattore {scale} (in scala a {reference}x)',
+  },
+  rangeCard: {
+    title: 'Tabella di tiro',
+    distance: 'Dist.',
+    drop: 'Altezza',
+    drift: 'Deriva',
+    clicks: 'Click',
+    right: 'D {value}',
+    left: 'S {value}',
+    speciesLimit: '▲ {species} fino a {distance} (min. {energy})',
+    wind: 'Vento: {speed} | {direction}',
+    copy: 'Copia',
+    share: 'Condividi',
+    copiedTitle: 'Copiato',
+    copiedMessage: 'La tabella di tiro è stata copiata negli appunti.',
+    copyFailed: 'Copia non riuscita.',
+    legend: '+ = sopra il bersaglio | - = sotto | D = destra | S = sinistra | ▲ = limite di energia',
+    legendClicks: 'Click: ↑↓ elevazione, ←→ deriva (senso di rotazione) | rosso = escursione insufficiente',
+    legendExpansion: 'V rosso = sotto {velocity}, espansione non affidabile',
+  },
+  profileCard: {
+    active: 'Attivo',
+    zero: 'Zero',
+    muzzleVelocity: 'V0',
+    muzzleVelocityTrued: 'V0 (tarata)',
+    barrelAdjustment: '{adjustment} per una canna di {length}',
+    ethicalRanges: 'Distanza max. (energia minima)',
+    notLegal: 'non consentito',
+    edit: 'Modifica',
+    true: 'Taratura',
+    optic: 'Ottica',
+    delete: 'Elimina',
+  },
+  hitProbability: {
+    title: 'Probabilità di colpire',
+    percent: '{percent} %',
+    vitalZone: 'Zona vitale {diameter} a {distance}',
+    scatterCaption: "Sezione ±{extent} | Punto medio d'impatto {side} {x} / {y}",
+    right: 'D',
+    left: 'S',
+    spreadHorizontal: 'Dispersione laterale (1σ)',
+    spreadVertical: 'Dispersione verticale (1σ)',
+    warning: 'Probabilità di colpire sotto il {percent} %. Avvicinarsi, appoggiarsi meglio o rinunciare al tiro.',
+  },
+  lead: {
+    title: 'Anticipo',
+    value: '{lead}',
+    description: 'davanti al punto di mira, nella direzione di corsa',
+    bodyLengths: 'Lunghezze del corpo ({species})',
+    reticle: 'Reticolo',
+    mil: '{mil} MIL',
+    time: 'Tempo di volo',
+    timeValue: '{time}s',
+    targetSpeed: 'Velocità del bersaglio',
+    speed: '{speed}',
+    note: "Tiro accompagnando, senza tempo di reazione. Chi ferma l'arma al momento dello sparo ha bisogno di molto più anticipo.",
+  },
+  leadCard: {
+    title: 'Tabella anticipi',
+    broadside: 'di traverso',
+    distance: 'Dist.',
+    speed: '({speed})',
+    rowDistance: '{distance}',
+    lead: '{lead}',
+    bodyLengths: '{value} LC',
+    copy: 'Copia',
+    share: 'Condividi',
+    copiedTitle: 'Copiato',
+    copiedMessage: 'La tabella anticipi è stata copiata negli appunti.',
+    copyFailed: 'Copia non riuscita.',
+    legend: 'LC = lunghezze del corpo ({length}) | accompagnando, senza tempo di reazione',
+  },
+  wind: {
+    direction: 'Direzione del vento',
+    headwind: 'Vento frontale',
+    tailwind: 'Vento in coda',
+    fromRight: 'da destra',
+    fromLeft: 'da sinistra',
+    fromFrontRight: '{angle}° da destra davanti',
+    fromRearRight: '{angle}° da destra dietro',
+    fromRearLeft: '{angle}° da sinistra dietro',
+    fromFrontLeft: '{angle}° da sinistra davanti',
+    clock: 'ore {hour}: {text}',
+    shooter: 'Tiratore',
+    clockCaption: 'Ora da cui proviene il vento (bersaglio a ore 12)',
+    zoneTitle: 'Zona {index} | {from} – {to}',
+    zoneRemove: 'Rimuovi',
+    zoneEnd: 'Fino alla distanza',
+    zoneSpeed: 'Velocità del vento',
+    zoneVertical: 'Vento verticale',
+    verticalNone: 'nessuno',
+    updraft: '{speed} ascendente',
+    downdraft: '{speed} discendente',
+    addZone: '+ Aggiungi zona di vento',
+  },
+  export: {
+    rangeCardHeader: 'TABELLA DI TIRO',
+    leadTableHeader: 'TABELLA ANTICIPI',
+    profile: 'Profilo: {name}',
+    caliber: 'Calibro: {caliber}',
+    ammunition: 'Munizione: {name}',
+    bulletWeight: 'Peso palla: {weight}',
+    construction: 'Costruzione: {construction}',
+    minImpactVelocity: "Vel. d'impatto min.: {velocity}",
+    muzzleVelocity: 'V0: {velocity}',
+    trued: ' (tarata)',
+    dragModel: 'Modello di resistenza: {model}',
+    dragModelFallback: ' (nessun dato {model} per questa munizione)',
+    bcScale: 'Fattore BC (tarato): {scale}',
+    zero: 'Zero: {distance}',
+    zeroConditions: 'Azzerata a: {temperature}, {altitude}',
+    sightHeight: 'Altezza ottica: {height}',
+    twist: 'Passo: 1:{rate}" {direction}',
+    twistLeft: 'sinistrorso',
+    twistRight: 'destrorso',
+    turret: 'Torretta: {clickValue}/click | {travel} click di escursione, {above} sopra l\'azzeramento{zeroStop}',
+    zeroStop: ' | zero stop ({clicks} click sotto)',
+    wind: 'Vento: {speed} | {direction}',
+    windZone: 'Vento {from} – {to}: {speed} | {direction}',
+    windZoneLast: 'Vento da {from}: {speed} | {direction}',
+    columnDistance: 'Dist',
+    columnDrop: 'Alt.',
+    columnDrift: 'Deriva',
+    columnClicks: 'Click',
+    speciesLimit: '▲ {species} fino a {distance}',
+    ethicalRanges: 'Distanza max. (energia minima):',
+    notLegal: 'non consentito',
+    tooWeak: 'troppo debole',
+    legend: 'Legenda:',
+    legendAbove: '+ = sopra il bersaglio | - = sotto',
+    legendSide: 'D = destra | S = sinistra',
+    legendZero: '* = distanza di azzeramento',
+    legendSpecies: '▲ = limite di energia della specie',
+    legendExpansion: '! = espansione non affidabile (troppo lenta)',
+    legendClicks: 'Click: ↑↓ elevazione, ←→ deriva (senso di rotazione)',
+    legendBeyond: '# = escursione insufficiente, mirare con il reticolo',
+    game: 'Selvaggina: {species} ({length})',
+    crossingAngle: 'Angolo di corsa: {angle}°',
+    broadside: ' (di traverso)',
+    legendLead: '{unit}/LC = anticipo in {unit} / lunghezze del corpo',
+    legendSwing: 'Anticipo con tiro accompagnato,',
+    legendReaction: 'senza tempo di reazione del tiratore',
+    generated: "Generato con l'app Ostermayer AG",
+    rangeCardTitle: 'Tabella di tiro - {name}',
+    leadTableTitle: 'Tabella anticipi - {name}',
+    exportTitle: 'Esporta tabella di tiro',
+    exportMessage: "Scegli un'opzione di esportazione:",
+    copy: 'Copia',
+    share: 'Condividi',
+    copiedTitle: 'Copiato',
+    copiedMessage: 'La tabella di tiro è stata copiata negli appunti.',
+    copyFailed: 'Copia non riuscita.',
+  },
+  welcome: {
+    tagline: 'Caccia premium dal 2019',
+    title: 'Calcolatore balistico',
+    subtitle: 'Calcola punti di mira precisi per la tua arma da caccia. Crea profili per armi e munizioni diverse.',
+    featureTrajectory: 'Calcolo preciso della traiettoria',
+    featureWind: 'Calcolo della deriva del vento',
+    featureRangeCard: 'Tabella di tiro da condividere',
+    featureProfiles: "Più profili d'arma",
+    start: 'Configura ora',
+    footer: "Configura il tuo primo profilo d'arma in soli 3 passi",
+  },
+  onboarding: {
+    step: 'Passo {step} di {total}',
+  },
+  caliber: {
+    title: 'Calibro & munizione',
+    instruction: 'Scegli il calibro e la carica della tua arma da caccia',
+    loadCountOne: '1 carica disponibile',
+    loadCount: '{count} cariche disponibili',
+    weight: 'Peso',
+  },
+  ammunition: {
+    title: 'Scegli la munizione',
+    noCaliber: 'Scegli prima un calibro',
+    selectedCaliber: 'Calibro scelto:',
+    instruction: 'Scegli la carica / munizione',
+    bulletWeight: 'Peso palla',
+  },
+  zero: {
+    title: 'Dati di azzeramento',
+    distanceSection: 'Distanza di azzeramento',
+    instruction: 'Scegli la distanza e il metodo di azzeramento',
+    recommended: 'Consigliato',
+    geeDescription: 'Distanza di azzeramento ottimale per ±{deviation} di scostamento',
+    nearZero: 'Zero vicino',
+    farZero: 'Zero lontano',
+    pointBlank: 'Tiro utile',
+    standardLabel: '{distance} standard',
+    standardDescription: 'Zero esattamente a {distance}',
+    sightHeightSection: "Altezza dell'ottica",
+    sightHeightInstruction: "Altezza dell'asse ottico sopra l'asse della canna",
+    sightHeightLabel: 'Altezza sopra la canna',
+    sightHeightHint: 'Di solito {range} per ottiche con montaggio standard',
+    twistSection: 'Passo di rigatura',
+    twistInstruction: 'Lunghezza di canna per giro della rigatura (per deriva giroscopica e stabilità)',
+    twistLabel: 'Passo',
+    twistHint: 'Preimpostato sullo standard C.I.P./SAAMI del calibro',
+    barrelSection: 'Lunghezza della canna',
+    barrelInstruction: 'La V0 del produttore vale per la sua canna di prova ({length}). Le canne più corte sparano più lente, quelle più lunghe più veloci.',
+    barrelLabel: 'Lunghezza della canna',
+    barrelHint: 'Senza lunghezza della canna si usa la V0 del produttore invariata',
+    barrelAdjustment: 'V0 con questa canna: {velocity} ({adjustment} rispetto alla canna di prova)',
+    resetBarrel: 'Usa la lunghezza della canna di prova',
+    powderSection: 'Temperatura della polvere',
+    powderInstruction: 'Variazione della V0 per °C di scostamento da {reference} °C di temperatura della polvere',
+    powderLabel: 'Sensibilità alla temperatura',
+    powderHint: 'Polveri termostabili ca. {stable}, polveri comuni {common}. 0 = nessuna correzione',
+    conditionsSection: 'Condizioni di azzeramento',
+    conditionsInstruction: "Meteo e altitudine al poligono dove l'arma è stata azzerata",
+    temperature: 'Temperatura',
+    altitude: 'Altitudine s.l.m.',
+    resetConditions: "Ripristina l'atmosfera standard",
+    conditionsHint: "Il punto di mira viene calcolato una volta per queste condizioni. Con un altro tempo il punto d'impatto si sposta come nella pratica. Senza indicazione: {temperature} al livello del mare",
+  },
+  summary: {
+    title: 'Riepilogo',
+    missingSelection: 'Scegli calibro e munizione',
+    saveFailed: 'Non è stato possibile salvare il profilo',
+    profileName: 'Nome del profilo',
+    selection: 'La tua selezione',
+    caliber: 'Calibro',
+    ammunition: 'Munizione',
+    bulletWeight: 'Peso palla',
+    muzzleVelocity: 'Velocità alla bocca',
+    dragModel: 'Modello di resistenza',
+    zeroDistance: 'Distanza di azzeramento',
+    zeroMethod: 'Metodo di azzeramento',
+    standard: 'Standard',
+    sightHeight: "Altezza dell'ottica",
+    twist: 'Passo di rigatura',
+    barrelLength: 'Lunghezza della canna',
+    barrelAdjustment: 'Produttore {velocity} (canna di prova {testBarrel}), {adjustment} per una canna di {length}',
+    powderTemperature: 'Temperatura della polvere',
+    zeroConditions: 'Condizioni di azzeramento',
+    standardAtmosphere: 'Atmosfera standard',
+    note: 'Puoi modificare queste impostazioni nel tuo profilo in qualsiasi momento o aggiungere altri profili.',
+    create: 'Crea profilo',
+  },
+  profiles: {
+    title: 'Profili',
+    countOne: '1 profilo',
+    count: '{count} profili',
+    deleteTitle: 'Elimina profilo',
+    deleteConfirm: 'Vuoi davvero eliminare "{name}"?',
+    deleteFailed: 'Non è stato possibile eliminare il profilo',
+    emptyTitle: 'Nessun profilo',
+    emptyText: "Crea il tuo primo profilo d'arma per usare il calcolatore balistico.",
+    add: 'Crea nuovo profilo',
+  },
+  optic: {
+    title: 'Ottica',
+    notFound: 'Profilo non trovato',
+    travel: '{clicks} click ({value} {unit})',
+    saveFailed: 'Non è stato possibile salvare il profilo',
+    removeTitle: 'Rimuovi dati torretta',
+    removeMessage: 'Senza dati della torretta non vengono più mostrati click.',
+    remove: 'Rimuovi',
+    clickValue: 'Valore del click',
+    clickValueInstruction: 'Regolazione per click sulle torrette di elevazione e deriva',
+    travelSection: 'Escursione',
+    travelInstruction: 'Escursione totale in elevazione secondo il produttore.',
+    travelLabel: 'Elevazione totale',
+    aboveZeroSection: "Sopra l'azzeramento",
+    aboveZeroInstruction: "Click che la torretta di elevazione gira dall'azzeramento fino all'arresto superiore. Le ottiche sono spesso azzerate ben sotto la metà: contarli una volta girando fino all'arresto e ritorno.",
+    aboveZeroLabel: "Elevazione sopra l'azzeramento",
+    zeroStopSection: 'Zero stop',
+    hasZeroStop: 'La torretta ha lo zero stop',
+    zeroStopLabel: 'Click sotto lo zero',
+    zeroStopAtZero: 'si ferma a zero',
+    clicks: '{clicks} click',
+    reticleSection: 'Reticolo',
+    reticleInstruction: 'Per mirare con le tacche invece dei click',
+    noReticle: 'Nessun reticolo',
+    customDescription: 'Tacche regolari, spaziatura in mrad',
+    focalPlanes: {
+      ffp: 'Primo piano focale',
+      sfp: 'Secondo piano focale',
+    },
+    referenceMagnification: 'In scala a',
+    spacing: 'Spaziatura tacche',
+    elevationMarks: 'Tacche in basso',
+    windageMarks: 'Tacche laterali (per lato)',
+  },
+  truing: {
+    title: 'Taratura',
+    notFound: 'Profilo non trovato',
+    parameters: {
+      muzzleVelocity: {
+        label: 'Velocità alla bocca (V0)',
+        description: 'Consigliato - lunghezza della canna e lotto di polvere di solito differiscono dalla canna di prova',
+      },
+      bcScale: {
+        label: 'Fattore BC',
+        description: 'Se la V0 è misurata con il cronografo e solo i tiri lunghi si discostano',
+      },
+    },
+    invalidTitle: 'Inserimento non valido',
+    invalidMessage: "Inserire distanza e punto d'impatto per ogni osservazione.",
+    tooCloseTitle: 'Distanza troppo breve',
+    tooCloseMessage: "Le osservazioni devono essere oltre la distanza di azzeramento ({distance}).",
+    savedTitle: 'Salvato',
+    savedMessage: 'Il valore tarato è stato salvato nel profilo.',
+    saveFailed: 'Non è stato possibile salvare il profilo',
+    resetTitle: 'Ripristina taratura',
+    resetMessage: 'Riportare V0 e BC ai dati del produttore? Lo storico viene mantenuto.',
+    reset: 'Ripristina',
+    manufacturerValue: ' (produttore {value})',
+    bcScale: 'Fattore BC',
+    resetToManufacturer: 'Ripristina i dati del produttore',
+    parameterSection: 'Valore da adattare',
+    observationsSection: "Punto d'impatto osservato",
+    observationsInstruction: 'Sparare mirando al bersaglio e misurare la distanza dei colpi sotto il punto di mira',
+    distanceColumn: 'Distanza ({unit})',
+    dropColumn: 'Colpo basso ({unit})',
+    addObservation: '+ Altra distanza',
+    conditionsSection: 'Condizioni durante il tiro',
+    temperature: 'Temperatura',
+    pressure: 'Pressione atmosferica',
+    calculate: 'Calcola',
+    result: 'Risultato',
+    previous: 'Prima',
+    trued: 'Tarato',
+    rmsError: 'Scostamento residuo (RMS)',
+    inconsistent: 'Le osservazioni non concordano bene - verificare misure e condizioni.',
+    apply: 'Salva nel profilo',
+    history: 'Storico',
+  },
+  customAmmo: {
+    title: 'Munizione personalizzata',
+    titleEdit: 'Modifica munizione',
+    add: '+ Munizione personalizzata',
+    edit: 'Modifica',
+    unverified: 'Non verificata',
+    unverifiedNote: 'I tuoi dati non vengono confrontati con i dati del produttore. Inserisci i valori con cura e verifica la traiettoria al poligono prima della caccia.',
+    unverifiedShort: 'Dati propri - verificare al poligono prima della caccia.',
+    unverifiedCatalogue: 'Valori di catalogo, non ancora confrontati con la scheda tecnica - verificare al poligono prima della caccia.',
+    optional: '(facoltativo)',
+    namePlaceholder: 'es. Ricarica 168 gr ELD-X',
+    bulletSection: 'Palla',
+    bcSection: 'Coefficiente balistico',
+    velocitySection: 'Velocità iniziale',
+    fields: {
+      name: 'Denominazione',
+      bulletWeight: 'Peso della palla',
+      bulletLength: 'Lunghezza della palla',
+      bulletDiameter: 'Diametro della palla',
+      ballisticCoefficient: 'CB (G1)',
+      bcG7: 'CB (G7)',
+      bcBands: 'CB per velocità',
+      muzzleVelocity: 'V0',
+      testBarrelLength: 'Lunghezza canna alla misura',
+    },
+    bandsHint: "Per palle con più CB pubblicati. Ogni CB vale dalla velocità indicata in su, sotto il gradino più basso l'ultimo. I gradini valgono solo con il modello di resistenza per cui sono pubblicati.",
+    bandsModel: 'Pubblicati per',
+    bandFrom: 'da',
+    addBand: '+ Gradino di velocità',
+    invalid: 'Correggi i campi evidenziati.',
+    delete: 'Elimina munizione',
+    deleteTitle: 'Elimina munizione',
+    deleteConfirm: 'Eliminare "{name}"? I profili con questa munizione mantengono i loro valori.',
+    saveFailed: 'Impossibile salvare la munizione.',
+    deleteFailed: 'Impossibile eliminare la munizione.',
+    errors: {
+      required: 'Campo obbligatorio',
+      range: 'Consentito: da {min} a {max}',
+      duplicateName: 'Per questo calibro esiste già una munizione con questo nome.',
+      duplicateBand: 'Questa velocità è già usata.',
+    },
+  },
+  profileEdit: {
+    title: 'Modifica profilo',
+    notFound: 'Profilo non trovato.',
+    name: 'Nome del profilo',
+    ammunition: 'Munizione',
+    ammunitionChanged: 'La nuova munizione viene applicata al salvataggio. I valori di taratura della munizione precedente vengono azzerati.',
+    barrelTrued: 'La V0 tarata è stata misurata con la sua canna. La lunghezza della canna non la modifica.',
+    saveFailed: 'Impossibile salvare il profilo.',
+    resetTruingTitle: 'Azzera taratura',
+    resetTruingMessage: 'La V0 tarata e il fattore CB valgono solo per la munizione precedente e verranno azzerati. Lo storico viene mantenuto.',
+  },
+  dataPack: {
+    section: 'Dati delle munizioni',
+    name: 'Pacchetto dati',
+    version: 'Versione {version}, {date}',
+    origin: 'Origine',
+    bundled: "Fornito con l'app",
+    imported: 'Importato',
+    pendingOne: "1 profilo usa dati di munizione modificati. Può applicare i nuovi dati nell'elenco dei profili.",
+    pending: "{count} profili usano dati di munizione modificati. Può applicare i nuovi dati nell'elenco dei profili.",
+    import: 'Importa pacchetto dati',
+    reset: 'Usa il pacchetto dati fornito',
+    resetTitle: 'Ripristina pacchetto dati',
+    resetConfirm: "Il pacchetto importato viene rimosso e si usa quello fornito con l'app.",
+    resetFailed: 'Impossibile ripristinare il pacchetto dati',
+    readFailed: 'Impossibile leggere il file',
+    invalidTitle: 'Pacchetto dati non valido',
+    invalid: 'Il file non corrisponde al formato dei pacchetti dati:\n{errors}',
+    moreErrors: '… e altri {count}',
+    otherPack: "Il file non è un pacchetto dati di questa app ({id}).",
+    notNewer: 'La versione {version} non è più recente del pacchetto attivo (versione {active}).',
+    importedTitle: 'Pacchetto dati importato',
+    importedMessage: '{name}, versione {version} è ora attivo.',
+    updates: "Dati di munizione modificati in: {profiles}. Può applicare i nuovi dati nell'elenco dei profili.",
+    importFailed: 'Impossibile salvare il pacchetto dati',
+    changed: 'Dati di munizione modificati nel pacchetto v{version}',
+    removed: 'Munizione non più presente nel pacchetto v{version}, i dati salvati restano',
+    truedHint: "Verifichi la taratura dopo l'applicazione.",
+    apply: 'Applica',
+    acknowledge: 'Ho capito',
+    applyFailed: 'Impossibile salvare il profilo',
+    errors: {
+      json: 'non è un file JSON',
+      type: 'tipo errato',
+      required: 'mancante',
+      unknown: 'campo sconosciuto',
+      range: "fuori dall'intervallo consentito",
+      value: 'valore non ammesso',
+      duplicate: 'duplicato',
+      order: 'ordine errato',
+      schemaVersion: 'versione del formato non supportata',
+    },
+  },
+};
+
+export default it;
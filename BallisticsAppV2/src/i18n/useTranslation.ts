@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import { useApp } from '../context/AppContext';
+import { LocalizedText } from '../types';
+import { formatNumber, getLocale, localize, translate, TranslationKey, TranslationParams } from './index';
+
+/**
+ * Translation helpers bound to the language in the settings. Components
+ * using this hook re-render when the language is switched.
+ */
+export function useTranslation() {
+  const { settings } = useApp();
+  const language = settings.language;
+
+  return useMemo(() => ({
+    language,
+    locale: getLocale(language),
+    t: (key: TranslationKey, params?: TranslationParams) => translate(key, params, language),
+    formatNumber: (value: number, decimals?: number) => formatNumber(value, decimals, language),
+    localize: (text: LocalizedText) => localize(text, language),
+  }), [language]);
+}
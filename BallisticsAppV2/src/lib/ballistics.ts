@@ -1,20 +1,80 @@
-import { AmmunitionData, BallisticResult, BallisticEnvironment, DragModel, RifleProfile } from '../types';
-import { STANDARD_ATMOSPHERE } from './constants';
+import {
+  AmmunitionData,
+  AngularUnit,
+  BallisticResult,
+  BallisticEnvironment,
+  DragModel,
+  EthicalRangeResult,
+  GameSpecies,
+  HitProbabilityOptions,
+  HitProbabilityResult,
+  ImpactPoint,
+  Integrator,
+  LeadResult,
+  OpticConfig,
+  PointBlankResult,
+  RangeEstimate,
+  Reticle,
+  ReticleHold,
+  RifleProfile,
+  ShotUncertainty,
+  TrajectoryOptions,
+  TruingObservation,
+  TruingParameter,
+  TruingResult,
+  TurretClicks,
+  WindZone,
+} from '../types';
+import {
+  CLICK_VALUES,
+  DEFAULT_GEE_OFFSET,
+  DEFAULT_INTEGRATOR,
+  DEFAULT_MIN_EXPANSION_VELOCITY,
+  DEFAULT_POWDER_TEMP_REFERENCE,
+  DEFAULT_VELOCITY_PER_INCH,
+  DEFAULT_READING_ERROR,
+  DEFAULT_TARGET_SIZE_TOLERANCE,
+  DRAG_MODEL_LABELS,
+  ETHICAL_RANGE_LIMIT,
+  ETHICAL_RANGE_STEP,
+  GAME_SPECIES,
+  HIT_PROBABILITY_SAMPLES,
+  STANDARD_ATMOSPHERE,
+} from './constants';
 
 /**
  * BALLISTIC CALCULATION ENGINE
  *
- * Implements G1 and G7 drag models for external ballistics calculations.
- * Uses point-mass trajectory integration with adaptive timestep near transonic.
+ * Implements the standard G-series drag models (G1, G2, G5, G6, G7, G8, GI) and
+ * custom Mach/Cd drag curves (CDM) for external ballistics calculations.
+ * Uses point-mass trajectory integration (RK4 or explicit Euler) with adaptive
+ * timestep near transonic.
  *
  * Features:
- * - G1 and G7 standard drag models
+ * - G1, G2, G5, G6, G7, G8 and GI standard drag models
+ * - Custom drag curves (manufacturer / Doppler radar Mach vs Cd)
  * - Velocity-band BC interpolation
- * - Physics-based wind model (relative velocity)
- * - Iterative zero angle solve (binary search)
+ * - Physics-based wind model (relative velocity), full-circle wind direction
+ * - Segmented wind zones along the bullet path, with vertical component
+ * - Iterative zero angle solve (binary search), once per profile under its zero conditions
+ * - Maximum point-blank range (optimal GEE) for an allowed deviation
  * - Temperature-dependent speed of sound
  * - Humidity-corrected air density (virtual temperature method)
+ * - Powder temperature sensitivity of muzzle velocity
+ * - RK4 (default) or explicit Euler integration, selectable per call
  * - Adaptive timestep near transonic regime
+ * - State interpolated exactly at each requested distance
+ * - Inclined (uphill/downhill) line of sight
+ * - Gyroscopic stability (Miller) and spin drift (Litz)
+ * - Earth rotation: horizontal Coriolis and vertical Eotvos deflection
+ * - Muzzle velocity / BC truing from observed drops
+ * - Scope turret clicks with elevation travel and zero stop
+ * - Reticle holdover with second focal plane scaling
+ * - Range estimation from a target of known size (mil / MOA)
+ * - Lead for moving game from time of flight
+ * - Monte Carlo hit probability for a vital zone
+ * - Maximum ethical range per game species (minimum energy, legal minimum)
+ * - Minimum expansion velocity (terminal performance range)
  *
  * References:
  * - JBM Ballistics (jbmballistics.com)
@@ -35,13 +95,25 @@ const GRAVITY = 9.81;
 /** Conversion factor: 1 grain = 0.0000648 kg */
 const GRAINS_TO_KG = 0.0000648;
 
+/** Angular velocity of Earth's rotation (rad/s) */
+const EARTH_ANGULAR_VELOCITY = 7.292115e-5;
+
+/** Conversion factor: 1 inch = 2.54 cm */
+const INCHES_TO_CM = 2.54;
+
+/** Conversion factor: 1 m/s = 3.28084 ft/s */
+const MPS_TO_FPS = 3.28084;
+
 /** ICAO standard air density at sea level, 15 deg C, 1013.25 hPa (kg/m^3) */
 const STANDARD_AIR_DENSITY = 1.225;
 
+/** Conversion factor: 1 lb = 7000 grains */
+const GRAINS_PER_POUND = 7000;
+
 /**
  * Drag model scaling constant K.
  *
- * Both G1 and G7 reference projectiles share the same sectional density reference:
+ * All G-series reference projectiles share the same sectional density reference:
  *   SD_ref = 1 lb/in^2 = 703.07 kg/m^2
  *
  * K = rho_std / (2 * SD_ref) = 1.225 / (2 * 703.07) = 0.000871
@@ -107,6 +179,135 @@ const G7_DRAG_TABLE: [number, number][] = [
   [4.00, 0.1875], [4.50, 0.1669], [5.00, 0.1497],
 ];
 
+// =============================================================================
+// Other Standard Drag Function Tables
+// =============================================================================
+
+/**
+ * G2 drag coefficient vs Mach number.
+ * The G2 reference projectile is the Aberdeen J projectile (long conical nose,
+ * boat-tail) — occasionally used for very low-drag military designs.
+ * Source: JBM Ballistics (mcg2.txt)
+ */
+const G2_DRAG_TABLE: [number, number][] = [
+  [0.00, 0.2303], [0.05, 0.2298], [0.10, 0.2287], [0.15, 0.2271], [0.20, 0.2251],
+  [0.25, 0.2227], [0.30, 0.2196], [0.35, 0.2156], [0.40, 0.2107], [0.45, 0.2048],
+  [0.50, 0.1980], [0.55, 0.1905], [0.60, 0.1828], [0.65, 0.1758], [0.70, 0.1702],
+  [0.75, 0.1669], [0.775, 0.1664], [0.80, 0.1667], [0.825, 0.1682], [0.85, 0.1711],
+  [0.875, 0.1761], [0.90, 0.1831], [0.925, 0.2004], [0.95, 0.2589], [0.975, 0.3492],
+  [1.00, 0.3983], [1.025, 0.4075], [1.05, 0.4103], [1.075, 0.4114], [1.10, 0.4106],
+  [1.15, 0.4078], [1.20, 0.4021], [1.25, 0.3966], [1.30, 0.3904], [1.35, 0.3846],
+  [1.40, 0.3788], [1.45, 0.3733], [1.50, 0.3678], [1.55, 0.3625], [1.60, 0.3577],
+  [1.65, 0.3534], [1.70, 0.3491], [1.75, 0.3451], [1.80, 0.3411], [1.85, 0.3371],
+  [1.90, 0.3332], [1.95, 0.3296], [2.00, 0.3259], [2.05, 0.3223], [2.10, 0.3187],
+  [2.15, 0.3152], [2.20, 0.3118], [2.25, 0.3084], [2.30, 0.3051], [2.35, 0.3018],
+  [2.40, 0.2988], [2.45, 0.2958], [2.50, 0.2929], [2.55, 0.2901], [2.60, 0.2874],
+  [2.65, 0.2848], [2.70, 0.2823], [2.75, 0.2799], [2.80, 0.2775], [2.85, 0.2752],
+  [2.90, 0.2729], [2.95, 0.2707], [3.00, 0.2686], [3.10, 0.2645], [3.20, 0.2605],
+  [3.30, 0.2567], [3.40, 0.2530], [3.50, 0.2494], [3.60, 0.2460], [3.70, 0.2426],
+  [3.80, 0.2394], [3.90, 0.2362], [4.00, 0.2332], [4.20, 0.2274], [4.40, 0.2220],
+  [4.60, 0.2169], [4.80, 0.2120], [5.00, 0.2075],
+];
+
+/**
+ * G5 drag coefficient vs Mach number.
+ * The G5 reference projectile is a short 7.5 deg boat-tail with 6.19-caliber
+ * tangent ogive — a common fit for older boat-tail hunting bullets.
+ * Source: JBM Ballistics (mcg5.txt)
+ */
+const G5_DRAG_TABLE: [number, number][] = [
+  [0.00, 0.1710], [0.05, 0.1719], [0.10, 0.1727], [0.15, 0.1732], [0.20, 0.1734],
+  [0.25, 0.1730], [0.30, 0.1718], [0.35, 0.1696], [0.40, 0.1668], [0.45, 0.1637],
+  [0.50, 0.1603], [0.55, 0.1566], [0.60, 0.1529], [0.65, 0.1497], [0.70, 0.1473],
+  [0.75, 0.1463], [0.80, 0.1489], [0.85, 0.1583], [0.875, 0.1672], [0.90, 0.1815],
+  [0.925, 0.2051], [0.95, 0.2413], [0.975, 0.2884], [1.00, 0.3379], [1.025, 0.3785],
+  [1.05, 0.4032], [1.075, 0.4147], [1.10, 0.4201], [1.15, 0.4278], [1.20, 0.4338],
+  [1.25, 0.4373], [1.30, 0.4392], [1.35, 0.4403], [1.40, 0.4406], [1.45, 0.4401],
+  [1.50, 0.4386], [1.55, 0.4362], [1.60, 0.4328], [1.65, 0.4286], [1.70, 0.4237],
+  [1.75, 0.4182], [1.80, 0.4121], [1.85, 0.4057], [1.90, 0.3991], [1.95, 0.3926],
+  [2.00, 0.3861], [2.05, 0.3800], [2.10, 0.3741], [2.15, 0.3684], [2.20, 0.3630],
+  [2.25, 0.3578], [2.30, 0.3529], [2.35, 0.3481], [2.40, 0.3435], [2.45, 0.3391],
+  [2.50, 0.3349], [2.60, 0.3269], [2.70, 0.3194], [2.80, 0.3125], [2.90, 0.3060],
+  [3.00, 0.2999], [3.10, 0.2942], [3.20, 0.2889], [3.30, 0.2838], [3.40, 0.2790],
+  [3.50, 0.2745], [3.60, 0.2703], [3.70, 0.2662], [3.80, 0.2624], [3.90, 0.2588],
+  [4.00, 0.2553], [4.20, 0.2488], [4.40, 0.2429], [4.60, 0.2376], [4.80, 0.2326],
+  [5.00, 0.2280],
+];
+
+/**
+ * G6 drag coefficient vs Mach number.
+ * The G6 reference projectile is a flat-base with 6-caliber secant ogive —
+ * typical for flat-base spitzer military designs.
+ * Source: JBM Ballistics (mcg6.txt)
+ */
+const G6_DRAG_TABLE: [number, number][] = [
+  [0.00, 0.2617], [0.05, 0.2553], [0.10, 0.2491], [0.15, 0.2432], [0.20, 0.2376],
+  [0.25, 0.2324], [0.30, 0.2278], [0.35, 0.2238], [0.40, 0.2205], [0.45, 0.2177],
+  [0.50, 0.2155], [0.55, 0.2138], [0.60, 0.2126], [0.65, 0.2121], [0.70, 0.2122],
+  [0.75, 0.2132], [0.80, 0.2154], [0.85, 0.2194], [0.875, 0.2229], [0.90, 0.2297],
+  [0.925, 0.2449], [0.95, 0.2732], [0.975, 0.3141], [1.00, 0.3597], [1.025, 0.3994],
+  [1.05, 0.4261], [1.075, 0.4402], [1.10, 0.4465], [1.125, 0.4490], [1.15, 0.4497],
+  [1.175, 0.4494], [1.20, 0.4482], [1.225, 0.4464], [1.25, 0.4441], [1.30, 0.4390],
+  [1.35, 0.4336], [1.40, 0.4279], [1.45, 0.4221], [1.50, 0.4162], [1.55, 0.4102],
+  [1.60, 0.4042], [1.65, 0.3981], [1.70, 0.3919], [1.75, 0.3855], [1.80, 0.3788],
+  [1.85, 0.3721], [1.90, 0.3652], [1.95, 0.3583], [2.00, 0.3515], [2.05, 0.3447],
+  [2.10, 0.3381], [2.15, 0.3314], [2.20, 0.3249], [2.25, 0.3185], [2.30, 0.3122],
+  [2.35, 0.3060], [2.40, 0.3000], [2.45, 0.2941], [2.50, 0.2883], [2.60, 0.2772],
+  [2.70, 0.2668], [2.80, 0.2574], [2.90, 0.2487], [3.00, 0.2407], [3.10, 0.2333],
+  [3.20, 0.2265], [3.30, 0.2202], [3.40, 0.2144], [3.50, 0.2089], [3.60, 0.2039],
+  [3.70, 0.1991], [3.80, 0.1947], [3.90, 0.1905], [4.00, 0.1866], [4.20, 0.1794],
+  [4.40, 0.1730], [4.60, 0.1673], [4.80, 0.1621], [5.00, 0.1574],
+];
+
+/**
+ * G8 drag coefficient vs Mach number.
+ * The G8 reference projectile is a flat-base with 10-caliber secant ogive.
+ * Source: JBM Ballistics (mcg8.txt)
+ */
+const G8_DRAG_TABLE: [number, number][] = [
+  [0.00, 0.2105], [0.05, 0.2105], [0.10, 0.2104], [0.15, 0.2104], [0.20, 0.2103],
+  [0.25, 0.2103], [0.30, 0.2103], [0.35, 0.2103], [0.40, 0.2103], [0.45, 0.2102],
+  [0.50, 0.2102], [0.55, 0.2102], [0.60, 0.2102], [0.65, 0.2102], [0.70, 0.2103],
+  [0.75, 0.2104], [0.80, 0.2104], [0.825, 0.2104], [0.85, 0.2105], [0.875, 0.2106],
+  [0.90, 0.2109], [0.925, 0.2183], [0.95, 0.2571], [0.975, 0.3358], [1.00, 0.4068],
+  [1.025, 0.4378], [1.05, 0.4476], [1.075, 0.4493], [1.10, 0.4477], [1.125, 0.4450],
+  [1.15, 0.4419], [1.20, 0.4353], [1.25, 0.4283], [1.30, 0.4208], [1.35, 0.4133],
+  [1.40, 0.4059], [1.45, 0.3986], [1.50, 0.3915], [1.55, 0.3845], [1.60, 0.3777],
+  [1.65, 0.3710], [1.70, 0.3645], [1.75, 0.3581], [1.80, 0.3519], [1.85, 0.3458],
+  [1.90, 0.3400], [1.95, 0.3343], [2.00, 0.3288], [2.05, 0.3234], [2.10, 0.3182],
+  [2.15, 0.3131], [2.20, 0.3081], [2.25, 0.3032], [2.30, 0.2983], [2.35, 0.2937],
+  [2.40, 0.2891], [2.45, 0.2845], [2.50, 0.2802], [2.60, 0.2720], [2.70, 0.2642],
+  [2.80, 0.2569], [2.90, 0.2499], [3.00, 0.2432], [3.10, 0.2368], [3.20, 0.2308],
+  [3.30, 0.2251], [3.40, 0.2197], [3.50, 0.2147], [3.60, 0.2101], [3.70, 0.2058],
+  [3.80, 0.2019], [3.90, 0.1983], [4.00, 0.1950], [4.20, 0.1890], [4.40, 0.1837],
+  [4.60, 0.1791], [4.80, 0.1750], [5.00, 0.1713],
+];
+
+/**
+ * GI (Ingalls) drag coefficient vs Mach number.
+ * Historic drag function from the Ingalls tables; G1 is derived from it.
+ * Source: JBM Ballistics (mcgi.txt)
+ */
+const GI_DRAG_TABLE: [number, number][] = [
+  [0.00, 0.2282], [0.05, 0.2282], [0.10, 0.2282], [0.15, 0.2282], [0.20, 0.2282],
+  [0.25, 0.2282], [0.30, 0.2282], [0.35, 0.2282], [0.40, 0.2282], [0.45, 0.2282],
+  [0.50, 0.2282], [0.55, 0.2282], [0.60, 0.2282], [0.65, 0.2282], [0.70, 0.2282],
+  [0.725, 0.2353], [0.75, 0.2434], [0.775, 0.2515], [0.80, 0.2596], [0.825, 0.2677],
+  [0.85, 0.2759], [0.875, 0.2913], [0.90, 0.3170], [0.925, 0.3442], [0.95, 0.3728],
+  [1.00, 0.4349], [1.05, 0.5034], [1.075, 0.5402], [1.10, 0.5756], [1.125, 0.5887],
+  [1.15, 0.6018], [1.175, 0.6149], [1.20, 0.6279], [1.225, 0.6418], [1.25, 0.6423],
+  [1.30, 0.6423], [1.35, 0.6423], [1.40, 0.6423], [1.45, 0.6423], [1.50, 0.6423],
+  [1.55, 0.6423], [1.60, 0.6423], [1.625, 0.6407], [1.65, 0.6378], [1.70, 0.6321],
+  [1.75, 0.6266], [1.80, 0.6213], [1.85, 0.6163], [1.90, 0.6113], [1.95, 0.6066],
+  [2.00, 0.6020], [2.05, 0.5976], [2.10, 0.5933], [2.15, 0.5891], [2.20, 0.5850],
+  [2.25, 0.5811], [2.30, 0.5773], [2.35, 0.5733], [2.40, 0.5679], [2.45, 0.5626],
+  [2.50, 0.5576], [2.60, 0.5478], [2.70, 0.5386], [2.80, 0.5298], [2.90, 0.5215],
+  [3.00, 0.5136], [3.10, 0.5061], [3.20, 0.4989], [3.30, 0.4921], [3.40, 0.4855],
+  [3.50, 0.4792], [3.60, 0.4732], [3.70, 0.4674], [3.80, 0.4618], [3.90, 0.4564],
+  [4.00, 0.4513], [4.20, 0.4415], [4.40, 0.4323], [4.60, 0.4238], [4.80, 0.4157],
+  [5.00, 0.4082],
+];
+
 // =============================================================================
 // Drag Coefficient Lookup
 // =============================================================================
@@ -137,30 +338,92 @@ function interpolateDragTable(mach: number, table: [number, number][]): number {
 }
 
 /**
- * Get G1 drag coefficient at the given Mach number.
- * G1 is the standard model for flat-base, spitzer bullets.
+ * Standard drag tables by model.
+ * G1 is the standard model for flat-base, spitzer bullets; G7 is preferred for
+ * modern boat-tail, tangent ogive bullets (VLD, ELD, etc.).
+ */
+const STANDARD_DRAG_TABLES: Record<Exclude<DragModel, 'custom'>, [number, number][]> = {
+  g1: G1_DRAG_TABLE,
+  g2: G2_DRAG_TABLE,
+  g5: G5_DRAG_TABLE,
+  g6: G6_DRAG_TABLE,
+  g7: G7_DRAG_TABLE,
+  g8: G8_DRAG_TABLE,
+  gi: GI_DRAG_TABLE,
+};
+
+/**
+ * Check whether the ammunition carries a usable custom drag curve.
+ * A CDM needs at least two points and the bullet diameter, because the
+ * curve describes the bullet itself and drag then scales with its own
+ * sectional density instead of a BC.
  */
-function getG1DragCoefficient(mach: number): number {
-  return interpolateDragTable(mach, G1_DRAG_TABLE);
+function hasCustomDragCurve(ammo: AmmunitionData): boolean {
+  return ammo.customDragCurve != null &&
+    ammo.customDragCurve.length >= 2 &&
+    ammo.bulletDiameter != null &&
+    ammo.bulletDiameter > 0;
 }
 
 /**
- * Get G7 drag coefficient at the given Mach number.
- * G7 is preferred for modern boat-tail, tangent ogive bullets (VLD, ELD, etc.).
+ * BC of the ammunition referenced to a standard drag model, if it has one.
+ * G1 always has one; the other models need their own published BC.
  */
-function getG7DragCoefficient(mach: number): number {
-  return interpolateDragTable(mach, G7_DRAG_TABLE);
+function getModelBC(ammo: AmmunitionData, model: Exclude<DragModel, 'custom'>): number | undefined {
+  if (model === 'g1') {
+    return ammo.ballisticCoefficient;
+  }
+  if (model === 'g7') {
+    return ammo.bcG7;
+  }
+  return ammo.bcByModel?.[model];
+}
+
+/**
+ * Resolve the drag model the ammunition data supports.
+ * A model without its own BC (or 'custom' without a usable curve) falls back
+ * to G1 with the G1 BC: a G1 BC run through another drag table would be
+ * wrong. Screens compare the result with the selected model to show the fallback.
+ *
+ * @param ammo - Ammunition data
+ * @param model - Selected drag model
+ * @returns The selected model, or 'g1' if the data for it is missing
+ */
+export function resolveDragModel(ammo: AmmunitionData, model: DragModel): DragModel {
+  if (model === 'custom') {
+    return hasCustomDragCurve(ammo) ? model : 'g1';
+  }
+  return getModelBC(ammo, model) != null ? model : 'g1';
 }
 
 /**
- * Dispatch to the appropriate drag model.
+ * Resolve the drag model actually used for a profile (see resolveDragModel).
+ */
+export function getEffectiveDragModel(profile: RifleProfile): DragModel {
+  return resolveDragModel(profile.ammunition, profile.dragModel || 'g1');
+}
+
+/**
+ * Select the Mach/Cd table for the given drag model.
  *
- * @param mach - Mach number
- * @param model - 'g1' or 'g7'
- * @returns Drag coefficient (Cd) for the selected model
+ * @param ammo - Ammunition data (provides the custom curve for 'custom')
+ * @param model - Drag model (must already be resolved by getEffectiveDragModel)
+ * @returns Drag table as [Mach, Cd] pairs sorted by Mach ascending
  */
-function getDragCoefficient(mach: number, model: DragModel): number {
-  return model === 'g7' ? getG7DragCoefficient(mach) : getG1DragCoefficient(mach);
+function getDragTable(ammo: AmmunitionData, model: DragModel): [number, number][] {
+  if (model === 'custom') {
+    return ammo.customDragCurve!;
+  }
+  return STANDARD_DRAG_TABLES[model];
+}
+
+/**
+ * Sectional density in lb/in^2, the "BC" of a bullet measured against its own
+ * drag curve (form factor 1).
+ */
+function getSectionalDensity(ammo: AmmunitionData): number {
+  const diameter = ammo.bulletDiameter ?? 0;
+  return ammo.bulletWeight / GRAINS_PER_POUND / (diameter * diameter);
 }
 
 // =============================================================================
@@ -170,15 +433,22 @@ function getDragCoefficient(mach: number, model: DragModel): number {
 /**
  * Get the effective ballistic coefficient for the current velocity and drag model.
  *
- * If the ammunition defines velocity-band BCs (`bcBands`), we select the band
+ * If the ammunition defines velocity-band BCs (`bcBands`) referenced to the
+ * drag model in use (`bcBandsModel`, default G1), we select the band
  * whose velocity threshold is closest below the current velocity. Bands are
  * expected to be sorted descending by velocityThreshold: the first band where
  * velocity >= threshold is used. If velocity is below all thresholds, the
  * last (lowest) band is used.
  *
- * Otherwise, falls back to the single-value BC appropriate for the drag model:
- * - G7: use `bcG7` if available, else `ballisticCoefficient`
- * - G1: use `ballisticCoefficient`
+ * Otherwise, uses the single-value BC referenced to the drag model:
+ * - G1: `ballisticCoefficient`
+ * - G7: `bcG7`
+ * - G2/G5/G6/G8/GI: `bcByModel[model]`
+ * The model must be resolved by getEffectiveDragModel first; a model without
+ * its own BC throws instead of borrowing the G1 BC.
+ *
+ * A custom drag curve already describes the bullet, so its "BC" is simply the
+ * sectional density and velocity bands do not apply.
  *
  * @param ammo - Ammunition data
  * @param velocity - Current bullet velocity in m/s
@@ -186,7 +456,11 @@ function getDragCoefficient(mach: number, model: DragModel): number {
  * @returns Effective BC for drag calculation
  */
 function getBCForVelocity(ammo: AmmunitionData, velocity: number, model: DragModel): number {
-  if (ammo.bcBands && ammo.bcBands.length > 0) {
+  if (model === 'custom') {
+    return getSectionalDensity(ammo);
+  }
+
+  if (ammo.bcBands && ammo.bcBands.length > 0 && model === (ammo.bcBandsModel ?? 'g1')) {
     for (const band of ammo.bcBands) {
       if (velocity >= band.velocityThreshold) {
         return band.bc;
@@ -196,11 +470,27 @@ function getBCForVelocity(ammo: AmmunitionData, velocity: number, model: DragMod
     return ammo.bcBands[ammo.bcBands.length - 1].bc;
   }
 
-  if (model === 'g7' && ammo.bcG7 != null) {
-    return ammo.bcG7;
+  const modelBC = getModelBC(ammo, model);
+  if (modelBC == null) {
+    throw new Error(`No ${DRAG_MODEL_LABELS[model]} BC for ${ammo.name}`);
   }
+  return modelBC;
+}
 
-  return ammo.ballisticCoefficient;
+/**
+ * Nominal ballistic coefficient for display, ignoring velocity bands.
+ * For a custom drag curve this is the bullet's sectional density.
+ *
+ * @param ammo - Ammunition data
+ * @param model - Drag model
+ * @returns BC referenced to resolveDragModel(ammo, model), so label it with that model
+ */
+export function getNominalBC(ammo: AmmunitionData, model: DragModel): number {
+  const resolved = resolveDragModel(ammo, model);
+  if (resolved === 'custom') {
+    return Math.round(getSectionalDensity(ammo) * 1000) / 1000;
+  }
+  return getModelBC(ammo, resolved)!;
 }
 
 // =============================================================================
@@ -317,6 +607,215 @@ export function createStandardEnvironment(
   };
 }
 
+/**
+ * Equivalent horizontal distance for an inclined shot (rifleman's rule).
+ *
+ * A rangefinder measures the line-of-sight distance; gravity only acts over
+ * its horizontal projection: d_h = d_los * cos(angle). Hunters without an
+ * angle-compensating rangefinder can use this to sanity-check holdover
+ * tables that are based on horizontal distance.
+ *
+ * @param lineOfSightDistance - Rangefinder (slant) distance in meters
+ * @param shotAngle - Inclination in degrees (positive = uphill, negative = downhill)
+ * @returns Horizontal distance in meters
+ */
+export function calculateHorizontalDistance(
+  lineOfSightDistance: number,
+  shotAngle: number
+): number {
+  return lineOfSightDistance * Math.cos((shotAngle * Math.PI) / 180);
+}
+
+// =============================================================================
+// Muzzle Velocity
+// =============================================================================
+
+/**
+ * Effective muzzle velocity for the current powder temperature.
+ *
+ * Propellant burns faster when warm, so muzzle velocity changes roughly
+ * linearly with powder temperature:
+ *   V0 = V0_ref + k * (T_powder - T_ref)
+ * where k is the temperature sensitivity (m/s per deg C). Typical values are
+ * 0.1-0.3 m/s/deg C for temperature-stable powders and 0.5-1.5 for others.
+ *
+ * Profile values (measured with the shooter's own rifle) take precedence over
+ * the ammunition's; this includes a trued V0 (`profile.muzzleVelocity`).
+ * Without a known sensitivity the nominal V0 is returned.
+ * The powder temperature defaults to the air temperature.
+ *
+ * @param profile - Rifle profile with ammunition
+ * @param environment - Environmental conditions (powderTemperature / temperature)
+ * @returns Muzzle velocity in m/s
+ */
+export function calculateMuzzleVelocity(
+  profile: RifleProfile,
+  environment: BallisticEnvironment
+): number {
+  const ammo = profile.ammunition;
+  const nominal = getNominalMuzzleVelocity(profile);
+  const sensitivity = profile.powderTempSensitivity ?? ammo.powderTempSensitivity;
+  if (sensitivity == null) return nominal;
+
+  const reference = profile.powderTempReference ?? ammo.powderTempReference ?? DEFAULT_POWDER_TEMP_REFERENCE;
+  const powderTemperature = environment.powderTemperature ?? environment.temperature;
+
+  return nominal + sensitivity * (powderTemperature - reference);
+}
+
+/**
+ * Muzzle velocity at the reference powder temperature: the trued value if the
+ * profile has one, else the ammunition's published V0 adjusted to the
+ * profile's barrel length (see `calculateBarrelLengthAdjustment`).
+ *
+ * @param profile - Rifle profile with ammunition
+ * @returns Muzzle velocity in m/s
+ */
+export function getNominalMuzzleVelocity(profile: RifleProfile): number {
+  // A trued V0 was measured with the shooter's own barrel
+  return profile.muzzleVelocity ??
+    profile.ammunition.muzzleVelocity + calculateBarrelLengthAdjustment(profile.ammunition, profile.barrelLength);
+}
+
+/**
+ * Change of the ammunition's published V0 for a rifle's barrel length.
+ *
+ * Published velocities are measured in the manufacturer's test barrel
+ * (24" for US makers, 600 mm for C.I.P. makers). Over the usual hunting
+ * barrel lengths V0 changes roughly linearly:
+ *   dV = (barrel - test barrel) * velocity per inch
+ * with 7-8 m/s (~25 fps) per inch for standard cartridges and more for
+ * magnums. A suppressor adds a few m/s at most and is not modelled.
+ *
+ * Returns 0 without a barrel length or test barrel length.
+ *
+ * @param ammo - Ammunition with its test barrel length
+ * @param barrelLength - Rifle barrel length in inches
+ * @returns Velocity change in m/s (negative for shorter barrels), rounded to 0.1
+ */
+export function calculateBarrelLengthAdjustment(ammo: AmmunitionData, barrelLength?: number): number {
+  if (barrelLength == null || ammo.testBarrelLength == null) return 0;
+
+  const velocityPerInch = ammo.velocityPerInch ?? DEFAULT_VELOCITY_PER_INCH;
+  return Math.round((barrelLength - ammo.testBarrelLength) * velocityPerInch * 10) / 10;
+}
+
+// =============================================================================
+// Gyroscopic Stability & Spin Drift
+// =============================================================================
+
+/**
+ * Gyroscopic stability factor (Sg) using the Miller twist rule.
+ *
+ * Formula (Don Miller, 2005):
+ *   Sg = 30 * m / (t^2 * d^3 * l * (1 + l^2))
+ * where:
+ *   m = bullet weight (grains)
+ *   d = bullet diameter (inches)
+ *   t = twist rate in calibers (twist inches / d)
+ *   l = bullet length in calibers (length inches / d)
+ *
+ * The base value is referenced to 2800 fps and standard air, so it is scaled by
+ *   (V / 2800)^(1/3)            — velocity correction (V in fps)
+ *   rho_std / rho               — air density correction
+ * Thin, cold-weather-dense air at altitude raises Sg; dense cold air lowers it.
+ *
+ * Rule of thumb: Sg >= 1.4 is fully stable, 1.0-1.4 marginal (BC suffers),
+ * below 1.0 the bullet is unstable.
+ *
+ * @param profile - Rifle profile (twist rate) with ammunition (weight, length, diameter)
+ * @param environment - Environmental conditions for the density correction
+ * @returns Stability factor, or null if twist rate, bullet length or diameter is unknown
+ */
+export function calculateStabilityFactor(
+  profile: RifleProfile,
+  environment: BallisticEnvironment
+): number | null {
+  const { bulletWeight, bulletLength, bulletDiameter } = profile.ammunition;
+  const twistRate = profile.twistRate;
+
+  if (!twistRate || !bulletLength || !bulletDiameter) return null;
+
+  const twistCalibers = twistRate / bulletDiameter;
+  const lengthCalibers = bulletLength / bulletDiameter;
+
+  const sg = (30 * bulletWeight) / (
+    twistCalibers * twistCalibers *
+    Math.pow(bulletDiameter, 3) *
+    lengthCalibers * (1 + lengthCalibers * lengthCalibers)
+  );
+
+  const muzzleVelocity = calculateMuzzleVelocity(profile, environment);
+  const velocityFactor = Math.cbrt((muzzleVelocity * MPS_TO_FPS) / 2800);
+  const densityFactor = STANDARD_AIR_DENSITY / calculateAirDensity(environment);
+
+  return sg * velocityFactor * densityFactor;
+}
+
+/**
+ * Spin drift (gyroscopic drift) using Bryan Litz's empirical formula.
+ *
+ * Formula: SD = 1.25 * (Sg + 1.2) * t^1.83   (inches, t = time of flight in s)
+ *
+ * A right-hand twist drifts the bullet to the right, a left-hand twist to the left.
+ *
+ * @param stabilityFactor - Gyroscopic stability factor (Sg)
+ * @param time - Time of flight in seconds
+ * @param direction - Rifling twist direction (default 'right')
+ * @returns Lateral drift in cm (positive = right)
+ */
+function calculateSpinDrift(
+  stabilityFactor: number,
+  time: number,
+  direction: 'right' | 'left' = 'right'
+): number {
+  const driftInches = 1.25 * (stabilityFactor + 1.2) * Math.pow(time, 1.83);
+  const sign = direction === 'left' ? -1 : 1;
+  return sign * driftInches * INCHES_TO_CM;
+}
+
+// =============================================================================
+// Earth Rotation (Coriolis / Eotvos)
+// =============================================================================
+
+/**
+ * Deflections caused by the Earth's rotation for a given flight.
+ *
+ * In the rotating Earth frame the bullet experiences the Coriolis acceleration
+ * a = -2 * Omega x v. For a near-flat trajectory with mean downrange speed
+ * X / t, integrating twice over the time of flight gives (McCoy, ch. 11):
+ *
+ *   horizontal:  Z = Omega * X * t * sin(latitude)
+ *   vertical:    Y = Omega * X * t * cos(latitude) * sin(azimuth)
+ *
+ * The horizontal term always deflects to the right in the northern hemisphere
+ * (left in the southern), independent of firing direction. The vertical term
+ * (Eotvos effect) lifts bullets fired east and drops bullets fired west.
+ *
+ * Both effects are a few cm at 500 m — small next to wind, but systematic.
+ *
+ * @param distance - Downrange distance travelled (m)
+ * @param time - Time of flight (s)
+ * @param latitude - Shooter latitude in degrees (positive = north)
+ * @param azimuth - Firing direction in degrees (0 = north, 90 = east)
+ * @returns Horizontal drift (cm, positive = right) and vertical shift (cm, positive = high)
+ */
+function calculateEarthRotationEffects(
+  distance: number,
+  time: number,
+  latitude: number,
+  azimuth: number
+): { coriolisDrift: number; eotvos: number } {
+  const latRad = (latitude * Math.PI) / 180;
+  const azRad = (azimuth * Math.PI) / 180;
+  const base = EARTH_ANGULAR_VELOCITY * distance * time * 100; // m to cm
+
+  return {
+    coriolisDrift: base * Math.sin(latRad),
+    eotvos: base * Math.cos(latRad) * Math.sin(azRad),
+  };
+}
+
 // =============================================================================
 // Drag Deceleration
 // =============================================================================
@@ -339,7 +838,7 @@ export function createStandardEnvironment(
  * @param bc - Ballistic coefficient for the active drag model
  * @param airDensity - Current air density (kg/m^3)
  * @param speedOfSound - Local speed of sound (m/s)
- * @param dragModel - Which drag model to use ('g1' or 'g7')
+ * @param dragTable - Mach/Cd table of the active drag model
  * @returns Drag deceleration magnitude (m/s^2), always >= 0
  */
 function calculateDrag(
@@ -347,15 +846,251 @@ function calculateDrag(
   bc: number,
   airDensity: number,
   speedOfSound: number,
-  dragModel: DragModel
+  dragTable: [number, number][]
 ): number {
   const mach = velocity / speedOfSound;
-  const cd = getDragCoefficient(mach, dragModel);
+  const cd = interpolateDragTable(mach, dragTable);
   const densityRatio = airDensity / STANDARD_AIR_DENSITY;
 
   return DRAG_CONSTANT * densityRatio * (cd / bc) * velocity * velocity;
 }
 
+// =============================================================================
+// Trajectory Integration
+// =============================================================================
+
+/** Base timestep for explicit Euler integration (s) */
+const EULER_TIME_STEP = 0.001;
+
+/** Base timestep for RK4 integration (s) */
+const RK4_TIME_STEP = 0.005;
+
+/** Maximum simulated time of flight (s) */
+const MAX_FLIGHT_TIME = 5;
+
+/**
+ * Bullet state during integration.
+ * Positions in meters, velocities in m/s, time in seconds.
+ */
+interface TrajectoryState {
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  t: number;
+}
+
+/**
+ * Everything the equations of motion need besides the bullet state.
+ * Gravity and wind are already resolved into the integration frame.
+ */
+interface FlightConditions {
+  ammo: AmmunitionData;
+  dragModel: DragModel;
+  dragTable: [number, number][];
+  airDensity: number;
+  speedOfSound: number;
+  gravityX: number;
+  gravityY: number;
+  windX: number;
+  windY: number;
+  windZ: number;
+  windZones?: ResolvedWindZone[]; // replaces windX/Y/Z by distance when set
+  bcScale: number;
+}
+
+/**
+ * Wind zone resolved into the integration frame.
+ */
+interface ResolvedWindZone {
+  to: number;
+  windX: number;
+  windY: number;
+  windZ: number;
+}
+
+/**
+ * Resolve a wind into the (possibly tilted) line-of-sight frame.
+ *
+ * windAngle is the direction the wind comes FROM, clockwise from the line of
+ * fire: 0 = headwind, 90 = from the right, 180 = tailwind, 270 = from the left.
+ * The returned components are the velocity of the air mass, so a headwind
+ * blows back towards the shooter (negative x) and a wind from the right blows
+ * to the left (negative z).
+ * Horizontal wind on an inclined shot splits its head/tail component into
+ * along-sight and cross-sight parts; a vertical draft does the same with the
+ * sine and cosine swapped.
+ */
+function resolveWind(
+  speed: number,
+  angle: number,
+  vertical: number,
+  slopeRad: number
+): { windX: number; windY: number; windZ: number } {
+  const windRad = (angle * Math.PI) / 180;
+  const headWind = speed * Math.cos(windRad); // positive = headwind
+  const crossWind = speed * Math.sin(windRad); // positive = from right
+
+  return {
+    windX: -headWind * Math.cos(slopeRad) + vertical * Math.sin(slopeRad),
+    windY: headWind * Math.sin(slopeRad) + vertical * Math.cos(slopeRad),
+    windZ: -crossWind,
+  };
+}
+
+/**
+ * Conditions with the wind of the zone the bullet is in at downrange distance `x`.
+ * Zones are sorted by their end; past the last end the last zone applies.
+ */
+function conditionsAt(conditions: FlightConditions, x: number): FlightConditions {
+  const zones = conditions.windZones;
+  if (!zones || zones.length === 0) return conditions;
+
+  const zone = zones.find(z => x < z.to) ?? zones[zones.length - 1];
+  return { ...conditions, windX: zone.windX, windY: zone.windY, windZ: zone.windZ };
+}
+
+/**
+ * Resolve the integrator and base timestep from the engine options.
+ */
+function resolveIntegration(options?: TrajectoryOptions): { integrator: Integrator; timeStep: number } {
+  const integrator = options?.integrator ?? DEFAULT_INTEGRATOR;
+  const timeStep = options?.timeStep ?? (integrator === 'rk4' ? RK4_TIME_STEP : EULER_TIME_STEP);
+  return { integrator, timeStep };
+}
+
+/**
+ * Bullet acceleration for the given velocity.
+ *
+ * Drag acts on the velocity relative to the air mass and opposes it;
+ * gravity is absolute. Position does not enter the equations of motion.
+ *
+ * @returns Acceleration components [ax, ay, az] in m/s^2
+ */
+function calculateAcceleration(
+  vx: number,
+  vy: number,
+  vz: number,
+  conditions: FlightConditions
+): [number, number, number] {
+  const vxRel = vx - conditions.windX;
+  const vyRel = vy - conditions.windY;
+  const vzRel = vz - conditions.windZ;
+  const vRel = Math.sqrt(vxRel * vxRel + vyRel * vyRel + vzRel * vzRel);
+
+  const bc = getBCForVelocity(conditions.ammo, vRel, conditions.dragModel) * conditions.bcScale;
+  const drag = calculateDrag(vRel, bc, conditions.airDensity, conditions.speedOfSound, conditions.dragTable);
+
+  return [
+    -(conditions.gravityX + (drag * vxRel) / vRel),
+    -(conditions.gravityY + (drag * vyRel) / vRel),
+    -(drag * vzRel) / vRel,
+  ];
+}
+
+/**
+ * Timestep for the current state: half the base step in the transonic region
+ * (Mach 0.9-1.1) where drag changes rapidly.
+ */
+function getTimeStep(state: TrajectoryState, conditions: FlightConditions, baseStep: number): number {
+  const vxRel = state.vx - conditions.windX;
+  const vyRel = state.vy - conditions.windY;
+  const vzRel = state.vz - conditions.windZ;
+  const mach = Math.sqrt(vxRel * vxRel + vyRel * vyRel + vzRel * vzRel) / conditions.speedOfSound;
+  return (mach > 0.9 && mach < 1.1) ? baseStep / 2 : baseStep;
+}
+
+/**
+ * Semi-implicit Euler step: velocities first, then positions with the new velocities.
+ */
+function eulerStep(state: TrajectoryState, conditions: FlightConditions, dt: number): TrajectoryState {
+  const [ax, ay, az] = calculateAcceleration(state.vx, state.vy, state.vz, conditions);
+  const vx = state.vx + ax * dt;
+  const vy = state.vy + ay * dt;
+  const vz = state.vz + az * dt;
+
+  return {
+    x: state.x + vx * dt,
+    y: state.y + vy * dt,
+    z: state.z + vz * dt,
+    vx,
+    vy,
+    vz,
+    t: state.t + dt,
+  };
+}
+
+/**
+ * Classic fourth-order Runge-Kutta step.
+ *
+ * Since acceleration depends only on velocity, the position update collapses to
+ * x + v*dt + dt^2/6 * (a1 + a2 + a3).
+ */
+function rk4Step(state: TrajectoryState, conditions: FlightConditions, dt: number): TrajectoryState {
+  const half = dt / 2;
+  const [ax1, ay1, az1] = calculateAcceleration(state.vx, state.vy, state.vz, conditions);
+  const [ax2, ay2, az2] = calculateAcceleration(
+    state.vx + ax1 * half, state.vy + ay1 * half, state.vz + az1 * half, conditions
+  );
+  const [ax3, ay3, az3] = calculateAcceleration(
+    state.vx + ax2 * half, state.vy + ay2 * half, state.vz + az2 * half, conditions
+  );
+  const [ax4, ay4, az4] = calculateAcceleration(
+    state.vx + ax3 * dt, state.vy + ay3 * dt, state.vz + az3 * dt, conditions
+  );
+
+  const dt2 = (dt * dt) / 6;
+  return {
+    x: state.x + state.vx * dt + dt2 * (ax1 + ax2 + ax3),
+    y: state.y + state.vy * dt + dt2 * (ay1 + ay2 + ay3),
+    z: state.z + state.vz * dt + dt2 * (az1 + az2 + az3),
+    vx: state.vx + (dt / 6) * (ax1 + 2 * ax2 + 2 * ax3 + ax4),
+    vy: state.vy + (dt / 6) * (ay1 + 2 * ay2 + 2 * ay3 + ay4),
+    vz: state.vz + (dt / 6) * (az1 + 2 * az2 + 2 * az3 + az4),
+    t: state.t + dt,
+  };
+}
+
+/**
+ * Advance the state by one (adaptive) step of the selected integrator.
+ * With wind zones, the wind of the zone at the start of the step is used.
+ */
+function stepTrajectory(
+  state: TrajectoryState,
+  conditions: FlightConditions,
+  integrator: Integrator,
+  baseStep: number
+): TrajectoryState {
+  const stepConditions = conditionsAt(conditions, state.x);
+  const dt = getTimeStep(state, stepConditions, baseStep);
+  return integrator === 'euler'
+    ? eulerStep(state, stepConditions, dt)
+    : rk4Step(state, stepConditions, dt);
+}
+
+/**
+ * Interpolate the state at downrange distance `x` between two consecutive steps.
+ * Linear interpolation: within a step the path bends by about g * dt^2 / 8, so
+ * the error is about 0.03 mm at the 5 ms RK4 step and 0.001 mm at the 1 ms Euler step.
+ */
+function interpolateState(before: TrajectoryState, after: TrajectoryState, x: number): TrajectoryState {
+  const span = after.x - before.x;
+  const f = span > 0 ? (x - before.x) / span : 0;
+  const lerp = (a: number, b: number) => a + (b - a) * f;
+
+  return {
+    x,
+    y: lerp(before.y, after.y),
+    z: lerp(before.z, after.z),
+    vx: lerp(before.vx, after.vx),
+    vy: lerp(before.vy, after.vy),
+    vz: lerp(before.vz, after.vz),
+    t: lerp(before.t, after.t),
+  };
+}
+
 // =============================================================================
 // Iterative Zero Angle Solver
 // =============================================================================
@@ -369,47 +1104,52 @@ function calculateDrag(
  *   y = vertical (positive up)
  *   Bullet starts at (0, 0) with launch angle `angle` above horizontal.
  *
- * @param ammo - Ammunition data
+ * @param conditions - Flight conditions (level, no wind)
+ * @param v0 - Muzzle velocity (m/s)
  * @param distance - Target downrange distance (m)
  * @param angle - Launch angle above horizontal (radians)
- * @param airDensity - Air density (kg/m^3)
- * @param speedOfSound - Speed of sound (m/s)
- * @param dragModel - Drag model to use
+ * @param options - Engine options (integrator, timestep)
  * @returns Vertical position (m) at the target distance; positive = above bore axis
  */
 function simulateTrajectoryForZero(
-  ammo: AmmunitionData,
+  conditions: FlightConditions,
+  v0: number,
   distance: number,
   angle: number,
-  airDensity: number,
-  speedOfSound: number,
-  dragModel: DragModel
+  options?: TrajectoryOptions
 ): number {
-  const v0 = ammo.muzzleVelocity;
-  let x = 0;
-  let y = 0;
-  let vx = v0 * Math.cos(angle);
-  let vy = v0 * Math.sin(angle);
-
-  const dt = 0.001; // 1 ms timestep
-
-  while (x < distance) {
-    const v = Math.sqrt(vx * vx + vy * vy);
-    const bc = getBCForVelocity(ammo, v, dragModel);
-    const drag = calculateDrag(v, bc, airDensity, speedOfSound, dragModel);
+  const { integrator, timeStep } = resolveIntegration(options);
+
+  let state: TrajectoryState = {
+    x: 0,
+    y: 0,
+    z: 0,
+    vx: v0 * Math.cos(angle),
+    vy: v0 * Math.sin(angle),
+    vz: 0,
+    t: 0,
+  };
 
-    // Drag opposes velocity direction
-    const dragX = (drag * vx) / v;
-    const dragY = (drag * vy) / v;
+  while (state.x < distance && state.t < MAX_FLIGHT_TIME) {
+    const next = stepTrajectory(state, conditions, integrator, timeStep);
+    if (next.x >= distance) {
+      return interpolateState(state, next, distance).y;
+    }
+    state = next;
+  }
 
-    vx -= dragX * dt;
-    vy -= (GRAVITY + dragY) * dt;
+  return state.y;
+}
 
-    x += vx * dt;
-    y += vy * dt;
-  }
+/** Solved zero angles per profile object, keyed by integrator and timestep */
+const zeroAngleCache = new WeakMap<RifleProfile, Map<string, number>>();
 
-  return y;
+/**
+ * Atmosphere the profile was zeroed in: its stored zero conditions, or the
+ * standard atmosphere.
+ */
+export function getZeroEnvironment(profile: RifleProfile): BallisticEnvironment {
+  return createStandardEnvironment(0, 0, profile.zeroConditions ?? {});
 }
 
 /**
@@ -417,36 +1157,68 @@ function simulateTrajectoryForZero(
  *
  * Uses binary search to find the angle where the bullet's trajectory
  * intersects the sight line at the zero distance. For GEE (Gunstigste
- * Einschussentfernung), the target is 4 cm above sight line at zero distance.
+ * Einschussentfernung), the target is `profile.zeroOffset` (default 4 cm)
+ * above the sight line at zero distance.
  *
  * The sight sits above the bore by `sightHeight`. At zero distance, the
  * bullet path (measured from bore) must equal sightHeight + targetHeight
- * so that the bullet hits where the sight is aimed (or 4cm high for GEE).
+ * so that the bullet hits where the sight is aimed (or the GEE offset high).
+ *
+ * The zero is solved under the conditions the rifle was zeroed in
+ * (`profile.zeroConditions`), not the conditions of the shot: the sight stays
+ * where it was set, so a change in temperature or altitude shows up as a
+ * change in point of impact. Without stored conditions the rifle is assumed
+ * zeroed in the standard atmosphere with the load at its nominal muzzle
+ * velocity; with them, the muzzle velocity is corrected to the powder
+ * temperature at zeroing.
+ *
+ * The angle depends only on the profile, so it is solved once per profile
+ * object (and integration setting) and reused for every environment.
  *
  * Convergence: 30 iterations of binary search give precision of approximately
  * (high-low)/2^30 ~ 0.01 / 2^30 < 0.00001 mm — far beyond needed accuracy.
  *
- * @param profile - Rifle profile (contains zero distance, sight height, zero type, ammo)
- * @param environment - Environmental conditions
+ * @param profile - Rifle profile (contains zero distance, sight height, zero type, ammo, zero conditions)
+ * @param options - Engine options (integrator, timestep)
  * @returns Launch angle in radians
  */
 function calculateZeroAngle(
   profile: RifleProfile,
-  environment: BallisticEnvironment
+  options?: TrajectoryOptions
 ): number {
+  const { integrator, timeStep } = resolveIntegration(options);
+  const cacheKey = `${integrator}:${timeStep}`;
+  const cached = zeroAngleCache.get(profile)?.get(cacheKey);
+  if (cached != null) return cached;
+
   const zeroDistance = profile.zeroDistance;
   const sightHeight = profile.sightHeight / 100; // cm to meters
-  const dragModel = profile.dragModel || 'g1';
+  const dragModel = getEffectiveDragModel(profile);
+  const environment = getZeroEnvironment(profile);
+  const v0 = profile.zeroConditions
+    ? calculateMuzzleVelocity(profile, environment)
+    : getNominalMuzzleVelocity(profile);
 
-  // For GEE, bullet hits 4 cm above point of aim at zero distance
-  const geeOffset = profile.zeroType === 'gee' ? 0.04 : 0;
+  // For GEE, bullet hits zeroOffset cm above point of aim at zero distance
+  const geeOffset = profile.zeroType === 'gee' ? (profile.zeroOffset ?? DEFAULT_GEE_OFFSET) / 100 : 0;
 
   // The bullet must reach this height (from bore axis) at zero distance
   // so it appears at targetHeight above the sight's point of aim
   const targetHeight = sightHeight + geeOffset;
 
-  const airDensity = calculateAirDensity(environment);
-  const speedOfSound = getSpeedOfSound(environment.temperature);
+  const conditions: FlightConditions = {
+    ammo: profile.ammunition,
+    dragModel,
+    dragTable: getDragTable(profile.ammunition, dragModel),
+    airDensity: calculateAirDensity(environment),
+    speedOfSound: getSpeedOfSound(environment.temperature),
+    gravityX: 0,
+    gravityY: GRAVITY,
+    windX: 0,
+    windY: 0,
+    windZ: 0,
+    bcScale: profile.bcScale ?? 1,
+  };
 
   // Binary search for launch angle
   let low = 0; // 0 radians — shooting flat
@@ -454,14 +1226,7 @@ function calculateZeroAngle(
 
   for (let i = 0; i < 30; i++) {
     const mid = (low + high) / 2;
-    const impact = simulateTrajectoryForZero(
-      profile.ammunition,
-      zeroDistance,
-      mid,
-      airDensity,
-      speedOfSound,
-      dragModel
-    );
+    const impact = simulateTrajectoryForZero(conditions, v0, zeroDistance, mid, options);
 
     if (impact < targetHeight) {
       low = mid;
@@ -470,7 +1235,156 @@ function calculateZeroAngle(
     }
   }
 
-  return (low + high) / 2;
+  const angle = (low + high) / 2;
+  const angles = zeroAngleCache.get(profile) ?? new Map<string, number>();
+  angles.set(cacheKey, angle);
+  zeroAngleCache.set(profile, angles);
+  return angle;
+}
+
+// =============================================================================
+// Maximum Point-Blank Range (GEE)
+// =============================================================================
+
+/**
+ * Trace a level, windless trajectory for a given launch angle and report where
+ * it crosses the sight line and the lower deviation limit.
+ *
+ * @returns Apex height above the sight line (m), crossing distances (m, NaN if
+ *          not reached) and the height above the sight line at `sightInDistance` (m)
+ */
+function traceLineOfSight(
+  conditions: FlightConditions,
+  v0: number,
+  angle: number,
+  sightHeight: number,
+  deviation: number,
+  sightInDistance: number
+): {
+  maxHeight: number;
+  apexDistance: number;
+  nearZero: number;
+  farZero: number;
+  pointBlankRange: number;
+  sightInHeight: number;
+} {
+  const { integrator, timeStep } = resolveIntegration();
+  const crossing = (a: TrajectoryState, b: TrajectoryState, height: number) =>
+    a.x + ((b.x - a.x) * (height - a.y)) / (b.y - a.y);
+
+  let state: TrajectoryState = {
+    x: 0,
+    y: -sightHeight,
+    z: 0,
+    vx: v0 * Math.cos(angle),
+    vy: v0 * Math.sin(angle),
+    vz: 0,
+    t: 0,
+  };
+  let maxHeight = state.y;
+  let apexDistance = 0;
+  let nearZero = NaN;
+  let farZero = NaN;
+  let pointBlankRange = NaN;
+  let sightInHeight = NaN;
+
+  while (state.t < MAX_FLIGHT_TIME) {
+    const next = stepTrajectory(state, conditions, integrator, timeStep);
+
+    if (next.y > maxHeight) {
+      maxHeight = next.y;
+      apexDistance = next.x;
+    }
+    if (state.x < sightInDistance && next.x >= sightInDistance) {
+      sightInHeight = interpolateState(state, next, sightInDistance).y;
+    }
+    if (state.y < 0 && next.y >= 0) {
+      nearZero = crossing(state, next, 0);
+    }
+    if (state.y > 0 && next.y <= 0) {
+      farZero = crossing(state, next, 0);
+    }
+    // Below the lower limit after the apex: end of point-blank range
+    if (!isNaN(farZero) && next.y <= -deviation) {
+      pointBlankRange = crossing(state, next, -deviation);
+      break;
+    }
+
+    state = next;
+  }
+
+  return { maxHeight, apexDistance, nearZero, farZero, pointBlankRange, sightInHeight };
+}
+
+/**
+ * Find the zero that maximizes the point-blank range for an allowed deviation.
+ *
+ * The point-blank range (Fleckschussentfernung) is the distance up to which the
+ * bullet stays within +-deviation of the point of aim. It is longest when the
+ * trajectory apex touches +deviation: the bullet then rises through the sight
+ * line at the near zero, peaks at +deviation, falls back through the far zero
+ * and leaves the band at -deviation at the maximum point-blank range (MPBR).
+ *
+ * The launch angle is found by binary search on the apex height. The result is
+ * expressed as a GEE sight-in instruction: hit `sightInOffset` cm high at
+ * `sightInDistance` (usually 100 m), which gives exactly this trajectory.
+ * Computed for a level shot without wind, at the nominal muzzle velocity.
+ *
+ * @param profile - Rifle profile (ammunition, sight height, drag model; zero settings are ignored)
+ * @param allowedDeviation - Allowed deviation above/below the point of aim (cm), e.g. 4
+ * @param environment - Environmental conditions
+ * @param sightInDistance - Distance at which the rifle is sighted in (m), default 100
+ * @returns Near zero, far zero, MPBR and the sight-in offset
+ */
+export function calculatePointBlankRange(
+  profile: RifleProfile,
+  allowedDeviation: number,
+  environment: BallisticEnvironment,
+  sightInDistance: number = 100
+): PointBlankResult {
+  const sightHeight = profile.sightHeight / 100; // cm to meters
+  const deviation = allowedDeviation / 100; // cm to meters
+  const dragModel = getEffectiveDragModel(profile);
+  const v0 = getNominalMuzzleVelocity(profile);
+
+  const conditions: FlightConditions = {
+    ammo: profile.ammunition,
+    dragModel,
+    dragTable: getDragTable(profile.ammunition, dragModel),
+    airDensity: calculateAirDensity(environment),
+    speedOfSound: getSpeedOfSound(environment.temperature),
+    gravityX: 0,
+    gravityY: GRAVITY,
+    windX: 0,
+    windY: 0,
+    windZ: 0,
+    bcScale: profile.bcScale ?? 1,
+  };
+
+  // Binary search for the launch angle whose apex is exactly +deviation
+  let low = 0;
+  let high = 0.02;
+  for (let i = 0; i < 30; i++) {
+    const mid = (low + high) / 2;
+    const { maxHeight } = traceLineOfSight(conditions, v0, mid, sightHeight, deviation, sightInDistance);
+    if (maxHeight < deviation) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const trace = traceLineOfSight(conditions, v0, (low + high) / 2, sightHeight, deviation, sightInDistance);
+
+  return {
+    allowedDeviation,
+    nearZero: Math.round(trace.nearZero),
+    farZero: Math.round(trace.farZero),
+    pointBlankRange: Math.round(trace.pointBlankRange),
+    maxOrdinateDistance: Math.round(trace.apexDistance),
+    sightInDistance,
+    sightInOffset: Math.round(trace.sightInHeight * 1000) / 10, // m to cm, 1 decimal
+  };
 }
 
 // =============================================================================
@@ -480,126 +1394,853 @@ function calculateZeroAngle(
 /**
  * Calculate the full ballistic trajectory from muzzle to target distance.
  *
- * Coordinate system:
- *   x = downrange (meters, horizontal)
- *   y = vertical (meters, positive up)
+ * Convenience wrapper around `calculateTrajectoryTable` for a single distance.
+ * See that function for the coordinate system, wind model and integration details.
+ *
+ * @param profile - Rifle profile with ammunition, zero settings, drag model
+ * @param targetDistance - Distance to target in meters
+ * @param environment - Environmental conditions (temperature, pressure, humidity, wind)
+ * @param options - Engine options (integrator, timestep)
+ * @returns BallisticResult with drop, drift, time, velocity, energy, machAtTarget
+ */
+export function calculateTrajectory(
+  profile: RifleProfile,
+  targetDistance: number,
+  environment: BallisticEnvironment,
+  options?: TrajectoryOptions
+): BallisticResult {
+  return calculateTrajectoryTable(profile, [targetDistance], environment, options)[0];
+}
+
+/**
+ * Calculate ballistic results for several distances in a single pass.
+ *
+ * The zero angle is solved once and the trajectory is integrated from the
+ * muzzle only once; the state at each requested distance is interpolated
+ * between the two steps that bracket it. Every entry is therefore identical to what
+ * `calculateTrajectory` returns for that distance, but a 21-row range card
+ * costs one integration instead of 21 (plus 21 zero solves).
+ *
+ * Coordinate system (aligned with the line of sight):
+ *   x = downrange along the line of sight (meters)
+ *   y = perpendicular to the line of sight (meters, positive up)
  *   z = lateral (meters, positive right)
  *
+ * On level ground this is the usual horizontal/vertical frame. For an inclined
+ * shot (`environment.shotAngle`), the frame is tilted with the sight line, so
+ * requested distances are line-of-sight (rangefinder) distances and drop is
+ * measured perpendicular to the sight line — i.e. the hold the shooter needs.
+ * Gravity is resolved into an along-sight component (g * sin(angle)) and a
+ * cross-sight component (g * cos(angle)); the latter is what bends the bullet
+ * away from the sight line, which is why both uphill and downhill shots hit high.
+ *
  * The bullet starts at (0, -sightHeight, 0) — below the sight line by the
  * sight height. The zero angle is computed so the bullet crosses the sight
- * line at the zero distance.
+ * line at the zero distance under the profile's zero conditions (see
+ * `calculateZeroAngle`); in any other environment the point of impact at the
+ * zero distance moves.
  *
  * Wind model: The drag force acts on the bullet's velocity RELATIVE to the
  * air mass. Wind shifts the air, so relative velocity = bullet velocity - wind.
  * This naturally produces both crosswind drift and head/tailwind drag effects
  * without any empirical coefficients.
  *
- * Wind angle convention (same as BallisticEnvironment):
- *   0 deg   = pure headwind (slows bullet)
- *   90 deg  = right crosswind (pushes bullet left, but drift shows as positive right)
- *   180 deg = pure tailwind (reduces drag)
+ * Wind angle convention (same as BallisticEnvironment), direction the wind
+ * comes from, clockwise over the full circle:
+ *   0 deg   = pure headwind, 12 o'clock (increases drag)
+ *   90 deg  = from the right, 3 o'clock (pushes bullet left, negative drift)
+ *   180 deg = pure tailwind, 6 o'clock (reduces drag)
+ *   270 deg = from the left, 9 o'clock (pushes bullet right, positive drift)
+ *
+ * Wind zones: with `environment.windZones`, each zone's wind (including an
+ * optional vertical draft) applies from the previous zone's end up to its own
+ * `to` distance, switched at each integration step.
+ *
+ * Spin drift: If the profile has a twist rate and the ammunition a bullet
+ * length and diameter, the Litz spin drift for the time of flight is added to
+ * `drift` (and reported separately as `spinDrift`), and the Miller stability
+ * factor is reported as `stabilityFactor`.
+ *
+ * Muzzle velocity: adjusted to the barrel length and corrected for powder
+ * temperature (see `calculateMuzzleVelocity`).
  *
- * Adaptive timestep: Uses 0.5 ms steps in the transonic region (Mach 0.9-1.1)
- * where drag changes rapidly, and 1 ms elsewhere.
+ * Earth rotation: If `environment.latitude` is set, the horizontal Coriolis
+ * deflection and vertical Eotvos effect are added to `drift` and `drop` and
+ * reported separately as `coriolisDrift` and `eotvos`.
+ *
+ * Integration: `options.integrator` selects classic RK4 (default, 5 ms steps)
+ * or the semi-implicit Euler scheme (1 ms steps). Both halve the step in the
+ * transonic region (Mach 0.9-1.1) where drag changes rapidly.
  *
  * @param profile - Rifle profile with ammunition, zero settings, drag model
- * @param targetDistance - Distance to target in meters
+ * @param distances - Distances in meters, in any order (duplicates allowed)
  * @param environment - Environmental conditions (temperature, pressure, humidity, wind)
- * @returns BallisticResult with drop, drift, time, velocity, energy, machAtTarget
+ * @param options - Engine options (integrator, timestep)
+ * @returns One BallisticResult per requested distance, in the same order as `distances`
  */
-export function calculateTrajectory(
+export function calculateTrajectoryTable(
   profile: RifleProfile,
-  targetDistance: number,
-  environment: BallisticEnvironment
-): BallisticResult {
+  distances: number[],
+  environment: BallisticEnvironment,
+  options?: TrajectoryOptions
+): BallisticResult[] {
+  // Zero angle — the angle that makes the bullet hit where aimed at zero distance
+  const zeroAngle = calculateZeroAngle(profile, options);
+
+  return integrateTrajectoryTable(profile, distances, environment, zeroAngle, NO_DEVIATION, options);
+}
+
+/**
+ * Shot-to-shot deviation from the nominal load, applied after the zero is solved.
+ */
+interface ShotDeviation {
+  muzzleVelocity: number; // m/s, added to the effective muzzle velocity
+  bcScale: number; // factor on top of the profile's BC scale
+}
+
+const NO_DEVIATION: ShotDeviation = { muzzleVelocity: 0, bcScale: 1 };
+
+/**
+ * Integrate one trajectory for a given launch angle (see `calculateTrajectoryTable`).
+ *
+ * Split out so the Monte Carlo analysis can solve the zero once with the
+ * nominal load and then fire perturbed shots through the same sight setting.
+ */
+function integrateTrajectoryTable(
+  profile: RifleProfile,
+  distances: number[],
+  environment: BallisticEnvironment,
+  zeroAngle: number,
+  deviation: ShotDeviation,
+  options?: TrajectoryOptions
+): BallisticResult[] {
   const ammo = profile.ammunition;
-  const v0 = ammo.muzzleVelocity;
+  const v0 = calculateMuzzleVelocity(profile, environment) + deviation.muzzleVelocity;
   const bulletMass = ammo.bulletWeight * GRAINS_TO_KG;
   const sightHeight = profile.sightHeight / 100; // cm to meters
-  const dragModel = profile.dragModel || 'g1';
+  const dragModel = getEffectiveDragModel(profile);
+  const { integrator, timeStep } = resolveIntegration(options);
 
   // Atmospheric properties
   const airDensity = calculateAirDensity(environment);
   const speedOfSound = getSpeedOfSound(environment.temperature);
 
-  // Zero angle — the angle that makes the bullet hit where aimed at zero distance
-  const zeroAngle = calculateZeroAngle(profile, environment);
+  // Gyroscopic stability — null when twist or bullet dimensions are unknown
+  const stabilityFactor = calculateStabilityFactor(profile, environment);
+
+  // Shot inclination — resolve gravity into the tilted line-of-sight frame
+  const slopeRad = ((environment.shotAngle ?? 0) * Math.PI) / 180;
+  const gravityX = GRAVITY * Math.sin(slopeRad); // along sight line, opposes uphill travel
+  const gravityY = GRAVITY * Math.cos(slopeRad); // perpendicular to sight line
+
+  // Wind components (m/s), per zone when the wind differs along the path
+  const { windX, windY, windZ } = resolveWind(environment.windSpeed, environment.windAngle, 0, slopeRad);
+  const windZones = environment.windZones && environment.windZones.length > 0
+    ? [...environment.windZones]
+      .sort((a, b) => a.to - b.to)
+      .map((zone: WindZone) => ({
+        to: zone.to,
+        ...resolveWind(zone.speed, zone.angle, zone.vertical ?? 0, slopeRad),
+      }))
+    : undefined;
+
+  const conditions: FlightConditions = {
+    ammo,
+    dragModel,
+    dragTable: getDragTable(ammo, dragModel),
+    airDensity,
+    speedOfSound,
+    gravityX,
+    gravityY,
+    windX,
+    windY,
+    windZ,
+    windZones,
+    bcScale: (profile.bcScale ?? 1) * deviation.bcScale,
+  };
 
-  // Wind components (m/s)
-  // windAngle: 0 = headwind, 90 = right crosswind, 180 = tailwind
-  const windRad = (environment.windAngle * Math.PI) / 180;
-  const headWind = environment.windSpeed * Math.cos(windRad); // positive = headwind
-  const crossWind = environment.windSpeed * Math.sin(windRad); // positive = from right
+  // Visit requested distances in ascending order, but report in input order
+  const order = distances
+    .map((_, index) => index)
+    .sort((a, b) => distances[a] - distances[b]);
+  const results: BallisticResult[] = new Array(distances.length);
+  let next = 0;
 
   // Initial state — bullet starts at bore axis, sightHeight below sight line
-  let x = 0;
-  let y = -sightHeight;
-  let z = 0;
-  let vx = v0 * Math.cos(zeroAngle);
-  let vy = v0 * Math.sin(zeroAngle);
-  let vz = 0;
-  let t = 0;
-
-  // Integration loop — advance until we reach target distance or 5s max
-  while (x < targetDistance && t < 5) {
-    // Relative velocity: bullet velocity minus wind velocity in ground frame.
-    // headWind is positive when blowing toward shooter (opposing bullet),
-    // so subtract it from vx to get relative airspeed.
-    const vxRel = vx - headWind;
-    const vyRel = vy; // wind is horizontal only
-    const vzRel = vz - crossWind;
-    const vRel = Math.sqrt(vxRel * vxRel + vyRel * vyRel + vzRel * vzRel);
-
-    // Adaptive timestep: finer near transonic for accuracy
-    const mach = vRel / speedOfSound;
-    const dt = (mach > 0.9 && mach < 1.1) ? 0.0005 : 0.001;
-
-    // Get velocity-dependent BC
-    const bc = getBCForVelocity(ammo, vRel, dragModel);
-
-    // Drag deceleration magnitude (acts on relative velocity vector)
-    const drag = calculateDrag(vRel, bc, airDensity, speedOfSound, dragModel);
-
-    // Decompose drag into components along relative velocity direction
-    const dragX = (drag * vxRel) / vRel;
-    const dragY = (drag * vyRel) / vRel;
-    const dragZ = (drag * vzRel) / vRel;
-
-    // Update velocities
-    // Drag opposes motion relative to air; gravity is absolute
-    vx -= dragX * dt;
-    vy -= (GRAVITY + dragY) * dt;
-    vz -= dragZ * dt;
-
-    // Update positions
-    x += vx * dt;
-    y += vy * dt;
-    z += vz * dt;
-
-    t += dt;
+  let state: TrajectoryState = {
+    x: 0,
+    y: -sightHeight,
+    z: 0,
+    vx: v0 * Math.cos(zeroAngle),
+    vy: v0 * Math.sin(zeroAngle),
+    vz: 0,
+    t: 0,
+  };
+
+  const record = ({ x, y, z, vx, vy, vz, t }: TrajectoryState): BallisticResult => {
+    // Drop: how far below the sight line the bullet is. y is negative when below,
+    // so -y is positive when below the sight line. Convert m to cm.
+    const drop = -y * 100;
+
+    // Velocity magnitude at target (all three components)
+    const velocity = Math.sqrt(vx * vx + vy * vy + vz * vz);
+
+    // Kinetic energy at target (Joules)
+    const energy = 0.5 * bulletMass * velocity * velocity;
+
+    // Mach number at target
+    const machAtTarget = velocity / speedOfSound;
+
+    const result: BallisticResult = {
+      drop: Math.round(drop * 10) / 10,
+      drift: Math.round(z * 100 * 10) / 10, // m to cm, positive = right
+      time: Math.round(t * 1000) / 1000, // round to ms
+      velocity: Math.round(velocity),
+      energy: Math.round(energy),
+      machAtTarget: Math.round(machAtTarget * 100) / 100,
+    };
+
+    // Corrections applied on top of the point-mass trajectory (cm)
+    let totalDrop = drop;
+    let totalDrift = z * 100;
+
+    if (stabilityFactor != null) {
+      const spinDrift = calculateSpinDrift(stabilityFactor, t, profile.twistDirection);
+      totalDrift += spinDrift;
+      result.spinDrift = Math.round(spinDrift * 10) / 10;
+      result.stabilityFactor = Math.round(stabilityFactor * 100) / 100;
+    }
+
+    if (environment.latitude != null) {
+      const earthRotation = calculateEarthRotationEffects(
+        x,
+        t,
+        environment.latitude,
+        environment.azimuth ?? 0
+      );
+      totalDrift += earthRotation.coriolisDrift;
+      totalDrop -= earthRotation.eotvos;
+      result.coriolisDrift = Math.round(earthRotation.coriolisDrift * 10) / 10;
+      result.eotvos = Math.round(earthRotation.eotvos * 10) / 10;
+    }
+
+    result.drop = Math.round(totalDrop * 10) / 10;
+    result.drift = Math.round(totalDrift * 10) / 10;
+
+    return result;
+  };
+
+  // Distances at or behind the muzzle
+  while (next < order.length && distances[order[next]] <= state.x) {
+    results[order[next]] = record(state);
+    next++;
+  }
+
+  // Integration loop — advance until the farthest distance is reached or 5s max
+  while (next < order.length && state.t < MAX_FLIGHT_TIME) {
+    const previous = state;
+    state = stepTrajectory(previous, conditions, integrator, timeStep);
+
+    // Record every distance passed during this step, exactly at that distance
+    while (next < order.length && distances[order[next]] <= state.x) {
+      results[order[next]] = record(interpolateState(previous, state, distances[order[next]]));
+      next++;
+    }
+  }
+
+  // Distances not reached within the time limit report the final state
+  for (; next < order.length; next++) {
+    results[order[next]] = record(state);
+  }
+
+  return results;
+}
+
+// =============================================================================
+// Moving Target Lead
+// =============================================================================
+
+/**
+ * Calculate the lead for a moving target at several distances.
+ *
+ * During the time of flight the target moves on by
+ *   lead = v_target * sin(crossing angle) * t
+ * where 90 deg is a target running straight across and 0 deg one moving
+ * directly towards or away from the shooter (no lead needed). Shooter
+ * reaction time and swing are not included: this is the lead for a
+ * swinging (mitschwingend) shot where the muzzle follows the target.
+ *
+ * @param profile - Rifle profile
+ * @param distances - Distances in meters, in any order
+ * @param targetSpeed - Target speed in m/s
+ * @param crossingAngle - Angle between target path and line of sight (degrees, 90 = crossing)
+ * @param bodyLength - Body length of the game in meters, for the lead in body lengths
+ * @param environment - Environmental conditions
+ * @returns One LeadResult per requested distance, in the same order as `distances`
+ */
+export function calculateLeadTable(
+  profile: RifleProfile,
+  distances: number[],
+  targetSpeed: number,
+  crossingAngle: number,
+  bodyLength: number,
+  environment: BallisticEnvironment
+): LeadResult[] {
+  const crossingSpeed = targetSpeed * Math.sin((crossingAngle * Math.PI) / 180);
+  const results = calculateTrajectoryTable(profile, distances, environment);
+
+  return results.map((result, index) => {
+    const lead = crossingSpeed * result.time * 100; // m to cm
+    const distance = distances[index];
+
+    return {
+      distance,
+      time: result.time,
+      lead: Math.round(lead),
+      bodyLengths: Math.round((lead / (bodyLength * 100)) * 100) / 100,
+      mil: distance > 0 ? Math.round(cmToMIL(lead, distance) * 10) / 10 : 0,
+    };
+  });
+}
+
+/**
+ * Calculate the lead for a moving target at one distance.
+ * Convenience wrapper around `calculateLeadTable`.
+ *
+ * @param profile - Rifle profile
+ * @param distance - Distance in meters
+ * @param targetSpeed - Target speed in m/s
+ * @param crossingAngle - Angle between target path and line of sight (degrees, 90 = crossing)
+ * @param bodyLength - Body length of the game in meters
+ * @param environment - Environmental conditions
+ * @returns Lead in cm, body lengths and mil, plus the time of flight
+ */
+export function calculateLead(
+  profile: RifleProfile,
+  distance: number,
+  targetSpeed: number,
+  crossingAngle: number,
+  bodyLength: number,
+  environment: BallisticEnvironment
+): LeadResult {
+  return calculateLeadTable(profile, [distance], targetSpeed, crossingAngle, bodyLength, environment)[0];
+}
+
+// =============================================================================
+// Ethical Maximum Range & Terminal Performance
+// =============================================================================
+
+/** Millimeters per inch */
+const MM_PER_INCH = 25.4;
+
+/**
+ * Bullet diameter of a profile in millimeters.
+ *
+ * Uses `ammunition.bulletDiameter` when known, otherwise parses the calibre
+ * name: metric designations ("6.5x55", "9.3x62mm", "6.5 Creedmoor") give mm
+ * directly, inch designations (".308 Winchester", ".30-06") are converted.
+ * Inch calibres are named after the bore or groove diameter, which is close
+ * enough to the bullet diameter for the legal calibre limit.
+ *
+ * @returns Diameter in mm, or null if it cannot be determined
+ */
+export function getBulletDiameterMm(profile: RifleProfile): number | null {
+  if (profile.ammunition.bulletDiameter) {
+    return profile.ammunition.bulletDiameter * MM_PER_INCH;
+  }
+
+  const inch = profile.caliber.match(/^\s*\.(\d+)/);
+  if (inch) {
+    return parseFloat(`0.${inch[1]}`) * MM_PER_INCH;
+  }
+
+  const metric = profile.caliber.match(/^\s*(\d+(?:[.,]\d+)?)\s*(?:x|mm|\s)/i);
+  if (metric) {
+    return parseFloat(metric[1].replace(',', '.'));
+  }
+
+  return null;
+}
+
+/**
+ * Calculate the maximum ethical range of a profile for each game species.
+ *
+ * The maximum range is the last distance (in `ETHICAL_RANGE_STEP` increments,
+ * up to `ETHICAL_RANGE_LIMIT`) at which the remaining energy still reaches the
+ * species' minimum impact energy. All species share one trajectory integration.
+ *
+ * Independently of the distance, a load that misses the species' legal minimum
+ * (energy at the legal reference distance, minimum calibre) is reported as not
+ * legal. An unknown bullet diameter does not fail the calibre check.
+ *
+ * @param profile - Rifle profile
+ * @param environment - Environmental conditions
+ * @param species - Game species to evaluate (defaults to GAME_SPECIES)
+ * @returns One EthicalRangeResult per species, in the same order
+ */
+export function calculateEthicalRanges(
+  profile: RifleProfile,
+  environment: BallisticEnvironment,
+  species: GameSpecies[] = GAME_SPECIES
+): EthicalRangeResult[] {
+  const distances: number[] = [];
+  for (let d = 0; d <= ETHICAL_RANGE_LIMIT; d += ETHICAL_RANGE_STEP) {
+    distances.push(d);
+  }
+  const legalDistances = species
+    .map(s => s.legalMinimum?.distance)
+    .filter((d): d is number => d != null);
+
+  const results = calculateTrajectoryTable(profile, [...distances, ...legalDistances], environment);
+  const energyAt = (index: number): number => results[index].energy;
+  const diameter = getBulletDiameterMm(profile);
+
+  return species.map(s => {
+    let maxRange = 0;
+    for (let i = 0; i < distances.length && energyAt(i) >= s.minEnergy; i++) {
+      maxRange = distances[i];
+    }
+
+    const result: EthicalRangeResult = {
+      species: s.key,
+      minEnergy: s.minEnergy,
+      maxRange: energyAt(0) >= s.minEnergy ? maxRange : 0,
+      legal: true,
+    };
+
+    const legal = s.legalMinimum;
+    if (legal) {
+      const legalEnergy = energyAt(distances.length + legalDistances.indexOf(legal.distance));
+      if (legal.minCaliber != null && diameter != null && diameter < legal.minCaliber) {
+        result.legal = false;
+        result.legalIssue = 'caliber';
+      } else if (legalEnergy < legal.energy) {
+        result.legal = false;
+        result.legalIssue = 'energy';
+      }
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Minimum impact velocity for reliable bullet expansion.
+ *
+ * Uses the load's own value, otherwise the default for its construction.
+ *
+ * @returns Velocity in m/s, or null if neither is known
+ */
+export function getMinExpansionVelocity(ammo: AmmunitionData): number | null {
+  if (ammo.minExpansionVelocity != null) return ammo.minExpansionVelocity;
+  if (ammo.construction) return DEFAULT_MIN_EXPANSION_VELOCITY[ammo.construction];
+  return null;
+}
+
+/**
+ * Calculate the last distance at which the bullet still expands reliably.
+ *
+ * Searched like the ethical range: `ETHICAL_RANGE_STEP` increments up to
+ * `ETHICAL_RANGE_LIMIT`.
+ *
+ * @param profile - Rifle profile
+ * @param environment - Environmental conditions
+ * @returns Distance in meters (0 = too slow even at the muzzle), or null if the
+ *          load has no expansion threshold
+ */
+export function calculateExpansionRange(
+  profile: RifleProfile,
+  environment: BallisticEnvironment
+): number | null {
+  const minVelocity = getMinExpansionVelocity(profile.ammunition);
+  if (minVelocity == null) return null;
+
+  const distances: number[] = [];
+  for (let d = 0; d <= ETHICAL_RANGE_LIMIT; d += ETHICAL_RANGE_STEP) {
+    distances.push(d);
   }
+  const results = calculateTrajectoryTable(profile, distances, environment);
 
-  // Results
-  // Drop: how far below the sight line the bullet is. y is negative when below,
-  // so -y is positive when below the sight line. Convert m to cm.
-  const drop = -y * 100;
+  let range = 0;
+  for (let i = 0; i < distances.length && results[i].velocity >= minVelocity; i++) {
+    range = distances[i];
+  }
+  return range;
+}
 
-  // Velocity magnitude at target (all three components)
-  const velocity = Math.sqrt(vx * vx + vy * vy + vz * vz);
+// =============================================================================
+// Hit Probability (Monte Carlo)
+// =============================================================================
 
-  // Kinetic energy at target (Joules)
-  const energy = 0.5 * bulletMass * velocity * velocity;
+/** Centimeters per MOA at 100 m */
+const CM_PER_MOA_AT_100M = 2.908;
 
-  // Mach number at target
-  const machAtTarget = velocity / speedOfSound;
+/**
+ * Seeded generator for standard normal random numbers.
+ * Mulberry32 for uniform numbers, Box-Muller transform for the normal distribution.
+ */
+function createNormalRandom(seed: number): () => number {
+  let a = seed >>> 0;
+
+  const uniform = (): number => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return () => {
+    const u = 1 - uniform(); // (0, 1], avoids log(0)
+    const v = uniform();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/**
+ * Estimate the probability of hitting a circular vital zone.
+ *
+ * The shooter holds for the nominal solution at the estimated `distance`
+ * (including the expected wind). Each simulated shot then differs from that
+ * solution by normally distributed errors:
+ *   - true distance = distance + range estimation error
+ *   - muzzle velocity = effective V0 + velocity spread
+ *   - BC scaled by (1 + BC uncertainty)
+ *   - wind speed = given wind speed + wind error (same direction, every zone)
+ *   - rifle/shooter dispersion in MOA, on both axes
+ *
+ * The zero is solved once with the nominal load, as on the rifle. The hold is
+ * an angle, so it is scaled to the true distance before comparing it with the
+ * perturbed trajectory. The point of aim is the centre of the vital zone.
+ *
+ * Random numbers come from a seeded generator, so the same inputs always give
+ * the same result and scatter.
+ *
+ * @param profile - Rifle profile
+ * @param distance - Estimated distance in meters (the hold is based on it)
+ * @param vitalZoneDiameter - Diameter of the vital zone in cm
+ * @param uncertainty - Standard deviations of the error sources
+ * @param environment - Environmental conditions (expected wind)
+ * @param options - Engine options plus number of samples and random seed
+ * @returns Hit probability, impacts relative to the point of aim and their statistics
+ */
+export function calculateHitProbability(
+  profile: RifleProfile,
+  distance: number,
+  vitalZoneDiameter: number,
+  uncertainty: ShotUncertainty,
+  environment: BallisticEnvironment,
+  options?: HitProbabilityOptions
+): HitProbabilityResult {
+  const samples = options?.samples ?? HIT_PROBABILITY_SAMPLES;
+  const random = createNormalRandom(options?.seed ?? 1);
+  const radius = vitalZoneDiameter / 2;
+
+  const zeroAngle = calculateZeroAngle(profile, options);
+  const [hold] = integrateTrajectoryTable(profile, [distance], environment, zeroAngle, NO_DEVIATION, options);
+
+  const impacts: ImpactPoint[] = [];
+  let hits = 0;
+
+  for (let i = 0; i < samples; i++) {
+    const trueDistance = Math.max(1, distance + uncertainty.rangeErrorSD * random());
+    const windError = uncertainty.windSpeedSD * random();
+    const shotEnvironment: BallisticEnvironment = {
+      ...environment,
+      windSpeed: environment.windSpeed + windError,
+      windZones: environment.windZones?.map(zone => ({ ...zone, speed: zone.speed + windError })),
+    };
+    const deviation: ShotDeviation = {
+      muzzleVelocity: uncertainty.muzzleVelocitySD * random(),
+      bcScale: Math.max(0.1, 1 + uncertainty.bcUncertainty * random()),
+    };
+
+    const [shot] = integrateTrajectoryTable(profile, [trueDistance], shotEnvironment, zeroAngle, deviation, options);
+
+    // Hold angle applied at the true distance
+    const scale = distance > 0 ? trueDistance / distance : 1;
+    const spread = (uncertainty.dispersion * CM_PER_MOA_AT_100M * trueDistance) / 100;
+
+    const impact: ImpactPoint = {
+      x: shot.drift - hold.drift * scale + spread * random(),
+      y: hold.drop * scale - shot.drop + spread * random(),
+    };
+
+    if (impact.x * impact.x + impact.y * impact.y <= radius * radius) {
+      hits++;
+    }
+    impacts.push(impact);
+  }
+
+  const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const sd = (values: number[], m: number): number =>
+    Math.sqrt(values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / values.length);
+
+  const xs = impacts.map(p => p.x);
+  const ys = impacts.map(p => p.y);
+  const meanX = samples > 0 ? mean(xs) : 0;
+  const meanY = samples > 0 ? mean(ys) : 0;
+
+  return {
+    distance,
+    vitalZoneDiameter,
+    samples,
+    hitProbability: samples > 0 ? hits / samples : 0,
+    impacts,
+    meanX: Math.round(meanX * 10) / 10,
+    meanY: Math.round(meanY * 10) / 10,
+    sdX: samples > 0 ? Math.round(sd(xs, meanX) * 10) / 10 : 0,
+    sdY: samples > 0 ? Math.round(sd(ys, meanY) * 10) / 10 : 0,
+  };
+}
+
+// =============================================================================
+// Truing
+// =============================================================================
+
+/** Search bounds for truing, relative to the current value */
+const TRUING_BOUNDS: Record<TruingParameter, [number, number]> = {
+  muzzleVelocity: [0.7, 1.3],
+  bcScale: [0.5, 1.5],
+};
+
+/** Golden ratio conjugate for the golden-section search */
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+/**
+ * Fit the muzzle velocity or a BC scale factor to observed drops.
+ *
+ * The trajectory is recomputed (including the zero solve) for trial values of
+ * the parameter, and the value minimizing the sum of squared drop residuals is
+ * found by golden-section search within +-30 % of the current V0 or a BC scale
+ * of 0.5-1.5. With a single observation this matches it exactly.
+ *
+ * Observations should lie well beyond the zero distance: near the zero, drop
+ * barely depends on V0 or BC.
+ *
+ * @param profile - Rifle profile (current trued values are the starting point)
+ * @param observations - Observed drops at known distances
+ * @param environment - Conditions the observations were made in
+ * @param parameter - Which parameter to fit
+ * @returns Fitted value (m/s or scale factor) and the remaining RMS drop error (cm)
+ */
+export function trueProfile(
+  profile: RifleProfile,
+  observations: TruingObservation[],
+  environment: BallisticEnvironment,
+  parameter: TruingParameter
+): TruingResult {
+  const current = parameter === 'muzzleVelocity'
+    ? getNominalMuzzleVelocity(profile)
+    : profile.bcScale ?? 1;
+
+  const distances = observations.map(o => o.distance);
+  const sumOfSquares = (value: number): number => {
+    const trial: RifleProfile = parameter === 'muzzleVelocity'
+      ? { ...profile, muzzleVelocity: value }
+      : { ...profile, bcScale: value };
+    const results = calculateTrajectoryTable(trial, distances, environment);
+    return results.reduce((sum, result, i) => {
+      const residual = result.drop - observations[i].drop;
+      return sum + residual * residual;
+    }, 0);
+  };
+
+  if (observations.length === 0) {
+    return { parameter, value: current, rmsError: 0 };
+  }
+
+  // Golden-section search for the minimum
+  const [lowFactor, highFactor] = TRUING_BOUNDS[parameter];
+  const tolerance = parameter === 'muzzleVelocity' ? 0.1 : 0.001;
+  let low = current * lowFactor;
+  let high = current * highFactor;
+  let a = high - GOLDEN_RATIO * (high - low);
+  let b = low + GOLDEN_RATIO * (high - low);
+  let fa = sumOfSquares(a);
+  let fb = sumOfSquares(b);
+
+  while (high - low > tolerance) {
+    if (fa < fb) {
+      high = b;
+      b = a;
+      fb = fa;
+      a = high - GOLDEN_RATIO * (high - low);
+      fa = sumOfSquares(a);
+    } else {
+      low = a;
+      a = b;
+      fa = fb;
+      b = low + GOLDEN_RATIO * (high - low);
+      fb = sumOfSquares(b);
+    }
+  }
+
+  const value = (low + high) / 2;
+  const decimals = parameter === 'muzzleVelocity' ? 10 : 1000;
+
+  return {
+    parameter,
+    value: Math.round(value * decimals) / decimals,
+    rmsError: Math.round(Math.sqrt(sumOfSquares(value) / observations.length) * 10) / 10,
+  };
+}
+
+// =============================================================================
+// Scope Turret Clicks
+// =============================================================================
+
+/**
+ * Clicks the elevation turret turns up from the zero. Optics saved before it
+ * was entered count half the travel.
+ */
+export function getElevationAboveZero(optic: OpticConfig): number {
+  return optic.elevationAboveZero ?? Math.floor(optic.elevationTravel / 2);
+}
+
+/**
+ * Turret clicks to dial for a calculated shot.
+ *
+ * Elevation dials out the drop (positive = up); windage dials out the drift
+ * (positive = right, so a drift to the right is dialed left). Both are rounded
+ * to whole clicks.
+ *
+ * Hunting scopes are often zeroed well below the middle of the travel, so the
+ * elevation left above the zero is taken from the optic (see
+ * getElevationAboveZero). Below the zero the turret turns the rest of the
+ * travel, or only down to the zero stop if the optic has one.
+ */
+export function calculateTurretClicks(
+  result: Pick<BallisticResult, 'drop' | 'drift'>,
+  distance: number,
+  optic: OpticConfig
+): TurretClicks {
+  const clickCm = (CLICK_VALUES[optic.clickValue].cmAt100m * distance) / 100;
+  const toClicks = (cm: number): number => {
+    if (clickCm <= 0) return 0;
+    const clicks = Math.round(cm / clickCm);
+    return clicks === 0 ? 0 : clicks; // no negative zero
+  };
+
+  const elevation = toClicks(result.drop);
+  const windage = toClicks(-result.drift);
+  const elevationAvailable = getElevationAboveZero(optic);
+  const belowAvailable = optic.zeroStop ?? optic.elevationTravel - elevationAvailable;
+
+  return {
+    elevation,
+    windage,
+    elevationAvailable,
+    exceedsElevation: elevation > elevationAvailable,
+    belowZeroStop: -elevation > belowAvailable,
+  };
+}
+
+// =============================================================================
+// Reticle Holdover
+// =============================================================================
+
+/**
+ * Subtension scale of a reticle at a magnification: the true angle covered by
+ * one nominal mrad of the reticle. First focal plane reticles scale with the
+ * image (always 1); second focal plane subtensions are only true at the
+ * reference magnification and grow as the magnification is turned down.
+ */
+export function getReticleScale(reticle: Reticle, magnification: number): number {
+  if (reticle.focalPlane === 'ffp' || magnification <= 0) return 1;
+  return reticle.referenceMagnification / magnification;
+}
+
+/**
+ * Nearest reticle hold marks for a calculated shot.
+ *
+ * The exact hold is the uncorrected impact seen from the shooter: a drop puts
+ * the hold below the center, a drift to the right puts it to the right (the
+ * target sits on that mark, so the crosshair points up and left). Elevation
+ * and windage are matched independently against the marks on the vertical and
+ * horizontal stadia (or the center line); the remaining error is returned in
+ * cm at the target so the shooter can judge whether the mark is good enough.
+ */
+export function calculateReticleHold(
+  result: Pick<BallisticResult, 'drop' | 'drift'>,
+  distance: number,
+  reticle: Reticle,
+  magnification: number
+): ReticleHold {
+  const scale = getReticleScale(reticle, magnification);
+  const holdX = distance > 0 ? cmToMIL(result.drift, distance) : 0;
+  const holdY = distance > 0 ? cmToMIL(result.drop, distance) : 0;
+
+  // Index of the nearest mark (-1 = center line) for a hold of `target` mrad
+  const nearest = (marks: number[], target: number): number => {
+    let best = -1;
+    let bestError = Math.abs(target);
+    marks.forEach((mark, index) => {
+      const error = Math.abs(target - mark * scale);
+      if (error < bestError) {
+        best = index;
+        bestError = error;
+      }
+    });
+    return best;
+  };
+
+  const elevationMark = nearest(reticle.elevationMarks, holdY);
+  const windageMark = nearest(reticle.windageMarks, Math.abs(holdX));
+  const markY = elevationMark >= 0 ? reticle.elevationMarks[elevationMark] * scale : 0;
+  const markX = windageMark >= 0 ? Math.sign(holdX) * reticle.windageMarks[windageMark] * scale : 0;
+  const cmPerMil = distance / 10;
+
+  return {
+    scale: Math.round(scale * 1000) / 1000,
+    holdX: Math.round(holdX * 100) / 100,
+    holdY: Math.round(holdY * 100) / 100,
+    elevationMark,
+    windageMark,
+    markX: Math.round(markX * 100) / 100,
+    markY: Math.round(markY * 100) / 100,
+    errorX: Math.round((holdX - markX) * cmPerMil * 10) / 10,
+    errorY: Math.round((holdY - markY) * cmPerMil * 10) / 10,
+  };
+}
+
+// =============================================================================
+// Range Estimation
+// =============================================================================
+
+/**
+ * Estimate the distance to a target of known size measured in the reticle.
+ *
+ * Mil relation: distance (m) = size (m) * 1000 / reading (mrad). A MOA
+ * reading is converted at 2.908 cm per MOA at 100 m. The reading must be the
+ * true angle: read with a second focal plane reticle below its reference
+ * magnification, multiply it by getReticleScale first.
+ *
+ * The band combines the reading error with the natural size spread of the
+ * target: the nearest distance is a small target read large, the farthest a
+ * large target read small.
+ *
+ * @param targetSize - Target size in meters (e.g. chest depth)
+ * @param reading - Measured size in the reticle unit
+ * @param unit - 'mil' or 'moa'
+ * @param readingError - Reading error in the reticle unit
+ * @param sizeTolerance - Size spread of the target as a fraction
+ */
+export function estimateRange(
+  targetSize: number,
+  reading: number,
+  unit: AngularUnit,
+  readingError: number = DEFAULT_READING_ERROR[unit],
+  sizeTolerance: number = DEFAULT_TARGET_SIZE_TOLERANCE
+): RangeEstimate {
+  const mrad = (value: number) => (unit === 'moa' ? (value * CM_PER_MOA_AT_100M) / 10 : value);
+  const toDistance = (size: number, angle: number) =>
+    angle > 0 ? (size * 1000) / mrad(angle) : Infinity;
 
   return {
-    drop: Math.round(drop * 10) / 10,
-    drift: Math.round(z * 100 * 10) / 10, // m to cm, positive = right
-    time: Math.round(t * 1000) / 1000, // round to ms
-    velocity: Math.round(velocity),
-    energy: Math.round(energy),
-    machAtTarget: Math.round(machAtTarget * 100) / 100,
+    distance: Math.round(toDistance(targetSize, reading)),
+    minDistance: Math.round(toDistance(targetSize * (1 - sizeTolerance), reading + readingError)),
+    maxDistance: Math.round(toDistance(targetSize * (1 + sizeTolerance), reading - readingError)),
   };
 }
 
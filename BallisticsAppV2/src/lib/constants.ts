@@ -1,4 +1,14 @@
-import { DragModel } from '../types';
+import {
+  AmmunitionManufacturer,
+  AngularUnit,
+  BCBandsModel,
+  BulletConstruction,
+  ClickValue,
+  DragModel,
+  GameSpecies,
+  Integrator,
+  OpticConfig,
+} from '../types';
 
 // Ostermayer Jagd AG Brand Colors
 export const colors = {
@@ -22,11 +32,14 @@ export const STORAGE_KEYS = {
   ACTIVE_PROFILE_ID: '@ballistics/activeProfileId',
   ONBOARDING_COMPLETE: '@ballistics/onboardingComplete',
   SETTINGS: '@ballistics/settings',
+  CUSTOM_AMMUNITION: '@ballistics/customAmmunition',
+  DATA_PACK: '@ballistics/dataPack',
 } as const;
 
 // Default settings
 export const DEFAULT_SETTINGS = {
   units: 'cm' as const,
+  unitSystem: 'metric' as const,
   language: 'de' as const,
 };
 
@@ -42,34 +55,254 @@ export const STANDARD_ATMOSPHERE = {
 export const SLIDER_RANGES = {
   distance: { min: 50, max: 500, step: 10 },
   windSpeed: { min: 0, max: 15, step: 1 },
-  windAngle: { min: 0, max: 180, step: 15 },
+  windAngle: { min: 0, max: 345, step: 15 }, // direction the wind comes from, full circle
+  shotAngle: { min: -45, max: 45, step: 1 },
   sightHeight: { min: 2, max: 10, step: 0.5 },
+  twistRate: { min: 6, max: 16, step: 0.5 },
+  barrelLength: { min: 40, max: 72, step: 1 }, // cm, stored in inches
+  powderTempSensitivity: { min: 0, max: 2, step: 0.1 },
+  leadDistance: { min: 20, max: 150, step: 5 },
+  targetSpeed: { min: 0, max: 50 / 3.6, step: 1 / 3.6 }, // m/s, 0-50 km/h
+  crossingAngle: { min: 0, max: 90, step: 15 },
+  vitalZone: { min: 5, max: 40, step: 1 },
+  muzzleVelocitySD: { min: 0, max: 30, step: 1 },
+  bcUncertainty: { min: 0, max: 10, step: 1 }, // percent
+  dispersion: { min: 0, max: 5, step: 0.25 },
+  rangeErrorSD: { min: 0, max: 30, step: 1 },
+  windSpeedSD: { min: 0, max: 5, step: 0.5 },
+  windZoneEnd: { min: 25, max: 500, step: 25 },
+  verticalWind: { min: -5, max: 5, step: 0.5 },
+  elevationTravel: { min: 40, max: 400, step: 10 }, // clicks
+  elevationAboveZero: { min: 0, max: 400, step: 1 }, // clicks above the zero, at most the travel
+  zeroStop: { min: 0, max: 20, step: 1 }, // clicks below the zero
+  magnification: { min: 1, max: 24, step: 0.5 },
+  reticleSpacing: { min: 0.1, max: 2, step: 0.05 }, // mrad between custom reticle marks
+  reticleMarks: { min: 0, max: 20, step: 1 },
+  rangeReadingMil: { min: 0.2, max: 10, step: 0.1 },
+  rangeReadingMoa: { min: 0.5, max: 30, step: 0.25 },
+  targetSize: { min: 10, max: 200, step: 5 }, // cm
 };
 
+// Accepted input ranges for custom loads (grains, m/s, inches). Wide enough for
+// every hunting load from .17 to .50, narrow enough to catch unit mix-ups
+// (fps typed as m/s, grams as grains, mm as inches).
+export const CUSTOM_AMMUNITION_RANGES = {
+  bulletWeight: { min: 15, max: 750 },
+  ballisticCoefficient: { min: 0.05, max: 1.2 },
+  bcG7: { min: 0.03, max: 0.6 },
+  bandBC: { min: 0.03, max: 1.2 }, // referenced to G1 or G7, see BC_BANDS_MODELS
+  muzzleVelocity: { min: 300, max: 1300 },
+  testBarrelLength: { min: 8, max: 34 },
+  bulletLength: { min: 0.3, max: 2.7 },
+  bulletDiameter: { min: 0.17, max: 0.51 },
+  bandVelocity: { min: 0, max: 1300 },
+};
+
+// Drag models velocity bands can be referenced to; bands apply only with their model
+export const BC_BANDS_MODELS: BCBandsModel[] = ['g1', 'g7'];
+
+// Maximum number of velocity bands of a custom load
+export const MAX_CUSTOM_BC_BANDS = 5;
+
+// Data pack file format this app reads; packs with another schema version are rejected
+export const DATA_PACK_SCHEMA_VERSION = 1;
+
+// Ammunition manufacturers known to data packs, in the order the settings list them
+export const AMMUNITION_MANUFACTURERS: Record<AmmunitionManufacturer, { name: string; url: string }> = {
+  rws: { name: 'RWS GmbH', url: 'rws-ammunition.com' },
+  geco: { name: 'GECO (RWS GmbH)', url: 'geco-ammunition.com' },
+  norma: { name: 'Norma Precision AB', url: 'norma-ammunition.com' },
+  sellierBellot: { name: 'Sellier & Bellot a.s.', url: 'sellier-bellot.cz' },
+  lapua: { name: 'Nammo Lapua Oy', url: 'lapua.com' },
+  blaser: { name: 'Blaser Group GmbH', url: 'blaser.de' },
+  hornady: { name: 'Hornady Manufacturing, Inc.', url: 'hornady.com/ammunition' },
+  federal: { name: 'Federal Premium Ammunition', url: 'federalpremium.com/ballistics' },
+  nosler: { name: 'Nosler, Inc.', url: 'nosler.com' },
+};
+
+// Maximum number of wind zones along the bullet path
+export const MAX_WIND_ZONES = 4;
+
 // Environment slider ranges
 export const ENVIRONMENT_RANGES = {
   temperature: { min: -20, max: 45, step: 1, unit: '°C' },
   pressure: { min: 850, max: 1100, step: 1, unit: 'hPa' },
   altitude: { min: 0, max: 4000, step: 50, unit: 'm' },
   humidity: { min: 0, max: 100, step: 5, unit: '%' },
+  latitude: { min: -70, max: 70, step: 1, unit: '°' },
+  azimuth: { min: 0, max: 355, step: 5, unit: '°' },
+  powderTemperature: { min: -30, max: 60, step: 1, unit: '°C' },
 };
 
-// Zero distance options
+// Default latitude for Earth rotation corrections (Alpine region)
+export const DEFAULT_LATITUDE = 47;
+
+// Fixed zero distance options (the GEE option is computed from the allowed deviation)
+// Standard zero options, distance in the display unit (m or yd)
 export const ZERO_OPTIONS = [
-  { distance: 100, type: 'standard' as const, label: '100m Standard', description: 'Nullpunkt genau bei 100 Metern' },
-  { distance: 100, type: 'gee' as const, label: 'GEE (100m +4cm)', description: 'Gunstigste Einschussentfernung - 4cm hoch bei 100m', recommended: true },
-  { distance: 200, type: 'standard' as const, label: '200m Standard', description: 'Nullpunkt genau bei 200 Metern' },
+  { distance: 100, type: 'standard' as const },
+  { distance: 200, type: 'standard' as const },
+];
+
+// GEE offset (cm high at the zero distance) when a profile has none stored
+export const DEFAULT_GEE_OFFSET = 4;
+
+// Allowed deviation from the point of aim for the GEE / point-blank range calculation (cm)
+export const ALLOWED_DEVIATION_OPTIONS = [3, 4, 5, 6];
+export const DEFAULT_ALLOWED_DEVIATION = 4;
+
+// Fallback barrel twist (inches per turn) when the caliber has no standard twist
+export const DEFAULT_TWIST_RATE = 10;
+
+// Gyroscopic stability factor (Sg) below which a bullet is considered marginally stable
+export const MIN_STABILITY_FACTOR = 1.4;
+
+// Reference powder temperature for published muzzle velocities (C.I.P./SAAMI test conditions, deg C)
+export const DEFAULT_POWDER_TEMP_REFERENCE = 21;
+
+// Fallback powder temperature sensitivity (m/s per deg C) when the ammunition has none
+export const DEFAULT_POWDER_TEMP_SENSITIVITY = 0.5;
+
+// Fallback V0 change per inch of barrel length (m/s) when the ammunition has none, ~25 fps per inch
+export const DEFAULT_VELOCITY_PER_INCH = 7.5;
+
+// Barrel length shown when the onboarding starts from the ammunition's test barrel (inches)
+export const DEFAULT_BARREL_LENGTH = 24;
+
+// Target speed presets for moving game (km/h)
+export const TARGET_SPEED_PRESETS = [
+  { key: 'walking', speed: 5 },
+  { key: 'trotting', speed: 15 },
+  { key: 'running', speed: 30 },
+] as const;
+
+// Game species: body length for the lead, chest depth (back to brisket, adult
+// animal) for range estimation, minimum impact energy (rule of thumb) and the
+// legal minimum. BJagdG para. 19: Rehwild E100 >= 1000 J, all other
+// Schalenwild calibre >= 6.5 mm and E200 >= 2000 J.
+export const GAME_SPECIES: GameSpecies[] = [
+  {
+    key: 'wildBoar',
+    bodyLength: 1.4,
+    chestDepth: 0.5,
+    minEnergy: 2000,
+    legalMinimum: { distance: 200, energy: 2000, minCaliber: 6.5 },
+  },
+  {
+    key: 'redDeer',
+    bodyLength: 2.0,
+    chestDepth: 0.65,
+    minEnergy: 2000,
+    legalMinimum: { distance: 200, energy: 2000, minCaliber: 6.5 },
+  },
+  {
+    key: 'fallowDeer',
+    bodyLength: 1.5,
+    chestDepth: 0.5,
+    minEnergy: 1500,
+    legalMinimum: { distance: 200, energy: 2000, minCaliber: 6.5 },
+  },
+  {
+    key: 'chamois',
+    bodyLength: 1.2,
+    chestDepth: 0.4,
+    minEnergy: 1500,
+    legalMinimum: { distance: 200, energy: 2000, minCaliber: 6.5 },
+  },
+  {
+    key: 'roeDeer',
+    bodyLength: 1.1,
+    chestDepth: 0.4,
+    minEnergy: 1000,
+    legalMinimum: { distance: 100, energy: 1000 },
+  },
 ];
 
+// Minimum impact velocity for reliable expansion when the load gives none (m/s)
+export const DEFAULT_MIN_EXPANSION_VELOCITY: Record<BulletConstruction, number> = {
+  bonded: 549, // 1800 fps
+  monolithic: 610, // 2000 fps, copper needs more speed to open
+  softPoint: 549, // 1800 fps
+  fragmenting: 500,
+};
+
+// Search limit and resolution for the maximum ethical range (m)
+export const ETHICAL_RANGE_LIMIT = 1000;
+export const ETHICAL_RANGE_STEP = 5;
+
+// Distances for the printable lead table (driven hunts), in the display unit
+export const LEAD_TABLE_DISTANCES = [30, 40, 50, 60, 70, 80, 90, 100];
+
+// Default uncertainties for the hit probability (1 sigma)
+export const DEFAULT_SHOT_UNCERTAINTY = {
+  muzzleVelocitySD: 8, // m/s, typical factory ammunition
+  bcUncertainty: 0.03, // 3 %
+  dispersion: 1, // MOA, hunting rifle from a rest
+  rangeErrorSD: 2, // m, laser rangefinder
+  windSpeedSD: 1, // m/s
+};
+
+// Default vital zone diameter (cm, heart/lung area of deer)
+export const DEFAULT_VITAL_ZONE = 20;
+
+// Simulated shots for the hit probability
+export const HIT_PROBABILITY_SAMPLES = 500;
+
+// Below this hit probability a shot should not be taken
+export const MIN_HIT_PROBABILITY = 0.9;
+
+// Turret click values: angle per click in its own unit and the click size at 100 m (cm)
+export const CLICK_VALUES: Record<ClickValue, { perClick: number; unit: string; cmAt100m: number }> = {
+  quarterMoa: { perClick: 0.25, unit: 'MOA', cmAt100m: 0.727 }, // 2.908 cm per MOA
+  tenthMil: { perClick: 0.1, unit: 'mrad', cmAt100m: 1 },
+  cm: { perClick: 1, unit: 'cm/100 m', cmAt100m: 1 },
+};
+
+// Optic preset for a new turret configuration (typical hunting scope, 20 mrad travel)
+export const DEFAULT_OPTIC: OpticConfig = {
+  clickValue: 'tenthMil',
+  elevationTravel: 200,
+  elevationAboveZero: 100,
+};
+
+// Reading error when measuring a target in the reticle (in the reticle unit)
+export const DEFAULT_READING_ERROR: Record<AngularUnit, number> = {
+  mil: 0.1,
+  moa: 0.25,
+};
+
+// Natural size spread of game animals around the preset (fraction)
+export const DEFAULT_TARGET_SIZE_TOLERANCE = 0.1;
+
 // Default drag model for ballistic calculations
 export const DEFAULT_DRAG_MODEL: DragModel = 'g1';
 
+// Default numerical integrator for the trajectory engine
+export const DEFAULT_INTEGRATOR: Integrator = 'rk4';
+
+// Display labels for drag models (CDM = custom drag model from Mach/Cd curve)
+export const DRAG_MODEL_LABELS: Record<DragModel, string> = {
+  g1: 'G1',
+  g2: 'G2',
+  g5: 'G5',
+  g6: 'G6',
+  g7: 'G7',
+  g8: 'G8',
+  gi: 'GI',
+  custom: 'CDM',
+};
+
 // Default onboarding values
 export const DEFAULT_ONBOARDING = {
   caliber: null,
   ammunition: null,
   zeroDistance: 100,
   zeroType: 'gee' as const,
+  zeroOffset: null,
   sightHeight: 4.5,
+  twistRate: null,
+  barrelLength: null,
+  powderTempSensitivity: null,
+  zeroConditions: null,
   profileName: '',
 };
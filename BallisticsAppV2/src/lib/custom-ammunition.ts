@@ -0,0 +1,145 @@
+import {
+  AmmunitionData,
+  CustomAmmunition,
+  CustomAmmunitionDraft,
+  CustomAmmunitionError,
+  CustomAmmunitionField,
+} from '../types';
+import { CUSTOM_AMMUNITION_RANGES } from './constants';
+import { getCaliberByName } from './ammunition-data';
+
+/**
+ * CUSTOM AMMUNITION LIBRARY
+ *
+ * Handloads and factory loads missing from the database, entered by the user.
+ * The values are taken as given, so every custom load carries the unverified
+ * flag and is marked as such wherever it is shown. Loads are stored per
+ * caliber; a profile keeps its own copy, so editing or deleting a library
+ * entry never changes an existing profile.
+ */
+
+type NumericField = Exclude<CustomAmmunitionField, 'name' | 'bandVelocity' | 'bandBC'>;
+
+const REQUIRED_FIELDS: NumericField[] = ['bulletWeight', 'ballisticCoefficient', 'muzzleVelocity'];
+const OPTIONAL_FIELDS: NumericField[] = ['bcG7', 'testBarrelLength', 'bulletLength', 'bulletDiameter'];
+
+function checkRange(
+  value: number,
+  range: { min: number; max: number },
+  field: CustomAmmunitionField,
+  band?: number
+): CustomAmmunitionError | null {
+  if (isFinite(value) && value >= range.min && value <= range.max) return null;
+  return { field, reason: 'range', band, min: range.min, max: range.max };
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Check a custom load before it is saved. Required values missing from the
+ * draft are reported as 'required', unparsable (NaN) or out-of-range values
+ * as 'range'. The name must be unique within the caliber, across the factory
+ * loads and the other custom loads. Velocity bands need distinct thresholds,
+ * and G7 bands need the G7 BC, since they only apply with the G7 drag model.
+ *
+ * @param draft - Load as entered, values in the base units (gr, m/s, in)
+ * @param library - Stored custom loads
+ * @returns Errors in field order, empty if the load can be saved
+ */
+export function validateCustomAmmunition(
+  draft: CustomAmmunitionDraft,
+  library: CustomAmmunition[]
+): CustomAmmunitionError[] {
+  const errors: CustomAmmunitionError[] = [];
+
+  if (!draft.name.trim()) {
+    errors.push({ field: 'name', reason: 'required' });
+  } else {
+    const factoryNames = getCaliberByName(draft.caliber)?.ammunition.map(a => a.name) ?? [];
+    const customNames = library
+      .filter(a => a.caliber === draft.caliber && a.id !== draft.id)
+      .map(a => a.name);
+    if ([...factoryNames, ...customNames].some(name => sameName(name, draft.name))) {
+      errors.push({ field: 'name', reason: 'duplicate' });
+    }
+  }
+
+  for (const field of REQUIRED_FIELDS) {
+    const value = draft[field];
+    if (value == null) {
+      errors.push({ field, reason: 'required' });
+    } else {
+      const error = checkRange(value, CUSTOM_AMMUNITION_RANGES[field], field);
+      if (error) errors.push(error);
+    }
+  }
+
+  for (const field of OPTIONAL_FIELDS) {
+    const value = draft[field];
+    if (value == null) continue;
+    const error = checkRange(value, CUSTOM_AMMUNITION_RANGES[field], field);
+    if (error) errors.push(error);
+  }
+
+  (draft.bcBands ?? []).forEach((band, index, bands) => {
+    const velocityError = checkRange(band.velocityThreshold, CUSTOM_AMMUNITION_RANGES.bandVelocity, 'bandVelocity', index);
+    if (velocityError) {
+      errors.push(velocityError);
+    } else if (bands.slice(0, index).some(b => b.velocityThreshold === band.velocityThreshold)) {
+      errors.push({ field: 'bandVelocity', reason: 'duplicate', band: index });
+    }
+    const bcError = checkRange(band.bc, CUSTOM_AMMUNITION_RANGES.bandBC, 'bandBC', index);
+    if (bcError) errors.push(bcError);
+  });
+
+  if (draft.bcBands?.length && draft.bcBandsModel === 'g7' && draft.bcG7 == null) {
+    errors.push({ field: 'bcG7', reason: 'required' });
+  }
+
+  return errors;
+}
+
+/**
+ * Normalize a validated draft for storage: trimmed name, velocity bands
+ * sorted descending as the engine expects and referenced to G1 unless marked
+ * G7, G7 as the preferred drag model when a G7 BC is given, and the
+ * unverified flag set.
+ */
+export function normalizeCustomAmmunition(
+  draft: CustomAmmunitionDraft
+): Omit<CustomAmmunition, 'id' | 'createdAt'> {
+  const { id: _id, ...data } = draft;
+  const bcBands = [...(data.bcBands ?? [])].sort((a, b) => b.velocityThreshold - a.velocityThreshold);
+
+  return {
+    ...data,
+    name: data.name.trim(),
+    bcBands: bcBands.length > 0 ? bcBands : undefined,
+    bcBandsModel: bcBands.length > 0 ? data.bcBandsModel ?? 'g1' : undefined,
+    dragModel: data.bcG7 != null ? 'g7' : 'g1',
+    unverified: true,
+  };
+}
+
+/**
+ * Custom loads of a caliber, oldest first.
+ */
+export function getCustomAmmunitionForCaliber(
+  library: CustomAmmunition[],
+  caliber: string
+): CustomAmmunition[] {
+  return library
+    .filter(a => a.caliber === caliber)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Ammunition data of a custom load without the library fields, as stored on
+ * a profile.
+ */
+export function toAmmunitionData(ammo: CustomAmmunition): AmmunitionData {
+  const { id: _id, caliber: _caliber, createdAt: _createdAt, ...data } = ammo;
+  return data;
+}
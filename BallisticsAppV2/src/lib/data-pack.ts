@@ -0,0 +1,375 @@
+import {
+  AmmunitionData,
+  AmmunitionDataPack,
+  CaliberGroup,
+  DataPackError,
+  DataPackRef,
+  DataPackUpdate,
+  RifleProfile,
+} from '../types';
+import {
+  AMMUNITION_MANUFACTURERS,
+  CUSTOM_AMMUNITION_RANGES,
+  BC_BANDS_MODELS,
+  DATA_PACK_SCHEMA_VERSION,
+  DEFAULT_MIN_EXPANSION_VELOCITY,
+  DRAG_MODEL_LABELS,
+} from './constants';
+import { LANGUAGE_LABELS } from '../i18n';
+
+/**
+ * AMMUNITION DATA PACKS
+ *
+ * The ammunition database ships as a versioned JSON data pack, so a corrected
+ * BC or a new load needs a new pack, not a new app build. A pack is checked
+ * against the schema below whenever it is loaded: the bundled pack at start,
+ * an imported pack before it is stored and again when it is read back.
+ *
+ * Profiles record the pack release their ammunition was taken from. When
+ * another release becomes active, each profile's load is compared with the
+ * pack: unchanged loads are moved to the new release silently, changed or
+ * removed loads are reported so the user can decide.
+ */
+
+type Schema =
+  | { type: 'number'; optional?: boolean; integer?: boolean; range?: { min: number; max: number } }
+  | { type: 'string'; optional?: boolean; values?: readonly string[]; pattern?: RegExp }
+  | { type: 'boolean'; optional?: boolean }
+  | { type: 'array'; optional?: boolean; items: Schema; minItems?: number; length?: number }
+  | { type: 'object'; optional?: boolean; fields: Record<string, Schema> }
+  | { type: 'record'; optional?: boolean; keys: readonly string[]; value: Schema; complete?: boolean };
+
+// Same plausibility ranges as custom loads, plus the fields only packs set
+const RANGES = {
+  ...CUSTOM_AMMUNITION_RANGES,
+  minExpansionVelocity: { min: 200, max: 1300 },
+  velocityPerInch: { min: 0, max: 20 },
+  powderTempReference: { min: -40, max: 60 },
+  powderTempSensitivity: { min: 0, max: 5 },
+  twistRate: { min: 5, max: 20 },
+  dragCurve: { min: 0, max: 10 }, // Mach and Cd
+};
+
+const number = (range?: { min: number; max: number }, optional?: boolean): Schema =>
+  ({ type: 'number', range, optional });
+
+const AMMUNITION_SCHEMA: Record<keyof AmmunitionData, Schema> = {
+  name: { type: 'string' },
+  bulletWeight: number(RANGES.bulletWeight),
+  ballisticCoefficient: number(RANGES.ballisticCoefficient),
+  bcG7: number(RANGES.bcG7, true),
+  bcBands: {
+    type: 'array',
+    optional: true,
+    minItems: 1,
+    items: {
+      type: 'object',
+      fields: { velocityThreshold: number(RANGES.bandVelocity), bc: number(RANGES.bandBC) },
+    },
+  },
+  bcBandsModel: { type: 'string', optional: true, values: BC_BANDS_MODELS },
+  bcByModel: {
+    type: 'record',
+    optional: true,
+    keys: Object.keys(DRAG_MODEL_LABELS).filter(model => model !== 'custom'),
+    value: number(RANGES.bandBC),
+  },
+  customDragCurve: {
+    type: 'array',
+    optional: true,
+    minItems: 2,
+    items: { type: 'array', length: 2, items: number(RANGES.dragCurve) },
+  },
+  dragModel: { type: 'string', optional: true, values: Object.keys(DRAG_MODEL_LABELS) },
+  muzzleVelocity: number(RANGES.muzzleVelocity),
+  bulletLength: number(RANGES.bulletLength, true),
+  bulletDiameter: number(RANGES.bulletDiameter, true),
+  powderTempReference: number(RANGES.powderTempReference, true),
+  powderTempSensitivity: number(RANGES.powderTempSensitivity, true),
+  construction: { type: 'string', optional: true, values: Object.keys(DEFAULT_MIN_EXPANSION_VELOCITY) },
+  minExpansionVelocity: number(RANGES.minExpansionVelocity, true),
+  testBarrelLength: number(RANGES.testBarrelLength, true),
+  velocityPerInch: number(RANGES.velocityPerInch, true),
+  unverified: { type: 'boolean', optional: true },
+  source: {
+    type: 'object',
+    optional: true,
+    fields: {
+      manufacturer: { type: 'string', values: Object.keys(AMMUNITION_MANUFACTURERS) },
+      productLine: { type: 'string' },
+      articleNumber: { type: 'string', optional: true },
+      url: { type: 'string' },
+      verified: { type: 'string', optional: true, pattern: /^\d{4}-(0[1-9]|1[0-2])$/ },
+    },
+  },
+};
+
+const CALIBER_SCHEMA: Record<keyof CaliberGroup, Schema> = {
+  caliber: { type: 'string' },
+  description: { type: 'record', keys: Object.keys(LANGUAGE_LABELS), value: { type: 'string' }, complete: true },
+  twistRate: number(RANGES.twistRate, true),
+  ammunition: { type: 'array', minItems: 1, items: { type: 'object', fields: AMMUNITION_SCHEMA } },
+};
+
+const PACK_SCHEMA: Record<keyof AmmunitionDataPack, Schema> = {
+  schemaVersion: { type: 'number', integer: true },
+  id: { type: 'string', pattern: /^[a-z0-9-]+$/ },
+  version: { type: 'number', integer: true, range: { min: 1, max: Number.MAX_SAFE_INTEGER } },
+  name: { type: 'string' },
+  published: { type: 'string', pattern: /^\d{4}-(0[1-9]|1[0-2])$/ },
+  calibers: { type: 'array', minItems: 1, items: { type: 'object', fields: CALIBER_SCHEMA } },
+};
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkSchema(value: unknown, schema: Schema, path: string, errors: DataPackError[]): void {
+  switch (schema.type) {
+    case 'number':
+      if (typeof value !== 'number' || !isFinite(value) || (schema.integer && !Number.isInteger(value))) {
+        errors.push({ path, reason: 'type' });
+      } else if (schema.range && (value < schema.range.min || value > schema.range.max)) {
+        errors.push({ path, reason: 'range' });
+      }
+      return;
+
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push({ path, reason: 'type' });
+      } else if (!value.trim()) {
+        errors.push({ path, reason: 'required' });
+      } else if ((schema.values && !schema.values.includes(value)) || (schema.pattern && !schema.pattern.test(value))) {
+        errors.push({ path, reason: 'value' });
+      }
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push({ path, reason: 'type' });
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push({ path, reason: 'type' });
+        return;
+      }
+      if ((schema.minItems != null && value.length < schema.minItems) ||
+          (schema.length != null && value.length !== schema.length)) {
+        errors.push({ path, reason: 'range' });
+      }
+      value.forEach((item, index) => checkSchema(item, schema.items, join(path, index), errors));
+      return;
+
+    case 'object':
+      if (!isPlainObject(value)) {
+        errors.push({ path, reason: 'type' });
+        return;
+      }
+      for (const [key, field] of Object.entries(schema.fields)) {
+        if (value[key] === undefined) {
+          if (!field.optional) errors.push({ path: join(path, key), reason: 'required' });
+        } else {
+          checkSchema(value[key], field, join(path, key), errors);
+        }
+      }
+      // Catches misspelled field names, which would otherwise be dropped silently
+      for (const key of Object.keys(value)) {
+        if (!(key in schema.fields)) errors.push({ path: join(path, key), reason: 'unknown' });
+      }
+      return;
+
+    case 'record':
+      if (!isPlainObject(value)) {
+        errors.push({ path, reason: 'type' });
+        return;
+      }
+      for (const key of schema.keys) {
+        if (value[key] === undefined) {
+          if (schema.complete) errors.push({ path: join(path, key), reason: 'required' });
+        } else {
+          checkSchema(value[key], schema.value, join(path, key), errors);
+        }
+      }
+      for (const key of Object.keys(value)) {
+        if (!schema.keys.includes(key)) errors.push({ path: join(path, key), reason: 'unknown' });
+      }
+      return;
+  }
+}
+
+// Rules the schema cannot express: unique names, sorted tables and the verification state
+function checkConsistency(pack: AmmunitionDataPack, errors: DataPackError[]): void {
+  const calibers = new Set<string>();
+  const loads = new Set<string>();
+
+  pack.calibers.forEach((group, i) => {
+    const groupPath = join('calibers', i);
+    if (calibers.has(group.caliber)) errors.push({ path: join(groupPath, 'caliber'), reason: 'duplicate' });
+    calibers.add(group.caliber);
+
+    group.ammunition.forEach((ammo, j) => {
+      const ammoPath = join(join(groupPath, 'ammunition'), j);
+      // Load names identify a profile's load across pack releases
+      if (loads.has(ammo.name)) errors.push({ path: join(ammoPath, 'name'), reason: 'duplicate' });
+      loads.add(ammo.name);
+
+      // A load is either checked against its data sheet or flagged unverified
+      if (ammo.source && !ammo.source.verified !== !!ammo.unverified) {
+        errors.push({ path: join(ammoPath, 'unverified'), reason: 'value' });
+      }
+
+      // The preferred drag model needs its own BC or curve, the engine does not borrow the G1 BC
+      const model = ammo.dragModel ?? 'g1';
+      if (model === 'custom') {
+        if (!ammo.customDragCurve) errors.push({ path: join(ammoPath, 'customDragCurve'), reason: 'required' });
+        if (ammo.bulletDiameter == null) errors.push({ path: join(ammoPath, 'bulletDiameter'), reason: 'required' });
+      } else if (model === 'g7') {
+        if (ammo.bcG7 == null) errors.push({ path: join(ammoPath, 'bcG7'), reason: 'required' });
+      } else if (model !== 'g1' && ammo.bcByModel?.[model] == null) {
+        errors.push({ path: join(join(ammoPath, 'bcByModel'), model), reason: 'required' });
+      }
+
+      // Bands apply only with their drag model, which needs its own BC
+      if (ammo.bcBandsModel === 'g7' && ammo.bcG7 == null) {
+        errors.push({ path: join(ammoPath, 'bcG7'), reason: 'required' });
+      }
+
+      const bands = ammo.bcBands ?? [];
+      if (bands.some((band, k) => k > 0 && band.velocityThreshold >= bands[k - 1].velocityThreshold)) {
+        errors.push({ path: join(ammoPath, 'bcBands'), reason: 'order' });
+      }
+      const curve = ammo.customDragCurve ?? [];
+      if (curve.some((point, k) => k > 0 && point[0] <= curve[k - 1][0])) {
+        errors.push({ path: join(ammoPath, 'customDragCurve'), reason: 'order' });
+      }
+    });
+  });
+}
+
+/**
+ * Check a data pack against the schema. A pack of another schema version is
+ * rejected as a whole, since its fields may mean something else.
+ *
+ * @param input - Parsed JSON
+ * @returns The pack if it is valid, else null and the errors in file order
+ */
+export function validateDataPack(input: unknown): { pack: AmmunitionDataPack | null; errors: DataPackError[] } {
+  if (isPlainObject(input) && input.schemaVersion !== DATA_PACK_SCHEMA_VERSION) {
+    return { pack: null, errors: [{ path: 'schemaVersion', reason: 'schemaVersion' }] };
+  }
+
+  const errors: DataPackError[] = [];
+  checkSchema(input, { type: 'object', fields: PACK_SCHEMA }, '', errors);
+  if (errors.length > 0) return { pack: null, errors };
+
+  const pack = input as unknown as AmmunitionDataPack;
+  checkConsistency(pack, errors);
+  return errors.length > 0 ? { pack: null, errors } : { pack, errors };
+}
+
+/**
+ * Parse and validate the text of a data pack file.
+ */
+export function parseDataPack(text: string): { pack: AmmunitionDataPack | null; errors: DataPackError[] } {
+  let input: unknown;
+  try {
+    input = JSON.parse(text);
+  } catch (error) {
+    return { pack: null, errors: [{ path: '', reason: 'json' }] };
+  }
+  return validateDataPack(input);
+}
+
+/**
+ * Whether a valid pack may replace the active one: it must be a release of
+ * the same pack and newer.
+ */
+export function checkDataPackImport(
+  pack: AmmunitionDataPack,
+  active: AmmunitionDataPack
+): 'otherPack' | 'notNewer' | null {
+  if (pack.id !== active.id) return 'otherPack';
+  if (pack.version <= active.version) return 'notNewer';
+  return null;
+}
+
+/**
+ * The pack to use: an imported pack while it is newer than the bundled one.
+ * An app update with a newer bundled pack therefore supersedes old imports.
+ */
+export function selectDataPack(bundled: AmmunitionDataPack, imported: AmmunitionDataPack | null): AmmunitionDataPack {
+  if (imported && imported.id === bundled.id && imported.version > bundled.version) return imported;
+  return bundled;
+}
+
+// JSON with sorted keys, so loads compare equal regardless of field order
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonical(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function findLoad(pack: AmmunitionDataPack, caliber: string, name: string): AmmunitionData | undefined {
+  return pack.calibers.find(group => group.caliber === caliber)?.ammunition.find(ammo => ammo.name === name);
+}
+
+/**
+ * Pack release to record on a profile for its ammunition: set when the load
+ * is in the pack with identical data, so custom loads get none.
+ */
+export function getDataPackRef(
+  pack: AmmunitionDataPack,
+  caliber: string,
+  ammunition: AmmunitionData
+): DataPackRef | undefined {
+  const load = findLoad(pack, caliber, ammunition.name);
+  if (!load || canonical(load) !== canonical(ammunition)) return undefined;
+  return { id: pack.id, version: pack.version };
+}
+
+/**
+ * Compare the profiles' ammunition with a pack. Profiles already on this
+ * release, custom loads and loads of another pack are skipped. Profiles
+ * created before data packs are matched by caliber and load name.
+ *
+ * @returns One entry per profile whose recorded release differs from the pack
+ */
+export function findDataPackUpdates(profiles: RifleProfile[], pack: AmmunitionDataPack): DataPackUpdate[] {
+  const to: DataPackRef = { id: pack.id, version: pack.version };
+
+  return profiles.flatMap((profile): DataPackUpdate[] => {
+    const from = profile.dataPack;
+    // Custom loads are unverified and have no source
+    if (profile.ammunition.unverified && !profile.ammunition.source) return [];
+    if (from && (from.id !== pack.id || from.version === pack.version)) return [];
+
+    const load = findLoad(pack, profile.caliber, profile.ammunition.name);
+    if (!load) return from ? [{ profileId: profile.id, status: 'removed', from, to }] : [];
+
+    const status = canonical(load) === canonical(profile.ammunition) ? 'unchanged' : 'changed';
+    return [{ profileId: profile.id, status, from, to, ammunition: load }];
+  });
+}
+
+/**
+ * Apply a pack update to its profile. A changed load replaces the profile's
+ * copy; the truing and the profile's own settings are kept, as they describe
+ * the rifle. A removed load stays on the profile without a pack release.
+ */
+export function applyDataPackUpdate(profile: RifleProfile, update: DataPackUpdate): RifleProfile {
+  if (update.status === 'removed' || !update.ammunition) {
+    return { ...profile, dataPack: undefined };
+  }
+  return { ...profile, ammunition: update.ammunition, dataPack: update.to };
+}
@@ -1,5 +1,34 @@
-import { RifleProfile, BallisticResult } from '../types';
-import { calculateTrajectory, createStandardEnvironment, formatValue } from './ballistics';
+import { RifleProfile, BallisticResult, Language, TurretClicks, UnitSystem, WindZone } from '../types';
+import {
+  calculateEthicalRanges,
+  calculateLeadTable,
+  calculateTrajectoryTable,
+  calculateTurretClicks,
+  cmToMIL,
+  cmToMOA,
+  createStandardEnvironment,
+  getEffectiveDragModel,
+  getElevationAboveZero,
+  getMinExpansionVelocity,
+  getNominalBC,
+  getNominalMuzzleVelocity,
+} from './ballistics';
+import {
+  DEFAULT_GEE_OFFSET,
+  DRAG_MODEL_LABELS,
+  GAME_SPECIES,
+  TARGET_SPEED_PRESETS,
+} from './constants';
+import { getWindDirectionText } from './wind';
+import {
+  formatUnit,
+  getCorrectionUnitLabel,
+  getLeadTableDistances,
+  getRangeCardDistances,
+  getUnitSymbol,
+  toDisplayUnit,
+} from './units';
+import { formatNumber, getLanguage, translate, TranslationKey, TranslationParams } from '../i18n';
 import { Share, Alert, Platform } from 'react-native';
 
 // Lazy load clipboard to avoid crash if native module not available
@@ -10,17 +39,28 @@ try {
   console.warn('expo-clipboard not available');
 }
 
-// Full range card distances in 25m increments (0-500m)
-const RANGE_DISTANCES = [
-  0, 25, 50, 75, 100, 125, 150, 175, 200, 225,
-  250, 275, 300, 325, 350, 375, 400, 425, 450, 475, 500
-];
-
 interface ExportOptions {
   profile: RifleProfile;
   windSpeed?: number;
   windAngle?: number;
+  windZones?: WindZone[]; // replace the single wind when set
   unit: 'cm' | 'moa' | 'mil';
+  unitSystem: UnitSystem;
+  language?: Language; // defaults to the current language
+}
+
+interface LeadExportOptions {
+  profile: RifleProfile;
+  crossingAngle: number; // degrees, 90 = crossing
+  bodyLength: number; // m
+  gameLabel: string;
+  unitSystem: UnitSystem;
+  language?: Language;
+}
+
+// Translator bound to the export language
+function translator(language: Language = getLanguage()) {
+  return (key: TranslationKey, params?: TranslationParams) => translate(key, params, language);
 }
 
 interface RangeRow {
@@ -30,105 +70,266 @@ interface RangeRow {
 
 // Generate formatted text for range card
 export function generateRangeCardText(options: ExportOptions): string {
-  const { profile, windSpeed = 0, windAngle = 90, unit } = options;
-  const environment = createStandardEnvironment(windSpeed, windAngle);
+  const { profile, windSpeed = 0, windAngle = 90, windZones = [], unit, unitSystem, language = getLanguage() } = options;
+  const t = translator(language);
+  const environment = createStandardEnvironment(windSpeed, windAngle, windZones.length > 0 ? { windZones } : undefined);
+  const distances = getRangeCardDistances(unitSystem);
+  const results = calculateTrajectoryTable(profile, distances, environment);
+  const displayDistance = (distance: number) => Math.round(toDisplayUnit(distance, 'distance', unitSystem));
 
-  const rangeData: RangeRow[] = RANGE_DISTANCES.map(distance => ({
+  const rangeData: RangeRow[] = distances.map((distance, index) => ({
     distance,
-    result: calculateTrajectory(profile, distance, environment),
+    result: results[index],
   }));
+  const ethicalRanges = calculateEthicalRanges(profile, environment);
 
   const lines: string[] = [];
 
   // Header
   lines.push('═══════════════════════════════════');
-  lines.push('         SCHUSSTAFEL');
+  lines.push(`         ${t('export.rangeCardHeader')}`);
   lines.push('       Ostermayer AG');
   lines.push('═══════════════════════════════════');
   lines.push('');
 
   // Profile info
-  const dragModel = profile.dragModel || 'g1';
-  const dragLabel = dragModel.toUpperCase();
-  const activeBc = dragModel === 'g7' && profile.ammunition.bcG7 != null
-    ? profile.ammunition.bcG7
-    : profile.ammunition.ballisticCoefficient;
-
-  lines.push(`Profil: ${profile.name}`);
-  lines.push(`Kaliber: ${profile.caliber}`);
-  lines.push(`Munition: ${profile.ammunition.name}`);
-  lines.push(`Geschossgewicht: ${profile.ammunition.bulletWeight} gr`);
-  lines.push(`V0: ${profile.ammunition.muzzleVelocity} m/s`);
-  lines.push(`Widerstandsmodell: ${dragLabel}`);
+  const dragModel = getEffectiveDragModel(profile);
+  const dragLabel = DRAG_MODEL_LABELS[dragModel];
+  const dragFallback = dragModel !== (profile.dragModel || 'g1')
+    ? t('export.dragModelFallback', { model: DRAG_MODEL_LABELS[profile.dragModel] })
+    : '';
+  const activeBc = getNominalBC(profile.ammunition, dragModel);
+
+  lines.push(t('export.profile', { name: profile.name }));
+  lines.push(t('export.caliber', { caliber: profile.caliber }));
+  lines.push(t('export.ammunition', { name: profile.ammunition.name }));
+  lines.push(t('export.bulletWeight', { weight: formatUnit(profile.ammunition.bulletWeight, 'weight', unitSystem) }));
+  const minExpansionVelocity = getMinExpansionVelocity(profile.ammunition);
+  if (profile.ammunition.construction) {
+    lines.push(t('export.construction', { construction: t(`construction.${profile.ammunition.construction}`) }));
+  }
+  if (minExpansionVelocity != null) {
+    lines.push(t('export.minImpactVelocity', { velocity: formatUnit(minExpansionVelocity, 'velocity', unitSystem) }));
+  }
+  const trued = profile.muzzleVelocity != null ? t('export.trued') : '';
+  lines.push(t('export.muzzleVelocity', { velocity: formatUnit(getNominalMuzzleVelocity(profile), 'velocity', unitSystem) }) + trued);
+  lines.push(t('export.dragModel', { model: dragLabel }) + dragFallback);
   lines.push(`BC (${dragLabel}): ${activeBc}`);
-  lines.push(`Zero: ${profile.zeroDistance}m ${profile.zeroType === 'gee' ? '(GEE +4cm)' : ''}`);
-  lines.push(`ZF-Hohe: ${profile.sightHeight} cm`);
+  if (profile.bcScale != null && profile.bcScale !== 1) {
+    lines.push(t('export.bcScale', { scale: profile.bcScale }));
+  }
+  const geeOffset = formatUnit(profile.zeroOffset ?? DEFAULT_GEE_OFFSET, 'length', unitSystem);
+  lines.push(`${t('export.zero', { distance: formatUnit(profile.zeroDistance, 'distance', unitSystem) })} ${profile.zeroType === 'gee' ? `(GEE +${geeOffset})` : ''}`);
+  if (profile.zeroConditions) {
+    lines.push(t('export.zeroConditions', {
+      temperature: formatUnit(profile.zeroConditions.temperature, 'temperature', unitSystem),
+      altitude: formatUnit(profile.zeroConditions.altitude, 'altitude', unitSystem),
+    }));
+  }
+  lines.push(t('export.sightHeight', { height: formatUnit(profile.sightHeight, 'length', unitSystem) }));
+  if (profile.twistRate) {
+    lines.push(t('export.twist', {
+      rate: profile.twistRate,
+      direction: profile.twistDirection === 'left' ? t('export.twistLeft') : t('export.twistRight'),
+    }));
+  }
+  const optic = profile.optic;
+  if (optic) {
+    const zeroStop = optic.zeroStop != null ? t('export.zeroStop', { clicks: optic.zeroStop }) : '';
+    lines.push(t('export.turret', {
+      clickValue: t(`clickValues.${optic.clickValue}`),
+      travel: optic.elevationTravel,
+      above: getElevationAboveZero(optic),
+      zeroStop,
+    }));
+  }
   lines.push('');
 
-  // Wind conditions
-  if (windSpeed > 0) {
-    lines.push(`Wind: ${windSpeed} m/s | ${windAngle}°`);
+  // Wind conditions, per zone in the order of the bullet path
+  if (windZones.length > 0) {
+    const zones = [...windZones].sort((a, b) => a.to - b.to);
+    zones.forEach((zone, index) => {
+      const params = {
+        from: formatUnit(index === 0 ? 0 : zones[index - 1].to, 'distance', unitSystem),
+        to: formatUnit(zone.to, 'distance', unitSystem),
+        speed: formatUnit(zone.speed, 'windSpeed', unitSystem),
+        direction: getWindDirectionText(zone.angle, language),
+      };
+      const vertical = zone.vertical
+        ? ` | ${t(zone.vertical > 0 ? 'wind.updraft' : 'wind.downdraft', {
+          speed: formatUnit(Math.abs(zone.vertical), 'windSpeed', unitSystem, 1),
+        })}`
+        : '';
+      lines.push(t(index === zones.length - 1 ? 'export.windZoneLast' : 'export.windZone', params) + vertical);
+    });
+    lines.push('');
+  } else if (windSpeed > 0) {
+    lines.push(t('export.wind', {
+      speed: formatUnit(windSpeed, 'windSpeed', unitSystem),
+      direction: getWindDirectionText(windAngle, language),
+    }));
     lines.push('');
   }
 
   // Table header
-  const unitLabel = unit.toUpperCase();
+  const unitLabel = getCorrectionUnitLabel(unit, unitSystem);
+  const distanceLabel = `(${getUnitSymbol('distance', unitSystem)})`;
+  const velocityLabel = `(${getUnitSymbol('velocity', unitSystem)})`;
+  const energyLabel = `(${getUnitSymbol('energy', unitSystem)})`;
   lines.push('───────────────────────────────────');
-  lines.push(` Dist  │  Hohe  │ Seite  │  V   │  E `);
-  lines.push(`  (m)  │ (${unitLabel.padEnd(3)}) │ (${unitLabel.padEnd(3)}) │(m/s) │ (J) `);
+  const column = (key: TranslationKey, width: number) => t(key).padStart(width);
+  lines.push(` ${t('export.columnDistance').padEnd(5)} │${column('export.columnDrop', 7)} │${column('export.columnDrift', 7)} │  V   │  E ${optic ? `  │ ${t('export.columnClicks')}` : ''}`);
+  lines.push(` ${distanceLabel.padEnd(5)} │ (${unitLabel.padEnd(3)}) │ (${unitLabel.padEnd(3)}) │${velocityLabel.padEnd(5)} │${energyLabel.padStart(4)} ${optic ? ' │' : ''}`);
   lines.push('───────────────────────────────────');
 
-  // Data rows
-  rangeData.forEach(row => {
-    const drop = formatDropValue(row.result.drop, row.distance, unit);
-    const drift = formatDriftValue(row.result.drift, row.distance, unit);
-    const distStr = row.distance.toString().padStart(4);
+  // Data rows, with a marker where a species' energy limit is reached
+  rangeData.forEach((row, index) => {
+    const drop = formatDropValue(row.result.drop, row.distance, unit, unitSystem, language);
+    const drift = formatDriftValue(row.result.drift, row.distance, unit, unitSystem, language);
+    const distStr = displayDistance(row.distance).toString().padStart(4);
     const dropStr = drop.padStart(6);
     const driftStr = drift.padStart(6);
-    const velStr = row.result.velocity.toString().padStart(4);
-    const energyStr = row.result.energy.toString().padStart(4);
+    const velStr = Math.round(toDisplayUnit(row.result.velocity, 'velocity', unitSystem)).toString().padStart(4);
+    const energyStr = Math.round(toDisplayUnit(row.result.energy, 'energy', unitSystem)).toString().padStart(4);
 
-    const marker = row.distance === profile.zeroDistance ? '*' : ' ';
-    lines.push(`${marker}${distStr} │${dropStr} │${driftStr} │${velStr} │${energyStr}`);
+    const marker = displayDistance(row.distance) === displayDistance(profile.zeroDistance) ? '*' : ' ';
+    const slow = minExpansionVelocity != null && row.result.velocity < minExpansionVelocity ? ' !' : '';
+    const clicks = optic ? ` │${formatClicksValue(calculateTurretClicks(row.result, row.distance, optic))}` : '';
+    lines.push(`${marker}${distStr} │${dropStr} │${driftStr} │${velStr} │${energyStr}${slow.padEnd(optic ? 2 : 0)}${clicks}`);
+
+    const next = distances[index + 1];
+    ethicalRanges.forEach((range, speciesIndex) => {
+      if (next != null && range.legal && range.maxRange > 0 && range.maxRange >= row.distance && range.maxRange < next) {
+        lines.push(`   ${t('export.speciesLimit', {
+          species: t(`species.${GAME_SPECIES[speciesIndex].key}`),
+          distance: formatUnit(range.maxRange, 'distance', unitSystem),
+        })}`);
+      }
+    });
   });
 
   lines.push('───────────────────────────────────');
   lines.push('');
 
+  // Maximum ethical range per species
+  lines.push(t('export.ethicalRanges'));
+  ethicalRanges.forEach((range, speciesIndex) => {
+    const label = `${t(`species.${GAME_SPECIES[speciesIndex].key}`)} (${formatUnit(range.minEnergy, 'energy', unitSystem)})`;
+    const value = !range.legal
+      ? t('export.notLegal')
+      : range.maxRange === 0 ? t('export.tooWeak') : formatUnit(range.maxRange, 'distance', unitSystem);
+    lines.push(`  ${label}: ${value}`);
+  });
+  lines.push('');
+
   // Legend
-  lines.push('Legende:');
-  lines.push('+ = uber Ziel | - = unter Ziel');
-  lines.push('R = rechts | L = links');
-  lines.push('* = Einschussentfernung');
+  lines.push(t('export.legend'));
+  lines.push(t('export.legendAbove'));
+  lines.push(t('export.legendSide'));
+  lines.push(t('export.legendZero'));
+  lines.push(t('export.legendSpecies'));
+  if (minExpansionVelocity != null) {
+    lines.push(t('export.legendExpansion'));
+  }
+  if (optic) {
+    lines.push(t('export.legendClicks'));
+    lines.push(t('export.legendBeyond'));
+  }
   lines.push('');
-  lines.push('Generiert mit Ostermayer AG App');
+  lines.push(t('export.generated'));
 
   return lines.join('\n');
 }
 
 // Format drop value for export
-function formatDropValue(drop: number, distance: number, unit: 'cm' | 'moa' | 'mil'): string {
+function formatDropValue(drop: number, distance: number, unit: 'cm' | 'moa' | 'mil', unitSystem: UnitSystem, language: Language): string {
   if (unit === 'cm') {
     const prefix = drop > 0 ? '-' : '+';
-    return `${prefix}${Math.abs(drop).toFixed(1)}`;
+    return `${prefix}${formatNumber(Math.abs(toDisplayUnit(drop, 'length', unitSystem)), 1, language)}`;
   }
-  const value = formatValue(drop, distance, unit, 1);
-  return value.replace(` ${unit.toUpperCase()}`, '');
+  const value = unit === 'moa' ? cmToMOA(drop, distance) : cmToMIL(drop, distance);
+  return formatNumber(value, 1, language);
 }
 
 // Format drift value for export
-function formatDriftValue(drift: number, distance: number, unit: 'cm' | 'moa' | 'mil'): string {
+function formatDriftValue(drift: number, distance: number, unit: 'cm' | 'moa' | 'mil', unitSystem: UnitSystem, language: Language): string {
   if (Math.abs(drift) < 0.1) return '0';
 
   if (unit === 'cm') {
     const prefix = drift > 0 ? 'R' : 'L';
-    return `${prefix}${Math.abs(drift).toFixed(1)}`;
+    return `${prefix}${formatNumber(Math.abs(toDisplayUnit(drift, 'length', unitSystem)), 1, language)}`;
   }
 
-  const value = formatValue(Math.abs(drift), distance, unit, 1);
-  const numValue = value.replace(` ${unit.toUpperCase()}`, '');
+  const value = unit === 'moa' ? cmToMOA(Math.abs(drift), distance) : cmToMIL(Math.abs(drift), distance);
   const prefix = drift > 0 ? 'R' : 'L';
-  return `${prefix}${numValue}`;
+  return `${prefix}${formatNumber(value, 1, language)}`;
+}
+
+// Format turret clicks for export, e.g. "↑12 ←3", "#" when beyond the turret
+function formatClicksValue(clicks: TurretClicks): string {
+  const elevation = clicks.elevation === 0 ? '0' : `${clicks.elevation > 0 ? '↑' : '↓'}${Math.abs(clicks.elevation)}`;
+  const windage = clicks.windage === 0 ? '' : ` ${clicks.windage > 0 ? '→' : '←'}${Math.abs(clicks.windage)}`;
+  const beyond = clicks.exceedsElevation || clicks.belowZeroStop ? ' #' : '';
+  return ` ${elevation}${windage}${beyond}`;
+}
+
+// Generate formatted text for the lead table (driven hunts)
+export function generateLeadTableText(options: LeadExportOptions): string {
+  const { profile, crossingAngle, bodyLength, gameLabel, unitSystem, language = getLanguage() } = options;
+  const t = translator(language);
+  const environment = createStandardEnvironment(0, 90);
+  const distances = getLeadTableDistances(unitSystem);
+  const columns = TARGET_SPEED_PRESETS.map(preset =>
+    calculateLeadTable(profile, distances, preset.speed / 3.6, crossingAngle, bodyLength, environment)
+  );
+  const lengthUnit = getUnitSymbol('length', unitSystem);
+
+  const lines: string[] = [];
+
+  // Header
+  lines.push('═══════════════════════════════════');
+  lines.push(`       ${t('export.leadTableHeader')}`);
+  lines.push('       Ostermayer AG');
+  lines.push('═══════════════════════════════════');
+  lines.push('');
+
+  // Profile info
+  lines.push(t('export.profile', { name: profile.name }));
+  lines.push(t('export.caliber', { caliber: profile.caliber }));
+  lines.push(t('export.ammunition', { name: profile.ammunition.name }));
+  lines.push(t('export.muzzleVelocity', { velocity: formatUnit(getNominalMuzzleVelocity(profile), 'velocity', unitSystem) }));
+  lines.push(t('export.game', { species: gameLabel, length: formatUnit(bodyLength, 'distance', unitSystem, 1) }));
+  lines.push(t('export.crossingAngle', { angle: crossingAngle }) + (crossingAngle === 90 ? t('export.broadside') : ''));
+  lines.push('');
+
+  // Table header
+  lines.push('───────────────────────────────────');
+  lines.push(` ${t('export.columnDistance').padEnd(4)} │${TARGET_SPEED_PRESETS.map(p => t(`targetSpeed.${p.key}`).padStart(9)).join(' │')}`);
+  lines.push(`${`(${getUnitSymbol('distance', unitSystem)})`.padStart(6)} │${TARGET_SPEED_PRESETS.map(p => formatUnit(p.speed / 3.6, 'targetSpeed', unitSystem).padStart(9)).join(' │')}`);
+  lines.push('───────────────────────────────────');
+
+  // Data rows: lead in the length unit and body lengths
+  distances.forEach((distance, index) => {
+    const cells = columns.map(column => {
+      const lead = column[index];
+      const value = Math.round(toDisplayUnit(lead.lead, 'length', unitSystem));
+      return `${value}/${formatNumber(lead.bodyLengths, 1, language)}`.padStart(9);
+    });
+    lines.push(` ${Math.round(toDisplayUnit(distance, 'distance', unitSystem)).toString().padStart(4)} │${cells.join(' │')}`);
+  });
+
+  lines.push('───────────────────────────────────');
+  lines.push('');
+
+  // Legend
+  lines.push(t('export.legend'));
+  lines.push(t('export.legendLead', { unit: lengthUnit }));
+  lines.push(t('export.legendSwing'));
+  lines.push(t('export.legendReaction'));
+  lines.push('');
+  lines.push(t('export.generated'));
+
+  return lines.join('\n');
 }
 
 // Copy range card to clipboard
@@ -140,7 +341,7 @@ export async function copyRangeCardToClipboard(options: ExportOptions): Promise<
       return true;
     }
     // Fallback: use share instead
-    await Share.share({ message: text, title: `Schusstafel - ${options.profile.name}` });
+    await Share.share({ message: text, title: translator(options.language)('export.rangeCardTitle', { name: options.profile.name }) });
     return true;
   } catch (error) {
     console.error('Failed to copy to clipboard:', error);
@@ -155,7 +356,7 @@ export async function shareRangeCard(options: ExportOptions): Promise<boolean> {
 
     const result = await Share.share({
       message: text,
-      title: `Schusstafel - ${options.profile.name}`,
+      title: translator(options.language)('export.rangeCardTitle', { name: options.profile.name }),
     });
 
     return result.action === Share.sharedAction;
@@ -167,27 +368,28 @@ export async function shareRangeCard(options: ExportOptions): Promise<boolean> {
 
 // Show export options to user
 export async function showExportOptions(options: ExportOptions): Promise<void> {
+  const t = translator(options.language);
   Alert.alert(
-    'Schusstafel exportieren',
-    'Wahlen Sie eine Export-Option:',
+    t('export.exportTitle'),
+    t('export.exportMessage'),
     [
       {
-        text: 'Abbrechen',
+        text: t('common.cancel'),
         style: 'cancel',
       },
       {
-        text: 'Kopieren',
+        text: t('export.copy'),
         onPress: async () => {
           const success = await copyRangeCardToClipboard(options);
           if (success) {
-            Alert.alert('Kopiert', 'Schusstafel wurde in die Zwischenablage kopiert.');
+            Alert.alert(t('export.copiedTitle'), t('export.copiedMessage'));
           } else {
-            Alert.alert('Fehler', 'Kopieren fehlgeschlagen.');
+            Alert.alert(t('common.error'), t('export.copyFailed'));
           }
         },
       },
       {
-        text: 'Teilen',
+        text: t('export.share'),
         onPress: async () => {
           await shareRangeCard(options);
         },
@@ -195,3 +397,37 @@ export async function showExportOptions(options: ExportOptions): Promise<void> {
     ]
   );
 }
+
+// Copy lead table to clipboard
+export async function copyLeadTableToClipboard(options: LeadExportOptions): Promise<boolean> {
+  try {
+    const text = generateLeadTableText(options);
+    if (Clipboard?.setStringAsync) {
+      await Clipboard.setStringAsync(text);
+      return true;
+    }
+    // Fallback: use share instead
+    await Share.share({ message: text, title: translator(options.language)('export.leadTableTitle', { name: options.profile.name }) });
+    return true;
+  } catch (error) {
+    console.error('Failed to copy to clipboard:', error);
+    return false;
+  }
+}
+
+// Share lead table via system share sheet
+export async function shareLeadTable(options: LeadExportOptions): Promise<boolean> {
+  try {
+    const text = generateLeadTableText(options);
+
+    const result = await Share.share({
+      message: text,
+      title: translator(options.language)('export.leadTableTitle', { name: options.profile.name }),
+    });
+
+    return result.action === Share.sharedAction;
+  } catch (error) {
+    console.error('Failed to share:', error);
+    return false;
+  }
+}
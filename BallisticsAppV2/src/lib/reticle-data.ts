@@ -0,0 +1,95 @@
+import { FocalPlane, OpticConfig, Reticle, ReticleKey } from '../types';
+
+/**
+ * RETICLE LIBRARY
+ *
+ * Generic hunting reticle layouts with their hold marks. Subtensions are
+ * given in mrad from the center of the crosshair; MOA reticles are converted
+ * at 1 MOA = 0.2909 mrad.
+ *
+ * Second focal plane (SFP) subtensions are only true at the reference
+ * magnification, usually the highest. At lower magnification the marks cover
+ * proportionally more angle (reference / current magnification). Check the
+ * manual of the scope: the reference magnification differs between models.
+ *
+ * Reticle names are in the translation catalogues under reticles.<key>.
+ */
+
+/** Conversion factor: 1 MOA = 0.2909 mrad */
+const MOA_TO_MRAD = 0.2909;
+
+/** Key of the user-defined reticle stored on the optic */
+export const CUSTOM_RETICLE_KEY: ReticleKey = 'custom';
+
+/**
+ * Evenly spaced marks: spacing, 2 * spacing, ... (mrad).
+ */
+export function evenMarks(spacing: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => Math.round((i + 1) * spacing * 1000) / 1000);
+}
+
+export const RETICLES: Reticle[] = [
+  {
+    key: 'plex',
+    focalPlane: 'sfp',
+    referenceMagnification: 10,
+    elevationMarks: [],
+    windageMarks: [],
+  },
+  {
+    key: 'milDotFfp',
+    focalPlane: 'ffp',
+    referenceMagnification: 1,
+    elevationMarks: evenMarks(1, 5),
+    windageMarks: evenMarks(1, 5),
+  },
+  {
+    key: 'milDotSfp',
+    focalPlane: 'sfp',
+    referenceMagnification: 10,
+    elevationMarks: evenMarks(1, 5),
+    windageMarks: evenMarks(1, 5),
+  },
+  {
+    key: 'milHashFfp',
+    focalPlane: 'ffp',
+    referenceMagnification: 1,
+    elevationMarks: evenMarks(0.5, 16),
+    windageMarks: evenMarks(0.5, 10),
+  },
+  {
+    key: 'moaHashSfp',
+    focalPlane: 'sfp',
+    referenceMagnification: 12,
+    elevationMarks: evenMarks(2 * MOA_TO_MRAD, 10),
+    windageMarks: evenMarks(2 * MOA_TO_MRAD, 5),
+  },
+];
+
+/**
+ * Build a user-defined reticle from an even mark spacing.
+ */
+export function createCustomReticle(
+  focalPlane: FocalPlane,
+  referenceMagnification: number,
+  spacing: number,
+  elevationCount: number,
+  windageCount: number
+): Reticle {
+  return {
+    key: CUSTOM_RETICLE_KEY,
+    focalPlane,
+    referenceMagnification,
+    elevationMarks: evenMarks(spacing, elevationCount),
+    windageMarks: evenMarks(spacing, windageCount),
+  };
+}
+
+/**
+ * Reticle selected on an optic, or null if none.
+ */
+export function getReticle(optic: OpticConfig | undefined): Reticle | null {
+  if (!optic?.reticle) return null;
+  if (optic.reticle === CUSTOM_RETICLE_KEY) return optic.customReticle ?? null;
+  return RETICLES.find(r => r.key === optic.reticle) ?? null;
+}
@@ -1,6 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { RifleProfile, AppSettings } from '../types';
+import { RifleProfile, AppSettings, CustomAmmunition, AmmunitionDataPack } from '../types';
 import { STORAGE_KEYS, DEFAULT_SETTINGS } from './constants';
+import { parseDataPack } from './data-pack';
 
 // Profile storage functions
 export async function saveProfiles(profiles: RifleProfile[]): Promise<void> {
@@ -126,6 +127,68 @@ export async function loadSettings(): Promise<AppSettings> {
   }
 }
 
+// Custom ammunition library
+export async function saveCustomAmmunition(library: CustomAmmunition[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.CUSTOM_AMMUNITION, JSON.stringify(library));
+  } catch (error) {
+    console.error('Error saving custom ammunition:', error);
+    throw error;
+  }
+}
+
+export async function loadCustomAmmunition(): Promise<CustomAmmunition[]> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.CUSTOM_AMMUNITION);
+    if (data) {
+      return JSON.parse(data);
+    }
+    return [];
+  } catch (error) {
+    console.error('Error loading custom ammunition:', error);
+    return [];
+  }
+}
+
+// Imported ammunition data pack (the bundled one is never stored)
+export async function saveDataPack(pack: AmmunitionDataPack): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.DATA_PACK, JSON.stringify(pack));
+  } catch (error) {
+    console.error('Error saving data pack:', error);
+    throw error;
+  }
+}
+
+// Validated again on every load; an invalid pack is ignored
+export async function loadDataPack(): Promise<AmmunitionDataPack | null> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.DATA_PACK);
+    if (!data) return null;
+
+    const { pack, errors } = parseDataPack(data);
+    if (!pack) console.error('Stored data pack is invalid:', errors);
+    return pack;
+  } catch (error) {
+    console.error('Error loading data pack:', error);
+    return null;
+  }
+}
+
+export async function clearDataPack(): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEYS.DATA_PACK);
+  } catch (error) {
+    console.error('Error clearing data pack:', error);
+    throw error;
+  }
+}
+
+// Generate unique ID for custom loads
+export function generateCustomAmmunitionId(): string {
+  return `ammo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 // Generate unique ID for profiles
 export function generateProfileId(): string {
   return `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -139,6 +202,8 @@ export async function clearAllData(): Promise<void> {
       STORAGE_KEYS.ACTIVE_PROFILE_ID,
       STORAGE_KEYS.ONBOARDING_COMPLETE,
       STORAGE_KEYS.SETTINGS,
+      STORAGE_KEYS.CUSTOM_AMMUNITION,
+      STORAGE_KEYS.DATA_PACK,
     ]);
   } catch (error) {
     console.error('Error clearing data:', error);
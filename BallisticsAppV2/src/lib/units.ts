@@ -0,0 +1,249 @@
+import { UnitQuantity, UnitSystem, UnitType } from '../types';
+import { cmToMIL, cmToMOA } from './ballistics';
+import { LEAD_TABLE_DISTANCES } from './constants';
+import { formatNumber } from '../i18n';
+
+/**
+ * Unit systems for inputs and outputs.
+ *
+ * The engine, profiles and storage always work in the base units (m, cm, m/s,
+ * J, grains for the bullet weight, deg C, hPa). Screens convert at the edge:
+ * values are shown and entered in the display unit of the selected system and
+ * converted back before they reach the calculation. Numbers are formatted for
+ * the current language (decimal comma in German, French and Italian).
+ *
+ * - metric: m, cm, m/s, J, g, deg C, hPa (game speed in km/h)
+ * - imperial: yd, in, fps, ft-lbf, gr, deg F, inHg, ft, mph
+ * - mixed: British stalking practice - yards, inches, fps, ft-lbf and grains
+ *   for the ballistics, metric weather (deg C, hPa, m)
+ *
+ * Powder temperature sensitivity is shown per degree in the system's velocity
+ * and temperature units (m/s/°C, fps/°F, fps/°C in mixed).
+ */
+
+interface UnitDefinition {
+  symbol: string;
+  factor: number; // display value per base unit
+  offset: number; // added after scaling (temperature)
+  decimals: number; // default display precision
+}
+
+type UnitKey =
+  | 'm' | 'yd' | 'cm' | 'in' | 'mps' | 'fps' | 'kmh' | 'mph' | 'J' | 'ftlbf'
+  | 'g' | 'gr' | 'celsius' | 'fahrenheit' | 'hPa' | 'inHg' | 'ft';
+
+const UNITS: Record<UnitKey, UnitDefinition> = {
+  m: { symbol: 'm', factor: 1, offset: 0, decimals: 0 },
+  yd: { symbol: 'yd', factor: 1 / 0.9144, offset: 0, decimals: 0 },
+  cm: { symbol: 'cm', factor: 1, offset: 0, decimals: 1 },
+  in: { symbol: 'in', factor: 1 / 2.54, offset: 0, decimals: 1 },
+  mps: { symbol: 'm/s', factor: 1, offset: 0, decimals: 0 },
+  fps: { symbol: 'fps', factor: 1 / 0.3048, offset: 0, decimals: 0 },
+  kmh: { symbol: 'km/h', factor: 3.6, offset: 0, decimals: 0 },
+  mph: { symbol: 'mph', factor: 3600 / 1609.344, offset: 0, decimals: 0 },
+  J: { symbol: 'J', factor: 1, offset: 0, decimals: 0 },
+  ftlbf: { symbol: 'ft·lbf', factor: 1 / 1.3558179, offset: 0, decimals: 0 },
+  g: { symbol: 'g', factor: 0.06479891, offset: 0, decimals: 1 },
+  gr: { symbol: 'gr', factor: 1, offset: 0, decimals: 0 },
+  celsius: { symbol: '°C', factor: 1, offset: 0, decimals: 0 },
+  fahrenheit: { symbol: '°F', factor: 1.8, offset: 32, decimals: 0 },
+  hPa: { symbol: 'hPa', factor: 1, offset: 0, decimals: 0 },
+  inHg: { symbol: 'inHg', factor: 1 / 33.8639, offset: 0, decimals: 2 },
+  ft: { symbol: 'ft', factor: 1 / 0.3048, offset: 0, decimals: 0 },
+};
+
+// Quantities with a unit of their own; the others are derived in getUnit
+type BaseQuantity = Exclude<UnitQuantity, 'tempSensitivity'>;
+
+/** Display unit of every quantity per unit system */
+export const UNIT_SYSTEMS: Record<UnitSystem, Record<BaseQuantity, UnitKey>> = {
+  metric: {
+    distance: 'm',
+    length: 'cm',
+    velocity: 'mps',
+    windSpeed: 'mps',
+    targetSpeed: 'kmh',
+    energy: 'J',
+    weight: 'g',
+    temperature: 'celsius',
+    pressure: 'hPa',
+    altitude: 'm',
+  },
+  imperial: {
+    distance: 'yd',
+    length: 'in',
+    velocity: 'fps',
+    windSpeed: 'mph',
+    targetSpeed: 'mph',
+    energy: 'ftlbf',
+    weight: 'gr',
+    temperature: 'fahrenheit',
+    pressure: 'inHg',
+    altitude: 'ft',
+  },
+  mixed: {
+    distance: 'yd',
+    length: 'in',
+    velocity: 'fps',
+    windSpeed: 'mph',
+    targetSpeed: 'mph',
+    energy: 'ftlbf',
+    weight: 'gr',
+    temperature: 'celsius',
+    pressure: 'hPa',
+    altitude: 'm',
+  },
+};
+
+function getUnit(quantity: UnitQuantity, system: UnitSystem): UnitDefinition {
+  if (quantity === 'tempSensitivity') {
+    // Velocity change per degree: a temperature difference scales without the offset
+    const velocity = getUnit('velocity', system);
+    const temperature = getUnit('temperature', system);
+    return {
+      symbol: `${velocity.symbol}/${temperature.symbol}`,
+      factor: velocity.factor / temperature.factor,
+      offset: 0,
+      decimals: 1,
+    };
+  }
+  return UNITS[UNIT_SYSTEMS[system][quantity]];
+}
+
+/**
+ * Symbol of the display unit, e.g. 'yd'.
+ */
+export function getUnitSymbol(quantity: UnitQuantity, system: UnitSystem): string {
+  return getUnit(quantity, system).symbol;
+}
+
+/**
+ * Convert a base-unit value to the display unit.
+ */
+export function toDisplayUnit(value: number, quantity: UnitQuantity, system: UnitSystem): number {
+  const unit = getUnit(quantity, system);
+  return value * unit.factor + unit.offset;
+}
+
+/**
+ * Convert a display-unit value back to the base unit.
+ */
+export function fromDisplayUnit(value: number, quantity: UnitQuantity, system: UnitSystem): number {
+  const unit = getUnit(quantity, system);
+  return (value - unit.offset) / unit.factor;
+}
+
+/**
+ * Format a base-unit value in the display unit, e.g. "164 yd".
+ */
+export function formatUnit(
+  value: number,
+  quantity: UnitQuantity,
+  system: UnitSystem,
+  decimals: number = getUnit(quantity, system).decimals
+): string {
+  const display = toDisplayUnit(value, quantity, system);
+  return `${formatNumber(display, decimals)} ${getUnit(quantity, system).symbol}`;
+}
+
+/**
+ * Nearest 1, 2 or 5 times a power of ten.
+ */
+function niceStep(value: number): number {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const normalized = value / magnitude;
+  const nice = normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10;
+  return Number((nice * magnitude).toPrecision(1));
+}
+
+/**
+ * Slider range in the display unit. Bounds and step are rounded to round
+ * display values (e.g. 50-500 m in 10 m steps becomes 50-550 yd in 10 yd).
+ */
+export function convertSliderRange(
+  range: { min: number; max: number; step: number },
+  quantity: UnitQuantity,
+  system: UnitSystem
+): { min: number; max: number; step: number } {
+  const unit = getUnit(quantity, system);
+  if (unit.factor === 1 && unit.offset === 0) return { min: range.min, max: range.max, step: range.step };
+
+  const step = niceStep(range.step * unit.factor);
+  const round = (value: number) => Number((Math.round(value / step) * step).toFixed(6));
+  return {
+    min: round(toDisplayUnit(range.min, quantity, system)),
+    max: round(toDisplayUnit(range.max, quantity, system)),
+    step,
+  };
+}
+
+/**
+ * Decimal places needed to show values on a slider step.
+ */
+export function getStepDecimals(step: number): number {
+  const text = step.toString();
+  const dot = text.indexOf('.');
+  return dot < 0 ? 0 : text.length - dot - 1;
+}
+
+/**
+ * Range card distances (m): 0-500 m in 25 m steps, or 0-550 yd in 25 yd
+ * steps when the unit system shows yards.
+ */
+export function getRangeCardDistances(system: UnitSystem): number[] {
+  const step = 25;
+  const max = getUnitSymbol('distance', system) === 'm' ? 500 : 550;
+  return Array.from({ length: max / step + 1 }, (_, i) =>
+    fromDisplayUnit(i * step, 'distance', system)
+  );
+}
+
+/**
+ * Lead table distances (m): the LEAD_TABLE_DISTANCES steps in the display
+ * unit, so the rows fall on round yards as well.
+ */
+export function getLeadTableDistances(system: UnitSystem): number[] {
+  return LEAD_TABLE_DISTANCES.map(distance => fromDisplayUnit(distance, 'distance', system));
+}
+
+/**
+ * Label of a correction unit: the linear unit of the system, or MOA / MIL.
+ */
+export function getCorrectionUnitLabel(unit: UnitType, system: UnitSystem): string {
+  return unit === 'cm' ? getUnitSymbol('length', system) : unit.toUpperCase();
+}
+
+/**
+ * Value of a drop or drift correction without its unit: the linear unit of
+ * the system (cm or inches), or MOA / MIL.
+ */
+export function formatCorrectionValue(
+  cm: number,
+  distance: number,
+  unit: UnitType,
+  system: UnitSystem,
+  decimals: number = 1
+): string {
+  switch (unit) {
+    case 'moa':
+      return formatNumber(cmToMOA(cm, distance), decimals);
+    case 'mil':
+      return formatNumber(cmToMIL(cm, distance), decimals);
+    default:
+      return formatNumber(toDisplayUnit(cm, 'length', system), decimals);
+  }
+}
+
+/**
+ * Format a drop or drift correction. Linear corrections follow the unit
+ * system (cm or inches), angular ones are the same in every system.
+ */
+export function formatCorrection(
+  cm: number,
+  distance: number,
+  unit: UnitType,
+  system: UnitSystem,
+  decimals: number = 1
+): string {
+  return `${formatCorrectionValue(cm, distance, unit, system, decimals)} ${getCorrectionUnitLabel(unit, system)}`;
+}
@@ -0,0 +1,63 @@
+/**
+ * Wind direction helpers.
+ *
+ * Wind angles are the direction the wind comes FROM, measured clockwise from
+ * the line of fire over the full circle (see BallisticEnvironment.windAngle):
+ * 0 = headwind, 90 = from the right, 180 = tailwind, 270 = from the left.
+ *
+ * Hunters give the same direction as a clock hour with the target at
+ * 12 o'clock, so "wind from 9 o'clock" is wind from the left (270 deg).
+ */
+
+import { Language } from '../types';
+import { getLanguage, translate } from '../i18n';
+
+/** Degrees per clock hour */
+const DEGREES_PER_HOUR = 30;
+
+/** Clock hours in display order, starting at the top of the dial */
+export const CLOCK_HOURS = [12, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] as const;
+
+/**
+ * Normalize a wind angle to [0, 360).
+ */
+export function normalizeWindAngle(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Wind angle for a clock hour (12 = headwind, 3 = from the right).
+ */
+export function clockToWindAngle(hour: number): number {
+  return normalizeWindAngle(hour * DEGREES_PER_HOUR);
+}
+
+/**
+ * Nearest clock hour (1-12) for a wind angle.
+ */
+export function windAngleToClock(angle: number): number {
+  const hour = Math.round(normalizeWindAngle(angle) / DEGREES_PER_HOUR) % 12;
+  return hour === 0 ? 12 : hour;
+}
+
+/**
+ * Describe a wind direction, with the clock hour when the angle falls
+ * exactly on one.
+ */
+export function getWindDirectionText(angle: number, language: Language = getLanguage()): string {
+  const a = normalizeWindAngle(angle);
+
+  let text: string;
+  if (a === 0) text = translate('wind.headwind', undefined, language);
+  else if (a === 180) text = translate('wind.tailwind', undefined, language);
+  else if (a === 90) text = translate('wind.fromRight', undefined, language);
+  else if (a === 270) text = translate('wind.fromLeft', undefined, language);
+  else if (a < 90) text = translate('wind.fromFrontRight', { angle: a }, language);
+  else if (a < 180) text = translate('wind.fromRearRight', { angle: 180 - a }, language);
+  else if (a < 270) text = translate('wind.fromRearLeft', { angle: a - 180 }, language);
+  else text = translate('wind.fromFrontLeft', { angle: 360 - a }, language);
+
+  return a % DEGREES_PER_HOUR === 0
+    ? translate('wind.clock', { text, hour: windAngleToClock(a) }, language)
+    : text;
+}
@@ -1,5 +1,23 @@
-// Drag model type
-export type DragModel = 'g1' | 'g7';
+// Drag model type ('custom' = ammunition-specific Mach/Cd curve)
+export type DragModel = 'g1' | 'g2' | 'g5' | 'g6' | 'g7' | 'g8' | 'gi' | 'custom';
+
+// Numerical integrator used by the trajectory engine
+export type Integrator = 'euler' | 'rk4';
+
+// Engine options for trajectory calculations
+export interface TrajectoryOptions {
+  integrator?: Integrator; // default 'rk4'
+  timeStep?: number; // seconds, base integration step (halved in the transonic region)
+}
+
+// Engine options for the Monte Carlo hit probability
+export interface HitProbabilityOptions extends TrajectoryOptions {
+  samples?: number; // number of simulated shots
+  seed?: number; // random seed, same seed = same scatter
+}
+
+// Bullet construction, determines terminal performance
+export type BulletConstruction = 'bonded' | 'monolithic' | 'softPoint' | 'fragmenting';
 
 // Velocity-band ballistic coefficient
 export interface BCBand {
@@ -7,37 +25,229 @@ export interface BCBand {
   bc: number;
 }
 
+// Ammunition manufacturers in the database
+export type AmmunitionManufacturer =
+  | 'hornady'
+  | 'federal'
+  | 'nosler'
+  | 'norma'
+  | 'rws'
+  | 'geco'
+  | 'sellierBellot'
+  | 'lapua'
+  | 'blaser';
+
+// Published source of a database load
+export interface AmmunitionSource {
+  manufacturer: AmmunitionManufacturer;
+  productLine: string; // e.g. 'Oryx', 'ID Classic'
+  articleNumber?: string; // manufacturer article number, where known
+  url: string; // product page or data sheet, without protocol
+  verified?: string; // YYYY-MM, month the values were last checked against the data sheet; unset for unverified loads
+}
+
+// Data sources of one manufacturer, summarized from the database for the settings
+export interface DataSourceSummary {
+  manufacturer: AmmunitionManufacturer;
+  name: string;
+  url: string;
+  productLines: string[];
+  calibers: string[];
+  loadCount: number;
+  testBarrelLengths: number[]; // inches, distinct, ascending
+  verified?: string; // YYYY-MM, most recent check, unset if no load was checked
+  unverifiedCount: number; // loads not yet checked against the data sheet
+}
+
 // Ammunition data for a specific load
+// Drag models velocity-band BCs are published for
+export type BCBandsModel = 'g1' | 'g7';
+
 export interface AmmunitionData {
   name: string;
   bulletWeight: number; // grains
   ballisticCoefficient: number; // G1 BC
   bcG7?: number; // G7 ballistic coefficient
   bcBands?: BCBand[]; // velocity-band BCs sorted descending by velocity threshold
+  bcBandsModel?: BCBandsModel; // drag model the bcBands are referenced to (default 'g1')
+  bcByModel?: Partial<Record<DragModel, number>>; // BCs referenced to G2/G5/G6/G8/GI
+  customDragCurve?: [number, number][]; // [Mach, Cd] pairs sorted by Mach, e.g. from Doppler radar
   dragModel?: DragModel; // preferred drag model for this ammo (defaults to 'g1')
   muzzleVelocity: number; // m/s
+  bulletLength?: number; // inches, needed for stability / spin drift
+  bulletDiameter?: number; // inches, e.g. 0.308
+  powderTempReference?: number; // deg C at which muzzleVelocity was measured (default 21)
+  powderTempSensitivity?: number; // m/s change in V0 per deg C powder temperature
+  construction?: BulletConstruction;
+  minExpansionVelocity?: number; // m/s, minimum impact velocity for reliable expansion
+  testBarrelLength?: number; // inches, barrel the muzzle velocity was measured with (manufacturer test barrel or chronograph)
+  velocityPerInch?: number; // m/s change in V0 per inch of barrel length (default DEFAULT_VELOCITY_PER_INCH)
+  unverified?: boolean; // not checked against manufacturer data: custom loads and pack loads without a checked data sheet
+  source?: AmmunitionSource; // set for every database load
+}
+
+// User-entered load in the custom ammunition library
+export interface CustomAmmunition extends AmmunitionData {
+  id: string;
+  caliber: string;
+  createdAt: number; // timestamp
+}
+
+// Custom load as entered, before it gets an id (id set when editing a stored load)
+export type CustomAmmunitionDraft = Omit<CustomAmmunition, 'id' | 'createdAt'> & { id?: string };
+
+// Editor field of a custom load
+export type CustomAmmunitionField =
+  | 'name'
+  | 'bulletWeight'
+  | 'ballisticCoefficient'
+  | 'bcG7'
+  | 'bandVelocity'
+  | 'bandBC'
+  | 'muzzleVelocity'
+  | 'testBarrelLength'
+  | 'bulletLength'
+  | 'bulletDiameter';
+
+// Validation error of a custom load
+export interface CustomAmmunitionError {
+  field: CustomAmmunitionField;
+  reason: 'required' | 'range' | 'duplicate';
+  band?: number; // index into bcBands for bandVelocity / bandBC errors
+  min?: number; // allowed range in the base unit for 'range' errors
+  max?: number;
 }
 
 // Caliber group with available ammunition options
 export interface CaliberGroup {
   caliber: string;
-  description: string;
+  description: LocalizedText;
+  twistRate?: number; // inches per turn, C.I.P./SAAMI standard barrel twist
   ammunition: AmmunitionData[];
 }
 
+// Versioned ammunition database, shipped with the app or imported from a file
+export interface AmmunitionDataPack {
+  schemaVersion: number; // format of the file, see DATA_PACK_SCHEMA_VERSION
+  id: string; // stable identifier, the same for every release of a pack
+  version: number; // increases with every release
+  name: string;
+  published: string; // YYYY-MM
+  calibers: CaliberGroup[];
+}
+
+// Pack release a profile's ammunition was taken from
+export interface DataPackRef {
+  id: string;
+  version: number;
+}
+
+// Schema violation in a data pack, e.g. path 'calibers[2].ammunition[0].muzzleVelocity'
+export interface DataPackError {
+  path: string;
+  reason: 'json' | 'type' | 'required' | 'unknown' | 'range' | 'value' | 'duplicate' | 'order' | 'schemaVersion';
+}
+
+// Comparison of a profile's ammunition with the active data pack
+export interface DataPackUpdate {
+  profileId: string;
+  status: 'unchanged' | 'changed' | 'removed';
+  from?: DataPackRef; // unset for profiles created before data packs
+  to: DataPackRef;
+  ammunition?: AmmunitionData; // the pack's data for 'unchanged' and 'changed'
+}
+
 // User's rifle profile
 export interface RifleProfile {
   id: string;
   name: string;
   caliber: string;
   ammunition: AmmunitionData;
+  dataPack?: DataPackRef; // pack release of the ammunition, unset for custom loads
   zeroDistance: number; // meters
-  zeroType: 'standard' | 'gee'; // GEE = Gunstigste Einschuss Entfernung (+4cm at zero)
+  zeroType: 'standard' | 'gee'; // GEE = Gunstigste Einschuss Entfernung (zeroOffset cm high at zero)
+  zeroOffset?: number; // cm high at zero distance for GEE (default 4)
   sightHeight: number; // cm above bore
+  barrelLength?: number; // inches, adjusts the ammunition's V0 from its test barrel
   dragModel: DragModel; // which drag model to use for calculations (default 'g1')
+  twistRate?: number; // inches per turn (1:x")
+  twistDirection?: 'right' | 'left'; // rifling direction (default 'right')
+  powderTempReference?: number; // deg C, overrides the ammunition's reference temperature
+  powderTempSensitivity?: number; // m/s per deg C, overrides the ammunition's sensitivity
+  muzzleVelocity?: number; // m/s, trued V0 overriding the ammunition's
+  bcScale?: number; // trued BC scale factor (default 1)
+  truingHistory?: TruingRecord[]; // past truing results, oldest first
+  optic?: OpticConfig; // scope turret, enables click output
+  zeroConditions?: ZeroConditions; // atmosphere the rifle was zeroed in (default: standard atmosphere)
   createdAt: number; // timestamp
 }
 
+// Atmosphere at the range where the rifle was zeroed
+export interface ZeroConditions {
+  temperature: number; // Celsius
+  pressure: number; // hPa, station pressure
+  humidity: number; // 0-1
+  altitude: number; // meters above sea level
+  powderTemperature?: number; // Celsius, defaults to temperature
+}
+
+// Turret click value
+export type ClickValue = 'quarterMoa' | 'tenthMil' | 'cm';
+
+// Scope turret configuration
+export interface OpticConfig {
+  clickValue: ClickValue;
+  elevationTravel: number; // clicks, total elevation travel of the turret
+  elevationAboveZero?: number; // clicks the turret turns up from the zero to its top stop, unset = half the travel
+  zeroStop?: number; // clicks the turret still turns below the zero (0 = stops at zero), unset = no zero stop
+  reticle?: string; // RETICLES key, or CUSTOM_RETICLE_KEY for customReticle
+  customReticle?: Reticle; // user-defined reticle
+}
+
+// Reticle focal plane: first (subtensions hold at every magnification) or second
+export type FocalPlane = 'ffp' | 'sfp';
+
+// Reticles of the library plus the user-defined one
+export type ReticleKey = 'plex' | 'milDotFfp' | 'milDotSfp' | 'milHashFfp' | 'moaHashSfp' | 'custom';
+
+// Reticle with hold marks, subtensions in mrad at the reference magnification
+export interface Reticle {
+  key: ReticleKey;
+  focalPlane: FocalPlane;
+  referenceMagnification: number; // SFP: subtensions are true at this magnification (unused for FFP)
+  elevationMarks: number[]; // mrad below the center, ascending
+  windageMarks: number[]; // mrad to either side of the center, ascending
+}
+
+// Nearest reticle hold for a shot at the current magnification
+export interface ReticleHold {
+  scale: number; // true angle per nominal mrad of subtension (1 for FFP or at the reference magnification)
+  holdX: number; // mrad, exact hold (true angle), positive = right of the center
+  holdY: number; // mrad, exact hold (true angle), positive = below the center
+  elevationMark: number; // index into elevationMarks, -1 = horizontal line
+  windageMark: number; // index into windageMarks, -1 = vertical line
+  markX: number; // mrad, true angle of the chosen windage mark (signed)
+  markY: number; // mrad, true angle of the chosen elevation mark
+  errorX: number; // cm at the target from the chosen mark to the exact hold (positive = right)
+  errorY: number; // cm (positive = below)
+}
+
+// Distance estimated from a target of known size in the reticle
+export interface RangeEstimate {
+  distance: number; // m
+  minDistance: number; // m, large reading, small target
+  maxDistance: number; // m, small reading, large target (Infinity if the reading error swallows the reading)
+}
+
+// Turret adjustment for a shot
+export interface TurretClicks {
+  elevation: number; // clicks (positive = up)
+  windage: number; // clicks (positive = right)
+  elevationAvailable: number; // clicks up left above the zero
+  exceedsElevation: boolean; // shot needs more elevation than the turret has left
+  belowZeroStop: boolean; // shot needs dialing down past the zero stop
+}
+
 // Ballistic calculation result
 export interface BallisticResult {
   drop: number; // cm (positive = below line of sight)
@@ -46,6 +256,118 @@ export interface BallisticResult {
   velocity: number; // m/s
   energy: number; // Joules
   machAtTarget: number; // Mach number at impact
+  spinDrift?: number; // cm (positive = right), already included in drift
+  stabilityFactor?: number; // Miller Sg at the muzzle, density corrected
+  coriolisDrift?: number; // cm (positive = right), horizontal Coriolis, already included in drift
+  eotvos?: number; // cm (positive = high), vertical Eotvos effect, already included in drop
+}
+
+// Observed impact used for truing
+export interface TruingObservation {
+  distance: number; // meters
+  drop: number; // cm below line of sight (positive = low)
+}
+
+// Parameter fitted by truing
+export type TruingParameter = 'muzzleVelocity' | 'bcScale';
+
+// Result of a truing fit
+export interface TruingResult {
+  parameter: TruingParameter;
+  value: number; // m/s for muzzleVelocity, factor for bcScale
+  rmsError: number; // cm, remaining RMS drop error over all observations
+}
+
+// Truing result saved on a profile
+export interface TruingRecord extends TruingResult {
+  date: number; // timestamp
+  previousValue: number;
+  observations: TruingObservation[];
+  temperature: number; // Celsius, during the observations
+}
+
+// Optimal GEE / maximum point-blank range for an allowed deviation
+export interface PointBlankResult {
+  allowedDeviation: number; // cm above/below point of aim
+  nearZero: number; // m, bullet rises through the sight line
+  farZero: number; // m, bullet falls through the sight line
+  pointBlankRange: number; // m, bullet leaves the -deviation limit (MPBR)
+  maxOrdinateDistance: number; // m, trajectory apex at +deviation
+  sightInDistance: number; // m, distance for sighting in
+  sightInOffset: number; // cm high at sightInDistance
+}
+
+// Lead for a moving target
+export interface LeadResult {
+  distance: number; // m
+  time: number; // s, time of flight
+  lead: number; // cm ahead of the aiming point on the target
+  bodyLengths: number; // lead in body lengths of the game
+  mil: number; // lead in milliradians
+}
+
+// Legal minimum for a game species (German BJagdG para. 19)
+export interface LegalMinimum {
+  distance: number; // m, distance the energy is required at
+  energy: number; // J
+  minCaliber?: number; // mm, minimum bullet diameter
+}
+
+// Game species shown in the app (names in the translation catalogues)
+export type GameSpeciesKey = 'wildBoar' | 'redDeer' | 'fallowDeer' | 'chamois' | 'roeDeer';
+
+// Game species with the minimum energy rule of thumb
+export interface GameSpecies {
+  key: GameSpeciesKey;
+  bodyLength: number; // m, snout to tail root
+  chestDepth: number; // m, back to brisket, for range estimation with the reticle
+  minEnergy: number; // J, minimum impact energy (rule of thumb)
+  legalMinimum?: LegalMinimum;
+}
+
+// Maximum ethical range of a profile for one species
+export interface EthicalRangeResult {
+  species: GameSpeciesKey;
+  minEnergy: number; // J
+  maxRange: number; // m, last distance with at least minEnergy (0 = not even at the muzzle)
+  legal: boolean; // meets the legal minimum (true if none applies)
+  legalIssue?: 'caliber' | 'energy';
+}
+
+// Shot uncertainties for the hit probability (all one standard deviation)
+export interface ShotUncertainty {
+  muzzleVelocitySD: number; // m/s, shot-to-shot velocity spread
+  bcUncertainty: number; // fraction of the BC, e.g. 0.03 = 3 %
+  dispersion: number; // MOA per axis, rifle and shooter combined
+  rangeErrorSD: number; // m, range estimation error
+  windSpeedSD: number; // m/s, wind speed error along the given wind direction
+}
+
+// Point of impact relative to the point of aim
+export interface ImpactPoint {
+  x: number; // cm, positive = right
+  y: number; // cm, positive = high
+}
+
+// Monte Carlo hit probability for a vital zone
+export interface HitProbabilityResult {
+  distance: number; // m, estimated distance the hold is based on
+  vitalZoneDiameter: number; // cm
+  samples: number;
+  hitProbability: number; // 0-1
+  impacts: ImpactPoint[];
+  meanX: number; // cm, mean point of impact
+  meanY: number; // cm
+  sdX: number; // cm, standard deviation of the impacts
+  sdY: number; // cm
+}
+
+// Wind in one segment of the bullet path
+export interface WindZone {
+  to: number; // m, zone ends here and the next begins (the last zone extends beyond)
+  speed: number; // m/s
+  angle: number; // degrees, same convention as windAngle
+  vertical?: number; // m/s, positive = updraft
 }
 
 // Environmental conditions
@@ -55,7 +377,12 @@ export interface BallisticEnvironment {
   humidity: number; // 0-1
   altitude: number; // meters above sea level
   windSpeed: number; // m/s
-  windAngle: number; // degrees (0=headwind, 90=right crosswind, 180=tailwind)
+  windAngle: number; // degrees the wind comes from (0=headwind, 90=from right, 180=tailwind, 270=from left)
+  shotAngle?: number; // degrees, line of sight inclination (positive = uphill, negative = downhill)
+  latitude?: number; // degrees (positive = north), enables Coriolis/Eotvos corrections
+  azimuth?: number; // degrees, firing direction (0 = north, 90 = east)
+  powderTemperature?: number; // Celsius, defaults to air temperature
+  windZones?: WindZone[]; // wind per distance segment, replaces windSpeed/windAngle when set
 }
 
 // Environment data from sensors/API
@@ -70,19 +397,51 @@ export interface EnvironmentData {
 
 // App settings
 export interface AppSettings {
-  units: 'cm' | 'moa' | 'mil';
-  language: 'de' | 'en';
+  units: 'cm' | 'moa' | 'mil'; // corrections: linear (cm or inches, per unit system) or angular
+  unitSystem: UnitSystem;
+  language: Language;
 }
 
+// UI language, also used for number and date formatting
+export type Language = 'de' | 'en' | 'fr' | 'it';
+
+// Text shipped with the app data in every UI language
+export type LocalizedText = Record<Language, string>;
+
+// Measurement system for all inputs and outputs
+export type UnitSystem = 'metric' | 'imperial' | 'mixed';
+
+// Physical quantities shown to the user (stored internally in the base unit)
+export type UnitQuantity =
+  | 'distance' // m
+  | 'length' // cm
+  | 'velocity' // m/s
+  | 'windSpeed' // m/s
+  | 'targetSpeed' // m/s, moving game
+  | 'energy' // J
+  | 'weight' // gr (bullet weight)
+  | 'temperature' // deg C
+  | 'tempSensitivity' // m/s per deg C, powder temperature sensitivity
+  | 'pressure' // hPa
+  | 'altitude'; // m
+
 // Unit conversion type
 export type UnitType = 'cm' | 'moa' | 'mil';
 
+// Angular units a reticle is read in
+export type AngularUnit = Exclude<UnitType, 'cm'>;
+
 // Onboarding state
 export interface OnboardingState {
   caliber: string | null;
   ammunition: AmmunitionData | null;
   zeroDistance: number;
   zeroType: 'standard' | 'gee';
+  zeroOffset: number | null;
   sightHeight: number;
+  twistRate: number | null;
+  barrelLength: number | null; // null = same as the ammunition's test barrel
+  powderTempSensitivity: number | null;
+  zeroConditions: ZeroConditions | null; // null = zeroed in the standard atmosphere
   profileName: string;
 }